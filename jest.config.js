@@ -0,0 +1,14 @@
+module.exports = {
+  testEnvironment: 'jsdom',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      // The extension builds ES modules from src/ only; Jest needs CommonJS and the tests as well
+      tsconfig: {
+        module: 'commonjs',
+        rootDir: '.'
+      }
+    }]
+  }
+};
@@ -0,0 +1,372 @@
+/**
+ * AdaptationAgent - DOM Remediation Agent
+ * Applies fixes in a tab's content script and records every change with its before/after state
+ * Reverts fixes on request and forgets their records so they are not replayed
+ * Replays stored remediations when a page is revisited and answers remediation state queries
+ */
+
+import { BaseAgent } from './BaseAgent';
+import { messageBus } from '../utils/MessageBus';
+import type {
+  AdaptationAction,
+  AdaptationRequest,
+  AgentMessage,
+  AgentResponse,
+  AppliedRemediation,
+  RemediationApplyResult,
+  RemediationRecord,
+  RemediationReplayResult,
+  RemediationRevertResult,
+  RemediationState
+} from '../types/index';
+
+export class AdaptationAgent extends BaseAgent {
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  private subscriptionId: string | null = null;
+  private tabRemediations: Map<number, { pageUrl: string; records: RemediationRecord[] }> = new Map();
+
+  private readonly ACTIONS: readonly AdaptationAction[] = ['apply-fixes', 'revert-fixes', 'page-ready', 'get-remediation-state'];
+  private readonly STORAGE_KEY = 'accessiaiRemediations';
+  private readonly MAX_RECORDS_PER_PAGE = 100;
+  private readonly MAX_STORED_PAGES = 200;
+
+  private readonly handleTabRemoved = (tabId: number) => {
+    this.tabRemediations.delete(tabId);
+  };
+
+  constructor() {
+    super({
+      id: 'adaptation-agent',
+      name: 'Adaptation Agent',
+      version: '2.0.0',
+      capabilities: ['dom-modification', 'accessibility-fixes'],
+      dependencies: ['perception-agent']
+    });
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  override async initialize(): Promise<void> {
+    console.log(`[${this.agentName}] Initializing...`);
+
+    this.subscriptionId = await messageBus.subscribe(this.agentId, message => this.handleBusMessage(message));
+    chrome.tabs.onRemoved.addListener(this.handleTabRemoved);
+
+    console.log(`[${this.agentName}] Listening for ${this.ACTIONS.join(', ')}`);
+  }
+
+  override async shutdown(): Promise<void> {
+    console.log(`[${this.agentName}] Shutting down...`);
+
+    if (this.subscriptionId) {
+      await messageBus.unsubscribe(this.subscriptionId);
+      this.subscriptionId = null;
+    }
+    chrome.tabs.onRemoved.removeListener(this.handleTabRemoved);
+    this.tabRemediations.clear();
+  }
+
+  // ============================================================================
+  // MESSAGE PROCESSING
+  // ============================================================================
+
+  override async processMessage(message: AgentMessage): Promise<AgentResponse> {
+    const startTime = performance.now();
+
+    if (!this.validateMessage(message)) {
+      return this.createErrorResponse(this.createAgentError('INVALID_MESSAGE', 'Invalid message format'));
+    }
+
+    try {
+      const request = (message.payload.data ?? {}) as AdaptationRequest;
+      let result: RemediationApplyResult | RemediationRevertResult | RemediationReplayResult | RemediationState | null;
+
+      switch (message.payload.action as AdaptationAction) {
+        case 'apply-fixes':
+          result = await this.applyFixes(request);
+          break;
+
+        case 'revert-fixes':
+          result = await this.revertFixes(request);
+          break;
+
+        case 'page-ready':
+          result = await this.replayRemediations(request);
+          break;
+
+        case 'get-remediation-state':
+          result = await this.getRemediationState(request);
+          break;
+
+        default:
+          return this.createErrorResponse(
+            this.createAgentError('UNKNOWN_ACTION', `Unknown action: ${message.payload.action}`),
+            performance.now() - startTime
+          );
+      }
+
+      const processingTime = performance.now() - startTime;
+      this.recordMetric('response_time', processingTime);
+      this.updateHeartbeat();
+
+      return this.createSuccessResponse(result, processingTime);
+
+    } catch (error) {
+      const agentError = this.createAgentError(
+        'ADAPTATION_FAILED',
+        error instanceof Error ? error.message : 'Remediation failed',
+        error
+      );
+      this.recordError(agentError);
+      return this.createErrorResponse(agentError, performance.now() - startTime);
+    }
+  }
+
+  override getConfiguration(): Record<string, unknown> {
+    return {
+      agentId: this.agentId,
+      name: this.agentName,
+      version: this.agentVersion,
+      capabilities: this.capabilities,
+      dependencies: this.dependencies,
+      type: 'adaptation',
+      actions: this.ACTIONS,
+      trackedTabs: this.tabRemediations.size
+    };
+  }
+
+  /**
+   * Process commands, queries and events; answer commands and queries
+   */
+  private async handleBusMessage(message: AgentMessage): Promise<void> {
+    if (message.type !== 'command' && message.type !== 'query' && message.type !== 'event') {
+      return;
+    }
+
+    const response = await this.processMessage(message);
+
+    if (message.type !== 'event') {
+      await messageBus.route(this.createReplyMessage(message, response));
+    }
+  }
+
+  // ============================================================================
+  // REMEDIATION
+  // ============================================================================
+
+  /**
+   * Fix issues in the tab's content script and record the applied changes
+   */
+  private async applyFixes(request: AdaptationRequest): Promise<RemediationApplyResult> {
+    const tabId = await this.resolveTabId(request);
+
+    const response = await chrome.tabs.sendMessage(tabId, {
+      type: 'ADAPTATION_APPLY_FIXES',
+      ...(request.issueIds ? { issueIds: request.issueIds } : {})
+    });
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond');
+    }
+
+    const { pageUrl, remediations, failed } = response.data as {
+      pageUrl: string;
+      remediations: AppliedRemediation[];
+      failed: number;
+    };
+
+    const applied: RemediationRecord[] = remediations.map(remediation => ({
+      ...remediation,
+      id: `remediation-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      tabId,
+      pageUrl
+    }));
+
+    const tabEntry = this.getTabEntry(tabId, pageUrl);
+    tabEntry.records.push(...applied);
+
+    if (applied.length > 0) {
+      const stored = await this.loadStoredRemediations();
+      // A newer fix of the same element replaces the older record
+      const replaced = new Set(applied.map(record => `${record.locator}|${record.fixAction}`));
+      const pageRecords = (stored[pageUrl] ?? [])
+        .filter(record => !replaced.has(`${record.locator}|${record.fixAction}`))
+        .concat(applied);
+
+      stored[pageUrl] = pageRecords.slice(-this.MAX_RECORDS_PER_PAGE);
+      await this.saveStoredRemediations(stored);
+    }
+
+    console.log(`[${this.agentName}] Applied ${applied.length} fixes in tab ${tabId}, ${failed} failed`);
+
+    return { pageUrl, applied, failed };
+  }
+
+  /**
+   * Undo fixes in the tab's content script and forget their records
+   */
+  private async revertFixes(request: AdaptationRequest): Promise<RemediationRevertResult> {
+    const tabId = await this.resolveTabId(request);
+    if (!request.issueIds || request.issueIds.length === 0) {
+      throw new Error('revert-fixes requires issueIds');
+    }
+
+    // The tab entry is lost when the service worker restarts; the tab's URL still finds the stored records
+    const pageUrl = this.tabRemediations.get(tabId)?.pageUrl ?? (await chrome.tabs.get(tabId)).url;
+    if (!pageUrl) {
+      throw new Error('Tab has no page to revert fixes in');
+    }
+
+    const wanted = new Set(request.issueIds);
+    const tabEntry = this.getTabEntry(tabId, pageUrl);
+    const stored = await this.loadStoredRemediations();
+    const records = new Map(
+      [...tabEntry.records, ...(stored[pageUrl] ?? [])]
+        .filter(record => wanted.has(record.issue.id))
+        .map(record => [record.issue.id, record])
+    );
+
+    const response = await chrome.tabs.sendMessage(tabId, {
+      type: 'ADAPTATION_REVERT_FIXES',
+      records: [...records.values()]
+    });
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond');
+    }
+
+    const reverted = new Set((response.data as { reverted: string[] }).reverted);
+    tabEntry.records = tabEntry.records.filter(record => !reverted.has(record.issue.id));
+
+    const pageRecords = stored[pageUrl] ?? [];
+    const remaining = pageRecords.filter(record => !reverted.has(record.issue.id));
+    if (remaining.length < pageRecords.length) {
+      if (remaining.length > 0) {
+        stored[pageUrl] = remaining;
+      } else {
+        delete stored[pageUrl];
+      }
+      await this.saveStoredRemediations(stored);
+    }
+
+    console.log(`[${this.agentName}] Reverted fixes for ${reverted.size} issues in tab ${tabId}`);
+
+    return { pageUrl, reverted: [...reverted] };
+  }
+
+  /**
+   * Replay the remediations stored for a page that was just loaded in a tab
+   */
+  private async replayRemediations(request: AdaptationRequest): Promise<RemediationReplayResult> {
+    const tabId = await this.resolveTabId(request);
+    if (!request.pageUrl) {
+      throw new Error('page-ready requires a pageUrl');
+    }
+
+    // A new page load starts with none of the earlier changes in place
+    const tabEntry = { pageUrl: request.pageUrl, records: [] as RemediationRecord[] };
+    this.tabRemediations.set(tabId, tabEntry);
+
+    const stored = await this.loadStoredRemediations();
+    const pageRecords = stored[request.pageUrl] ?? [];
+    if (pageRecords.length === 0) {
+      return { reapplied: [], skipped: [] };
+    }
+
+    const response = await chrome.tabs.sendMessage(tabId, {
+      type: 'ADAPTATION_REAPPLY',
+      records: pageRecords
+    });
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond');
+    }
+
+    const replay = response.data as RemediationReplayResult;
+    const reapplied = new Set(replay.reapplied);
+    const reappliedAt = Date.now();
+
+    stored[request.pageUrl] = pageRecords.map(record =>
+      reapplied.has(record.id) ? { ...record, tabId, reappliedAt } : record
+    );
+    tabEntry.records.push(...stored[request.pageUrl]!.filter(record => reapplied.has(record.id)));
+    await this.saveStoredRemediations(stored);
+
+    console.log(`[${this.agentName}] Reapplied ${replay.reapplied.length} stored fixes in tab ${tabId}, skipped ${replay.skipped.length}`);
+
+    return replay;
+  }
+
+  /**
+   * Remediations in place in a tab and stored for its page
+   */
+  private async getRemediationState(request: AdaptationRequest): Promise<RemediationState> {
+    const tabId = request.tabId ?? (request.pageUrl ? null : await this.resolveTabId(request));
+    const tabEntry = tabId !== null ? this.tabRemediations.get(tabId) : undefined;
+    const pageUrl = request.pageUrl ?? tabEntry?.pageUrl ?? null;
+    const stored = pageUrl ? (await this.loadStoredRemediations())[pageUrl] ?? [] : [];
+
+    return {
+      tabId,
+      pageUrl,
+      active: tabEntry && tabEntry.pageUrl === pageUrl ? [...tabEntry.records] : [],
+      stored
+    };
+  }
+
+  // ============================================================================
+  // STORAGE
+  // ============================================================================
+
+  private async loadStoredRemediations(): Promise<Record<string, RemediationRecord[]>> {
+    const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+    return (result[this.STORAGE_KEY] as Record<string, RemediationRecord[]> | undefined) ?? {};
+  }
+
+  private async saveStoredRemediations(stored: Record<string, RemediationRecord[]>): Promise<void> {
+    const pages = Object.keys(stored);
+
+    // Forget the pages fixed longest ago
+    if (pages.length > this.MAX_STORED_PAGES) {
+      const lastChange = (pageUrl: string) => Math.max(
+        ...(stored[pageUrl] ?? []).map(record => record.reappliedAt ?? record.appliedAt)
+      );
+      pages
+        .sort((a, b) => lastChange(a) - lastChange(b))
+        .slice(0, pages.length - this.MAX_STORED_PAGES)
+        .forEach(pageUrl => delete stored[pageUrl]);
+    }
+
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: stored });
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  private getTabEntry(tabId: number, pageUrl: string): { pageUrl: string; records: RemediationRecord[] } {
+    let tabEntry = this.tabRemediations.get(tabId);
+    if (!tabEntry || tabEntry.pageUrl !== pageUrl) {
+      tabEntry = { pageUrl, records: [] };
+      this.tabRemediations.set(tabId, tabEntry);
+    }
+    return tabEntry;
+  }
+
+  private async resolveTabId(request: AdaptationRequest): Promise<number> {
+    if (request.tabId !== undefined) {
+      return request.tabId;
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    if (tab?.id === undefined) {
+      throw new Error('No active tab to adapt');
+    }
+    return tab.id;
+  }
+}
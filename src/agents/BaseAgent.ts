@@ -400,6 +400,25 @@ export abstract class BaseAgent {
     return response;
   }
 
+  /**
+   * Create the message answering a command or query, matched by correlationId
+   */
+  protected createReplyMessage(request: AgentMessage, response: AgentResponse): AgentMessage {
+    return {
+      id: `response-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      type: 'response',
+      source: this.agentId,
+      target: request.replyTo ?? request.source,
+      payload: {
+        action: request.payload.action,
+        data: response
+      },
+      timestamp: Date.now(),
+      priority: request.priority,
+      correlationId: request.id
+    };
+  }
+
   /**
    * Create a success response
    */
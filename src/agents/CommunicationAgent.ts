@@ -0,0 +1,540 @@
+/**
+ * CommunicationAgent - Speech Output Agent
+ * Reads pages aloud with chrome.tts in the reading order prepared by the content script
+ * Handles play/pause, sentence and paragraph skipping, word highlighting and spoken scan results
+ */
+
+import { BaseAgent } from './BaseAgent';
+import { messageBus } from '../utils/MessageBus';
+import { DEFAULT_SPEECH_SETTINGS } from '../types/index';
+import type {
+  AgentMessage,
+  AgentResponse,
+  CommunicationAction,
+  CommunicationRequest,
+  PerceptionResult,
+  ReaderDocument,
+  ReaderHighlight,
+  ReaderState,
+  ReaderStatus,
+  SpeechSettings,
+  SpeechVoice
+} from '../types/index';
+
+interface ReaderSession {
+  readonly tabId: number;
+  readonly document: ReaderDocument;
+  paragraph: number;
+  sentence: number;
+  status: Exclude<ReaderStatus, 'idle'>;
+  resumeAfterAnnouncement: boolean;
+}
+
+export class CommunicationAgent extends BaseAgent {
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  private subscriptionId: string | null = null;
+  private session: ReaderSession | null = null;   // chrome.tts speaks one utterance at a time, so one reader
+  private utterance: number = 0;                  // events of older utterances are ignored
+  private speech: SpeechSettings = DEFAULT_SPEECH_SETTINGS;
+
+  private readonly ACTIONS: readonly CommunicationAction[] = [
+    'read-page', 'pause', 'resume', 'stop', 'skip', 'announce', 'announce-scan', 'get-reader-state', 'get-voices'
+  ];
+
+  private readonly handleTabRemoved = (tabId: number) => {
+    if (this.session?.tabId === tabId) {
+      this.session = null;
+      this.silence();
+    }
+  };
+
+  private readonly handleTabUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+    // The prepared text belongs to the page being left
+    if (this.session?.tabId === tabId && changeInfo.status === 'loading') {
+      void this.stopReading();
+    }
+  };
+
+  private readonly handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+    if (changes['accessiaiSettings']) {
+      this.speech = this.readSpeechSettings(changes['accessiaiSettings'].newValue);
+    }
+  };
+
+  constructor() {
+    super({
+      id: 'communication-agent',
+      name: 'Communication Agent',
+      version: '2.0.0',
+      capabilities: ['text-to-speech', 'page-reading', 'announcements'],
+      dependencies: ['perception-agent']
+    });
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  override async initialize(): Promise<void> {
+    console.log(`[${this.agentName}] Initializing...`);
+
+    const result = await chrome.storage.local.get(['accessiaiSettings']);
+    this.speech = this.readSpeechSettings(result['accessiaiSettings']);
+
+    this.subscriptionId = await messageBus.subscribe(this.agentId, message => this.handleBusMessage(message));
+    chrome.tabs.onRemoved.addListener(this.handleTabRemoved);
+    chrome.tabs.onUpdated.addListener(this.handleTabUpdated);
+    chrome.storage.onChanged.addListener(this.handleStorageChange);
+
+    console.log(`[${this.agentName}] Listening for ${this.ACTIONS.join(', ')}`);
+  }
+
+  override async shutdown(): Promise<void> {
+    console.log(`[${this.agentName}] Shutting down...`);
+
+    if (this.subscriptionId) {
+      await messageBus.unsubscribe(this.subscriptionId);
+      this.subscriptionId = null;
+    }
+    chrome.tabs.onRemoved.removeListener(this.handleTabRemoved);
+    chrome.tabs.onUpdated.removeListener(this.handleTabUpdated);
+    chrome.storage.onChanged.removeListener(this.handleStorageChange);
+
+    await this.stopReading();
+  }
+
+  // ============================================================================
+  // MESSAGE PROCESSING
+  // ============================================================================
+
+  override async processMessage(message: AgentMessage): Promise<AgentResponse> {
+    const startTime = performance.now();
+
+    if (!this.validateMessage(message)) {
+      return this.createErrorResponse(this.createAgentError('INVALID_MESSAGE', 'Invalid message format'));
+    }
+
+    try {
+      const request = (message.payload.data ?? {}) as CommunicationRequest;
+      let result: ReaderState | SpeechVoice[] | { announced: boolean; text?: string };
+
+      switch (message.payload.action as CommunicationAction) {
+        case 'read-page':
+          result = await this.readPage(request);
+          break;
+
+        case 'pause':
+          result = await this.pauseReading();
+          break;
+
+        case 'resume':
+          result = await this.resumeReading();
+          break;
+
+        case 'stop':
+          result = await this.stopReading();
+          break;
+
+        case 'skip':
+          result = await this.skip(request);
+          break;
+
+        case 'announce':
+          if (!request.text) {
+            throw new Error('announce requires text');
+          }
+          await this.announce(request.text);
+          result = { announced: true, text: request.text };
+          break;
+
+        case 'announce-scan':
+          if (!request.scan) {
+            throw new Error('announce-scan requires a scan result');
+          }
+          result = await this.announceScan(request.scan);
+          break;
+
+        case 'get-reader-state':
+          result = this.getReaderState();
+          break;
+
+        case 'get-voices':
+          result = await this.getVoices();
+          break;
+
+        default:
+          return this.createErrorResponse(
+            this.createAgentError('UNKNOWN_ACTION', `Unknown action: ${message.payload.action}`),
+            performance.now() - startTime
+          );
+      }
+
+      const processingTime = performance.now() - startTime;
+      this.recordMetric('response_time', processingTime);
+      this.updateHeartbeat();
+
+      return this.createSuccessResponse(result, processingTime);
+
+    } catch (error) {
+      const agentError = this.createAgentError(
+        'COMMUNICATION_FAILED',
+        error instanceof Error ? error.message : 'Speech failed',
+        error
+      );
+      this.recordError(agentError);
+      return this.createErrorResponse(agentError, performance.now() - startTime);
+    }
+  }
+
+  override getConfiguration(): Record<string, unknown> {
+    return {
+      agentId: this.agentId,
+      name: this.agentName,
+      version: this.agentVersion,
+      capabilities: this.capabilities,
+      dependencies: this.dependencies,
+      type: 'communication',
+      actions: this.ACTIONS,
+      readerStatus: this.session?.status ?? 'idle'
+    };
+  }
+
+  /**
+   * Process commands, queries and events; answer commands and queries
+   */
+  private async handleBusMessage(message: AgentMessage): Promise<void> {
+    if (message.type !== 'command' && message.type !== 'query' && message.type !== 'event') {
+      return;
+    }
+
+    const response = await this.processMessage(message);
+
+    if (message.type !== 'event') {
+      await messageBus.route(this.createReplyMessage(message, response));
+    }
+  }
+
+  // ============================================================================
+  // PAGE READER
+  // ============================================================================
+
+  /**
+   * Prepare the tab's text and start reading it from the top
+   */
+  private async readPage(request: CommunicationRequest): Promise<ReaderState> {
+    const tabId = await this.resolveTabId(request);
+
+    const response = await chrome.tabs.sendMessage(tabId, { type: 'READER_PREPARE' });
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond');
+    }
+
+    const readerDocument = response.data as ReaderDocument;
+    if (readerDocument.paragraphs.length === 0) {
+      throw new Error('No readable text on the page');
+    }
+
+    // Reading a new page ends the reader in any other tab
+    if (this.session && this.session.tabId !== tabId) {
+      await this.stopReading();
+    }
+
+    this.session = { tabId, document: readerDocument, paragraph: 0, sentence: 0, status: 'playing', resumeAfterAnnouncement: false };
+    this.speakCurrentSentence();
+
+    console.log(`[${this.agentName}] Reading ${readerDocument.paragraphs.length} paragraphs in tab ${tabId}`);
+
+    return this.getReaderState();
+  }
+
+  /**
+   * Pause reading; resuming starts again at the beginning of the sentence
+   */
+  private async pauseReading(): Promise<ReaderState> {
+    const session = this.requireSession();
+
+    if (session.status === 'playing') {
+      // chrome.tts.pause() is ignored by many voices, so stop and remember the place instead
+      session.status = 'paused';
+      session.resumeAfterAnnouncement = false;
+      this.silence();
+      this.sendToTab('READER_STATE', { state: this.getReaderState() });
+    }
+
+    return this.getReaderState();
+  }
+
+  private async resumeReading(): Promise<ReaderState> {
+    const session = this.requireSession();
+
+    if (session.status === 'paused') {
+      session.status = 'playing';
+      this.speakCurrentSentence();
+    }
+
+    return this.getReaderState();
+  }
+
+  private async stopReading(): Promise<ReaderState> {
+    const session = this.session;
+    this.session = null;
+    this.silence();
+
+    if (session) {
+      this.sendToTab('READER_STATE', { state: this.getReaderState() }, session.tabId);
+    }
+
+    return this.getReaderState();
+  }
+
+  /**
+   * Move the reader by a sentence or a paragraph, staying within the page
+   */
+  private async skip(request: CommunicationRequest): Promise<ReaderState> {
+    const session = this.requireSession();
+    const paragraphs = session.document.paragraphs;
+    const forward = (request.direction ?? 'next') === 'next';
+
+    if ((request.unit ?? 'sentence') === 'paragraph') {
+      session.paragraph = Math.min(Math.max(session.paragraph + (forward ? 1 : -1), 0), paragraphs.length - 1);
+      session.sentence = 0;
+    } else if (forward) {
+      if (session.sentence + 1 < (paragraphs[session.paragraph]?.sentences.length ?? 0)) {
+        session.sentence++;
+      } else if (session.paragraph + 1 < paragraphs.length) {
+        session.paragraph++;
+        session.sentence = 0;
+      }
+    } else if (session.sentence > 0) {
+      session.sentence--;
+    } else if (session.paragraph > 0) {
+      session.paragraph--;
+      session.sentence = Math.max((paragraphs[session.paragraph]?.sentences.length ?? 1) - 1, 0);
+    }
+
+    if (session.status === 'playing') {
+      this.speakCurrentSentence();
+    } else {
+      this.showPosition(session);
+    }
+
+    return this.getReaderState();
+  }
+
+  /**
+   * Speak the sentence at the reader's position, continuing with the next one when it ends
+   */
+  private speakCurrentSentence(): void {
+    const session = this.session;
+    if (!session) return;
+
+    const paragraph = session.document.paragraphs[session.paragraph];
+    const sentence = paragraph?.sentences[session.sentence];
+    if (!paragraph || sentence === undefined) {
+      void this.stopReading();
+      return;
+    }
+
+    // The label is spoken first, so word positions are shifted by its length
+    const prefix = session.sentence === 0 && paragraph.label ? `${paragraph.label}. ` : '';
+    const utterance = ++this.utterance;
+
+    this.showPosition(session);
+    chrome.tts.speak(prefix + sentence, {
+      ...this.getSpeakOptions(session.document.lang),
+      enqueue: false,
+      onEvent: event => this.handleReaderEvent(utterance, prefix.length, sentence, event)
+    });
+  }
+
+  private handleReaderEvent(utterance: number, offset: number, sentence: string, event: chrome.tts.TtsEvent): void {
+    const session = this.session;
+    if (utterance !== this.utterance || !session || session.status !== 'playing') {
+      return;
+    }
+
+    switch (event.type) {
+      case 'word': {
+        const charIndex = (event.charIndex ?? 0) - offset;
+        if (!this.speech.highlightWords || charIndex < 0) return;
+
+        const highlight: ReaderHighlight = {
+          paragraph: session.paragraph,
+          sentence: session.sentence,
+          charIndex,
+          length: event.length ?? (/^\S+/.exec(sentence.slice(charIndex))?.[0].length ?? 0)
+        };
+        this.sendToTab('READER_HIGHLIGHT', { highlight }, session.tabId);
+        break;
+      }
+
+      case 'end':
+        if (this.advance(session)) {
+          this.speakCurrentSentence();
+        } else {
+          console.log(`[${this.agentName}] Finished reading tab ${session.tabId}`);
+          void this.stopReading();
+        }
+        break;
+
+      case 'error':
+        this.recordError(this.createAgentError('TTS_ERROR', event.errorMessage || 'Speech engine error'));
+        void this.stopReading();
+        break;
+    }
+  }
+
+  /**
+   * Move to the next sentence; false at the end of the page
+   */
+  private advance(session: ReaderSession): boolean {
+    const paragraphs = session.document.paragraphs;
+
+    if (session.sentence + 1 < (paragraphs[session.paragraph]?.sentences.length ?? 0)) {
+      session.sentence++;
+      return true;
+    }
+    if (session.paragraph + 1 < paragraphs.length) {
+      session.paragraph++;
+      session.sentence = 0;
+      return true;
+    }
+    return false;
+  }
+
+  private showPosition(session: ReaderSession): void {
+    const highlight: ReaderHighlight = { paragraph: session.paragraph, sentence: session.sentence, charIndex: 0, length: 0 };
+    this.sendToTab('READER_HIGHLIGHT', { highlight }, session.tabId);
+    this.sendToTab('READER_STATE', { state: this.getReaderState() }, session.tabId);
+  }
+
+  // ============================================================================
+  // ANNOUNCEMENTS
+  // ============================================================================
+
+  /**
+   * Speak a message, pausing the reader until it is done
+   */
+  private async announce(text: string): Promise<void> {
+    const session = this.session;
+    if (session?.status === 'playing') {
+      session.status = 'paused';
+      session.resumeAfterAnnouncement = true;
+    }
+
+    const utterance = ++this.utterance;
+    chrome.tts.speak(text, {
+      ...this.getSpeakOptions(),
+      enqueue: false,
+      onEvent: event => {
+        if (utterance !== this.utterance || (event.type !== 'end' && event.type !== 'error')) return;
+
+        if (this.session === session && session?.resumeAfterAnnouncement) {
+          session.resumeAfterAnnouncement = false;
+          session.status = 'playing';
+          this.speakCurrentSentence();
+        }
+      }
+    });
+  }
+
+  /**
+   * Speak a short summary of a finished scan when the user asked for it
+   */
+  private async announceScan(scan: PerceptionResult): Promise<{ announced: boolean; text?: string }> {
+    if (!this.speech.announceScanResults) {
+      return { announced: false };
+    }
+
+    const parts = [
+      `Accessibility scan complete. ${scan.totalIssues === 0 ? 'No' : scan.totalIssues} ${scan.totalIssues === 1 ? 'issue' : 'issues'} found.`
+    ];
+    if (scan.criticalIssues > 0) {
+      parts.push(`${scan.criticalIssues} critical.`);
+    }
+    parts.push(`Compliance score ${Math.round(scan.complianceScore)}.`);
+
+    const text = parts.join(' ');
+    await this.announce(text);
+    return { announced: true, text };
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  private getReaderState(): ReaderState {
+    return {
+      tabId: this.session?.tabId ?? null,
+      pageUrl: this.session?.document.pageUrl ?? null,
+      status: this.session?.status ?? 'idle',
+      paragraph: this.session?.paragraph ?? 0,
+      sentence: this.session?.sentence ?? 0,
+      totalParagraphs: this.session?.document.paragraphs.length ?? 0
+    };
+  }
+
+  private async getVoices(): Promise<SpeechVoice[]> {
+    const voices = await chrome.tts.getVoices();
+    return voices
+      .filter(voice => voice.voiceName)
+      .map(voice => ({
+        name: voice.voiceName!,
+        ...(voice.lang ? { lang: voice.lang } : {}),
+        remote: voice.remote ?? false
+      }));
+  }
+
+  private getSpeakOptions(lang?: string): chrome.tts.SpeakOptions {
+    return {
+      rate: this.speech.rate,
+      pitch: this.speech.pitch,
+      volume: this.speech.volume,
+      ...(this.speech.voiceName ? { voiceName: this.speech.voiceName } : lang ? { lang } : {})
+    };
+  }
+
+  private readSpeechSettings(settings: unknown): SpeechSettings {
+    const stored = (settings as { accessibility?: { speech?: Partial<SpeechSettings> } } | undefined)
+      ?.accessibility?.speech;
+    return { ...DEFAULT_SPEECH_SETTINGS, ...stored };
+  }
+
+  private requireSession(): ReaderSession {
+    if (!this.session) {
+      throw new Error('The page reader is not running');
+    }
+    return this.session;
+  }
+
+  /**
+   * Stop speech and drop the events of whatever was being spoken
+   */
+  private silence(): void {
+    this.utterance++;
+    chrome.tts.stop();
+  }
+
+  private sendToTab(type: string, data: Record<string, unknown>, tabId: number | undefined = this.session?.tabId): void {
+    if (tabId === undefined) return;
+
+    chrome.tabs.sendMessage(tabId, { type, ...data }).catch(error => {
+      console.warn(`[${this.agentName}] Failed to send ${type} to tab ${tabId}:`, error);
+    });
+  }
+
+  private async resolveTabId(request: CommunicationRequest): Promise<number> {
+    if (request.tabId !== undefined) {
+      return request.tabId;
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    if (tab?.id === undefined) {
+      throw new Error('No active tab to read');
+    }
+    return tab.id;
+  }
+}
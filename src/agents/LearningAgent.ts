@@ -0,0 +1,335 @@
+/**
+ * LearningAgent - Local Personalization Agent
+ * Counts which quick fixes the user applies, undoes or dismisses per site and issue type
+ * Turns those counts into an issue ranking and auto-fix suggestions; nothing leaves the IndexedDB store
+ */
+
+import { BaseAgent } from './BaseAgent';
+import { messageBus } from '../utils/MessageBus';
+import { IndexedDBManager } from '../utils/IndexedDBManager';
+import type {
+  AccessibilityIssueType,
+  AgentMessage,
+  AgentResponse,
+  AutoFixSuggestion,
+  FixFeedbackEvent,
+  FixFeedbackStats,
+  LearningAction,
+  LearningInsights,
+  LearningRequest
+} from '../types/index';
+
+export class LearningAgent extends BaseAgent {
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  private subscriptionId: string | null = null;
+  private readonly database = IndexedDBManager.getInstance();
+
+  private readonly ACTIONS: readonly LearningAction[] = ['record-feedback', 'get-insights', 'answer-suggestion', 'clear-history'];
+
+  private readonly ALL_SITES = '*';
+  private readonly RANKING_PRIOR = 2;              // pseudo-decisions that pull sparse counts towards 0
+  private readonly OTHER_SITES_WEIGHT = 0.5;       // decisions made elsewhere count half on this site
+  private readonly SUGGESTION_MIN_APPLIED = 3;
+  private readonly DEFAULT_RETENTION_DAYS = 30;
+
+  constructor() {
+    super({
+      id: 'learning-agent',
+      name: 'Learning Agent',
+      version: '2.0.0',
+      capabilities: ['fix-feedback', 'issue-ranking', 'auto-fix-suggestions'],
+      dependencies: ['adaptation-agent']
+    });
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  override async initialize(): Promise<void> {
+    console.log(`[${this.agentName}] Initializing...`);
+
+    this.subscriptionId = await messageBus.subscribe(this.agentId, message => this.handleBusMessage(message));
+
+    try {
+      await this.pruneExpired();
+    } catch (error) {
+      console.warn(`[${this.agentName}] Could not prune expired feedback:`, error);
+    }
+
+    console.log(`[${this.agentName}] Listening for ${this.ACTIONS.join(', ')}`);
+  }
+
+  override async shutdown(): Promise<void> {
+    console.log(`[${this.agentName}] Shutting down...`);
+
+    if (this.subscriptionId) {
+      await messageBus.unsubscribe(this.subscriptionId);
+      this.subscriptionId = null;
+    }
+  }
+
+  // ============================================================================
+  // MESSAGE PROCESSING
+  // ============================================================================
+
+  override async processMessage(message: AgentMessage): Promise<AgentResponse> {
+    const startTime = performance.now();
+
+    if (!this.validateMessage(message)) {
+      return this.createErrorResponse(this.createAgentError('INVALID_MESSAGE', 'Invalid message format'));
+    }
+
+    try {
+      const request = (message.payload.data ?? {}) as LearningRequest;
+      let result: FixFeedbackStats[] | LearningInsights | { cleared: number };
+
+      switch (message.payload.action as LearningAction) {
+        case 'record-feedback':
+          if (!request.event) {
+            throw new Error('record-feedback requires an event');
+          }
+          result = await this.recordFeedback(request.event);
+          break;
+
+        case 'get-insights':
+          if (request.site === undefined) {
+            throw new Error('get-insights requires a site');
+          }
+          result = await this.getInsights(request.site);
+          break;
+
+        case 'answer-suggestion':
+          if (!request.issueType || request.accepted === undefined) {
+            throw new Error('answer-suggestion requires an issueType and an answer');
+          }
+          result = await this.answerSuggestion(request.issueType, request.accepted);
+          break;
+
+        case 'clear-history':
+          result = await this.clearHistory(request.site);
+          break;
+
+        default:
+          return this.createErrorResponse(
+            this.createAgentError('UNKNOWN_ACTION', `Unknown action: ${message.payload.action}`),
+            performance.now() - startTime
+          );
+      }
+
+      const processingTime = performance.now() - startTime;
+      this.recordMetric('response_time', processingTime);
+      this.updateHeartbeat();
+
+      return this.createSuccessResponse(result, processingTime);
+
+    } catch (error) {
+      const agentError = this.createAgentError(
+        'LEARNING_FAILED',
+        error instanceof Error ? error.message : 'Learning request failed',
+        error
+      );
+      this.recordError(agentError);
+      return this.createErrorResponse(agentError, performance.now() - startTime);
+    }
+  }
+
+  override getConfiguration(): Record<string, unknown> {
+    return {
+      agentId: this.agentId,
+      name: this.agentName,
+      version: this.agentVersion,
+      capabilities: this.capabilities,
+      dependencies: this.dependencies,
+      type: 'learning',
+      actions: this.ACTIONS,
+      suggestionMinApplied: this.SUGGESTION_MIN_APPLIED
+    };
+  }
+
+  /**
+   * Process commands, queries and events; answer commands and queries
+   */
+  private async handleBusMessage(message: AgentMessage): Promise<void> {
+    if (message.type !== 'command' && message.type !== 'query' && message.type !== 'event') {
+      return;
+    }
+
+    const response = await this.processMessage(message);
+
+    if (message.type !== 'event') {
+      await messageBus.route(this.createReplyMessage(message, response));
+    }
+  }
+
+  // ============================================================================
+  // FEEDBACK
+  // ============================================================================
+
+  /**
+   * Add one decision to the site's counts and to the all-sites counts
+   */
+  private async recordFeedback(event: FixFeedbackEvent): Promise<FixFeedbackStats[]> {
+    const ids = [this.getStatsId(event.site, event.issueType), this.getStatsId(this.ALL_SITES, event.issueType)];
+    const existing = await this.database.retrieveFixFeedbackStats([event.site, this.ALL_SITES]);
+
+    const updated = [event.site, this.ALL_SITES].map((site, index) => {
+      const current = existing.find(stats => stats.id === ids[index]);
+      return {
+        ...(current ?? { id: ids[index]!, site, issueType: event.issueType, applied: 0, undone: 0, dismissed: 0 }),
+        fixAction: event.fixAction ?? current?.fixAction ?? null,
+        [event.outcome]: (current?.[event.outcome] ?? 0) + 1,
+        updatedAt: event.recordedAt
+      } as FixFeedbackStats;
+    });
+
+    await this.database.storeFixFeedbackStats(updated);
+    return updated;
+  }
+
+  /**
+   * Record the answer to an auto-fix suggestion so it is not offered again
+   */
+  private async answerSuggestion(issueType: AccessibilityIssueType, accepted: boolean): Promise<FixFeedbackStats[]> {
+    const id = this.getStatsId(this.ALL_SITES, issueType);
+    const current = (await this.database.retrieveFixFeedbackStats([this.ALL_SITES])).find(stats => stats.id === id);
+    if (!current) {
+      throw new Error(`No feedback recorded for ${issueType}`);
+    }
+
+    const updated: FixFeedbackStats = { ...current, suggestion: accepted ? 'accepted' : 'declined', updatedAt: Date.now() };
+    await this.database.storeFixFeedbackStats([updated]);
+    return [updated];
+  }
+
+  /**
+   * Forget one site's decisions, or every decision when no site is given
+   */
+  private async clearHistory(site?: string): Promise<{ cleared: number }> {
+    if (site === undefined || site === this.ALL_SITES) {
+      const all = await this.database.retrieveFixFeedbackStats();
+      await this.database.deleteFixFeedbackStats(all.map(stats => stats.id));
+      return { cleared: all.length };
+    }
+
+    const [siteStats, totals] = await Promise.all([
+      this.database.retrieveFixFeedbackStats([site]),
+      this.database.retrieveFixFeedbackStats([this.ALL_SITES])
+    ]);
+
+    // Take the site's share out of the all-sites counts as well
+    const reduced = siteStats.flatMap(stats => {
+      const total = totals.find(candidate => candidate.issueType === stats.issueType);
+      return total ? [this.subtractCounts(total, stats)] : [];
+    });
+
+    await this.database.deleteFixFeedbackStats([
+      ...siteStats.map(stats => stats.id),
+      ...reduced.filter(stats => this.isEmpty(stats) && !stats.suggestion).map(stats => stats.id)
+    ]);
+    await this.database.storeFixFeedbackStats(reduced.filter(stats => !this.isEmpty(stats) || stats.suggestion));
+
+    return { cleared: siteStats.length };
+  }
+
+  /**
+   * Drop counts not touched within the privacy retention period
+   */
+  private async pruneExpired(): Promise<void> {
+    const result = await chrome.storage.local.get(['accessiaiSettings']);
+    const retentionDays = (result['accessiaiSettings'] as { privacy?: { dataRetentionDays?: number } } | undefined)
+      ?.privacy?.dataRetentionDays ?? this.DEFAULT_RETENTION_DAYS;
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const expired = (await this.database.retrieveFixFeedbackStats()).filter(stats => stats.updatedAt < cutoff);
+
+    if (expired.length > 0) {
+      await this.database.deleteFixFeedbackStats(expired.map(stats => stats.id));
+      console.log(`[${this.agentName}] Pruned ${expired.length} expired feedback records`);
+    }
+  }
+
+  // ============================================================================
+  // INSIGHTS
+  // ============================================================================
+
+  /**
+   * Rank issue types for a site and list the types worth fixing automatically
+   */
+  private async getInsights(site: string): Promise<LearningInsights> {
+    const [siteStats, totals, autoFixIssueTypes] = await Promise.all([
+      this.database.retrieveFixFeedbackStats([site]),
+      this.database.retrieveFixFeedbackStats([this.ALL_SITES]),
+      this.getAutoFixIssueTypes()
+    ]);
+
+    const ranking: Partial<Record<AccessibilityIssueType, number>> = {};
+    totals.forEach(total => {
+      const local = siteStats.find(stats => stats.issueType === total.issueType);
+      const elsewhere = local ? this.subtractCounts(total, local) : total;
+
+      const net = (local ? this.getNet(local) : 0) + this.OTHER_SITES_WEIGHT * this.getNet(elsewhere);
+      const decisions = (local ? this.getDecisions(local) : 0) + this.OTHER_SITES_WEIGHT * this.getDecisions(elsewhere);
+
+      ranking[total.issueType] = net / (decisions + this.RANKING_PRIOR);
+    });
+
+    const suggestions: AutoFixSuggestion[] = totals
+      .filter(total =>
+        total.fixAction !== null &&
+        total.suggestion === undefined &&
+        total.applied >= this.SUGGESTION_MIN_APPLIED &&
+        total.undone === 0 &&
+        total.dismissed === 0 &&
+        !autoFixIssueTypes.includes(total.issueType)
+      )
+      .map(total => ({ issueType: total.issueType, fixAction: total.fixAction!, applied: total.applied }))
+      .sort((a, b) => b.applied - a.applied);
+
+    return { site, ranking, suggestions };
+  }
+
+  private async getAutoFixIssueTypes(): Promise<readonly AccessibilityIssueType[]> {
+    const result = await chrome.storage.local.get(['accessiaiSettings']);
+    return (result['accessiaiSettings'] as { accessibility?: { autoFixIssueTypes?: AccessibilityIssueType[] } } | undefined)
+      ?.accessibility?.autoFixIssueTypes ?? [];
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  private getStatsId(site: string, issueType: AccessibilityIssueType): string {
+    return `${site}|${issueType}`;
+  }
+
+  /**
+   * Kept fixes count for the type, undone fixes and dismissals against it
+   */
+  private getNet(stats: FixFeedbackStats): number {
+    return (stats.applied - stats.undone) - (stats.undone + stats.dismissed);
+  }
+
+  /**
+   * Undone fixes were counted as applied first, so they are not extra decisions
+   */
+  private getDecisions(stats: FixFeedbackStats): number {
+    return stats.applied + stats.dismissed;
+  }
+
+  private subtractCounts(total: FixFeedbackStats, part: FixFeedbackStats): FixFeedbackStats {
+    return {
+      ...total,
+      applied: Math.max(0, total.applied - part.applied),
+      undone: Math.max(0, total.undone - part.undone),
+      dismissed: Math.max(0, total.dismissed - part.dismissed)
+    };
+  }
+
+  private isEmpty(stats: FixFeedbackStats): boolean {
+    return stats.applied === 0 && stats.undone === 0 && stats.dismissed === 0;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * NavigationAgent - Structural Page Navigation Agent
+ * Drives the content script's navigation overlay: landmark, heading and form field jumps,
+ * the navigation rotor and skip link injection
+ * Answers get-navigation-map, jump, toggle-rotor and inject-skip-link over the message bus
+ */
+
+import { BaseAgent } from './BaseAgent';
+import { messageBus } from '../utils/MessageBus';
+import type {
+  AgentMessage,
+  AgentResponse,
+  NavigationAction,
+  NavigationRequest
+} from '../types/index';
+
+export class NavigationAgent extends BaseAgent {
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  private subscriptionId: string | null = null;
+
+  private readonly ACTIONS: readonly NavigationAction[] = ['get-navigation-map', 'jump', 'toggle-rotor', 'inject-skip-link'];
+
+  constructor() {
+    super({
+      id: 'navigation-agent',
+      name: 'Navigation Agent',
+      version: '2.0.0',
+      capabilities: ['landmark-navigation', 'keyboard-navigation', 'skip-navigation'],
+      dependencies: ['perception-agent']
+    });
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  override async initialize(): Promise<void> {
+    console.log(`[${this.agentName}] Initializing...`);
+
+    this.subscriptionId = await messageBus.subscribe(this.agentId, message => this.handleBusMessage(message));
+
+    console.log(`[${this.agentName}] Listening for ${this.ACTIONS.join(', ')}`);
+  }
+
+  override async shutdown(): Promise<void> {
+    console.log(`[${this.agentName}] Shutting down...`);
+
+    if (this.subscriptionId) {
+      await messageBus.unsubscribe(this.subscriptionId);
+      this.subscriptionId = null;
+    }
+  }
+
+  // ============================================================================
+  // MESSAGE PROCESSING
+  // ============================================================================
+
+  override async processMessage(message: AgentMessage): Promise<AgentResponse> {
+    const startTime = performance.now();
+
+    if (!this.validateMessage(message)) {
+      return this.createErrorResponse(this.createAgentError('INVALID_MESSAGE', 'Invalid message format'));
+    }
+
+    try {
+      const request = (message.payload.data ?? {}) as NavigationRequest;
+      let result: unknown;
+
+      switch (message.payload.action as NavigationAction) {
+        case 'get-navigation-map':
+          result = await this.sendToTab(request, { type: 'NAVIGATION_GET_MAP' });
+          break;
+
+        case 'jump':
+          if (!request.kind) {
+            throw new Error('jump requires a kind');
+          }
+          result = await this.sendToTab(request, {
+            type: 'NAVIGATION_JUMP',
+            kind: request.kind,
+            direction: request.direction ?? 'next'
+          });
+          break;
+
+        case 'toggle-rotor':
+          result = await this.sendToTab(request, { type: 'NAVIGATION_TOGGLE_ROTOR' });
+          break;
+
+        case 'inject-skip-link':
+          result = await this.sendToTab(request, { type: 'NAVIGATION_INJECT_SKIP_LINK' });
+          break;
+
+        default:
+          return this.createErrorResponse(
+            this.createAgentError('UNKNOWN_ACTION', `Unknown action: ${message.payload.action}`),
+            performance.now() - startTime
+          );
+      }
+
+      const processingTime = performance.now() - startTime;
+      this.recordMetric('response_time', processingTime);
+      this.updateHeartbeat();
+
+      return this.createSuccessResponse(result, processingTime);
+
+    } catch (error) {
+      const agentError = this.createAgentError(
+        'NAVIGATION_FAILED',
+        error instanceof Error ? error.message : 'Navigation failed',
+        error
+      );
+      this.recordError(agentError);
+      return this.createErrorResponse(agentError, performance.now() - startTime);
+    }
+  }
+
+  override getConfiguration(): Record<string, unknown> {
+    return {
+      agentId: this.agentId,
+      name: this.agentName,
+      version: this.agentVersion,
+      capabilities: this.capabilities,
+      dependencies: this.dependencies,
+      type: 'navigation',
+      actions: this.ACTIONS
+    };
+  }
+
+  /**
+   * Answer commands and queries with a response matched by correlationId
+   */
+  private async handleBusMessage(message: AgentMessage): Promise<void> {
+    if (message.type !== 'command' && message.type !== 'query') {
+      return;
+    }
+
+    const response = await this.processMessage(message);
+
+    await messageBus.route(this.createReplyMessage(message, response));
+  }
+
+  // ============================================================================
+  // NAVIGATION
+  // ============================================================================
+
+  /**
+   * Forward a navigation message to the tab's content script overlay
+   */
+  private async sendToTab(request: NavigationRequest, contentMessage: Record<string, unknown>): Promise<unknown> {
+    const tabId = await this.resolveTabId(request);
+
+    const response = await chrome.tabs.sendMessage(tabId, contentMessage);
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond');
+    }
+
+    return response.data;
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  private async resolveTabId(request: NavigationRequest): Promise<number> {
+    if (request.tabId !== undefined) {
+      return request.tabId;
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    if (tab?.id === undefined) {
+      throw new Error('No active tab to navigate');
+    }
+    return tab.id;
+  }
+}
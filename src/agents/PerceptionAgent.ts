@@ -0,0 +1,211 @@
+/**
+ * PerceptionAgent - Page Analysis Agent
+ * Runs the content script's unified accessibility analysis on request
+ * Answers analyze-page, analyze-element and get-last-result over the message bus
+ * Last results are kept in session storage so they survive service worker restarts
+ */
+
+import { BaseAgent } from './BaseAgent';
+import { messageBus } from '../utils/MessageBus';
+import type {
+  AgentMessage,
+  AgentResponse,
+  PerceptionAction,
+  PerceptionRequest,
+  PerceptionResult,
+  PerceptionSnapshot
+} from '../types/index';
+
+export class PerceptionAgent extends BaseAgent {
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  private subscriptionId: string | null = null;
+
+  private readonly ACTIONS: readonly PerceptionAction[] = ['analyze-page', 'analyze-element', 'get-last-result'];
+  private readonly STORAGE_KEY = 'accessiaiPerceptionResults';   // last result by tab ID
+
+  private readonly handleTabRemoved = (tabId: number) => {
+    void this.forgetResult(tabId);
+  };
+
+  constructor() {
+    super({
+      id: 'perception-agent',
+      name: 'Perception Agent',
+      version: '2.0.0',
+      capabilities: ['dom-analysis', 'accessibility-scanning'],
+      dependencies: ['coordination-agent']
+    });
+  }
+
+  // ============================================================================
+  // LIFECYCLE
+  // ============================================================================
+
+  override async initialize(): Promise<void> {
+    console.log(`[${this.agentName}] Initializing...`);
+
+    this.subscriptionId = await messageBus.subscribe(this.agentId, message => this.handleBusMessage(message));
+    chrome.tabs.onRemoved.addListener(this.handleTabRemoved);
+
+    console.log(`[${this.agentName}] Listening for ${this.ACTIONS.join(', ')}`);
+  }
+
+  override async shutdown(): Promise<void> {
+    console.log(`[${this.agentName}] Shutting down...`);
+
+    if (this.subscriptionId) {
+      await messageBus.unsubscribe(this.subscriptionId);
+      this.subscriptionId = null;
+    }
+    chrome.tabs.onRemoved.removeListener(this.handleTabRemoved);
+  }
+
+  // ============================================================================
+  // MESSAGE PROCESSING
+  // ============================================================================
+
+  override async processMessage(message: AgentMessage): Promise<AgentResponse> {
+    const startTime = performance.now();
+
+    if (!this.validateMessage(message)) {
+      return this.createErrorResponse(this.createAgentError('INVALID_MESSAGE', 'Invalid message format'));
+    }
+
+    try {
+      const request = (message.payload.data ?? {}) as PerceptionRequest;
+      let result: PerceptionResult | null;
+
+      switch (message.payload.action as PerceptionAction) {
+        case 'analyze-page':
+          result = await this.analyze(request);
+          break;
+
+        case 'analyze-element':
+          if (!request.selector) {
+            throw new Error('analyze-element requires a selector');
+          }
+          result = await this.analyze(request, request.selector);
+          break;
+
+        case 'get-last-result':
+          result = (await this.loadLastResults())[await this.resolveTabId(request)] ?? null;
+          break;
+
+        default:
+          return this.createErrorResponse(
+            this.createAgentError('UNKNOWN_ACTION', `Unknown action: ${message.payload.action}`),
+            performance.now() - startTime
+          );
+      }
+
+      const processingTime = performance.now() - startTime;
+      this.recordMetric('response_time', processingTime);
+      this.updateHeartbeat();
+
+      return this.createSuccessResponse(result, processingTime);
+
+    } catch (error) {
+      const agentError = this.createAgentError(
+        'PERCEPTION_FAILED',
+        error instanceof Error ? error.message : 'Analysis failed',
+        error
+      );
+      this.recordError(agentError);
+      return this.createErrorResponse(agentError, performance.now() - startTime);
+    }
+  }
+
+  override getConfiguration(): Record<string, unknown> {
+    return {
+      agentId: this.agentId,
+      name: this.agentName,
+      version: this.agentVersion,
+      capabilities: this.capabilities,
+      dependencies: this.dependencies,
+      type: 'perception',
+      actions: this.ACTIONS
+    };
+  }
+
+  /**
+   * Answer commands and queries with a response matched by correlationId
+   */
+  private async handleBusMessage(message: AgentMessage): Promise<void> {
+    if (message.type !== 'command' && message.type !== 'query') {
+      return;
+    }
+
+    const response = await this.processMessage(message);
+
+    await messageBus.route(this.createReplyMessage(message, response));
+  }
+
+  // ============================================================================
+  // ANALYSIS
+  // ============================================================================
+
+  /**
+   * Run the analysis in the tab's content script, scoped to an element when a selector is given
+   */
+  private async analyze(request: PerceptionRequest, selector?: string): Promise<PerceptionResult> {
+    const tabId = await this.resolveTabId(request);
+
+    const response = await chrome.tabs.sendMessage(tabId, {
+      type: 'PERCEPTION_ANALYZE',
+      ...(selector ? { selector } : {})
+    });
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond');
+    }
+
+    const result: PerceptionResult = { ...(response.data as PerceptionSnapshot), tabId };
+    await this.saveLastResult(result);
+
+    console.log(`[${this.agentName}] Analyzed ${result.scope} in tab ${tabId}: ${result.totalIssues} issues`);
+
+    return result;
+  }
+
+  // ============================================================================
+  // STORAGE
+  // ============================================================================
+
+  private async loadLastResults(): Promise<Record<number, PerceptionResult>> {
+    const result = await chrome.storage.session.get([this.STORAGE_KEY]);
+    return (result[this.STORAGE_KEY] as Record<number, PerceptionResult> | undefined) ?? {};
+  }
+
+  private async saveLastResult(result: PerceptionResult): Promise<void> {
+    const stored = await this.loadLastResults();
+    await chrome.storage.session.set({ [this.STORAGE_KEY]: { ...stored, [result.tabId]: result } });
+  }
+
+  private async forgetResult(tabId: number): Promise<void> {
+    const stored = await this.loadLastResults();
+    if (!(tabId in stored)) {
+      return;
+    }
+    delete stored[tabId];
+    await chrome.storage.session.set({ [this.STORAGE_KEY]: stored });
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  private async resolveTabId(request: PerceptionRequest): Promise<number> {
+    if (request.tabId !== undefined) {
+      return request.tabId;
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    if (tab?.id === undefined) {
+      throw new Error('No active tab to analyze');
+    }
+    return tab.id;
+  }
+}
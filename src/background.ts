@@ -1,12 +1,19 @@
 /**
  * AccessiAI Background Service Worker
  * Chrome Extension Manifest V3 Service Worker
- * Manages agent lifecycle, message routing, and system coordination
+ * Manages agent lifecycle, message routing, site crawls, and system coordination
  */
 
-import type { AgentMetadata, SystemHealthReport } from './types/index';
+import type { AdaptationRequest, AgentMetadata, AgentResponse, CommunicationRequest, FixFeedbackEvent, LearningRequest, NavigationRequest, PerceptionRequest, PerceptionResult, SystemHealthReport } from './types/index';
 import { agentLifecycleManager } from './utils/AgentLifecycleManager';
+import type { BaseAgent } from './agents/BaseAgent';
 import { PlaceholderAgent } from './agents/PlaceholderAgent';
+import { PerceptionAgent } from './agents/PerceptionAgent';
+import { AdaptationAgent } from './agents/AdaptationAgent';
+import { NavigationAgent } from './agents/NavigationAgent';
+import { CommunicationAgent } from './agents/CommunicationAgent';
+import { LearningAgent } from './agents/LearningAgent';
+import { siteCrawler } from './utils/SiteCrawler';
 
 // ============================================================================
 // SERVICE WORKER LIFECYCLE
@@ -107,7 +114,7 @@ class BackgroundServiceManager {
       console.log('[AccessiAI] Initializing agent lifecycle management...');
       
       // Register system agents for accessibility analysis and coordination
-      await this.registerPlaceholderAgents();
+      await this.registerAgents();
       
       // Start all registered agents
       await agentLifecycleManager.startAllAgents();
@@ -120,12 +127,12 @@ class BackgroundServiceManager {
     }
   }
 
-  private async registerPlaceholderAgents(): Promise<void> {
+  private async registerAgents(): Promise<void> {
     try {
-      console.log('[AccessiAI] Registering placeholder agents...');
+      console.log('[AccessiAI] Registering agents...');
       
       // Register core accessibility agents for DOM analysis and coordination
-      const placeholderAgents = [
+      const agents = [
         {
           id: 'coordination-agent',
           name: 'Coordination Agent',
@@ -158,25 +165,66 @@ class BackgroundServiceManager {
           autoRestart: true,
           maxRestartAttempts: 3,
           healthCheckInterval: 5000
+        },
+        {
+          id: 'navigation-agent',
+          name: 'Navigation Agent',
+          version: '2.0.0',
+          capabilities: ['landmark-navigation', 'keyboard-navigation', 'skip-navigation'],
+          dependencies: ['perception-agent'],
+          priority: 3,
+          autoRestart: true,
+          maxRestartAttempts: 3,
+          healthCheckInterval: 5000
+        },
+        {
+          id: 'communication-agent',
+          name: 'Communication Agent',
+          version: '2.0.0',
+          capabilities: ['text-to-speech', 'page-reading', 'announcements'],
+          dependencies: ['perception-agent'],
+          priority: 3,
+          autoRestart: true,
+          maxRestartAttempts: 3,
+          healthCheckInterval: 5000
+        },
+        {
+          id: 'learning-agent',
+          name: 'Learning Agent',
+          version: '2.0.0',
+          capabilities: ['fix-feedback', 'issue-ranking', 'auto-fix-suggestions'],
+          dependencies: ['adaptation-agent'],
+          priority: 4,
+          autoRestart: true,
+          maxRestartAttempts: 3,
+          healthCheckInterval: 5000
         }
       ];
       
-      // Register each placeholder agent
-      for (const agentConfig of placeholderAgents) {
-        const agentFactory = () => new PlaceholderAgent(
+      // Agents without an implementation yet run as placeholders
+      const agentFactories: Record<string, () => BaseAgent> = {
+        'perception-agent': () => new PerceptionAgent(),
+        'adaptation-agent': () => new AdaptationAgent(),
+        'navigation-agent': () => new NavigationAgent(),
+        'communication-agent': () => new CommunicationAgent(),
+        'learning-agent': () => new LearningAgent()
+      };
+      
+      for (const agentConfig of agents) {
+        const agentFactory = agentFactories[agentConfig.id] ?? (() => new PlaceholderAgent(
           agentConfig.id,
           agentConfig.name,
           agentConfig.capabilities
-        );
+        ));
         
         await agentLifecycleManager.registerAgent(agentConfig, agentFactory);
-        console.log(`[AccessiAI] Registered placeholder agent: ${agentConfig.name}`);
+        console.log(`[AccessiAI] Registered agent: ${agentConfig.name}`);
       }
       
-      console.log(`[AccessiAI] Successfully registered ${placeholderAgents.length} placeholder agents`);
+      console.log(`[AccessiAI] Successfully registered ${agents.length} agents`);
       
     } catch (error) {
-      console.error('[AccessiAI] Failed to register placeholder agents:', error);
+      console.error('[AccessiAI] Failed to register agents:', error);
       throw error;
     }
   }
@@ -250,40 +298,109 @@ async function handleMessage(message: any, _sender: chrome.runtime.MessageSender
         }
       };
     
-    case 'ANALYZE_PAGE_CONTENT':
-      // Route to perception agent via message bus
-      try {
-        const { messageBus } = await import('./utils/MessageBus');
-        const agentMessage = {
-          id: `analyze-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-          type: 'command' as const,
-          source: 'background-service',
-          target: 'perception-agent',
-          payload: {
-            action: 'analyze-page',
-            data: message.data
-          },
-          timestamp: Date.now(),
-          priority: 'normal' as const
-        };
-        
-        await messageBus.route(agentMessage);
-        
-        return {
-          success: true,
-          data: { message: 'Page analysis request routed to perception agent' }
-        };
-      } catch (error) {
-        console.error('[AccessiAI] Failed to route analysis request:', error);
-        return {
-          success: false,
-          error: { 
-            code: 'ROUTING_FAILED',
-            message: 'Failed to route page analysis request',
-            timestamp: Date.now()
-          }
-        };
+    case 'ANALYZE_PAGE_CONTENT': {
+      // Content scripts analyze their own tab; the popup names the tab or uses the active one
+      const request: PerceptionRequest = { ...message.data };
+      const response = await requestAgent('perception-agent', 'command', 'analyze-page', _sender.tab?.id !== undefined
+        ? { ...request, tabId: _sender.tab.id }
+        : request);
+      if (response.success) {
+        // Spoken only when the user turned on scan announcements
+        await publishAgentEvent('communication-agent', 'announce-scan', { scan: response.data as PerceptionResult });
       }
+      return response;
+    }
+    
+    case 'ANALYZE_ELEMENT':
+      return requestAgent('perception-agent', 'command', 'analyze-element', message.data ?? {});
+    
+    case 'GET_LAST_ANALYSIS':
+      return requestAgent('perception-agent', 'query', 'get-last-result', message.data ?? {});
+    
+    case 'APPLY_FIXES': {
+      // Content scripts fix their own tab; the popup names the tab
+      const request: AdaptationRequest = { ...message.data };
+      return requestAgent('adaptation-agent', 'command', 'apply-fixes', _sender.tab?.id !== undefined
+        ? { ...request, tabId: _sender.tab.id }
+        : request);
+    }
+    
+    case 'REVERT_FIXES': {
+      const request: AdaptationRequest = { ...message.data };
+      return requestAgent('adaptation-agent', 'command', 'revert-fixes', _sender.tab?.id !== undefined
+        ? { ...request, tabId: _sender.tab.id }
+        : request);
+    }
+    
+    case 'GET_REMEDIATION_STATE':
+      return requestAgent('adaptation-agent', 'query', 'get-remediation-state', message.data ?? {});
+    
+    case 'GET_NAVIGATION_MAP':
+      return requestAgent('navigation-agent', 'query', 'get-navigation-map', message.data ?? {});
+    
+    case 'NAVIGATION_JUMP':
+      return requestAgent('navigation-agent', 'command', 'jump', message.data ?? {});
+    
+    case 'TOGGLE_NAVIGATION_ROTOR':
+      return requestAgent('navigation-agent', 'command', 'toggle-rotor', message.data ?? {});
+    
+    case 'INJECT_SKIP_LINK':
+      return requestAgent('navigation-agent', 'command', 'inject-skip-link', message.data ?? {});
+    
+    case 'READ_PAGE_ALOUD':
+      return requestAgent('communication-agent', 'command', 'read-page', message.data ?? {});
+    
+    case 'READER_CONTROL': {
+      // Sent by the reader toolbar in the page or by the popup
+      const { action, ...request }: { action?: string } & CommunicationRequest = message.data ?? {};
+      if (!action || !['pause', 'resume', 'stop', 'skip'].includes(action)) {
+        return { success: false, error: { code: 'INVALID_READER_CONTROL', message: `Unknown reader control: ${action}`, timestamp: Date.now() } };
+      }
+      return requestAgent('communication-agent', 'command', action, request);
+    }
+    
+    case 'GET_READER_STATE':
+      return requestAgent('communication-agent', 'query', 'get-reader-state', message.data ?? {});
+    
+    case 'GET_TTS_VOICES':
+      return requestAgent('communication-agent', 'query', 'get-voices', message.data ?? {});
+    
+    case 'SPEAK_TEXT':
+      return requestAgent('communication-agent', 'command', 'announce', message.data ?? {});
+    
+    case 'RECORD_FIX_FEEDBACK': {
+      // Counted locally by the learning agent; the panel does not wait for it
+      const event: FixFeedbackEvent | undefined = message.data?.event;
+      if (!event) {
+        return { success: false, error: { code: 'INVALID_FEEDBACK', message: 'RECORD_FIX_FEEDBACK requires an event', timestamp: Date.now() } };
+      }
+      const request: LearningRequest = { event };
+      await publishAgentEvent('learning-agent', 'record-feedback', request);
+      return { success: true };
+    }
+    
+    case 'GET_LEARNING_INSIGHTS':
+      return requestAgent('learning-agent', 'query', 'get-insights', message.data ?? {});
+    
+    case 'ANSWER_AUTO_FIX_SUGGESTION':
+      return requestAgent('learning-agent', 'command', 'answer-suggestion', message.data ?? {});
+    
+    case 'CLEAR_LEARNING_HISTORY':
+      return requestAgent('learning-agent', 'command', 'clear-history', message.data ?? {});
+    
+    case 'PAGE_READY': {
+      // Published rather than routed so the page does not wait for the replay
+      if (_sender.tab?.id === undefined) {
+        return { success: false, error: { code: 'NO_TAB', message: 'PAGE_READY must come from a tab', timestamp: Date.now() } };
+      }
+      // Crawled pages are measured as served, without stored fixes
+      if (siteCrawler.isCrawlTab(_sender.tab.id)) {
+        return { success: true };
+      }
+      const request: AdaptationRequest = { tabId: _sender.tab.id, pageUrl: message.url };
+      await publishAgentEvent('adaptation-agent', 'page-ready', request);
+      return { success: true };
+    }
     
     case 'ANALYZE_PAGE':
       // Legacy support - redirect to new message format
@@ -317,6 +434,45 @@ async function handleMessage(message: any, _sender: chrome.runtime.MessageSender
         }
       };
     
+    case 'START_SITE_CRAWL':
+      return {
+        success: true,
+        data: await siteCrawler.start(message.options)
+      };
+    
+    case 'CANCEL_SITE_CRAWL':
+      siteCrawler.cancel();
+      return { success: true };
+    
+    case 'IS_CRAWL_TAB':
+      return {
+        success: true,
+        data: { crawling: _sender.tab?.id !== undefined && siteCrawler.isCrawlTab(_sender.tab.id) }
+      };
+    
+    case 'GET_SITE_CRAWL_STATUS': {
+      const crawlState = await siteCrawler.getState();
+      return {
+        success: true,
+        data: {
+          state: crawlState,
+          dashboard: crawlState ? siteCrawler.getDashboard(crawlState) : null
+        }
+      };
+    }
+    
+    case 'ANALYSIS_REGRESSION':
+      // Flag the tab until it navigates; details are in the popup's trend view
+      if (_sender.tab?.id !== undefined) {
+        await chrome.action.setBadgeBackgroundColor({ tabId: _sender.tab.id, color: '#dc3545' });
+        await chrome.action.setBadgeText({ tabId: _sender.tab.id, text: '!' });
+        await chrome.action.setTitle({
+          tabId: _sender.tab.id,
+          title: `AccessiAI - accessibility regressed (score ${message.previousScore} → ${message.currentScore})`
+        });
+      }
+      return { success: true };
+    
       default:
         console.warn(`[AccessiAI] Unknown message type: ${message.type}`);
         return {
@@ -341,6 +497,70 @@ async function handleMessage(message: any, _sender: chrome.runtime.MessageSender
   }
 }
 
+/**
+ * Send a command or query to an agent and wait for its correlated response
+ */
+async function requestAgent(
+  target: string,
+  type: 'command' | 'query',
+  action: string,
+  data: PerceptionRequest | AdaptationRequest | NavigationRequest | CommunicationRequest | LearningRequest
+): Promise<any> {
+  try {
+    const { messageBus } = await import('./utils/MessageBus');
+    const response = await messageBus.request({
+      id: `${action}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      type,
+      source: 'background-service',
+      target,
+      payload: { action, data },
+      timestamp: Date.now(),
+      priority: 'normal'
+    });
+    
+    const agentResponse = response.payload.data as AgentResponse;
+    return {
+      success: agentResponse.success,
+      data: agentResponse.data,
+      error: agentResponse.error
+    };
+  } catch (error) {
+    console.error(`[AccessiAI] Request ${action} to ${target} failed:`, error);
+    return {
+      success: false,
+      error: {
+        code: 'ROUTING_FAILED',
+        message: error instanceof Error ? error.message : `Failed to route ${action} request`,
+        timestamp: Date.now()
+      }
+    };
+  }
+}
+
+/**
+ * Publish an event to an agent without waiting for it to be handled
+ */
+async function publishAgentEvent(
+  target: string,
+  action: string,
+  data: AdaptationRequest | CommunicationRequest | LearningRequest
+): Promise<void> {
+  try {
+    const { messageBus } = await import('./utils/MessageBus');
+    await messageBus.publish(target, {
+      id: `${action}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      type: 'event',
+      source: 'background-service',
+      target,
+      payload: { action, data },
+      timestamp: Date.now(),
+      priority: 'normal'
+    });
+  } catch (error) {
+    console.error(`[AccessiAI] Publishing ${action} to ${target} failed:`, error);
+  }
+}
+
 // ============================================================================
 // CONTENT SCRIPT COMMUNICATION
 // ============================================================================
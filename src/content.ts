@@ -4,8 +4,19 @@
  * Provides DOM scanning, issue detection, and automated fixes
  */
 
-import { AccessibilityAnalysis, PageContext, AccessibilityIssue } from './types/index';
+import { AccessibilityAnalysis, AccessibilityIssue, AccessibilityIssueType, AnalysisRunComparison, CrawlPageSnapshot, PerceptionSnapshot, AppliedRemediation, RemediationRecord, RemediationReplayResult, RemediationRevertResult } from './types/index';
 import { PanelAnalysisIntegration } from './integration/PanelAnalysisIntegration';
+import { UnifiedAnalysisCoordinator } from './utils/UnifiedAnalysisCoordinator';
+import { issueTriageManager } from './utils/IssueTriageManager';
+import { composedPathLocator } from './utils/ComposedPathLocator';
+import { analysisHistoryTracker } from './utils/AnalysisHistoryTracker';
+import { tabOrderOverlay } from './ui/TabOrderOverlay';
+import { quickActionControls } from './ui/QuickActionControls';
+import { navigationOverlay } from './ui/NavigationOverlay';
+import { pageReaderOverlay } from './ui/PageReaderOverlay';
+import { ProductionIntegrationCoordinatorImpl } from './integration/ProductionIntegrationCoordinator';
+import type { ProductionSystemEvent } from './types/production';
+import type { ReportFormat } from './utils/ReportGenerator';
 
 // ============================================================================
 // CONTENT SCRIPT INITIALIZATION
@@ -19,6 +30,7 @@ class AccessiAIContent {
   private analysisInProgress: boolean = false;
   private integration: PanelAnalysisIntegration | null = null;
   private lastAnalysisResult: AccessibilityAnalysis | null = null;
+  private pendingMutations: MutationRecord[] = [];
 
   // ============================================================================
   // INITIALIZATION
@@ -38,6 +50,9 @@ class AccessiAIContent {
       // Establish connection with background script
       this.setupBackgroundConnection();
       
+      // Forward regression alerts to the toolbar badge
+      this.setupRegressionAlerts();
+      
       // Set up DOM observation
       this.setupDOMObserver();
       
@@ -47,12 +62,25 @@ class AccessiAIContent {
       // Initialize integration system
       await this.initializeIntegration();
       
+      // Pages opened by the site crawler are analyzed and stored once, on the crawler's request
+      const crawling = await this.isCrawlTab();
+      
       // Perform initial page analysis
-      await this.performInitialAnalysis();
+      if (!crawling) {
+        await this.performInitialAnalysis();
+      }
       
       // Set up direct message listener for popup communication
       this.setupDirectMessageListener();
       
+      // Let the adaptation agent replay remediations stored for this page
+      if (!crawling) {
+        this.announcePageReady();
+      }
+      
+      // Jump keys, rotor and skip link
+      await this.setupNavigation();
+      
       console.log('[AccessiAI] Content script initialized successfully');
       
     } catch (error) {
@@ -99,6 +127,70 @@ class AccessiAIContent {
           });
           return true;
         
+        case 'EXPORT_REPORT':
+          sendResponse(this.handleExportReport(message.format));
+          return false;
+        
+        case 'CRAWL_ANALYZE_PAGE':
+          this.handleCrawlAnalyzePage().then(sendResponse);
+          return true;
+        
+        case 'GET_ANALYSIS_HISTORY':
+          this.handleGetAnalysisHistory().then(sendResponse);
+          return true;
+        
+        case 'TOGGLE_TAB_ORDER_OVERLAY':
+          sendResponse(this.handleToggleTabOrderOverlay());
+          return false;
+        
+        case 'RUN_KEYBOARD_PROBE':
+          this.handleRunKeyboardProbe().then(sendResponse);
+          return true;
+        
+        case 'PERCEPTION_ANALYZE':
+          this.handlePerceptionAnalyze(message.selector).then(sendResponse);
+          return true;
+        
+        case 'ADAPTATION_APPLY_FIXES':
+          this.handleAdaptationApplyFixes(message.issueIds).then(sendResponse);
+          return true;
+        
+        case 'ADAPTATION_REVERT_FIXES':
+          this.handleAdaptationRevertFixes(message.records).then(sendResponse);
+          return true;
+        
+        case 'ADAPTATION_REAPPLY':
+          this.handleAdaptationReapply(message.records).then(sendResponse);
+          return true;
+        
+        case 'NAVIGATION_GET_MAP':
+          this.handleNavigationRequest(() => navigationOverlay.getNavigationMap()).then(sendResponse);
+          return true;
+        
+        case 'NAVIGATION_JUMP':
+          this.handleNavigationRequest(() => navigationOverlay.jump(message.kind, message.direction)).then(sendResponse);
+          return true;
+        
+        case 'NAVIGATION_TOGGLE_ROTOR':
+          this.handleNavigationRequest(async () => ({ open: await navigationOverlay.toggleRotor() })).then(sendResponse);
+          return true;
+        
+        case 'NAVIGATION_INJECT_SKIP_LINK':
+          this.handleNavigationRequest(async () => ({ injected: await navigationOverlay.injectSkipLink() })).then(sendResponse);
+          return true;
+        
+        case 'READER_PREPARE':
+          sendResponse(this.handleReaderRequest(() => pageReaderOverlay.prepareDocument()));
+          return false;
+        
+        case 'READER_HIGHLIGHT':
+          sendResponse(this.handleReaderRequest(() => pageReaderOverlay.highlight(message.highlight)));
+          return false;
+        
+        case 'READER_STATE':
+          sendResponse(this.handleReaderRequest(() => pageReaderOverlay.updateState(message.state)));
+          return false;
+        
         default:
           sendResponse({ success: false, error: 'Unknown message type' });
           return false;
@@ -133,6 +225,51 @@ class AccessiAIContent {
     }
   }
 
+  private setupRegressionAlerts(): void {
+    ProductionIntegrationCoordinatorImpl.getInstance().addEventListener('system-alert', (event: ProductionSystemEvent) => {
+      if (event.source !== 'analysis-history' || !chrome.runtime?.id) return;
+      
+      const comparison = event.data as AnalysisRunComparison;
+      chrome.runtime.sendMessage({
+        type: 'ANALYSIS_REGRESSION',
+        pageUrl: comparison.pageUrl,
+        previousScore: comparison.previousScore,
+        currentScore: comparison.currentScore,
+        introducedIssues: comparison.introducedIssues.length
+      }).catch(error => {
+        console.warn('[AccessiAI] Failed to report regression:', error);
+      });
+    });
+  }
+
+  private async isCrawlTab(): Promise<boolean> {
+    if (!chrome.runtime?.id) return false;
+    
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'IS_CRAWL_TAB' });
+      return response?.success === true && response.data.crawling === true;
+    } catch (error) {
+      console.warn('[AccessiAI] Failed to check for a site crawl:', error);
+      return false;
+    }
+  }
+
+  private announcePageReady(): void {
+    if (!chrome.runtime?.id) return;
+    
+    chrome.runtime.sendMessage({ type: 'PAGE_READY', url: window.location.href }).catch(error => {
+      console.warn('[AccessiAI] Failed to announce page:', error);
+    });
+  }
+
+  private async setupNavigation(): Promise<void> {
+    try {
+      await navigationOverlay.enable();
+    } catch (error) {
+      console.error('[AccessiAI] Failed to set up page navigation:', error);
+    }
+  }
+
   private handleBackgroundMessage(message: any): void {
     console.log('[AccessiAI] Received background message:', message);
     
@@ -167,16 +304,22 @@ class AccessiAIContent {
   // ============================================================================
 
   private setupDOMObserver(): void {
-    this.observer = new MutationObserver((_mutations) => {
-      // Debounce DOM changes to avoid excessive analysis
+    this.observer = new MutationObserver((mutations) => {
+      // Keep the records so only the changed subtrees are re-analyzed
+      this.pendingMutations.push(...mutations);
       this.debouncedAnalysis();
     });
     
     this.observer.observe(document.body, {
       childList: true,
       subtree: true,
+      characterData: true,
       attributes: true,
-      attributeFilter: ['class', 'id', 'aria-label', 'aria-labelledby', 'alt', 'title']
+      attributeOldValue: true,
+      attributeFilter: [
+        'class', 'id', 'role', 'alt', 'title', 'hidden', 'tabindex', 'for', 'type', 'href', 'disabled',
+        'aria-label', 'aria-labelledby', 'aria-describedby', 'aria-hidden', 'aria-level'
+      ]
     });
     
     console.log('[AccessiAI] DOM observer initialized');
@@ -184,10 +327,48 @@ class AccessiAIContent {
 
   private debouncedAnalysis = this.debounce(() => {
     if (!this.analysisInProgress) {
-      this.analyzePage();
+      this.analyzePendingMutations();
     }
   }, 500);
 
+  private async analyzePendingMutations(): Promise<void> {
+    const mutations = this.pendingMutations;
+    this.pendingMutations = [];
+    
+    if (!this.integration) {
+      return this.analyzePage();
+    }
+    
+    let result = null;
+    try {
+      this.analysisInProgress = true;
+      result = await this.integration.runIncrementalAnalysis(mutations);
+      
+      if (result && (result.diff.added.length > 0 || result.diff.retired.length > 0)) {
+        console.log(`[AccessiAI] Incremental analysis: ${result.diff.added.length} new, ${result.diff.retired.length} resolved`);
+        
+        this.updateAccessibilityIndicator({
+          pageUrl: window.location.href,
+          analyzedAt: Date.now(),
+          issues: result.issues,
+          complianceScore: this.lastAnalysisResult?.complianceScore ?? 85,
+          totalElements: this.lastAnalysisResult?.totalElements ?? 0,
+          processedElements: result.scannedElements,
+          analysisTime: result.analysisTime
+        });
+      }
+    } catch (error) {
+      console.error('[AccessiAI] Incremental analysis failed:', error);
+    } finally {
+      this.analysisInProgress = false;
+    }
+    
+    // No full analysis to build on yet
+    if (!result) {
+      await this.analyzePage();
+    }
+  }
+
   private debounce(func: Function, wait: number): () => void {
     let timeout: NodeJS.Timeout;
     return () => {
@@ -285,23 +466,21 @@ class AccessiAIContent {
       
       const startTime = performance.now();
       
-      // Build page context
-      const pageContext = this.buildPageContext();
-      
-      // Send to background for analysis using proper message format
-      const analysisMessage = this.createAgentMessage('analyze-page-content', pageContext);
-      const response = await this.sendMessageToBackground({
-        type: 'ANALYZE_PAGE_CONTENT',
-        data: pageContext,
-        agentMessage: analysisMessage
-      });
+      // Analyzed here: the perception agent would send the request back to this tab
+      const snapshot = await this.takePerceptionSnapshot(null);
       
       const analysisTime = performance.now() - startTime;
       console.log(`[AccessiAI] Page analysis completed in ${analysisTime.toFixed(2)}ms`);
       
-      if (response.success && response.data) {
-        this.handleAnalysisResults(response.data);
-      }
+      this.handleAnalysisResults({
+        pageUrl: snapshot.url,
+        analyzedAt: snapshot.analyzedAt,
+        issues: snapshot.issues,
+        complianceScore: snapshot.complianceScore,
+        totalElements: 0,
+        processedElements: 0,
+        analysisTime: snapshot.analysisTime
+      });
       
     } catch (error) {
       console.error('[AccessiAI] Page analysis failed:', error);
@@ -310,28 +489,6 @@ class AccessiAIContent {
     }
   }
 
-  private buildPageContext(): PageContext {
-    return {
-      url: window.location.href,
-      title: document.title,
-      dom: document,
-      viewport: {
-        width: window.innerWidth,
-        height: window.innerHeight,
-        devicePixelRatio: window.devicePixelRatio,
-        colorDepth: screen.colorDepth,
-        orientation: window.innerWidth > window.innerHeight ? 'landscape' : 'portrait'
-      },
-      styles: window.getComputedStyle(document.documentElement),
-      interactiveElements: Array.from(document.querySelectorAll('button, a, input, select, textarea, [tabindex], [onclick]')),
-      images: Array.from(document.querySelectorAll('img')),
-      forms: Array.from(document.querySelectorAll('form')),
-      headings: Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')),
-      links: Array.from(document.querySelectorAll('a')),
-      analyzedAt: Date.now()
-    };
-  }
-
   private handleAnalysisResults(analysis: AccessibilityAnalysis): void {
     console.log('[AccessiAI] Analysis results:', analysis);
     
@@ -360,8 +517,8 @@ class AccessiAIContent {
   // ============================================================================
 
   private highlightAccessibilityIssues(issues: AccessibilityIssue[]): void {
-    // Remove existing highlights
-    document.querySelectorAll('.accessiai-highlight').forEach(el => {
+    // Remove existing highlights, including those inside shadow roots and frames
+    composedPathLocator.querySelectorAllComposed(document, '.accessiai-highlight').forEach(el => {
       el.classList.remove('accessiai-highlight');
     });
     
@@ -372,6 +529,9 @@ class AccessiAIContent {
         if (element) {
           element.classList.add('accessiai-highlight');
           element.setAttribute('data-accessiai-issue', issue.type);
+          
+          // Document styles do not cross shadow or frame boundaries
+          this.injectHighlightStyles(element.getRootNode() as Document | ShadowRoot);
         }
       } catch (error) {
         console.warn('[AccessiAI] Could not highlight element:', issue.element.xpath);
@@ -379,15 +539,17 @@ class AccessiAIContent {
     });
     
     // Inject highlight styles
-    this.injectHighlightStyles();
+    this.injectHighlightStyles(document);
   }
 
-  private injectHighlightStyles(): void {
-    if (document.getElementById('accessiai-highlight-styles')) {
+  private injectHighlightStyles(scope: Document | ShadowRoot): void {
+    if (scope.getElementById('accessiai-highlight-styles')) {
       return; // Already injected
     }
     
-    const style = document.createElement('style');
+    const ownerDocument = scope.nodeType === Node.DOCUMENT_NODE ? scope as Document : (scope as ShadowRoot).ownerDocument;
+    
+    const style = ownerDocument.createElement('style');
     style.id = 'accessiai-highlight-styles';
     style.textContent = `
       .accessiai-highlight {
@@ -412,7 +574,11 @@ class AccessiAIContent {
       }
     `;
     
-    document.head.appendChild(style);
+    if (scope.nodeType === Node.DOCUMENT_NODE) {
+      (scope as Document).head.appendChild(style);
+    } else {
+      scope.appendChild(style);
+    }
   }
 
   private applyAccessibilityFixes(fixes: any[]): void {
@@ -511,10 +677,16 @@ class AccessiAIContent {
       
       // Update UI indicator
       this.updateAccessibilityIndicator({
-        complianceScore: typeof result.overallScore === 'number' && !isNaN(result.overallScore) ? result.overallScore : 85,
+        pageUrl: result.pageUrl,
+        analyzedAt: Date.now(),
         issues: result.aggregatedIssues || [],
-        analyzedAt: Date.now()
-      } as any);
+        complianceScore: typeof result.overallScore === 'number' && !isNaN(result.overallScore) ? result.overallScore : 85,
+        totalElements: 0,
+        processedElements: 0,
+        analysisTime: result.analysisTime
+      });
+      
+      await this.applyEnabledAutoFixes(result.aggregatedIssues || []);
       
     } catch (error) {
       console.error('[AccessiAI] Integrated analysis failed:', error);
@@ -586,90 +758,403 @@ class AccessiAIContent {
   }
 
   /**
-   * Apply automatic fixes using the integration system
+   * Handle EXPORT_REPORT request from popup
+   * 
+   * The report is generated here, where the full analysis result lives, and
+   * downloaded by the popup.
+   */
+  private handleExportReport(format: ReportFormat): any {
+    try {
+      const report = this.integration?.generateReport(format) ?? null;
+      if (!report) {
+        return { success: false, error: 'No analysis available. Scan the page first.' };
+      }
+      return { success: true, data: report };
+    } catch (error) {
+      console.error('[AccessiAI] Failed to export report:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Handle CRAWL_ANALYZE_PAGE request from the background site crawler
+   * 
+   * Analyzes and stores the page without opening the panel, and reports the
+   * page's links so the crawler can follow them.
+   */
+  private async handleCrawlAnalyzePage(): Promise<any> {
+    try {
+      const result = await UnifiedAnalysisCoordinator.getInstance().analyzeAccessibility(document, {
+        enableContentAnalysis: true,
+        enableVisualAnalysis: true,
+        storeResults: true
+      });
+      
+      const issueTypeCounts: Partial<Record<AccessibilityIssueType, number>> = {};
+      result.aggregatedIssues
+        .filter(issue => !issueTriageManager.isSuppressed(issue))
+        .forEach(issue => {
+          issueTypeCounts[issue.type] = (issueTypeCounts[issue.type] ?? 0) + 1;
+        });
+      
+      const snapshot: CrawlPageSnapshot = {
+        url: window.location.href,
+        title: document.title,
+        complianceScore: result.overallScore,
+        totalIssues: result.totalIssues,
+        criticalIssues: result.criticalIssues,
+        highPriorityIssues: result.highPriorityIssues,
+        issueTypeCounts,
+        links: Array.from(document.querySelectorAll('a[href]'), link => (link as HTMLAnchorElement).href)
+      };
+      
+      return { success: true, data: snapshot };
+    } catch (error) {
+      console.error('[AccessiAI] Crawl analysis failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Handle TOGGLE_TAB_ORDER_OVERLAY request from popup
+   */
+  private handleToggleTabOrderOverlay(): any {
+    try {
+      const summary = tabOrderOverlay.toggle();
+      return { success: true, data: { visible: summary !== null, summary } };
+    } catch (error) {
+      console.error('[AccessiAI] Failed to toggle tab order overlay:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Handle RUN_KEYBOARD_PROBE request from popup
+   * 
+   * Runs the integrated analysis with the keyboard probe enabled, so traps and
+   * focus loss show up in the panel next to the other issues.
    */
-  private async applyAutoFixes(): Promise<void> {
+  private async handleRunKeyboardProbe(): Promise<any> {
     if (!this.integration) {
-      console.warn('[AccessiAI] Integration not available, cannot apply auto fixes');
-      return;
+      return { success: false, error: 'Analysis integration not available' };
+    }
+    if (this.analysisInProgress) {
+      return { success: false, error: 'Analysis already in progress' };
     }
     
     try {
-      console.log('[AccessiAI] Applying automatic accessibility fixes...');
-      
-      const currentIssues = this.integration.getCurrentIssues();
-      let fixedCount = 0;
+      this.analysisInProgress = true;
+      const result = await this.integration.runAnalysis({ enableKeyboardProbe: true });
+      const probeIssues = result.aggregatedIssues.filter(issue => issue.reproductionSteps && !issueTriageManager.isSuppressed(issue));
       
-      for (const issue of currentIssues) {
-        try {
-          const success = await this.integration.applyQuickFix(issue);
-          if (success) {
-            fixedCount++;
-          }
-        } catch (error) {
-          console.warn(`[AccessiAI] Failed to fix issue ${issue.id}:`, error);
+      return {
+        success: true,
+        data: {
+          totalIssues: probeIssues.length,
+          keyboardTraps: probeIssues.filter(issue => issue.severity === 'critical').length
         }
+      };
+    } catch (error) {
+      console.error('[AccessiAI] Keyboard probe failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      this.analysisInProgress = false;
+    }
+  }
+
+  /**
+   * Handle PERCEPTION_ANALYZE request from the background perception agent
+   * 
+   * Runs the integrated analysis so the panel stays in step, and reports the
+   * issues of the whole page or, with a selector, of that element's subtree.
+   */
+  private async handlePerceptionAnalyze(selector?: string): Promise<any> {
+    if (this.analysisInProgress) {
+      return { success: false, error: 'Analysis already in progress' };
+    }
+    
+    try {
+      const target = selector ? document.querySelector(selector) : null;
+      if (selector && !target) {
+        return { success: false, error: `No element matches selector: ${selector}` };
       }
       
-      console.log(`[AccessiAI] Applied ${fixedCount} automatic fixes`);
+      this.analysisInProgress = true;
+      const snapshot = await this.takePerceptionSnapshot(target, selector);
       
+      return { success: true, data: snapshot };
     } catch (error) {
-      console.error('[AccessiAI] Auto fix failed:', error);
+      console.error('[AccessiAI] Perception analysis failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      this.analysisInProgress = false;
     }
   }
 
-  // ============================================================================
-  // UTILITY METHODS
-  // ============================================================================
+  /**
+   * Run the integrated analysis and report the unsuppressed issues of the page
+   * or of the target element's subtree
+   */
+  private async takePerceptionSnapshot(target: Element | null, selector?: string): Promise<PerceptionSnapshot> {
+    const result = this.integration
+      ? await this.integration.runAnalysis()
+      : await UnifiedAnalysisCoordinator.getInstance().analyzeAccessibility(document);
+    
+    const issues = result.aggregatedIssues.filter(issue => {
+      if (issueTriageManager.isSuppressed(issue)) return false;
+      if (!target) return true;
+      const element = composedPathLocator.resolveLocator(issue.element.xpath);
+      return element !== null && target.contains(element);
+    });
+    
+    return {
+      url: window.location.href,
+      title: document.title,
+      scope: target ? 'element' : 'page',
+      ...(selector ? { selector } : {}),
+      complianceScore: result.overallScore,
+      totalIssues: issues.length,
+      criticalIssues: issues.filter(issue => issue.severity === 'critical').length,
+      highPriorityIssues: issues.filter(issue => issue.severity === 'high').length,
+      issues,
+      analysisTime: result.analysisTime,
+      analyzedAt: Date.now()
+    };
+  }
 
-  private findElementByXPath(xpath: string): Element | null {
+  /**
+   * Handle ADAPTATION_APPLY_FIXES request from the background adaptation agent
+   * 
+   * Fixes the given current issues, or every fixable one, and reports each
+   * change with the element's state before and after so it can be replayed.
+   */
+  private async handleAdaptationApplyFixes(issueIds?: string[]): Promise<any> {
+    if (!this.integration) {
+      return { success: false, error: 'Analysis integration not available' };
+    }
+    
     try {
-      const result = document.evaluate(xpath, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
-      return result.singleNodeValue as Element;
+      const wanted = issueIds ? new Set(issueIds) : null;
+      const issues = this.integration.getCurrentIssues().filter(issue => !wanted || wanted.has(issue.id));
+      const remediations: AppliedRemediation[] = [];
+      let failed = 0;
+      
+      for (const issue of issues) {
+        const result = await this.integration.applyQuickFix(issue);
+        if (result.success && result.locator && result.before && result.after) {
+          remediations.push({
+            issue,
+            fixAction: result.fixApplied,
+            locator: result.locator,
+            before: result.before,
+            after: result.after,
+            appliedAt: Date.now()
+          });
+        } else {
+          failed++;
+        }
+      }
+      
+      console.log(`[AccessiAI] Applied ${remediations.length} fixes, ${failed} failed`);
+      
+      return { success: true, data: { pageUrl: window.location.href, remediations, failed } };
     } catch (error) {
-      console.warn('[AccessiAI] Invalid XPath:', xpath);
-      return null;
+      console.error('[AccessiAI] Applying fixes failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
   }
 
-  private async sendMessageToBackground(message: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      try {
-        if (!chrome.runtime?.id) {
-          reject(new Error('Extension context invalidated'));
-          return;
+  /**
+   * Handle ADAPTATION_REVERT_FIXES request from the background adaptation agent
+   */
+  private async handleAdaptationRevertFixes(records: RemediationRecord[]): Promise<any> {
+    if (!this.integration) {
+      return { success: false, error: 'Analysis integration not available' };
+    }
+    
+    try {
+      const reverted: string[] = [];
+      
+      for (const record of records) {
+        if (await this.integration.undoQuickFix(record.issue)) {
+          reverted.push(record.issue.id);
         }
-        
-        chrome.runtime.sendMessage(message, (response) => {
-          if (chrome.runtime.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-          } else {
-            resolve(response || { success: false, error: 'No response' });
-          }
-        });
-      } catch (error) {
-        reject(error);
       }
-    });
+      
+      const revert: RemediationRevertResult = { pageUrl: window.location.href, reverted };
+      console.log(`[AccessiAI] Reverted ${reverted.length} of ${records.length} fixes`);
+      
+      return { success: true, data: revert };
+    } catch (error) {
+      console.error('[AccessiAI] Reverting fixes failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
   }
 
-  private createAgentMessage(action: string, data?: any): any {
-    return {
-      id: `content-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-      type: 'command',
-      source: 'content-script',
-      target: 'background-service',
-      payload: {
-        action,
-        data,
-        metadata: {
-          url: window.location.href,
-          timestamp: Date.now()
+  /**
+   * Handle ADAPTATION_REAPPLY request from the background adaptation agent
+   * 
+   * A stored fix is only replayed when its element is still in the state the
+   * fix was first applied to; anything else means the page has changed.
+   */
+  private async handleAdaptationReapply(records: RemediationRecord[]): Promise<any> {
+    if (!this.integration) {
+      return { success: false, error: 'Analysis integration not available' };
+    }
+    
+    try {
+      const reapplied: string[] = [];
+      const skipped: string[] = [];
+      
+      for (const record of records) {
+        const element = composedPathLocator.resolveLocator(record.locator);
+        if (!element || !quickActionControls.matchesElementState(element, record.before)) {
+          skipped.push(record.id);
+          continue;
         }
-      },
-      timestamp: Date.now(),
-      priority: 'normal'
-    };
+        
+        const result = await this.integration.applyQuickFix(record.issue);
+        (result.success ? reapplied : skipped).push(record.id);
+      }
+      
+      const replay: RemediationReplayResult = { reapplied, skipped };
+      console.log(`[AccessiAI] Reapplied ${reapplied.length} stored fixes, skipped ${skipped.length}`);
+      
+      return { success: true, data: replay };
+    } catch (error) {
+      console.error('[AccessiAI] Reapplying fixes failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Handle NAVIGATION_* requests from the background navigation agent
+   */
+  private async handleNavigationRequest(request: () => Promise<unknown>): Promise<any> {
+    try {
+      return { success: true, data: await request() };
+    } catch (error) {
+      console.error('[AccessiAI] Navigation request failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Handle READER_* requests from the background communication agent
+   */
+  private handleReaderRequest(request: () => unknown): any {
+    try {
+      return { success: true, data: request() };
+    } catch (error) {
+      console.error('[AccessiAI] Reader request failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Handle GET_ANALYSIS_HISTORY request from popup
+   * 
+   * Returns the score trends of this page and of its origin, built from the
+   * analyses stored for this origin.
+   */
+  private async handleGetAnalysisHistory(): Promise<any> {
+    try {
+      const pageUrl = window.location.href;
+      const [page, origin] = await Promise.all([
+        analysisHistoryTracker.getPageTrend(pageUrl),
+        analysisHistoryTracker.getOriginTrend(window.location.origin)
+      ]);
+      
+      return { success: true, data: { page, origin } };
+    } catch (error) {
+      console.error('[AccessiAI] Failed to load analysis history:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Apply automatic fixes through the background adaptation agent
+   * 
+   * The agent sends the fixes back to this page and records them, so they are
+   * replayed when the page is revisited.
+   */
+  private async applyAutoFixes(issueIds?: string[]): Promise<void> {
+    try {
+      console.log('[AccessiAI] Applying automatic accessibility fixes...');
+      
+      const response = await chrome.runtime.sendMessage({ type: 'APPLY_FIXES', ...(issueIds ? { data: { issueIds } } : {}) });
+      if (!response?.success) {
+        console.warn('[AccessiAI] Auto fix failed:', response?.error);
+        return;
+      }
+      
+      console.log(`[AccessiAI] Applied ${response.data.applied.length} automatic fixes`);
+      
+    } catch (error) {
+      console.error('[AccessiAI] Auto fix failed:', error);
+    }
+  }
+
+  /**
+   * Fix the issue types the user chose to have fixed automatically
+   */
+  private async applyEnabledAutoFixes(issues: AccessibilityIssue[]): Promise<void> {
+    const result = await chrome.storage.local.get(['accessiaiSettings']);
+    const enabled: AccessibilityIssueType[] = result['accessiaiSettings']?.accessibility?.autoFixIssueTypes ?? [];
+    
+    // Issues triaged as won't fix or false positive stay as they are
+    const issueIds = issues
+      .filter(issue => enabled.includes(issue.type) && !issueTriageManager.isSuppressed(issue))
+      .map(issue => issue.id);
+    if (issueIds.length > 0) {
+      await this.applyAutoFixes(issueIds);
+    }
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  private findElementByXPath(xpath: string): Element | null {
+    // Resolves plain XPath as well as composed shadow/frame locators
+    const element = composedPathLocator.resolveLocator(xpath);
+    if (!element) {
+      console.warn('[AccessiAI] Could not resolve element locator:', xpath);
+    }
+    return element;
   }
 
   // ============================================================================
@@ -699,6 +1184,8 @@ class AccessiAIContent {
       styles.remove();
     }
     
+    tabOrderOverlay.hide();
+    
     console.log('[AccessiAI] Content script cleaned up');
   }
 }
@@ -6,6 +6,7 @@
  * - Real-time analysis updates
  * - Issue display and management
  * - Cross-component communication
+ * - Fix feedback for the learning agent's ranking and auto-fix suggestions
  * 
  * Performance Target: <50ms UI updates
  * Integration: Seamless panel-analysis coordination
@@ -16,9 +17,14 @@
 
 import { AccessibilityPanel } from '../ui/AccessibilityPanel';
 import { SettingsPanel } from '../ui/SettingsPanel';
-import { QuickActionControls } from '../ui/QuickActionControls';
-import { UnifiedAnalysisCoordinator, UnifiedAnalysisResult, AnalysisProgressCallback } from '../utils/UnifiedAnalysisCoordinator';
-import { AccessibilityIssue } from '../types/index';
+import { QuickActionControls, FixResult } from '../ui/QuickActionControls';
+import { UnifiedAnalysisCoordinator, UnifiedAnalysisResult, AnalysisProgressCallback, AnalysisConfig } from '../utils/UnifiedAnalysisCoordinator';
+import { incrementalAnalysisEngine, IncrementalAnalysisResult } from '../utils/IncrementalAnalysisEngine';
+import { issueBaselineManager } from '../utils/IssueBaselineManager';
+import { issueTriageManager } from '../utils/IssueTriageManager';
+import { reportGenerator, ReportFormat, GeneratedReport } from '../utils/ReportGenerator';
+import { accessibilityScanner } from '../utils/AccessibilityScanner';
+import { AccessibilityIssue, AutoFixSuggestion, FixFeedbackEvent, FixFeedbackOutcome, LearningInsights, RemediationApplyResult, RemediationRevertResult } from '../types/index';
 
 /**
  * Integration event types
@@ -73,6 +79,7 @@ export class PanelAnalysisIntegration {
   // Current State
   private currentAnalysisResult: UnifiedAnalysisResult | null = null;
   private currentIssues: AccessibilityIssue[] = [];
+  private panelFixActions: Map<string, string> = new Map();   // issue ID -> fix applied from the panel
 
   /**
    * Get singleton instance of PanelAnalysisIntegration
@@ -138,8 +145,10 @@ export class PanelAnalysisIntegration {
 
   /**
    * Run comprehensive accessibility analysis with UI updates
+   *
+   * @param overrides - Analysis options for this run only, e.g. enableKeyboardProbe
    */
-  async runAnalysis(): Promise<UnifiedAnalysisResult> {
+  async runAnalysis(overrides: Partial<AnalysisConfig> = {}): Promise<UnifiedAnalysisResult> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -174,7 +183,9 @@ export class PanelAnalysisIntegration {
           enableContentAnalysis: true,
           enableVisualAnalysis: true,
           enableParallelExecution: true,
-          storeResults: true
+          storeResults: true,
+          onlyNewIssues: await issueBaselineManager.isOnlyNewIssuesMode(),
+          ...overrides
         },
         progressCallback
       );
@@ -182,9 +193,11 @@ export class PanelAnalysisIntegration {
       // Update current state
       this.currentAnalysisResult = result;
       this.currentIssues = result.aggregatedIssues;
+      incrementalAnalysisEngine.bindIssues(result.aggregatedIssues);
       
       // Update accessibility panel with results
       await this.accessibilityPanel.updateIssues(result.aggregatedIssues);
+      void this.refreshLearningInsights();
       
       // Emit completion events
       this.emitEvent('analysis-completed', 'integration', result);
@@ -206,6 +219,69 @@ export class PanelAnalysisIntegration {
     }
   }
 
+  /**
+   * Re-analyze only the parts of the page touched by DOM mutations
+   * 
+   * Returns null when there is no full analysis to build on; the caller
+   * should fall back to a full analysis in that case.
+   */
+  async runIncrementalAnalysis(mutations: readonly MutationRecord[]): Promise<IncrementalAnalysisResult | null> {
+    if (!this.isInitialized || !this.currentAnalysisResult || this.isAnalysisRunning) {
+      return null;
+    }
+
+    const changeSet = incrementalAnalysisEngine.collectChanges(mutations);
+    if (!incrementalAnalysisEngine.hasChanges(changeSet)) {
+      return {
+        issues: [...this.currentIssues],
+        diff: { added: [], retired: [], unchanged: this.currentIssues.length },
+        scannedElements: 0,
+        analysisTime: 0
+      };
+    }
+
+    this.isAnalysisRunning = true;
+
+    try {
+      const analyzed = await incrementalAnalysisEngine.analyzeChanges(document, changeSet, this.currentIssues);
+      // Re-detected issues may have lapsed triage and new ones may match a stored decision
+      let result = { ...analyzed, issues: await issueTriageManager.applyTriage(analyzed.issues) };
+
+      if (await issueBaselineManager.isOnlyNewIssuesMode()) {
+        const { newIssues } = await issueBaselineManager.filterNewIssues(document.location.href, result.issues);
+        const shown = new Set(newIssues.map(issue => issue.id));
+        result = {
+          ...result,
+          issues: newIssues,
+          diff: { ...result.diff, added: result.diff.added.filter(issue => shown.has(issue.id)) }
+        };
+      }
+
+      this.currentIssues = result.issues;
+      this.currentAnalysisResult = {
+        ...this.currentAnalysisResult,
+        aggregatedIssues: result.issues,
+        totalIssues: result.issues.length
+      };
+
+      if (!incrementalAnalysisEngine.isEmptyDiff(result.diff)) {
+        await this.accessibilityPanel.applyIssueDiff(result.issues, result.diff);
+        this.emitEvent('issues-updated', 'incremental-analysis', {
+          issues: result.issues,
+          totalCount: result.issues.length,
+          diff: result.diff
+        });
+      }
+
+      console.log(`[PanelAnalysisIntegration] Incremental analysis of ${result.scannedElements} elements completed in ${result.analysisTime.toFixed(2)}ms`);
+
+      return result;
+
+    } finally {
+      this.isAnalysisRunning = false;
+    }
+  }
+
   /**
    * Show accessibility panel with current issues
    */
@@ -238,7 +314,7 @@ export class PanelAnalysisIntegration {
   /**
    * Apply quick fix to an issue
    */
-  async applyQuickFix(issue: AccessibilityIssue): Promise<boolean> {
+  async applyQuickFix(issue: AccessibilityIssue): Promise<FixResult> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -265,12 +341,39 @@ export class PanelAnalysisIntegration {
         console.log(`[PanelAnalysisIntegration] Quick fix applied successfully in ${result.executionTime}ms`);
       }
       
-      return result.success;
+      return result;
       
     } catch (error) {
       console.error('[PanelAnalysisIntegration] Quick fix failed:', error);
+      return {
+        success: false,
+        issueId: issue.id,
+        fixApplied: 'error',
+        elementsModified: 0,
+        executionTime: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Undo a quick fix applied from the panel and show the issue again
+   */
+  async undoQuickFix(issue: AccessibilityIssue): Promise<boolean> {
+    if (!this.quickActionControls.undoQuickFix(issue.id)) {
       return false;
     }
+    
+    if (!this.currentIssues.some(existing => existing.id === issue.id)) {
+      this.currentIssues = [...this.currentIssues, issue];
+      await this.accessibilityPanel.updateIssues(this.currentIssues);
+      this.emitEvent('issues-updated', 'integration', {
+        issues: this.currentIssues,
+        totalCount: this.currentIssues.length
+      });
+    }
+    
+    return true;
   }
 
   /**
@@ -293,6 +396,171 @@ export class PanelAnalysisIntegration {
     this.addEventListener('panel-hidden', (event) => {
       console.log(`[PanelAnalysisIntegration] Panel hidden: ${event.source}`);
     });
+    
+    // Export requests from the panel are answered with the integration's full result
+    this.accessibilityPanel.onExportRequested((format) => {
+      const report = this.generateReport(format);
+      if (!report) {
+        throw new Error('Run an analysis before exporting a report');
+      }
+      reportGenerator.download(report);
+    });
+    
+    // Baseline changes decide which issues are shown, so the page is analyzed again
+    this.accessibilityPanel.onBaselinesChanged(() => {
+      this.runAnalysis().catch(error => {
+        console.error('[PanelAnalysisIntegration] Re-analysis after baseline change failed:', error);
+      });
+    });
+    
+    // Fixes started from the panel are the user's choice, so they count as feedback;
+    // they go through the adaptation agent so they are recorded and replayed like any other fix
+    this.accessibilityPanel.onFixRequested(async (issue) => {
+      const result = await this.requestFix(issue);
+      if (result.success) {
+        this.panelFixActions.set(issue.id, result.fixApplied);
+        this.recordFixFeedback(issue, 'applied', result.fixApplied);
+      }
+      return result;
+    });
+    
+    this.accessibilityPanel.onFixUndoRequested(async (issue) => {
+      const undone = await this.requestFixUndo(issue);
+      if (undone) {
+        this.recordFixFeedback(issue, 'undone', this.panelFixActions.get(issue.id));
+        this.panelFixActions.delete(issue.id);
+      }
+      return undone;
+    });
+    
+    this.accessibilityPanel.onSuggestionAnswered((suggestion, accepted) => {
+      this.answerAutoFixSuggestion(suggestion, accepted).catch(error => {
+        console.error('[PanelAnalysisIntegration] Saving the auto-fix answer failed:', error);
+      });
+    });
+    
+    // Keep the integration's issue list in step with triage decisions made in the panel
+    this.accessibilityPanel.onIssueTriaged((issue) => {
+      const previous = this.currentIssues.find(existing => existing.id === issue.id)?.triage?.status;
+      const status = issue.triage?.status;
+      if (status !== previous && (status === 'wont-fix' || status === 'false-positive')) {
+        this.recordFixFeedback(issue, 'dismissed');
+      }
+      
+      this.currentIssues = this.currentIssues.map(existing => existing.id === issue.id ? issue : existing);
+      this.emitEvent('issues-updated', 'triage', {
+        issues: this.currentIssues,
+        totalCount: this.currentIssues.length
+      });
+    });
+  }
+
+  /**
+   * Fix one issue through the adaptation agent, which records the fix for later visits
+   */
+  private async requestFix(issue: AccessibilityIssue): Promise<FixResult> {
+    const startTime = performance.now();
+    const response = await chrome.runtime.sendMessage({ type: 'APPLY_FIXES', data: { issueIds: [issue.id] } });
+    const record = response?.success ? (response.data as RemediationApplyResult).applied[0] : undefined;
+    
+    if (!record) {
+      return {
+        success: false,
+        issueId: issue.id,
+        fixApplied: 'none',
+        elementsModified: 0,
+        executionTime: performance.now() - startTime,
+        ...(response?.success ? {} : { error: response?.error ?? 'the extension did not respond' })
+      };
+    }
+    
+    return {
+      success: true,
+      issueId: issue.id,
+      fixApplied: record.fixAction,
+      elementsModified: 1,
+      executionTime: performance.now() - startTime,
+      locator: record.locator,
+      before: record.before,
+      after: record.after
+    };
+  }
+
+  /**
+   * Undo one issue's fix through the adaptation agent so it is not replayed again
+   */
+  private async requestFixUndo(issue: AccessibilityIssue): Promise<boolean> {
+    const response = await chrome.runtime.sendMessage({ type: 'REVERT_FIXES', data: { issueIds: [issue.id] } });
+    if (!response?.success) {
+      console.warn('[PanelAnalysisIntegration] Undoing the fix failed:', response?.error);
+      return false;
+    }
+    
+    return (response.data as RemediationRevertResult).reverted.includes(issue.id);
+  }
+
+  /**
+   * Tell the learning agent what the user did with an issue
+   * 
+   * Counts stay in the extension's local database.
+   * 
+   * @param fixAction - Fix the user applied or undid; defaults to the type's first quick fix
+   */
+  private recordFixFeedback(
+    issue: AccessibilityIssue,
+    outcome: FixFeedbackOutcome,
+    fixAction: string | null = this.quickActionControls.getAvailableFixActions(issue.type)[0]?.id ?? null
+  ): void {
+    const event: FixFeedbackEvent = {
+      site: this.getSite(),
+      issueType: issue.type,
+      fixAction,
+      outcome,
+      recordedAt: Date.now()
+    };
+    
+    chrome.runtime.sendMessage({ type: 'RECORD_FIX_FEEDBACK', data: { event } })
+      .catch(error => console.warn('[PanelAnalysisIntegration] Recording fix feedback failed:', error));
+  }
+
+  /**
+   * Rank the panel's issues and offer auto-fixes from the user's past decisions
+   */
+  private async refreshLearningInsights(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_LEARNING_INSIGHTS', data: { site: this.getSite() } });
+      if (!response?.success) return;
+      
+      const insights = response.data as LearningInsights;
+      await this.accessibilityPanel.setIssueRanking(insights.ranking);
+      this.accessibilityPanel.showAutoFixSuggestions(insights.suggestions);
+    } catch (error) {
+      console.warn('[PanelAnalysisIntegration] Loading learning insights failed:', error);
+    }
+  }
+
+  /**
+   * Save the answer to an auto-fix suggestion so it is not offered again
+   */
+  private async answerAutoFixSuggestion(suggestion: AutoFixSuggestion, accepted: boolean): Promise<void> {
+    if (accepted) {
+      const enabled = this.settingsPanel.getSettings()?.accessibility.autoFixIssueTypes ?? [];
+      if (!enabled.includes(suggestion.issueType)) {
+        await this.settingsPanel.updateSetting('accessibility.autoFixIssueTypes', [...enabled, suggestion.issueType]);
+      }
+    }
+    
+    await chrome.runtime.sendMessage({
+      type: 'ANSWER_AUTO_FIX_SUGGESTION',
+      data: { issueType: suggestion.issueType, accepted }
+    });
+  }
+
+  /**
+   * Feedback is kept per host; pages without one share a single entry per scheme
+   */
+  private getSite(): string {
+    return window.location.hostname || window.location.protocol;
   }
 
   /**
@@ -355,6 +623,34 @@ export class PanelAnalysisIntegration {
     return [...this.currentIssues];
   }
 
+  /**
+   * Generate an audit report for the current analysis
+   * 
+   * @param format - Report format
+   * @returns GeneratedReport | null - null when no analysis has run yet
+   */
+  generateReport(format: ReportFormat): GeneratedReport | null {
+    if (!this.currentAnalysisResult) {
+      return null;
+    }
+
+    // Incremental updates and triage change the issue list after the full analysis
+    const issues = this.currentIssues;
+    const active = issues.filter(issue => !issueTriageManager.isSuppressed(issue));
+    const countSeverity = (severity: AccessibilityIssue['severity']) => active.filter(issue => issue.severity === severity).length;
+
+    return reportGenerator.generate({
+      ...this.currentAnalysisResult,
+      aggregatedIssues: issues,
+      totalIssues: active.length,
+      criticalIssues: countSeverity('critical'),
+      highPriorityIssues: countSeverity('high'),
+      mediumPriorityIssues: countSeverity('medium'),
+      lowPriorityIssues: countSeverity('low'),
+      dismissedIssues: issues.length - active.length
+    }, format, accessibilityScanner.getConfig().wcagLevel);
+  }
+
   /**
    * Get integration status
    */
@@ -1,10 +1,11 @@
 /**
  * AccessiAI Extension Popup
  * Main user interface for accessibility analysis and controls
- * Provides system status, quick actions, and page analysis results
+ * Provides system status, quick actions, page analysis results, and site crawls
  */
 
-import type { SystemHealthReport, MessageBusStatus } from './types/index';
+import type { SystemHealthReport, MessageBusStatus, CrawlState, SiteDashboard, AnalysisTrend, AnalysisRunComparison } from './types/index';
+import { reportGenerator, ReportFormat, GeneratedReport } from './utils/ReportGenerator';
 
 // ============================================================================
 // POPUP INTERFACE CONTROLLER
@@ -13,6 +14,8 @@ import type { SystemHealthReport, MessageBusStatus } from './types/index';
 class PopupController {
   private systemHealth: SystemHealthReport | null = null;
   private refreshInterval: NodeJS.Timeout | null = null;
+  private exportFormat: ReportFormat = 'html';
+  private crawlPollInterval: NodeJS.Timeout | null = null;
 
   // ============================================================================
   // INITIALIZATION
@@ -30,6 +33,7 @@ class PopupController {
       
       // Render initial UI
       this.renderUI();
+      await this.renderSiteCrawl();
       
       // Start auto-refresh
       this.startAutoRefresh();
@@ -96,6 +100,14 @@ class PopupController {
         this.renderPageAnalysis(response.data);
       }
       
+      const historyResponse = await chrome.tabs.sendMessage(tab.id, {
+        type: 'GET_ANALYSIS_HISTORY'
+      });
+      
+      if (historyResponse?.success) {
+        this.renderPageTrend(historyResponse.data.page, historyResponse.data.origin);
+      }
+      
     } catch (error) {
       console.log('[AccessiAI] No content script available on current page');
       this.showContentScriptWarning();
@@ -271,11 +283,46 @@ class PopupController {
             <span class="icon">📄</span>
             <span class="text">Export Report</span>
           </button>
+          <button id="tab-order-btn" class="action-btn">
+            <span class="icon">⇥</span>
+            <span class="text">Tab Order</span>
+          </button>
+          <button id="keyboard-probe-btn" class="action-btn">
+            <span class="icon">⌨</span>
+            <span class="text">Keyboard Probe</span>
+          </button>
+          <button id="navigation-rotor-btn" class="action-btn">
+            <span class="icon">🧭</span>
+            <span class="text">Navigate Page</span>
+          </button>
+          <button id="read-page-btn" class="action-btn">
+            <span class="icon">🔊</span>
+            <span class="text">Read Page Aloud</span>
+          </button>
         </div>
+        <label class="export-format">
+          Report format
+          <select id="export-format-select">
+            ${this.renderExportFormatOptions()}
+          </select>
+        </label>
       </div>
     `;
   }
 
+  private renderExportFormatOptions(): string {
+    const formats: Array<[ReportFormat, string]> = [
+      ['html', 'HTML (printable)'],
+      ['json', 'JSON'],
+      ['csv', 'CSV'],
+      ['sarif', 'SARIF 2.1']
+    ];
+    
+    return formats.map(([format, label]) => `
+            <option value="${format}" ${format === this.exportFormat ? 'selected' : ''}>${label}</option>
+    `).join('');
+  }
+
   private renderAgentStatus(): string {
     if (!this.systemHealth?.agents) {
       return '';
@@ -325,6 +372,199 @@ class PopupController {
     `;
   }
 
+  /**
+   * Render score sparklines for the current page and its site, with the
+   * change since the page's previous scan
+   */
+  private renderPageTrend(page: AnalysisTrend, origin: AnalysisTrend): void {
+    const container = document.getElementById('page-trend');
+    if (!container) return;
+    
+    if (page.points.length === 0) {
+      container.innerHTML = '';
+      return;
+    }
+    
+    container.innerHTML = `
+      <div class="page-trend">
+        <h2>Score History</h2>
+        ${this.renderTrendRow('This page', page)}
+        ${origin.points.length > 1 ? this.renderTrendRow('This site', origin) : ''}
+        ${page.latestComparison ? this.renderComparison(page.latestComparison) : '<p class="trend-change">Scan again to compare with this run.</p>'}
+      </div>
+    `;
+  }
+  
+  private renderTrendRow(label: string, trend: AnalysisTrend): string {
+    const scores = trend.points.map(point => point.complianceScore);
+    const first = scores[0] ?? 0;
+    const last = scores[scores.length - 1] ?? 0;
+    const pages = trend.points[trend.points.length - 1]?.pageCount ?? 1;
+    const description = `${label}: score ${Math.round(first)} to ${Math.round(last)} over ${scores.length} scan${scores.length === 1 ? '' : 's'}`
+      + (trend.scope === 'origin' ? `, ${pages} pages` : '');
+    
+    return `
+      <div class="trend-row">
+        <span class="trend-label">${label}</span>
+        ${this.renderSparkline(scores, description)}
+        <span class="trend-score">${Math.round(last)}</span>
+      </div>
+    `;
+  }
+  
+  /**
+   * Inline SVG sparkline of scores on a fixed 0-100 scale
+   */
+  private renderSparkline(scores: readonly number[], description: string): string {
+    const width = 160;
+    const height = 32;
+    const step = scores.length > 1 ? width / (scores.length - 1) : 0;
+    const toY = (score: number) => (height - 2 - (Math.max(0, Math.min(100, score)) / 100) * (height - 4)).toFixed(1);
+    const coordinates = scores.map((score, index) => `${(index * step).toFixed(1)},${toY(score)}`);
+    const [lastX, lastY] = (coordinates[coordinates.length - 1] ?? '0,0').split(',');
+    
+    return `
+      <svg class="sparkline" width="${width}" height="${height}" viewBox="-3 0 ${width + 6} ${height}" role="img" aria-label="${this.escapeHTML(description)}">
+        <polyline points="${coordinates.join(' ')}" fill="none" stroke="#667eea" stroke-width="2" stroke-linejoin="round" />
+        <circle cx="${lastX}" cy="${lastY}" r="2.5" fill="#667eea" />
+      </svg>
+    `;
+  }
+  
+  private renderComparison(comparison: AnalysisRunComparison): string {
+    const delta = Math.round(comparison.scoreDelta);
+    const deltaText = delta === 0 ? 'Score unchanged' : `Score ${delta > 0 ? '+' : ''}${delta}`;
+    const introduced = comparison.introducedIssues.length;
+    const fixed = comparison.fixedIssues.length;
+    
+    return `
+      <p class="trend-change ${comparison.isRegression ? 'regression' : ''}">
+        ${comparison.isRegression ? '<strong>Regression:</strong> ' : ''}${deltaText} since ${new Date(comparison.previousAnalyzedAt).toLocaleString()}
+        · ${introduced} introduced · ${fixed} fixed
+      </p>
+      ${introduced > 0 ? `
+        <ul class="trend-issues">
+          ${comparison.introducedIssues.slice(0, 5).map(issue => `
+            <li><span class="trend-severity ${issue.severity}">${issue.severity}</span> ${this.formatIssueType(issue.type)}</li>
+          `).join('')}
+        </ul>
+      ` : ''}
+    `;
+  }
+
+  /**
+   * Render the site crawl form once; only the dashboard below it is refreshed
+   */
+  private async renderSiteCrawl(): Promise<void> {
+    const container = document.getElementById('site-crawl');
+    if (!container) return;
+    
+    container.innerHTML = `
+      <div class="site-crawl">
+        <h2>Site Crawl</h2>
+        <form id="crawl-form" class="crawl-form">
+          <label for="crawl-start-url">Start URL</label>
+          <input type="url" id="crawl-start-url" required placeholder="https://example.com/">
+          <div class="crawl-limits">
+            <label>Depth <input type="number" id="crawl-depth" min="0" max="5" value="2"></label>
+            <label>Page limit <input type="number" id="crawl-max-pages" min="1" max="200" value="25"></label>
+          </div>
+          <div class="crawl-buttons">
+            <button type="submit" id="crawl-start-btn" class="primary-btn">Start Crawl</button>
+            <button type="button" id="crawl-cancel-btn" class="secondary-btn" hidden>Cancel</button>
+          </div>
+        </form>
+        <div id="crawl-dashboard" class="crawl-dashboard" aria-live="polite"></div>
+      </div>
+    `;
+    
+    // Default to the site in the current tab
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.url && /^https?:/.test(tab.url)) {
+        (document.getElementById('crawl-start-url') as HTMLInputElement).value = new URL(tab.url).origin + '/';
+      }
+    } catch (error) {
+      console.warn('[AccessiAI] Could not read the current tab URL:', error);
+    }
+    
+    document.getElementById('crawl-form')?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.handleStartCrawl();
+    });
+    
+    document.getElementById('crawl-cancel-btn')?.addEventListener('click', () => {
+      this.handleCancelCrawl();
+    });
+    
+    await this.refreshCrawlStatus();
+  }
+
+  private renderCrawlDashboard(state: CrawlState | null, dashboard: SiteDashboard | null): void {
+    const container = document.getElementById('crawl-dashboard');
+    const startBtn = document.getElementById('crawl-start-btn') as HTMLButtonElement | null;
+    const cancelBtn = document.getElementById('crawl-cancel-btn') as HTMLButtonElement | null;
+    if (!container) return;
+    
+    const running = state?.status === 'running';
+    if (startBtn) startBtn.disabled = running;
+    if (cancelBtn) cancelBtn.hidden = !running;
+    
+    if (!state || !dashboard) {
+      container.innerHTML = '';
+      return;
+    }
+    
+    const progress = running
+      ? `Crawling… ${state.pages.length} pages done, ${state.pendingCount} queued`
+      : `Crawl ${state.status} ${new Date(state.finishedAt ?? state.startedAt).toLocaleString()}`;
+    
+    // Page titles and URLs come from the crawled site and are escaped
+    container.innerHTML = `
+      <p class="crawl-progress">${this.escapeHTML(progress)}${state.error ? ` – ${this.escapeHTML(state.error)}` : ''}</p>
+      <div class="status-grid">
+        <div class="status-item">
+          <span class="label">Pages analyzed</span>
+          <span class="value">${dashboard.pagesAnalyzed}${dashboard.pagesFailed > 0 ? ` (${dashboard.pagesFailed} failed)` : ''}</span>
+        </div>
+        <div class="status-item">
+          <span class="label">Average score</span>
+          <span class="value">${dashboard.averageScore}</span>
+        </div>
+      </div>
+      ${dashboard.worstPages.length > 0 ? `
+        <h3>Worst Pages</h3>
+        <table class="crawl-table">
+          <thead><tr><th scope="col">Page</th><th scope="col">Score</th><th scope="col">Issues</th></tr></thead>
+          <tbody>
+            ${dashboard.worstPages.map(page => `
+              <tr>
+                <td><a href="${this.escapeHTML(page.url)}" target="_blank" rel="noopener noreferrer" title="${this.escapeHTML(page.url)}">${this.escapeHTML(page.title || page.url)}</a></td>
+                <td>${Math.round(page.complianceScore)}</td>
+                <td>${page.totalIssues}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      ` : ''}
+      ${dashboard.commonIssueTypes.length > 0 ? `
+        <h3>Most Common Issues</h3>
+        <table class="crawl-table">
+          <thead><tr><th scope="col">Issue type</th><th scope="col">Count</th><th scope="col">Pages</th></tr></thead>
+          <tbody>
+            ${dashboard.commonIssueTypes.map(item => `
+              <tr>
+                <td>${this.formatIssueType(item.type)}</td>
+                <td>${item.count}</td>
+                <td>${item.pages}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      ` : ''}
+    `;
+  }
+
   // ============================================================================
   // EVENT HANDLING
   // ============================================================================
@@ -358,6 +598,26 @@ class PopupController {
       this.handleExportReport();
     });
     
+    document.getElementById('tab-order-btn')?.addEventListener('click', () => {
+      this.handleToggleTabOrder();
+    });
+    
+    document.getElementById('navigation-rotor-btn')?.addEventListener('click', () => {
+      this.handleOpenNavigationRotor();
+    });
+    
+    document.getElementById('read-page-btn')?.addEventListener('click', () => {
+      this.handleReadPageAloud();
+    });
+    
+    document.getElementById('keyboard-probe-btn')?.addEventListener('click', () => {
+      this.handleRunKeyboardProbe();
+    });
+    
+    document.getElementById('export-format-select')?.addEventListener('change', (event) => {
+      this.exportFormat = (event.target as HTMLSelectElement).value as ReportFormat;
+    });
+    
     // Footer buttons
     document.getElementById('settings-btn')?.addEventListener('click', () => {
       this.handleOpenSettings();
@@ -382,17 +642,21 @@ class PopupController {
         return;
       }
       
-      try {
-        await chrome.tabs.sendMessage(tab.id, { type: 'ANALYZE_PAGE' });
-        setTimeout(() => {
-          this.loadCurrentPageAnalysis();
-          this.hideLoading();
-        }, 2000);
-      } catch (tabError) {
-        console.warn('[AccessiAI] Content script not available:', tabError);
+      // The perception agent answers once the content script has finished
+      const response = await this.sendMessageToBackground({
+        type: 'ANALYZE_PAGE_CONTENT',
+        data: { tabId: tab.id }
+      });
+      
+      if (!response.success) {
+        console.warn('[AccessiAI] Page analysis failed:', response.error);
         this.showError('Please refresh the page and try again');
+        return;
       }
       
+      await this.loadCurrentPageAnalysis();
+      this.hideLoading();
+      
     } catch (error) {
       console.error('[AccessiAI] Scan page failed:', error);
       this.showError('Failed to scan page');
@@ -406,10 +670,24 @@ class PopupController {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
       if (!tab?.id) return;
       
-      await chrome.tabs.sendMessage(tab.id, { type: 'APPLY_AUTO_FIXES' });
+      // The adaptation agent applies the fixes and keeps them for the next visit
+      const response = await this.sendMessageToBackground({
+        type: 'APPLY_FIXES',
+        data: { tabId: tab.id }
+      });
       
+      if (!response.success) {
+        this.showError(response.error?.message || 'Failed to apply fixes');
+        return;
+      }
+      
+      const { applied, failed } = response.data;
       this.hideLoading();
-      this.showSuccess('Accessibility fixes applied');
+      if (applied.length === 0) {
+        this.showInfo(failed > 0 ? 'No issues could be fixed automatically' : 'No issues to fix');
+        return;
+      }
+      this.showSuccess(`${applied.length} fix${applied.length === 1 ? '' : 'es'} applied; they will be reapplied on your next visit`);
       
     } catch (error) {
       console.error('[AccessiAI] Auto fix failed:', error);
@@ -430,9 +708,197 @@ class PopupController {
     }
   }
 
-  private handleExportReport(): void {
-    // Exports accessibility analysis results as downloadable report
-    this.showInfo('Export feature coming soon');
+  private async handleToggleTabOrder(): Promise<void> {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) return;
+      
+      const response = await chrome.tabs.sendMessage(tab.id, { type: 'TOGGLE_TAB_ORDER_OVERLAY' });
+      if (!response?.success) {
+        this.showError(response?.error || 'Failed to toggle tab order');
+        return;
+      }
+      
+      const summary = response.data.summary;
+      if (!summary) {
+        this.showInfo('Tab order overlay hidden');
+        return;
+      }
+      
+      const warnings = summary.positiveTabindex + summary.offScreen + summary.hiddenContainer;
+      const message = `${summary.stops} tab stops, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+      if (warnings > 0) {
+        this.showError(message);
+      } else {
+        this.showSuccess(message);
+      }
+      
+    } catch (error) {
+      console.error('[AccessiAI] Toggle tab order failed:', error);
+      this.showError('Please refresh the page and try again');
+    }
+  }
+
+  private async handleRunKeyboardProbe(): Promise<void> {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) return;
+      
+      this.showInfo('Tabbing through the page...');
+      const response = await chrome.tabs.sendMessage(tab.id, { type: 'RUN_KEYBOARD_PROBE' });
+      if (!response?.success) {
+        this.showError(response?.error || 'Keyboard probe failed');
+        return;
+      }
+      
+      const { totalIssues, keyboardTraps } = response.data;
+      if (totalIssues === 0) {
+        this.showSuccess('No keyboard traps or focus loss found');
+        return;
+      }
+      
+      const traps = keyboardTraps > 0 ? `, ${keyboardTraps} keyboard trap${keyboardTraps === 1 ? '' : 's'}` : '';
+      this.showError(`${totalIssues} focus issue${totalIssues === 1 ? '' : 's'}${traps}; see the panel for steps`);
+      
+    } catch (error) {
+      console.error('[AccessiAI] Keyboard probe failed:', error);
+      this.showError('Please refresh the page and try again');
+    }
+  }
+
+  private async handleOpenNavigationRotor(): Promise<void> {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) return;
+      
+      const response = await this.sendMessageToBackground({
+        type: 'TOGGLE_NAVIGATION_ROTOR',
+        data: { tabId: tab.id }
+      });
+      if (!response.success) {
+        this.showError(response.error?.message || 'Page navigation is not available');
+        return;
+      }
+      
+      // Closing the popup hands keyboard focus to the rotor on the page
+      if (response.data.open) {
+        window.close();
+      }
+      
+    } catch (error) {
+      console.error('[AccessiAI] Opening navigation rotor failed:', error);
+      this.showError('Please refresh the page and try again');
+    }
+  }
+
+  private async handleReadPageAloud(): Promise<void> {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) return;
+      
+      const response = await this.sendMessageToBackground({
+        type: 'READ_PAGE_ALOUD',
+        data: { tabId: tab.id }
+      });
+      if (!response.success) {
+        this.showError(response.error?.message || 'The page reader is not available');
+        return;
+      }
+      
+      // Reading goes on in the background; the page shows the reader toolbar
+      window.close();
+      
+    } catch (error) {
+      console.error('[AccessiAI] Starting page reader failed:', error);
+      this.showError('Please refresh the page and try again');
+    }
+  }
+
+  private async handleExportReport(): Promise<void> {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) {
+        this.showError('No active tab found');
+        return;
+      }
+      
+      this.showInfo(`Preparing ${this.exportFormat.toUpperCase()} report...`);
+      
+      // The content script holds the full analysis result and builds the report
+      const response = await chrome.tabs.sendMessage(tab.id, {
+        type: 'EXPORT_REPORT',
+        format: this.exportFormat
+      });
+      
+      if (!response?.success) {
+        this.showError(response?.error || 'Failed to export report');
+        return;
+      }
+      
+      const report = response.data as GeneratedReport;
+      reportGenerator.download(report);
+      this.showSuccess(`Saved ${report.filename}`);
+      
+    } catch (error) {
+      console.error('[AccessiAI] Export report failed:', error);
+      this.showError('Please refresh the page and try again');
+    }
+  }
+
+  private async handleStartCrawl(): Promise<void> {
+    const startUrl = (document.getElementById('crawl-start-url') as HTMLInputElement).value.trim();
+    const maxDepth = Number((document.getElementById('crawl-depth') as HTMLInputElement).value);
+    const maxPages = Number((document.getElementById('crawl-max-pages') as HTMLInputElement).value);
+    
+    try {
+      const response = await this.sendMessageToBackground({
+        type: 'START_SITE_CRAWL',
+        options: { startUrl, maxDepth, maxPages }
+      });
+      
+      if (!response.success) {
+        this.showError(response.error?.message || 'Failed to start crawl');
+        return;
+      }
+      
+      this.showInfo('Site crawl started');
+      await this.refreshCrawlStatus();
+    } catch (error) {
+      console.error('[AccessiAI] Start crawl failed:', error);
+      this.showError('Failed to start crawl');
+    }
+  }
+
+  private async handleCancelCrawl(): Promise<void> {
+    try {
+      await this.sendMessageToBackground({ type: 'CANCEL_SITE_CRAWL' });
+      this.showInfo('Crawl will stop after the current page');
+    } catch (error) {
+      console.error('[AccessiAI] Cancel crawl failed:', error);
+      this.showError('Failed to cancel crawl');
+    }
+  }
+
+  /**
+   * Load crawl progress, polling while a crawl is running
+   */
+  private async refreshCrawlStatus(): Promise<void> {
+    try {
+      const response = await this.sendMessageToBackground({ type: 'GET_SITE_CRAWL_STATUS' });
+      if (!response.success) return;
+      
+      const { state, dashboard } = response.data as { state: CrawlState | null; dashboard: SiteDashboard | null };
+      this.renderCrawlDashboard(state, dashboard);
+      
+      if (state?.status === 'running' && !this.crawlPollInterval) {
+        this.crawlPollInterval = setInterval(() => this.refreshCrawlStatus(), 1000);
+      } else if (state?.status !== 'running' && this.crawlPollInterval) {
+        clearInterval(this.crawlPollInterval);
+        this.crawlPollInterval = null;
+      }
+    } catch (error) {
+      console.warn('[AccessiAI] Failed to load crawl status:', error);
+    }
   }
 
   private handleOpenSettings(): void {
@@ -464,6 +930,21 @@ class PopupController {
     ).join(' ');
   }
 
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private formatIssueType(type: string): string {
+    return type.split('-').map(word => 
+      word.charAt(0).toUpperCase() + word.slice(1)
+    ).join(' ');
+  }
+
   private formatUptime(uptime: number): string {
     const seconds = Math.floor(uptime / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -567,6 +1048,11 @@ class PopupController {
       this.refreshInterval = null;
     }
     
+    if (this.crawlPollInterval) {
+      clearInterval(this.crawlPollInterval);
+      this.crawlPollInterval = null;
+    }
+    
     console.log('[AccessiAI] Popup cleaned up');
   }
 }
@@ -582,6 +1068,8 @@ document.addEventListener('DOMContentLoaded', () => {
       <div class="loading">Loading AccessiAI...</div>
     </div>
     <div id="page-analysis"></div>
+    <div id="page-trend"></div>
+    <div id="site-crawl"></div>
   `;
   
   // Initialize popup controller
@@ -117,6 +117,11 @@ export type AccessibilityIssueType =
 
 export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
 
+export type IssueScanStatus = 'new' | 'persisting' | 'resolved';   // relative to the previous scan of the same URL
+
+// Analyzer that produced an issue; 'keyboard' findings need simulated key presses and only come from probe runs
+export type IssueSource = 'content-structure' | 'visual' | 'widget-pattern' | 'keyboard' | 'custom-rule';
+
 export interface ElementInfo {
   readonly tagName: string;
   readonly id?: string;
@@ -128,6 +133,7 @@ export interface ElementInfo {
 }
 
 export interface AccessibilityAnalysis {
+  readonly id?: string;                // assigned when stored; kept when a stored analysis is updated
   readonly pageUrl: string;
   readonly analyzedAt: number;
   readonly issues: readonly AccessibilityIssue[];
@@ -135,6 +141,86 @@ export interface AccessibilityAnalysis {
   readonly totalElements: number;
   readonly processedElements: number;
   readonly analysisTime: number;       // milliseconds
+  readonly criteriaEvaluations?: readonly CriterionEvaluation[];   // per-page WCAG verdicts for conformance reports
+  readonly manualChecks?: readonly ManualCheckResult[];            // tester verdicts for criteria automation cannot decide
+  readonly keyboardProbe?: boolean;    // keys were pressed during the run, so it includes 'keyboard' source issues
+}
+
+export type ManualCheckOutcome = 'pass' | 'fail' | 'not-applicable';
+
+export interface ManualCheckResult {
+  readonly criterion: string;            // success criterion id, e.g. '1.3.2'
+  readonly outcome: ManualCheckOutcome;
+  readonly note: string;
+  readonly author: string;
+  readonly checkedAt: number;
+}
+
+export type IssueTriageStatus = 'open' | 'acknowledged' | 'wont-fix' | 'false-positive' | 'resolved';
+
+export interface IssueTriage {
+  readonly fingerprint: string;
+  readonly status: IssueTriageStatus;
+  readonly note: string;
+  readonly author: string;
+  readonly updatedAt: number;
+  readonly elementHash: string;      // element state the decision was made against
+}
+
+export interface IssueBaseline {
+  readonly id: string;
+  readonly name: string;
+  readonly urlPattern: string;           // '*' matches any run of characters, e.g. 'https://example.com/products/*'
+  readonly fingerprints: readonly string[];   // accepted issues, see IssueFingerprinter
+  readonly author: string;
+  readonly createdAt: number;
+  readonly updatedAt: number;
+}
+
+export interface IssueBaselineFile {
+  readonly format: 'accessiai-baselines';
+  readonly version: 1;
+  readonly exportedAt: number;
+  readonly baselines: readonly IssueBaseline[];
+}
+
+export interface IssueScanSummary {
+  readonly newIssues: readonly AccessibilityIssue[];
+  readonly persistingIssues: readonly AccessibilityIssue[];
+  readonly resolvedIssues: readonly AccessibilityIssue[];   // seen in the previous scan, gone now
+}
+
+export interface IssueDiff {
+  readonly added: readonly AccessibilityIssue[];
+  readonly retired: readonly AccessibilityIssue[];
+  readonly unchanged: number;
+}
+
+export interface AnalysisTrendPoint {
+  readonly analyzedAt: number;
+  readonly complianceScore: number;
+  readonly totalIssues: number;
+  readonly criticalIssues: number;       // critical and high severity
+  readonly pageCount: number;            // pages the point summarises; 1 for page trends
+}
+
+export interface AnalysisRunComparison {
+  readonly pageUrl: string;
+  readonly previousAnalyzedAt: number;
+  readonly currentAnalyzedAt: number;
+  readonly previousScore: number;
+  readonly currentScore: number;
+  readonly scoreDelta: number;
+  readonly introducedIssues: readonly AccessibilityIssue[];   // in the latest run, not the one before
+  readonly fixedIssues: readonly AccessibilityIssue[];        // in the run before, gone from the latest
+  readonly isRegression: boolean;
+}
+
+export interface AnalysisTrend {
+  readonly scope: 'page' | 'origin';
+  readonly key: string;                  // page URL or origin
+  readonly points: readonly AnalysisTrendPoint[];   // oldest first
+  readonly latestComparison: AnalysisRunComparison | null;   // null before a page's second run
 }
 
 // ============================================================================
@@ -156,6 +242,81 @@ export type WCAGPrinciple =
   | 'understandable' 
   | 'robust';
 
+// How far automated checks can decide a criterion
+export type WCAGAutomation = 'automated' | 'partial' | 'manual';
+
+// Automated checks run by the analyzers, mapped to criteria by the WCAG catalog
+export type WCAGCheckId =
+  | 'image-alt'
+  | 'media-transcript'
+  | 'media-captions'
+  | 'media-audio-description'
+  | 'media-autoplay'
+  | 'media-controls'
+  | 'layout-table'
+  | 'semantic-structure'
+  | 'landmarks'
+  | 'heading-structure'
+  | 'color-only'
+  | 'text-contrast'
+  | 'text-size'
+  | 'keyboard-access'
+  | 'keyboard-trap'
+  | 'focus-order'
+  | 'focus-visible'
+  | 'link-purpose'
+  | 'form-label'
+  | 'form-validation'
+  | 'aria-valid'
+  | 'widget-structure'
+  | 'widget-keyboard';
+
+export interface WCAGCatalogEntry extends WCAGCriteria {
+  readonly since: '2.0' | '2.1' | '2.2';
+  readonly understanding: string;        // intent of the criterion, from the Understanding document
+  readonly understandingUrl: string;
+  readonly automation: WCAGAutomation;
+  readonly checks: readonly WCAGCheckId[];
+}
+
+export interface WCAGCoverage {
+  readonly level: WCAGCriteria['level'];
+  readonly automated: readonly WCAGCatalogEntry[];
+  readonly partial: readonly WCAGCatalogEntry[];
+  readonly manual: readonly WCAGCatalogEntry[];
+  readonly needsManualReview: readonly WCAGCatalogEntry[];   // partial without detected failures, plus manual
+}
+
+// Value types of WAI-ARIA states and properties
+export type ARIAValueType =
+  | 'true-false'
+  | 'true-false-undefined'
+  | 'tristate'              // true, false, mixed or undefined
+  | 'idref'
+  | 'idref-list'
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'token'
+  | 'token-list';
+
+export interface ARIAAttributeDefinition {
+  readonly name: string;
+  readonly type: ARIAValueType;
+  readonly values?: readonly string[];   // allowed tokens for token and token-list types
+  readonly global: boolean;              // supported on every role that does not prohibit it
+  readonly deprecated: boolean;
+}
+
+export interface ARIARoleDefinition {
+  readonly name: string;
+  readonly abstract: boolean;            // ontology only; never valid in content
+  readonly deprecated: boolean;
+  readonly required: readonly string[];
+  readonly supported: readonly string[]; // role-specific states and properties, globals excluded
+  readonly prohibited: readonly string[];
+}
+
 export interface ComplianceResult {
   readonly criteria: WCAGCriteria;
   readonly status: ComplianceStatus;
@@ -166,6 +327,13 @@ export interface ComplianceResult {
 
 export type ComplianceStatus = 'pass' | 'fail' | 'partial' | 'not-applicable';
 
+export interface CriterionEvaluation {
+  readonly criterion: string;            // success criterion id, e.g. '1.1.1'
+  readonly status: ComplianceStatus;
+  readonly issueIds: readonly string[];  // issues in the same analysis that decided the status
+  readonly source?: 'automated' | 'manual';   // absent on analyses stored before manual checks existed
+}
+
 // ============================================================================
 // DOM ANALYSIS TYPES
 // ============================================================================
@@ -465,6 +633,30 @@ export const PERFORMANCE_TARGETS = {
   }
 } as const;
 
+export const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcuts = {
+  togglePanel: 'Alt+F12',
+  scanPage: 'Alt+F11',
+  fixIssues: 'Alt+F10',
+  nextIssue: 'Alt+Shift+ArrowDown',
+  previousIssue: 'Alt+Shift+ArrowUp',
+  showHelp: 'Alt+F1',
+  nextHeading: 'Alt+Shift+H',
+  previousHeading: 'Ctrl+Alt+Shift+H',
+  nextLandmark: 'Alt+Shift+L',
+  previousLandmark: 'Ctrl+Alt+Shift+L',
+  nextFormField: 'Alt+Shift+F',
+  previousFormField: 'Ctrl+Alt+Shift+F',
+  toggleRotor: 'Alt+Shift+R'
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+  highlightWords: true,
+  announceScanResults: false
+};
+
 export const WCAG_LEVELS = ['A', 'AA', 'AAA'] as const;
 export const WCAG_PRINCIPLES = ['perceivable', 'operable', 'understandable', 'robust'] as const;
 
@@ -628,6 +820,17 @@ export interface AccessibilitySettings {
   readonly wcagLevel: 'A' | 'AA' | 'AAA';
   readonly enableVoiceCommands: boolean;
   readonly keyboardShortcuts: KeyboardShortcuts;
+  readonly speech: SpeechSettings;
+  readonly autoFixIssueTypes: readonly AccessibilityIssueType[];   // fixed without asking after each full scan
+}
+
+export interface SpeechSettings {
+  readonly voiceName?: string;            // system default voice when omitted
+  readonly rate: number;                  // 0.5 - 2, 1 is normal speed
+  readonly pitch: number;                 // 0 - 2, 1 is normal pitch
+  readonly volume: number;                // 0 - 1
+  readonly highlightWords: boolean;
+  readonly announceScanResults: boolean;
 }
 
 export interface AccessibilityProfile {
@@ -679,6 +882,13 @@ export interface KeyboardShortcuts {
   readonly nextIssue: string;
   readonly previousIssue: string;
   readonly showHelp: string;
+  readonly nextHeading: string;
+  readonly previousHeading: string;
+  readonly nextLandmark: string;
+  readonly previousLandmark: string;
+  readonly nextFormField: string;
+  readonly previousFormField: string;
+  readonly toggleRotor: string;
 }
 
 export interface PerformanceSettings {
@@ -726,6 +936,309 @@ export interface SettingsWarning {
   readonly suggestion: string;
 }
 
+// ============================================================================
+// SITE CRAWL TYPES
+// ============================================================================
+
+export interface CrawlOptions {
+  readonly startUrl: string;
+  readonly maxDepth: number;             // link hops from the start page
+  readonly maxPages: number;
+}
+
+export type CrawlStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+// Reported by the content script after analyzing a crawled page
+export interface CrawlPageSnapshot {
+  readonly url: string;
+  readonly title: string;
+  readonly complianceScore: number;
+  readonly totalIssues: number;
+  readonly criticalIssues: number;
+  readonly highPriorityIssues: number;
+  readonly issueTypeCounts: Partial<Record<AccessibilityIssueType, number>>;
+  readonly links: readonly string[];     // absolute hrefs found on the page
+}
+
+export interface CrawlPageResult {
+  readonly url: string;
+  readonly depth: number;
+  readonly status: 'analyzed' | 'failed';
+  readonly title: string;
+  readonly complianceScore: number;
+  readonly totalIssues: number;
+  readonly criticalIssues: number;
+  readonly highPriorityIssues: number;
+  readonly issueTypeCounts: Partial<Record<AccessibilityIssueType, number>>;
+  readonly error?: string;
+  readonly analyzedAt: number;
+}
+
+export interface CrawlState {
+  readonly id: string;
+  readonly options: CrawlOptions;
+  readonly status: CrawlStatus;
+  readonly startedAt: number;
+  readonly finishedAt?: number;
+  readonly pendingCount: number;         // pages queued but not yet analyzed
+  readonly pages: readonly CrawlPageResult[];
+  readonly error?: string;
+}
+
+export interface SiteDashboard {
+  readonly pagesAnalyzed: number;
+  readonly pagesFailed: number;
+  readonly averageScore: number;
+  readonly totalIssues: number;
+  readonly worstPages: readonly CrawlPageResult[];
+  readonly commonIssueTypes: readonly {
+    readonly type: AccessibilityIssueType;
+    readonly count: number;
+    readonly pages: number;
+  }[];
+}
+
+// ============================================================================
+// PERCEPTION AGENT TYPES
+// ============================================================================
+
+export type PerceptionAction = 'analyze-page' | 'analyze-element' | 'get-last-result';
+
+export interface PerceptionRequest {
+  readonly tabId?: number;               // defaults to the active tab
+  readonly selector?: string;            // required by analyze-element
+}
+
+// Reported by the content script after a perception agent analysis
+export interface PerceptionSnapshot {
+  readonly url: string;
+  readonly title: string;
+  readonly scope: 'page' | 'element';
+  readonly selector?: string;
+  readonly complianceScore: number;
+  readonly totalIssues: number;
+  readonly criticalIssues: number;
+  readonly highPriorityIssues: number;
+  readonly issues: readonly AccessibilityIssue[];
+  readonly analysisTime: number;
+  readonly analyzedAt: number;
+}
+
+export interface PerceptionResult extends PerceptionSnapshot {
+  readonly tabId: number;
+}
+
+// ============================================================================
+// ADAPTATION AGENT TYPES
+// ============================================================================
+
+export type AdaptationAction = 'apply-fixes' | 'revert-fixes' | 'page-ready' | 'get-remediation-state';
+
+export interface AdaptationRequest {
+  readonly tabId?: number;                 // defaults to the active tab
+  readonly issueIds?: readonly string[];   // apply-fixes, all fixable issues when omitted; revert-fixes
+  readonly pageUrl?: string;               // page-ready, get-remediation-state
+}
+
+export interface ElementStateSnapshot {
+  readonly tagName: string;
+  readonly attributes: Record<string, string>;
+}
+
+// Reported by the content script for each fix it applied
+export interface AppliedRemediation {
+  readonly issue: AccessibilityIssue;      // replayed when the page is revisited
+  readonly fixAction: string;
+  readonly locator: string;                // of the element before the fix
+  readonly before: ElementStateSnapshot;
+  readonly after: ElementStateSnapshot;
+  readonly appliedAt: number;
+}
+
+export interface RemediationRecord extends AppliedRemediation {
+  readonly id: string;
+  readonly tabId: number;
+  readonly pageUrl: string;
+  readonly reappliedAt?: number;
+}
+
+export interface RemediationApplyResult {
+  readonly pageUrl: string;
+  readonly applied: readonly RemediationRecord[];
+  readonly failed: number;
+}
+
+export interface RemediationRevertResult {
+  readonly pageUrl: string;
+  readonly reverted: readonly string[];    // issue IDs; their records are not replayed again
+}
+
+export interface RemediationReplayResult {
+  readonly reapplied: readonly string[];   // record IDs
+  readonly skipped: readonly string[];     // element missing or changed since the fix
+}
+
+export interface RemediationState {
+  readonly tabId: number | null;
+  readonly pageUrl: string | null;
+  readonly active: readonly RemediationRecord[];   // applied in the tab's current page
+  readonly stored: readonly RemediationRecord[];   // replayed on the next visit of the page
+}
+
+// ============================================================================
+// NAVIGATION AGENT TYPES
+// ============================================================================
+
+export type NavigationAction = 'get-navigation-map' | 'jump' | 'toggle-rotor' | 'inject-skip-link';
+
+export type NavigationItemKind = 'landmark' | 'heading' | 'link' | 'form-control';
+
+export type NavigationDirection = 'next' | 'previous';
+
+export interface NavigationRequest {
+  readonly tabId?: number;                 // defaults to the active tab
+  readonly kind?: NavigationItemKind;      // required by jump
+  readonly direction?: NavigationDirection;   // jump; defaults to next
+}
+
+export interface NavigationItem {
+  readonly kind: NavigationItemKind;
+  readonly label: string;
+  readonly detail: string;                 // landmark role, heading level, link target or control type
+  readonly locator: string;
+}
+
+export interface NavigationMap {
+  readonly pageUrl: string;
+  readonly landmarks: readonly NavigationItem[];
+  readonly headings: readonly NavigationItem[];
+  readonly links: readonly NavigationItem[];
+  readonly formControls: readonly NavigationItem[];
+  readonly hasSkipLink: boolean;
+  readonly skipLinkInjected: boolean;
+  readonly mappingTime: number;
+}
+
+export interface NavigationJumpResult {
+  readonly item: NavigationItem | null;    // null when the page has none of the kind
+  readonly wrapped: boolean;               // went past the end and started over
+}
+
+// ============================================================================
+// COMMUNICATION AGENT TYPES
+// ============================================================================
+
+export type CommunicationAction =
+  | 'read-page'
+  | 'pause'
+  | 'resume'
+  | 'stop'
+  | 'skip'
+  | 'announce'
+  | 'announce-scan'
+  | 'get-reader-state'
+  | 'get-voices';
+
+export type ReadingUnit = 'sentence' | 'paragraph';
+
+export type ReadingBlockKind = 'heading' | 'paragraph' | 'list-item' | 'quote' | 'caption' | 'cell' | 'image' | 'code';
+
+export interface CommunicationRequest {
+  readonly tabId?: number;                 // defaults to the active tab
+  readonly text?: string;                  // required by announce
+  readonly unit?: ReadingUnit;             // skip; defaults to sentence
+  readonly direction?: NavigationDirection;   // skip; defaults to next
+  readonly scan?: PerceptionResult;        // required by announce-scan
+}
+
+// One block of page text in reading order, split for speaking
+export interface ReaderParagraph {
+  readonly kind: ReadingBlockKind;
+  readonly label: string;                  // spoken before the first sentence, e.g. "Heading level 2"
+  readonly sentences: readonly string[];
+}
+
+export interface ReaderDocument {
+  readonly pageUrl: string;
+  readonly title: string;
+  readonly lang?: string;                  // page language, picks the default voice
+  readonly paragraphs: readonly ReaderParagraph[];
+}
+
+export type ReaderStatus = 'idle' | 'playing' | 'paused';
+
+export interface ReaderState {
+  readonly tabId: number | null;
+  readonly pageUrl: string | null;
+  readonly status: ReaderStatus;
+  readonly paragraph: number;              // 0-based position of the sentence being read
+  readonly sentence: number;
+  readonly totalParagraphs: number;
+}
+
+// Sent to the content script for every word chrome.tts reports
+export interface ReaderHighlight {
+  readonly paragraph: number;
+  readonly sentence: number;
+  readonly charIndex: number;              // within the sentence
+  readonly length: number;
+}
+
+export interface SpeechVoice {
+  readonly name: string;
+  readonly lang?: string;
+  readonly remote: boolean;
+}
+
+// ============================================================================
+// LEARNING AGENT TYPES
+// ============================================================================
+
+export type LearningAction = 'record-feedback' | 'get-insights' | 'answer-suggestion' | 'clear-history';
+
+export type FixFeedbackOutcome = 'applied' | 'undone' | 'dismissed';
+
+// One decision the user made about an issue in the panel
+export interface FixFeedbackEvent {
+  readonly site: string;                   // hostname
+  readonly issueType: AccessibilityIssueType;
+  readonly fixAction: string | null;       // QuickFixAction id; null when the type has no quick fix
+  readonly outcome: FixFeedbackOutcome;
+  readonly recordedAt: number;
+}
+
+// Running counts for an issue type on one site, or on every site when site is '*'
+export interface FixFeedbackStats {
+  readonly id: string;                     // `${site}|${issueType}`
+  readonly site: string;
+  readonly issueType: AccessibilityIssueType;
+  readonly fixAction: string | null;
+  readonly applied: number;
+  readonly undone: number;
+  readonly dismissed: number;
+  readonly suggestion?: 'accepted' | 'declined';   // answer to the auto-fix suggestion, '*' records only
+  readonly updatedAt: number;
+}
+
+export interface AutoFixSuggestion {
+  readonly issueType: AccessibilityIssueType;
+  readonly fixAction: string;
+  readonly applied: number;
+}
+
+export interface LearningRequest {
+  readonly site?: string;                  // get-insights; clear-history clears every site when omitted
+  readonly event?: FixFeedbackEvent;       // required by record-feedback
+  readonly issueType?: AccessibilityIssueType;   // required by answer-suggestion
+  readonly accepted?: boolean;             // answer-suggestion
+}
+
+export interface LearningInsights {
+  readonly site: string;
+  readonly ranking: Partial<Record<AccessibilityIssueType, number>>;   // -1 (always dismissed) to 1 (always fixed)
+  readonly suggestions: readonly AutoFixSuggestion[];
+}
+
 // ============================================================================
 // UI COMPONENT TYPES
 // ============================================================================
@@ -747,5 +1260,11 @@ export interface DragHandler {
 declare module './index' {
   interface AccessibilityIssue {
     readonly category?: 'visual' | 'content' | 'structure' | 'interaction' | 'general';
+    readonly ruleId?: string;             // id of the custom rule that produced the issue
+    readonly source?: IssueSource;
+    readonly fingerprint?: string;        // stable identity across scans, see IssueFingerprinter
+    readonly scanStatus?: IssueScanStatus;
+    readonly triage?: IssueTriage;
+    readonly reproductionSteps?: readonly string[];   // key presses that reproduce a runtime finding, see KeyboardProbe
   }
 }
\ No newline at end of file
@@ -7,6 +7,9 @@
  * - Issue list display with severity categorization and filtering
  * - Real-time issue updates with live scanning capabilities
  * - Interactive issue details and suggested fixes
+ * - Guided manual checks for criteria automation cannot decide
+ * - Issue baselines and the "only new issues" mode
+ * - One-click fixes with undo, ranked by what the user usually fixes
  * 
  * Performance Target: <50ms UI updates
  * Accessibility: WCAG 2.1 AA compliant interface
@@ -18,8 +21,22 @@
 import { 
   AccessibilityIssue,
   IssueSeverity,
-  AccessibilityIssueType
+  AccessibilityIssueType,
+  IssueDiff,
+  IssueTriageStatus,
+  ManualCheckOutcome,
+  ManualCheckResult,
+  IssueBaseline,
+  AutoFixSuggestion
 } from '../types/index';
+import { issueTriageManager } from '../utils/IssueTriageManager';
+import { reportGenerator, ReportFormat } from '../utils/ReportGenerator';
+import { conformanceReportGenerator, ConformanceReport, ConformanceReportFormat } from '../utils/ConformanceReportGenerator';
+import { accessibilityScanner } from '../utils/AccessibilityScanner';
+import { manualCheckManager, ManualCheckItem } from '../utils/ManualCheckManager';
+import { issueBaselineManager } from '../utils/IssueBaselineManager';
+import { composedPathLocator } from '../utils/ComposedPathLocator';
+import type { FixResult } from './QuickActionControls';
 
 /**
  * Filter settings for accessibility issues
@@ -63,6 +80,7 @@ export class AccessibilityPanel {
   private panelElement: HTMLElement | null = null;
   private issueList: AccessibilityIssue[] = [];
   private filteredIssues: AccessibilityIssue[] = [];
+  private recentlyAddedIds: Set<string> = new Set();
   private filterSettings: FilterSettings;
   private dragHandler: DragHandler;
   private panelPosition: PanelPosition;
@@ -72,6 +90,7 @@ export class AccessibilityPanel {
   private issueListElement: HTMLElement | null = null;
   private filterElement: HTMLElement | null = null;
   private statsElement: HTMLElement | null = null;
+  private suggestionElement: HTMLElement | null = null;
   
   // State Management
   private isVisible: boolean = false;
@@ -85,6 +104,29 @@ export class AccessibilityPanel {
   
   // Event Listeners
   private boundEventListeners: Map<string, EventListener> = new Map();
+  private triageListeners: Array<(issue: AccessibilityIssue) => void> = [];
+  private exportListeners: Array<(format: ReportFormat) => void> = [];
+  private baselineListeners: Array<() => void> = [];
+  private suggestionListeners: Array<(suggestion: AutoFixSuggestion, accepted: boolean) => void> = [];
+  private fixHandler: ((issue: AccessibilityIssue) => Promise<FixResult>) | null = null;
+  private undoFixHandler: ((issue: AccessibilityIssue) => Promise<boolean>) | null = null;
+  
+  // Personalization
+  private issueRanking: Partial<Record<AccessibilityIssueType, number>> = {};
+  
+  private readonly TRIAGE_STATUS_LABELS: Record<IssueTriageStatus, string> = {
+    'open': 'Open',
+    'acknowledged': 'Acknowledged',
+    'wont-fix': "Won't fix",
+    'false-positive': 'False positive',
+    'resolved': 'Resolved'
+  };
+  
+  private readonly MANUAL_OUTCOME_LABELS: Record<ManualCheckOutcome, string> = {
+    'pass': 'Pass',
+    'fail': 'Fail',
+    'not-applicable': 'Not applicable'
+  };
   
   /**
    * Get singleton instance of AccessibilityPanel
@@ -224,6 +266,232 @@ export class AccessibilityPanel {
     }
   }
   
+  /**
+   * Apply an incremental analysis diff, marking new issues and announcing the change
+   * 
+   * @param issues - Complete issue set after the change
+   * @param diff - Issues added and retired by the change
+   * @returns Promise<void>
+   */
+  async applyIssueDiff(issues: AccessibilityIssue[], diff: IssueDiff): Promise<void> {
+    this.recentlyAddedIds = new Set(diff.added.map(issue => issue.id));
+    await this.updateIssues(issues);
+
+    const parts: string[] = [];
+    if (diff.added.length > 0) {
+      parts.push(`${diff.added.length} new issue${diff.added.length === 1 ? '' : 's'}`);
+    }
+    if (diff.retired.length > 0) {
+      parts.push(`${diff.retired.length} resolved`);
+    }
+    if (parts.length > 0 && this.isVisible) {
+      this.announceToScreenReader(`Page changed: ${parts.join(', ')}`);
+    }
+  }
+  
+  /**
+   * Record a triage decision for an issue and refresh the list
+   * 
+   * @param issue - Issue being triaged
+   * @param status - New triage status
+   * @param note - Auditor's note
+   * @param author - Who made the decision
+   * @returns Promise<AccessibilityIssue> - Issue with the new triage attached
+   */
+  async triageIssue(issue: AccessibilityIssue, status: IssueTriageStatus, note: string, author: string): Promise<AccessibilityIssue> {
+    const updated = await issueTriageManager.setTriage(issue, status, note, author);
+    
+    this.issueList = this.issueList.map(existing => existing.id === issue.id ? updated : existing);
+    this.applyCurrentFilters();
+    
+    if (this.isVisible) {
+      await this.renderStats();
+      await this.renderIssueList();
+    }
+    
+    this.announceToScreenReader(`Issue marked ${this.TRIAGE_STATUS_LABELS[status]}`);
+    this.triageListeners.forEach(listener => listener(updated));
+    
+    return updated;
+  }
+  
+  /**
+   * Register a listener for triage decisions made in the panel
+   * 
+   * @param listener - Called with the updated issue
+   */
+  onIssueTriaged(listener: (issue: AccessibilityIssue) => void): void {
+    this.triageListeners.push(listener);
+  }
+  
+  /**
+   * Show the conformance report for the current audit session
+   * 
+   * @param level - Target WCAG level, defaults to the scanner's configured level
+   * @returns Promise<void>
+   */
+  async showConformanceReport(level = accessibilityScanner.getConfig().wcagLevel): Promise<void> {
+    const report = await conformanceReportGenerator.buildReport(level);
+    
+    document.querySelector('.accessiai-conformance-modal')?.remove();
+    const modal = this.createConformanceModal(report);
+    document.body.appendChild(modal);
+    
+    (modal.querySelector('select, button') as HTMLElement | null)?.focus();
+    this.announceToScreenReader(`Conformance report for ${report.pageUrls.length} pages opened`);
+  }
+  
+  /**
+   * Start the guided manual checklist for the current page
+   * 
+   * Walks through the criteria automated checks cannot decide at the level,
+   * starting with the first one without a recorded verdict.
+   * 
+   * @param level - Target WCAG level, defaults to the scanner's configured level
+   * @returns Promise<void>
+   */
+  async startManualChecks(level = accessibilityScanner.getConfig().wcagLevel): Promise<void> {
+    const items = await manualCheckManager.getChecklist(window.location.href, level, this.issueList);
+    
+    if (items.length === 0) {
+      this.announceToScreenReader(`No criteria need manual review at level ${level}`);
+      return;
+    }
+    
+    document.querySelector('.accessiai-manual-check-modal')?.remove();
+    const modal = this.createManualCheckModal(items);
+    document.body.appendChild(modal);
+    
+    (modal.querySelector('input[name="outcome"]') as HTMLInputElement | null)?.focus();
+  }
+  
+  /**
+   * Show the baselines dialog
+   * 
+   * Saves the current issues as a named baseline, toggles the "only new
+   * issues" mode and shares baselines as JSON files.
+   * 
+   * @returns Promise<void>
+   */
+  async showBaselines(): Promise<void> {
+    const [baselines, onlyNewIssues] = await Promise.all([
+      issueBaselineManager.getBaselines(),
+      issueBaselineManager.isOnlyNewIssuesMode()
+    ]);
+    
+    document.querySelector('.accessiai-baseline-modal')?.remove();
+    const modal = this.createBaselineModal(baselines, onlyNewIssues);
+    document.body.appendChild(modal);
+    
+    (modal.querySelector('input') as HTMLInputElement | null)?.focus();
+  }
+  
+  /**
+   * Register a listener for baseline changes made in the panel
+   * 
+   * @param listener - Called after a baseline is saved, deleted or imported, or the mode changes
+   */
+  onBaselinesChanged(listener: () => void): void {
+    this.baselineListeners.push(listener);
+  }
+  
+  /**
+   * Register a listener for report export requests from the panel
+   * 
+   * @param listener - Called with the requested format; may throw to report failure
+   */
+  onExportRequested(listener: (format: ReportFormat) => void): void {
+    this.exportListeners.push(listener);
+  }
+  
+  /**
+   * Set the handler behind the details dialog's Apply Fix button
+   * 
+   * @param handler - Applies the fix and reports the result
+   */
+  onFixRequested(handler: (issue: AccessibilityIssue) => Promise<FixResult>): void {
+    this.fixHandler = handler;
+  }
+  
+  /**
+   * Set the handler behind the Undo Fix button shown after a fix
+   * 
+   * @param handler - Undoes the fix; resolves false when it can no longer be undone
+   */
+  onFixUndoRequested(handler: (issue: AccessibilityIssue) => Promise<boolean>): void {
+    this.undoFixHandler = handler;
+  }
+  
+  /**
+   * Order issues by how likely the user is to act on them
+   * 
+   * Issues keep their analysis order within the same weight.
+   * 
+   * @param ranking - Weight per issue type, from -1 (always dismissed) to 1 (always fixed)
+   */
+  async setIssueRanking(ranking: Partial<Record<AccessibilityIssueType, number>>): Promise<void> {
+    this.issueRanking = { ...ranking };
+    this.applyCurrentFilters();
+    
+    if (this.isVisible) {
+      await this.renderIssueList();
+    }
+  }
+  
+  /**
+   * Offer to fix issue types automatically on every analysis
+   * 
+   * @param suggestions - Issue types the user has always fixed; empty hides the offer
+   */
+  showAutoFixSuggestions(suggestions: readonly AutoFixSuggestion[]): void {
+    if (!this.suggestionElement) return;
+    
+    this.suggestionElement.replaceChildren();
+    this.suggestionElement.hidden = suggestions.length === 0;
+    
+    suggestions.forEach(suggestion => {
+      const item = document.createElement('div');
+      item.className = 'accessiai-suggestion';
+      
+      // Set as text like any other string built from issue data
+      const text = document.createElement('p');
+      text.textContent = `You fixed ${this.formatIssueType(suggestion.issueType)} issues ${suggestion.applied} times. Fix them automatically from now on?`;
+      
+      const enableBtn = document.createElement('button');
+      enableBtn.type = 'button';
+      enableBtn.className = 'accessiai-btn accessiai-btn-primary';
+      enableBtn.textContent = 'Enable';
+      
+      const declineBtn = document.createElement('button');
+      declineBtn.type = 'button';
+      declineBtn.className = 'accessiai-btn accessiai-btn-secondary';
+      declineBtn.textContent = 'Not now';
+      
+      const answer = (accepted: boolean) => {
+        item.remove();
+        this.suggestionElement!.hidden = this.suggestionElement!.childElementCount === 0;
+        this.suggestionListeners.forEach(listener => listener(suggestion, accepted));
+        this.announceToScreenReader(accepted
+          ? `${this.formatIssueType(suggestion.issueType)} issues will be fixed automatically`
+          : 'Suggestion dismissed');
+      };
+      enableBtn.addEventListener('click', () => answer(true));
+      declineBtn.addEventListener('click', () => answer(false));
+      
+      item.append(text, enableBtn, declineBtn);
+      this.suggestionElement!.appendChild(item);
+    });
+  }
+  
+  /**
+   * Register a listener for answers to auto-fix suggestions
+   * 
+   * @param listener - Called with the suggestion and whether the user enabled it
+   */
+  onSuggestionAnswered(listener: (suggestion: AutoFixSuggestion, accepted: boolean) => void): void {
+    this.suggestionListeners.push(listener);
+  }
+  
   /**
    * Show detailed information for a specific issue
    * 
@@ -356,6 +624,13 @@ export class AccessibilityPanel {
     this.statsElement.setAttribute('role', 'status');
     this.statsElement.setAttribute('aria-live', 'polite');
     
+    // Create auto-fix suggestion section, hidden until there is something to suggest
+    this.suggestionElement = document.createElement('div');
+    this.suggestionElement.className = 'accessiai-panel-suggestions';
+    this.suggestionElement.setAttribute('role', 'region');
+    this.suggestionElement.setAttribute('aria-label', 'Suggestions');
+    this.suggestionElement.hidden = true;
+    
     // Create filter section
     this.filterElement = document.createElement('div');
     this.filterElement.className = 'accessiai-panel-filters';
@@ -370,6 +645,7 @@ export class AccessibilityPanel {
     // Assemble panel structure
     this.panelElement.appendChild(this.headerElement);
     this.panelElement.appendChild(this.statsElement);
+    this.panelElement.appendChild(this.suggestionElement);
     this.panelElement.appendChild(this.filterElement);
     this.panelElement.appendChild(this.issueListElement);
     
@@ -426,6 +702,22 @@ export class AccessibilityPanel {
         <span class="accessiai-panel-subtitle">Accessibility Assistant</span>
       </div>
       <div class="accessiai-panel-controls">
+        <button type="button" class="accessiai-btn accessiai-btn-baselines" aria-label="Baselines">
+          ⊟
+        </button>
+        <button type="button" class="accessiai-btn accessiai-btn-manual" aria-label="Manual checks">
+          ☑
+        </button>
+        <button type="button" class="accessiai-btn accessiai-btn-export" aria-label="Export report" aria-haspopup="menu" aria-expanded="false">
+          ⤓
+        </button>
+        <div class="accessiai-export-menu" role="menu" aria-label="Report format" hidden>
+          <button type="button" role="menuitem" data-format="html">HTML report (printable)</button>
+          <button type="button" role="menuitem" data-format="json">JSON</button>
+          <button type="button" role="menuitem" data-format="csv">CSV</button>
+          <button type="button" role="menuitem" data-format="sarif">SARIF 2.1</button>
+          <button type="button" role="menuitem" data-action="conformance">Conformance report (ACR)…</button>
+        </div>
         <button type="button" class="accessiai-btn accessiai-btn-minimize" aria-label="Minimize panel">
           ${this.isMinimized ? '▲' : '▼'}
         </button>
@@ -446,6 +738,65 @@ export class AccessibilityPanel {
     if (closeBtn) {
       closeBtn.addEventListener('click', this.handleCloseClick.bind(this));
     }
+    
+    const manualBtn = this.headerElement.querySelector('.accessiai-btn-manual') as HTMLButtonElement;
+    if (manualBtn) {
+      manualBtn.addEventListener('click', () => {
+        this.startManualChecks().catch(error => {
+          console.error('[AccessibilityPanel] Manual checks failed to start:', error);
+          this.announceToScreenReader('Manual checks could not be started');
+        });
+      });
+    }
+    
+    const baselinesBtn = this.headerElement.querySelector('.accessiai-btn-baselines') as HTMLButtonElement;
+    if (baselinesBtn) {
+      baselinesBtn.addEventListener('click', () => {
+        this.showBaselines().catch(error => {
+          console.error('[AccessibilityPanel] Baselines failed to open:', error);
+          this.announceToScreenReader('Baselines could not be opened');
+        });
+      });
+    }
+    
+    const exportBtn = this.headerElement.querySelector('.accessiai-btn-export') as HTMLButtonElement;
+    const exportMenu = this.headerElement.querySelector('.accessiai-export-menu') as HTMLElement;
+    
+    if (exportBtn && exportMenu) {
+      exportBtn.addEventListener('click', () => {
+        exportMenu.hidden = !exportMenu.hidden;
+        exportBtn.setAttribute('aria-expanded', String(!exportMenu.hidden));
+        if (!exportMenu.hidden) {
+          (exportMenu.querySelector('button') as HTMLButtonElement | null)?.focus();
+        }
+      });
+      
+      exportMenu.addEventListener('click', (event) => {
+        const item = (event.target as HTMLElement).closest('[data-format], [data-action]') as HTMLElement | null;
+        if (!item) return;
+        
+        exportMenu.hidden = true;
+        exportBtn.setAttribute('aria-expanded', 'false');
+        exportBtn.focus();
+        if (item.dataset['action'] === 'conformance') {
+          this.showConformanceReport().catch(error => {
+            console.error('[AccessibilityPanel] Conformance report failed:', error);
+            this.announceToScreenReader('Conformance report could not be built');
+          });
+        } else {
+          this.handleExportRequest(item.dataset['format'] as ReportFormat);
+        }
+      });
+      
+      exportMenu.addEventListener('keydown', (event) => {
+        if (event.key === 'Escape') {
+          event.stopPropagation();
+          exportMenu.hidden = true;
+          exportBtn.setAttribute('aria-expanded', 'false');
+          exportBtn.focus();
+        }
+      });
+    }
   }
   
   /**
@@ -502,11 +853,20 @@ export class AccessibilityPanel {
           `).join('')}
         </div>
       </div>
+      <div class="accessiai-filter-triage">
+        <label class="accessiai-checkbox-label">
+          <input type="checkbox" 
+                 class="accessiai-show-resolved-filter"
+                 ${this.filterSettings.showResolved ? 'checked' : ''}>
+          <span>Show dismissed issues</span>
+        </label>
+      </div>
     `;
     
     // Add filter event listeners
     const searchInput = this.filterElement.querySelector('.accessiai-search-input') as HTMLInputElement;
     const severityCheckboxes = this.filterElement.querySelectorAll('.accessiai-severity-filter') as NodeListOf<HTMLInputElement>;
+    const showResolvedCheckbox = this.filterElement.querySelector('.accessiai-show-resolved-filter') as HTMLInputElement;
     
     if (searchInput) {
       searchInput.addEventListener('input', this.handleSearchInput.bind(this));
@@ -515,6 +875,10 @@ export class AccessibilityPanel {
     severityCheckboxes.forEach(checkbox => {
       checkbox.addEventListener('change', this.handleSeverityFilterChange.bind(this));
     });
+    
+    if (showResolvedCheckbox) {
+      showResolvedCheckbox.addEventListener('change', this.handleShowResolvedChange.bind(this));
+    }
   }
   
   /**
@@ -535,7 +899,7 @@ export class AccessibilityPanel {
     }
     
     this.issueListElement.innerHTML = this.filteredIssues.map(issue => `
-      <div class="accessiai-issue-item" 
+      <div class="accessiai-issue-item${this.recentlyAddedIds.has(issue.id) ? ' accessiai-issue-new' : ''}" 
            data-issue-id="${issue.id}" 
            role="listitem"
            tabindex="0"
@@ -546,13 +910,15 @@ export class AccessibilityPanel {
             ${this.getSeverityIcon(issue.severity)}
           </span>
           <span class="accessiai-issue-type">${this.formatIssueType(issue.type)}</span>
+          ${this.recentlyAddedIds.has(issue.id) || issue.scanStatus === 'new' ? '<span class="accessiai-issue-badge">New</span>' : ''}
+          ${issue.triage ? `<span class="accessiai-issue-triage">${this.TRIAGE_STATUS_LABELS[issue.triage.status]}</span>` : ''}
         </div>
         <div class="accessiai-issue-content">
           <p class="accessiai-issue-description" id="issue-${issue.id}-desc">
-            ${issue.description}
+            ${this.escapeHTML(issue.description)}
           </p>
           <div class="accessiai-issue-element">
-            <code>${issue.element.tagName}${issue.element.id ? '#' + issue.element.id : ''}${issue.element.className ? '.' + issue.element.className.split(' ').join('.') : ''}</code>
+            <code>${this.escapeHTML(issue.element.tagName)}${issue.element.id ? '#' + this.escapeHTML(issue.element.id) : ''}${issue.element.className ? '.' + this.escapeHTML(issue.element.className.split(' ').join('.')) : ''}</code>
           </div>
         </div>
         <div class="accessiai-issue-actions">
@@ -585,6 +951,11 @@ export class AccessibilityPanel {
    */
   private applyCurrentFilters(): void {
     this.filteredIssues = this.issueList.filter(issue => {
+      // Dismissed issues (won't fix, false positive, resolved) are hidden by default
+      if (!this.filterSettings.showResolved && issueTriageManager.isSuppressed(issue)) {
+        return false;
+      }
+      
       // Severity filter
       if (!this.filterSettings.severity.includes(issue.severity)) {
         return false;
@@ -609,6 +980,11 @@ export class AccessibilityPanel {
       
       return true;
     });
+    
+    if (Object.keys(this.issueRanking).length > 0) {
+      const weight = (issue: AccessibilityIssue) => this.issueRanking[issue.type] ?? 0;
+      this.filteredIssues.sort((a, b) => weight(b) - weight(a));
+    }
   }
   
   /**
@@ -633,7 +1009,7 @@ export class AccessibilityPanel {
         <div class="accessiai-modal-body">
           <div class="accessiai-issue-detail-section">
             <h4>Description</h4>
-            <p>${issue.description}</p>
+            <p>${this.escapeHTML(issue.description)}</p>
           </div>
           <div class="accessiai-issue-detail-section">
             <h4>Severity</h4>
@@ -641,24 +1017,125 @@ export class AccessibilityPanel {
           </div>
           <div class="accessiai-issue-detail-section">
             <h4>Element</h4>
-            <code>${issue.element.xpath}</code>
+            <code>${this.escapeHTML(issue.element.xpath)}</code>
           </div>
           <div class="accessiai-issue-detail-section">
             <h4>Suggested Fix</h4>
-            <p>${issue.suggestedFix}</p>
+            <p>${this.escapeHTML(issue.suggestedFix)}</p>
           </div>
+          ${issue.reproductionSteps ? `
+          <div class="accessiai-issue-detail-section">
+            <h4>Steps to Reproduce</h4>
+            <ol class="accessiai-reproduction-steps"></ol>
+          </div>` : ''}
           <div class="accessiai-issue-detail-section">
             <h4>WCAG Criteria</h4>
             <p>${issue.wcagCriteria.join(', ')}</p>
           </div>
+          <form class="accessiai-issue-detail-section accessiai-triage-form">
+            <h4>Triage</h4>
+            <label for="accessiai-triage-status">Status</label>
+            <select id="accessiai-triage-status" name="status">
+              ${(Object.keys(this.TRIAGE_STATUS_LABELS) as IssueTriageStatus[]).map(status => `
+                <option value="${status}" ${(issue.triage?.status ?? 'open') === status ? 'selected' : ''}>${this.TRIAGE_STATUS_LABELS[status]}</option>
+              `).join('')}
+            </select>
+            <label for="accessiai-triage-note">Note</label>
+            <textarea id="accessiai-triage-note" name="note" rows="3"></textarea>
+            <label for="accessiai-triage-author">Author</label>
+            <input type="text" id="accessiai-triage-author" name="author">
+            <p class="accessiai-triage-history"></p>
+            <button type="submit" class="accessiai-btn accessiai-btn-secondary">Save Status</button>
+          </form>
         </div>
         <div class="accessiai-modal-footer">
-          <button type="button" class="accessiai-btn accessiai-btn-primary">Apply Fix</button>
-          <button type="button" class="accessiai-btn accessiai-btn-secondary">Ignore Issue</button>
+          <button type="button" class="accessiai-btn accessiai-btn-primary accessiai-apply-fix">Apply Fix</button>
+          <button type="button" class="accessiai-btn accessiai-btn-secondary accessiai-ignore-issue">Ignore Issue</button>
+          <p class="accessiai-fix-status" role="status"></p>
         </div>
       </div>
     `;
     
+    // Steps quote accessible names from the page, so they are set as text
+    const stepList = modal.querySelector('.accessiai-reproduction-steps');
+    issue.reproductionSteps?.forEach(step => {
+      const item = document.createElement('li');
+      item.textContent = step;
+      stepList?.appendChild(item);
+    });
+    
+    // Note and author are user text, so they are set as values rather than markup
+    const triageForm = modal.querySelector('.accessiai-triage-form') as HTMLFormElement;
+    const noteInput = modal.querySelector('#accessiai-triage-note') as HTMLTextAreaElement;
+    const authorInput = modal.querySelector('#accessiai-triage-author') as HTMLInputElement;
+    const history = modal.querySelector('.accessiai-triage-history') as HTMLElement;
+    
+    noteInput.value = issue.triage?.note ?? '';
+    if (issue.triage) {
+      authorInput.value = issue.triage.author;
+      history.textContent = `Last updated ${new Date(issue.triage.updatedAt).toLocaleString()}${issue.triage.author ? ` by ${issue.triage.author}` : ''}`;
+    } else {
+      issueTriageManager.getDefaultAuthor().then(author => {
+        if (!authorInput.value) authorInput.value = author;
+      });
+    }
+    
+    triageForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const status = (triageForm.elements.namedItem('status') as HTMLSelectElement).value as IssueTriageStatus;
+      
+      try {
+        await this.triageIssue(issue, status, noteInput.value, authorInput.value);
+        modal.remove();
+      } catch (error) {
+        console.error('[AccessibilityPanel] Triage failed:', error);
+        history.textContent = 'Could not save the triage status. Please try again.';
+      }
+    });
+    
+    // Apply Fix turns into Undo Fix once the fix is in place
+    const applyFixBtn = modal.querySelector('.accessiai-apply-fix') as HTMLButtonElement;
+    const ignoreBtn = modal.querySelector('.accessiai-ignore-issue') as HTMLButtonElement;
+    const fixStatus = modal.querySelector('.accessiai-fix-status') as HTMLElement;
+    let fixApplied = false;
+    
+    applyFixBtn.disabled = !this.fixHandler;
+    applyFixBtn.addEventListener('click', async () => {
+      applyFixBtn.disabled = true;
+      
+      try {
+        if (!fixApplied) {
+          const result = await this.fixHandler!(issue);
+          fixApplied = result.success;
+          fixStatus.textContent = result.success ? 'Fix applied.' : `Could not apply a fix: ${result.error ?? 'no fix available'}.`;
+        } else if (this.undoFixHandler && await this.undoFixHandler(issue)) {
+          fixApplied = false;
+          fixStatus.textContent = 'Fix undone.';
+        } else {
+          fixStatus.textContent = 'The page changed since the fix, so it can no longer be undone.';
+          applyFixBtn.hidden = true;
+          return;
+        }
+      } catch (error) {
+        console.error('[AccessibilityPanel] Fix request failed:', error);
+        fixStatus.textContent = 'Something went wrong. Please try again.';
+      }
+      
+      applyFixBtn.textContent = fixApplied ? 'Undo Fix' : 'Apply Fix';
+      applyFixBtn.hidden = fixApplied && !this.undoFixHandler;
+      applyFixBtn.disabled = false;
+    });
+    
+    ignoreBtn.addEventListener('click', async () => {
+      try {
+        await this.triageIssue(issue, 'wont-fix', noteInput.value, authorInput.value);
+        modal.remove();
+      } catch (error) {
+        console.error('[AccessibilityPanel] Ignoring issue failed:', error);
+        fixStatus.textContent = 'Could not ignore the issue. Please try again.';
+      }
+    });
+    
     // Add modal event listeners
     const closeBtn = modal.querySelector('.accessiai-btn-close') as HTMLButtonElement;
     if (closeBtn) {
@@ -684,10 +1161,503 @@ export class AccessibilityPanel {
     return modal;
   }
   
+  /**
+   * Create the conformance report modal with editable remarks
+   */
+  private createConformanceModal(report: ConformanceReport): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'accessiai-modal accessiai-conformance-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-modal', 'true');
+    modal.setAttribute('aria-labelledby', 'accessiai-conformance-title');
+    
+    modal.innerHTML = `
+      <div class="accessiai-modal-content">
+        <div class="accessiai-modal-header">
+          <h3 id="accessiai-conformance-title">Conformance Report</h3>
+          <button type="button" class="accessiai-btn accessiai-btn-close" aria-label="Close conformance report">✕</button>
+        </div>
+        <div class="accessiai-modal-body">
+          <label for="accessiai-conformance-level">WCAG level</label>
+          <select id="accessiai-conformance-level">
+            ${(['A', 'AA', 'AAA'] as const).map(level => `
+              <option value="${level}" ${level === report.level ? 'selected' : ''}>Level ${level}</option>
+            `).join('')}
+          </select>
+          <p class="accessiai-conformance-summary">
+            ${report.pageUrls.length} pages analyzed since ${new Date(report.session.startedAt).toLocaleString()}
+          </p>
+          <table class="accessiai-conformance-table">
+            <thead>
+              <tr><th scope="col">Criterion</th><th scope="col">Conformance</th><th scope="col">Remarks</th></tr>
+            </thead>
+            <tbody>
+              ${report.rows.map(row => `
+                <tr>
+                  <th scope="row">${row.criterion.id} ${row.criterion.successCriteria} (${row.criterion.level})</th>
+                  <td>${row.conformance}${row.evidence.length > 0 ? `<br><small>${row.evidence.length} issues on ${row.pagesFailing} pages</small>` : ''}</td>
+                  <td>
+                    <textarea rows="3" data-criterion="${row.criterion.id}" aria-label="Remarks for ${row.criterion.id}"></textarea>
+                  </td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+          <p class="accessiai-conformance-status" role="status"></p>
+        </div>
+        <div class="accessiai-modal-footer">
+          <button type="button" class="accessiai-btn accessiai-btn-secondary" data-conformance-action="save">Save Remarks</button>
+          <button type="button" class="accessiai-btn accessiai-btn-primary" data-conformance-action="html">Export HTML</button>
+          <button type="button" class="accessiai-btn accessiai-btn-secondary" data-conformance-action="json">Export JSON</button>
+          <button type="button" class="accessiai-btn accessiai-btn-secondary" data-conformance-action="new-session">New Session</button>
+        </div>
+      </div>
+    `;
+    
+    // Remarks are user text, so they are set as values rather than markup
+    const remarkInputs = Array.from(modal.querySelectorAll('textarea[data-criterion]')) as HTMLTextAreaElement[];
+    const status = modal.querySelector('.accessiai-conformance-status') as HTMLElement;
+    
+    remarkInputs.forEach(input => {
+      const row = report.rows.find(item => item.criterion.id === input.dataset['criterion']);
+      if (row) {
+        input.value = row.remarks;
+        input.placeholder = row.generatedRemarks;
+      }
+    });
+    
+    const saveRemarks = async (): Promise<void> => {
+      for (const input of remarkInputs) {
+        const row = report.rows.find(item => item.criterion.id === input.dataset['criterion']);
+        if (!row || input.value === row.remarks) continue;
+        // Keeping the generated text is the same as writing no remark
+        await conformanceReportGenerator.setRemarks(row.criterion.id, input.value === row.generatedRemarks ? '' : input.value);
+      }
+    };
+    
+    const exportReport = async (format: ConformanceReportFormat): Promise<void> => {
+      await saveRemarks();
+      const updated = await conformanceReportGenerator.buildReport(report.level);
+      const generated = conformanceReportGenerator.exportReport(updated, format);
+      reportGenerator.download(generated);
+      status.textContent = `Saved ${generated.filename}`;
+    };
+    
+    const closeModal = () => modal.remove();
+    
+    (modal.querySelector('#accessiai-conformance-level') as HTMLSelectElement).addEventListener('change', async (event) => {
+      await saveRemarks();
+      await this.showConformanceReport((event.target as HTMLSelectElement).value as ConformanceReport['level']);
+    });
+    
+    modal.querySelector('.accessiai-modal-footer')?.addEventListener('click', async (event) => {
+      const action = ((event.target as HTMLElement).closest('[data-conformance-action]') as HTMLElement | null)?.dataset['conformanceAction'];
+      if (!action) return;
+      
+      try {
+        switch (action) {
+          case 'save':
+            await saveRemarks();
+            status.textContent = 'Remarks saved';
+            break;
+          case 'html':
+          case 'json':
+            await exportReport(action);
+            break;
+          case 'new-session':
+            await conformanceReportGenerator.startNewSession();
+            await this.showConformanceReport(report.level);
+            break;
+        }
+      } catch (error) {
+        console.error('[AccessibilityPanel] Conformance action failed:', error);
+        status.textContent = 'The action failed. Please try again.';
+      }
+    });
+    
+    modal.querySelector('.accessiai-btn-close')?.addEventListener('click', closeModal);
+    
+    // Close on backdrop click
+    modal.addEventListener('click', (event) => {
+      if (event.target === modal) {
+        closeModal();
+      }
+    });
+    
+    // Close on Escape key
+    modal.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') {
+        closeModal();
+      }
+    });
+    
+    return modal;
+  }
+  
+  /**
+   * Create the baselines dialog
+   */
+  private createBaselineModal(baselines: readonly IssueBaseline[], onlyNewIssues: boolean): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'accessiai-modal accessiai-baseline-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-modal', 'true');
+    modal.setAttribute('aria-labelledby', 'accessiai-baseline-title');
+    
+    const pageUrl = window.location.href.split('#')[0] ?? window.location.href;
+    
+    modal.innerHTML = `
+      <div class="accessiai-modal-content">
+        <div class="accessiai-modal-header">
+          <h3 id="accessiai-baseline-title">Baselines</h3>
+          <button type="button" class="accessiai-btn accessiai-btn-close" aria-label="Close baselines">✕</button>
+        </div>
+        <div class="accessiai-modal-body">
+          <label class="accessiai-baseline-mode">
+            <input type="checkbox" id="accessiai-baseline-only-new" ${onlyNewIssues ? 'checked' : ''}>
+            Only show issues not in a baseline
+          </label>
+          <form class="accessiai-baseline-form">
+            <h4>Save current issues</h4>
+            <label for="accessiai-baseline-name">Name</label>
+            <input type="text" id="accessiai-baseline-name" name="name" required>
+            <label for="accessiai-baseline-pattern">URL pattern</label>
+            <input type="text" id="accessiai-baseline-pattern" name="urlPattern" required aria-describedby="accessiai-baseline-pattern-help">
+            <small id="accessiai-baseline-pattern-help">Use * to match any characters, e.g. https://example.com/products/*</small>
+            <label for="accessiai-baseline-author">Author</label>
+            <input type="text" id="accessiai-baseline-author" name="author">
+            <button type="submit" class="accessiai-btn accessiai-btn-primary">Save Baseline</button>
+          </form>
+          <h4>Saved baselines</h4>
+          <ul class="accessiai-baseline-list">
+            ${baselines.length === 0 ? '<li>No baselines yet.</li>' : baselines.map(baseline => `
+              <li data-baseline-id="${baseline.id}">
+                <span class="accessiai-baseline-name"></span>
+                <small class="accessiai-baseline-meta"></small>
+                <button type="button" class="accessiai-btn accessiai-btn-secondary" data-baseline-action="delete">Delete</button>
+              </li>
+            `).join('')}
+          </ul>
+          <p class="accessiai-baseline-status" role="status"></p>
+        </div>
+        <div class="accessiai-modal-footer">
+          <button type="button" class="accessiai-btn accessiai-btn-secondary" data-baseline-action="export" ${baselines.length === 0 ? 'disabled' : ''}>Export JSON</button>
+          <button type="button" class="accessiai-btn accessiai-btn-secondary" data-baseline-action="import">Import JSON</button>
+          <input type="file" class="accessiai-baseline-file" accept="application/json,.json" hidden>
+        </div>
+      </div>
+    `;
+    
+    // Names, patterns and authors are user text, so they are set as text rather than markup
+    const status = modal.querySelector('.accessiai-baseline-status') as HTMLElement;
+    const form = modal.querySelector('.accessiai-baseline-form') as HTMLFormElement;
+    const nameInput = modal.querySelector('#accessiai-baseline-name') as HTMLInputElement;
+    const patternInput = modal.querySelector('#accessiai-baseline-pattern') as HTMLInputElement;
+    const authorInput = modal.querySelector('#accessiai-baseline-author') as HTMLInputElement;
+    const fileInput = modal.querySelector('.accessiai-baseline-file') as HTMLInputElement;
+    
+    patternInput.value = pageUrl;
+    issueTriageManager.getDefaultAuthor().then(author => {
+      if (!authorInput.value) authorInput.value = author;
+    });
+    
+    modal.querySelectorAll('[data-baseline-id]').forEach(item => {
+      const baseline = baselines.find(entry => entry.id === (item as HTMLElement).dataset['baselineId']);
+      if (!baseline) return;
+      
+      const matches = issueBaselineManager.matchesUrl(baseline.urlPattern, pageUrl);
+      (item.querySelector('.accessiai-baseline-name') as HTMLElement).textContent = baseline.name;
+      (item.querySelector('.accessiai-baseline-meta') as HTMLElement).textContent =
+        `${baseline.urlPattern} · ${baseline.fingerprints.length} issues · ${new Date(baseline.updatedAt).toLocaleDateString()}${matches ? ' · applies to this page' : ''}`;
+    });
+    
+    const notifyChanged = () => this.baselineListeners.forEach(listener => listener());
+    const refresh = async (message: string) => {
+      await this.showBaselines();
+      const reopened = document.querySelector('.accessiai-baseline-status');
+      if (reopened) reopened.textContent = message;
+    };
+    const closeModal = () => modal.remove();
+    
+    (modal.querySelector('#accessiai-baseline-only-new') as HTMLInputElement).addEventListener('change', async (event) => {
+      const enabled = (event.target as HTMLInputElement).checked;
+      try {
+        await issueBaselineManager.setOnlyNewIssuesMode(enabled);
+        status.textContent = enabled ? 'Showing only issues not in a baseline' : 'Showing all issues';
+        notifyChanged();
+      } catch (error) {
+        console.error('[AccessibilityPanel] Baseline mode change failed:', error);
+        status.textContent = 'Could not change the mode. Please try again.';
+      }
+    });
+    
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      try {
+        const baseline = await issueBaselineManager.saveBaseline(nameInput.value, patternInput.value, this.issueList, authorInput.value);
+        notifyChanged();
+        await refresh(`Saved "${baseline.name}" with ${baseline.fingerprints.length} issues`);
+      } catch (error) {
+        console.error('[AccessibilityPanel] Saving baseline failed:', error);
+        status.textContent = error instanceof Error ? error.message : 'Could not save the baseline.';
+      }
+    });
+    
+    modal.querySelector('.accessiai-baseline-list')?.addEventListener('click', async (event) => {
+      const button = (event.target as HTMLElement).closest('[data-baseline-action="delete"]');
+      const id = (button?.closest('[data-baseline-id]') as HTMLElement | null)?.dataset['baselineId'];
+      if (!id) return;
+      
+      try {
+        await issueBaselineManager.deleteBaseline(id);
+        notifyChanged();
+        await refresh('Baseline deleted');
+      } catch (error) {
+        console.error('[AccessibilityPanel] Deleting baseline failed:', error);
+        status.textContent = 'Could not delete the baseline.';
+      }
+    });
+    
+    modal.querySelector('.accessiai-modal-footer')?.addEventListener('click', async (event) => {
+      const action = ((event.target as HTMLElement).closest('[data-baseline-action]') as HTMLElement | null)?.dataset['baselineAction'];
+      
+      if (action === 'import') {
+        fileInput.click();
+      } else if (action === 'export') {
+        try {
+          reportGenerator.download({
+            format: 'json',
+            filename: `accessiai-baselines-${new Date().toISOString().slice(0, 10)}.json`,
+            mimeType: 'application/json',
+            content: await issueBaselineManager.exportBaselines()
+          });
+          status.textContent = `Exported ${baselines.length} baselines`;
+        } catch (error) {
+          console.error('[AccessibilityPanel] Exporting baselines failed:', error);
+          status.textContent = 'Could not export the baselines.';
+        }
+      }
+    });
+    
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      
+      try {
+        const imported = await issueBaselineManager.importBaselines(await file.text());
+        notifyChanged();
+        await refresh(`Imported ${imported.length} baselines from ${file.name}`);
+      } catch (error) {
+        console.error('[AccessibilityPanel] Importing baselines failed:', error);
+        status.textContent = error instanceof Error ? error.message : 'Could not import the baselines.';
+      } finally {
+        fileInput.value = '';
+      }
+    });
+    
+    modal.querySelector('.accessiai-btn-close')?.addEventListener('click', closeModal);
+    
+    // Close on backdrop click
+    modal.addEventListener('click', (event) => {
+      if (event.target === modal) {
+        closeModal();
+      }
+    });
+    
+    // Close on Escape key
+    modal.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') {
+        closeModal();
+      }
+    });
+    
+    return modal;
+  }
+  
+  /**
+   * Create the manual checklist dialog
+   * 
+   * Non-modal so the highlighted elements stay visible and reachable.
+   */
+  private createManualCheckModal(items: readonly ManualCheckItem[]): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'accessiai-modal accessiai-manual-check-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-modal', 'false');
+    modal.setAttribute('aria-labelledby', 'accessiai-manual-check-title');
+    
+    modal.innerHTML = `
+      <div class="accessiai-modal-content">
+        <div class="accessiai-modal-header">
+          <h3 id="accessiai-manual-check-title">Manual Checks</h3>
+          <button type="button" class="accessiai-btn accessiai-btn-close" aria-label="Close manual checks">✕</button>
+        </div>
+        <div class="accessiai-modal-body">
+          <p class="accessiai-manual-check-progress"></p>
+          <h4 class="accessiai-manual-check-criterion"></h4>
+          <p class="accessiai-manual-check-understanding"></p>
+          <p><a class="accessiai-manual-check-link" target="_blank" rel="noopener noreferrer">Read the Understanding document</a></p>
+          <p class="accessiai-manual-check-elements"></p>
+          <button type="button" class="accessiai-btn accessiai-btn-secondary" data-manual-action="next-element">Show next element</button>
+          <form class="accessiai-manual-check-form">
+            <fieldset>
+              <legend>Result</legend>
+              ${(Object.keys(this.MANUAL_OUTCOME_LABELS) as ManualCheckOutcome[]).map(outcome => `
+                <label><input type="radio" name="outcome" value="${outcome}"> ${this.MANUAL_OUTCOME_LABELS[outcome]}</label>
+              `).join('')}
+            </fieldset>
+            <label for="accessiai-manual-check-note">Notes</label>
+            <textarea id="accessiai-manual-check-note" name="note" rows="3"></textarea>
+            <label for="accessiai-manual-check-author">Tester</label>
+            <input type="text" id="accessiai-manual-check-author" name="author">
+            <p class="accessiai-manual-check-status" role="status"></p>
+            <div class="accessiai-modal-footer">
+              <button type="button" class="accessiai-btn accessiai-btn-secondary" data-manual-action="previous">Previous</button>
+              <button type="button" class="accessiai-btn accessiai-btn-secondary" data-manual-action="skip">Skip</button>
+              <button type="submit" class="accessiai-btn accessiai-btn-primary">Save and Next</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+    
+    const form = modal.querySelector('.accessiai-manual-check-form') as HTMLFormElement;
+    const progress = modal.querySelector('.accessiai-manual-check-progress') as HTMLElement;
+    const heading = modal.querySelector('.accessiai-manual-check-criterion') as HTMLElement;
+    const understanding = modal.querySelector('.accessiai-manual-check-understanding') as HTMLElement;
+    const link = modal.querySelector('.accessiai-manual-check-link') as HTMLAnchorElement;
+    const elementsSummary = modal.querySelector('.accessiai-manual-check-elements') as HTMLElement;
+    const nextElementBtn = modal.querySelector('[data-manual-action="next-element"]') as HTMLButtonElement;
+    const previousBtn = modal.querySelector('[data-manual-action="previous"]') as HTMLButtonElement;
+    const noteInput = modal.querySelector('#accessiai-manual-check-note') as HTMLTextAreaElement;
+    const authorInput = modal.querySelector('#accessiai-manual-check-author') as HTMLInputElement;
+    const status = modal.querySelector('.accessiai-manual-check-status') as HTMLElement;
+    const outcomeInputs = Array.from(form.querySelectorAll('input[name="outcome"]')) as HTMLInputElement[];
+    
+    const results = new Map<string, ManualCheckResult>(
+      items.flatMap(item => item.result ? [[item.criterion.id, item.result] as const] : [])
+    );
+    let index = Math.max(0, items.findIndex(item => !item.result));
+    let reviewElements: Element[] = [];
+    let elementIndex = -1;
+    
+    issueTriageManager.getDefaultAuthor().then(author => {
+      if (!authorInput.value) authorInput.value = author;
+    });
+    
+    // Criterion texts and tester notes are set as text rather than markup
+    const renderStep = (): void => {
+      const item = items[index];
+      if (!item) return;
+      
+      const result = results.get(item.criterion.id);
+      progress.textContent = `Criterion ${index + 1} of ${items.length} · ${results.size} recorded`;
+      heading.textContent = `${item.criterion.id} ${item.criterion.successCriteria} (Level ${item.criterion.level})`;
+      understanding.textContent = item.criterion.automation === 'partial'
+        ? `${item.criterion.understanding} Automated checks found no failures; confirm what they cannot test.`
+        : item.criterion.understanding;
+      link.href = item.criterion.understandingUrl;
+      
+      reviewElements = manualCheckManager.findReviewElements(item);
+      elementIndex = -1;
+      this.highlightReviewElements(reviewElements);
+      nextElementBtn.hidden = reviewElements.length === 0;
+      if (!item.selector) {
+        elementsSummary.textContent = 'Review the page as a whole.';
+      } else if (reviewElements.length === 0) {
+        elementsSummary.textContent = 'No relevant elements were found; the criterion may not apply to this page.';
+      } else {
+        elementsSummary.textContent = `${reviewElements.length} relevant element${reviewElements.length === 1 ? '' : 's'} highlighted on the page.`;
+      }
+      
+      outcomeInputs.forEach(input => {
+        input.checked = input.value === result?.outcome;
+      });
+      noteInput.value = result?.note ?? '';
+      if (result?.author) {
+        authorInput.value = result.author;
+      }
+      status.textContent = result
+        ? `Recorded ${this.MANUAL_OUTCOME_LABELS[result.outcome]} on ${new Date(result.checkedAt).toLocaleString()}`
+        : '';
+      previousBtn.disabled = index === 0;
+    };
+    
+    const goTo = (nextIndex: number): void => {
+      index = Math.min(items.length - 1, Math.max(0, nextIndex));
+      renderStep();
+      this.announceToScreenReader(heading.textContent ?? '');
+    };
+    
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const item = items[index];
+      const outcome = outcomeInputs.find(input => input.checked)?.value as ManualCheckOutcome | undefined;
+      if (!item) return;
+      if (!outcome) {
+        status.textContent = 'Choose pass, fail or not applicable first.';
+        return;
+      }
+      
+      try {
+        const result = await manualCheckManager.recordResult(window.location.href, item.criterion.id, outcome, noteInput.value, authorInput.value);
+        results.set(item.criterion.id, result);
+        
+        if (index < items.length - 1) {
+          goTo(index + 1);
+        } else {
+          renderStep();
+          status.textContent = `All ${items.length} criteria visited; ${results.size} recorded.`;
+        }
+      } catch (error) {
+        console.error('[AccessibilityPanel] Manual check failed to save:', error);
+        status.textContent = 'Could not save the result. Run an analysis of this page first, then try again.';
+      }
+    });
+    
+    const closeModal = (): void => {
+      this.clearReviewHighlights();
+      modal.remove();
+    };
+    
+    modal.addEventListener('click', (event) => {
+      const action = ((event.target as HTMLElement).closest('[data-manual-action]') as HTMLElement | null)?.dataset['manualAction'];
+      
+      switch (action) {
+        case 'previous':
+          goTo(index - 1);
+          break;
+        case 'skip':
+          goTo(index + 1);
+          break;
+        case 'next-element': {
+          elementIndex = (elementIndex + 1) % reviewElements.length;
+          reviewElements[elementIndex]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+          elementsSummary.textContent = `Showing element ${elementIndex + 1} of ${reviewElements.length}.`;
+          break;
+        }
+      }
+    });
+    
+    modal.querySelector('.accessiai-btn-close')?.addEventListener('click', closeModal);
+    
+    // Close on Escape key
+    modal.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') {
+        closeModal();
+      }
+    });
+    
+    renderStep();
+    return modal;
+  }
+  
   // Event Handlers
   
   private handleMouseDown(event: MouseEvent): void {
     if (!this.headerElement?.contains(event.target as Node)) return;
+    // Header controls keep their default focus behaviour
+    if ((event.target as HTMLElement).closest('button')) return;
     
     this.dragHandler = {
       isDragging: true,
@@ -795,6 +1765,27 @@ export class AccessibilityPanel {
     this.renderIssueList();
   }
   
+  private handleExportRequest(format: ReportFormat): void {
+    try {
+      this.exportListeners.forEach(listener => listener(format));
+      this.announceToScreenReader(`${format.toUpperCase()} report downloaded`);
+    } catch (error) {
+      console.error('[AccessibilityPanel] Report export failed:', error);
+      this.announceToScreenReader(error instanceof Error ? error.message : 'Report export failed');
+    }
+  }
+  
+  private handleShowResolvedChange(event: Event): void {
+    this.filterSettings = {
+      ...this.filterSettings,
+      showResolved: (event.target as HTMLInputElement).checked
+    };
+    
+    this.applyCurrentFilters();
+    this.renderStats();
+    this.renderIssueList();
+  }
+  
   private handleWindowResize(): void {
     // Ensure panel stays within viewport
     this.panelPosition = {
@@ -833,6 +1824,42 @@ export class AccessibilityPanel {
     });
   }
   
+  private highlightReviewElements(elements: readonly Element[]): void {
+    this.clearReviewHighlights();
+    
+    elements.forEach(element => {
+      element.classList.add('accessiai-review-highlight');
+      // Document styles do not cross shadow or frame boundaries
+      this.injectReviewHighlightStyles(element.getRootNode() as Document | ShadowRoot);
+    });
+  }
+  
+  private clearReviewHighlights(): void {
+    composedPathLocator.querySelectorAllComposed(document, '.accessiai-review-highlight').forEach(element => {
+      element.classList.remove('accessiai-review-highlight');
+    });
+  }
+  
+  private injectReviewHighlightStyles(scope: Document | ShadowRoot): void {
+    if (scope.getElementById('accessiai-review-highlight-styles')) return;
+    
+    const ownerDocument = scope.nodeType === Node.DOCUMENT_NODE ? scope as Document : (scope as ShadowRoot).ownerDocument;
+    const style = ownerDocument.createElement('style');
+    style.id = 'accessiai-review-highlight-styles';
+    style.textContent = `
+      .accessiai-review-highlight {
+        outline: 3px dashed #6f42c1 !important;
+        outline-offset: 2px !important;
+      }
+    `;
+    
+    if (scope.nodeType === Node.DOCUMENT_NODE) {
+      (scope as Document).head.appendChild(style);
+    } else {
+      scope.appendChild(style);
+    }
+  }
+  
   private getSeverityIcon(severity: IssueSeverity): string {
     const icons = {
       critical: '🔴',
@@ -849,6 +1876,20 @@ export class AccessibilityPanel {
     ).join(' ');
   }
   
+  /**
+   * Escape text for safe interpolation into innerHTML
+   * 
+   * Descriptions and element details quote ids, roles and accessible names from the page.
+   */
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+  
   private announceToScreenReader(message: string): void {
     const announcement = document.createElement('div');
     announcement.setAttribute('aria-live', 'polite');
@@ -906,6 +1947,9 @@ export class AccessibilityPanel {
       if (this.panelElement && this.panelElement.parentNode) {
         this.panelElement.parentNode.removeChild(this.panelElement);
       }
+      document.querySelector('.accessiai-manual-check-modal')?.remove();
+      document.querySelector('.accessiai-baseline-modal')?.remove();
+      this.clearReviewHighlights();
       
       // Reset state
       this.isInitialized = false;
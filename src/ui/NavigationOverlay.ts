@@ -0,0 +1,642 @@
+/**
+ * NavigationOverlay.ts
+ *
+ * Landmark, Heading and Region Navigation for AccessiAI Chrome Extension
+ * Gives keyboard users the structural navigation screen readers offer:
+ * - A rotor listing landmarks, headings, links and form controls
+ * - Jump keys for the next/previous heading, landmark and form field
+ * - A skip link on pages that lack one
+ * - Bindings read from the configurable keyboard shortcuts in settings
+ *
+ * Performance Target: <200ms to map a page
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  DEFAULT_KEYBOARD_SHORTCUTS,
+  HeadingInfo,
+  KeyboardShortcuts,
+  NavigationDirection,
+  NavigationItem,
+  NavigationItemKind,
+  NavigationJumpResult,
+  NavigationMap
+} from '../types/index';
+import { domAnalyzer } from '../utils/DOMAnalyzer';
+import { accessibleNameComputer } from '../utils/AccessibleNameComputer';
+import { composedPathLocator } from '../utils/ComposedPathLocator';
+
+/**
+ * Navigation item together with the element it points to
+ */
+interface NavigationTarget {
+  readonly item: NavigationItem;
+  readonly node: Element;
+}
+
+type NavigationBinding = keyof Pick<KeyboardShortcuts,
+  | 'nextHeading' | 'previousHeading'
+  | 'nextLandmark' | 'previousLandmark'
+  | 'nextFormField' | 'previousFormField'
+  | 'toggleRotor'>;
+
+/**
+ * NavigationOverlay - Singleton providing structural page navigation
+ */
+export class NavigationOverlay {
+  private static instance: NavigationOverlay;
+
+  private enabled: boolean = false;
+  private shortcuts: KeyboardShortcuts = DEFAULT_KEYBOARD_SHORTCUTS;
+  private rotor: HTMLElement | null = null;
+  private rotorKind: NavigationItemKind = 'heading';
+  private rotorTargets: NavigationTarget[] = [];
+  private returnFocus: HTMLElement | null = null;
+  private lastJumpTarget: Element | null = null;
+  private skipLinkInjected: boolean = false;
+
+  private readonly ROTOR_ID = 'accessiai-navigation-rotor';
+  private readonly SKIP_LINK_ID = 'accessiai-skip-link';
+  private readonly SKIP_TARGET_ID = 'accessiai-skip-target';
+  private readonly SKIP_LINK_SEARCH_DEPTH = 3;     // tab stops a skip link is expected within
+  private readonly KIND_LABELS: Record<NavigationItemKind, string> = {
+    'landmark': 'Landmarks',
+    'heading': 'Headings',
+    'link': 'Links',
+    'form-control': 'Form fields'
+  };
+  private readonly FORM_CONTROL_SELECTOR = 'input:not([type="hidden"]), select, textarea, button';
+
+  private readonly boundKeydown = (event: KeyboardEvent) => this.handleKeydown(event);
+  private readonly boundStorageChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+    if (changes['accessiaiSettings']) {
+      this.shortcuts = this.readShortcuts(changes['accessiaiSettings'].newValue);
+    }
+  };
+
+  /**
+   * Get singleton instance of NavigationOverlay
+   */
+  static getInstance(): NavigationOverlay {
+    if (!NavigationOverlay.instance) {
+      NavigationOverlay.instance = new NavigationOverlay();
+    }
+    return NavigationOverlay.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[NavigationOverlay] Initializing Navigation Overlay...');
+  }
+
+  /**
+   * Start listening for the navigation shortcuts and add a skip link when missing
+   */
+  async enable(): Promise<void> {
+    if (this.enabled) {
+      return;
+    }
+
+    try {
+      const result = await chrome.storage.local.get(['accessiaiSettings']);
+      this.shortcuts = this.readShortcuts(result['accessiaiSettings']);
+    } catch (error) {
+      console.warn('[NavigationOverlay] Failed to load shortcuts, using defaults:', error);
+    }
+
+    document.addEventListener('keydown', this.boundKeydown, true);
+    chrome.storage.onChanged.addListener(this.boundStorageChange);
+    this.enabled = true;
+
+    await this.injectSkipLink();
+  }
+
+  /**
+   * Stop listening for the navigation shortcuts and close the rotor
+   */
+  disable(): void {
+    document.removeEventListener('keydown', this.boundKeydown, true);
+    chrome.storage.onChanged.removeListener(this.boundStorageChange);
+    this.closeRotor();
+    this.enabled = false;
+  }
+
+  /**
+   * Map the landmarks, headings, links and form controls of the page
+   *
+   * @returns Promise<NavigationMap> - Items of each kind in document order
+   */
+  async getNavigationMap(): Promise<NavigationMap> {
+    const startTime = performance.now();
+    const [landmarks, headings, links, formControls, hasSkipLink] = await Promise.all([
+      this.collectTargets('landmark'),
+      this.collectTargets('heading'),
+      this.collectTargets('link'),
+      this.collectTargets('form-control'),
+      this.hasSkipLink()
+    ]);
+
+    const mappingTime = performance.now() - startTime;
+    console.log(`[NavigationOverlay] Mapped page in ${mappingTime.toFixed(2)}ms`);
+
+    return {
+      pageUrl: window.location.href,
+      landmarks: landmarks.map(target => target.item),
+      headings: headings.map(target => target.item),
+      links: links.map(target => target.item),
+      formControls: formControls.map(target => target.item),
+      hasSkipLink,
+      skipLinkInjected: this.skipLinkInjected,
+      mappingTime
+    };
+  }
+
+  /**
+   * Move focus to the next or previous item of a kind, wrapping at the ends
+   *
+   * @returns Promise<NavigationJumpResult> - Item focused, null when the page has none
+   */
+  async jump(kind: NavigationItemKind, direction: NavigationDirection = 'next'): Promise<NavigationJumpResult> {
+    const targets = await this.collectTargets(kind);
+    if (targets.length === 0) {
+      this.announce(`No ${this.KIND_LABELS[kind].toLowerCase()}`);
+      return { item: null, wrapped: false };
+    }
+
+    const active = document.activeElement;
+    const current = active && active !== document.body ? active : this.lastJumpTarget;
+
+    let target: NavigationTarget | undefined;
+    let wrapped = false;
+
+    if (!current || !current.isConnected) {
+      target = direction === 'next' ? targets[0] : targets[targets.length - 1];
+    } else if (direction === 'next') {
+      target = targets.find(candidate => this.follows(candidate.node, current));
+      wrapped = !target;
+      target ??= targets[0];
+    } else {
+      target = [...targets].reverse().find(candidate => this.follows(current, candidate.node) && !candidate.node.contains(current));
+      wrapped = !target;
+      target ??= targets[targets.length - 1];
+    }
+
+    this.focusTarget(target!, wrapped);
+    return { item: target!.item, wrapped };
+  }
+
+  /**
+   * Open the rotor when closed, close it when open
+   *
+   * @returns Promise<boolean> - True when the rotor is now open
+   */
+  async toggleRotor(): Promise<boolean> {
+    if (this.rotor) {
+      this.closeRotor();
+      return false;
+    }
+    await this.openRotor();
+    return true;
+  }
+
+  /**
+   * Add a skip link to the main content when the page has none
+   *
+   * @returns Promise<boolean> - True when the page has an injected skip link
+   */
+  async injectSkipLink(): Promise<boolean> {
+    if (this.skipLinkInjected) {
+      return true;
+    }
+    if (await this.hasSkipLink()) {
+      return false;
+    }
+
+    const target = document.querySelector('main, [role="main"]') ?? document.querySelector('h1');
+    if (!target) {
+      return false;
+    }
+
+    if (!target.id) {
+      target.id = this.SKIP_TARGET_ID;
+    }
+    this.makeFocusable(target);
+
+    const link = document.createElement('a');
+    link.id = this.SKIP_LINK_ID;
+    link.href = `#${target.id}`;
+    link.textContent = 'Skip to main content';
+    const hiddenStyle = 'position:absolute;left:-10000px;top:auto;width:1px;height:1px;overflow:hidden;';
+    const visibleStyle = [
+      'position:fixed',
+      'top:8px',
+      'left:8px',
+      'z-index:2147483647',
+      'padding:8px 16px',
+      'border-radius:4px',
+      'background:#111827',
+      'color:#ffffff',
+      'font:bold 14px/1.5 system-ui,sans-serif',
+      'text-decoration:underline',
+      'outline:3px solid #1f6feb'
+    ].join(';');
+    link.style.cssText = hiddenStyle;
+    link.addEventListener('focus', () => { link.style.cssText = visibleStyle; });
+    link.addEventListener('blur', () => { link.style.cssText = hiddenStyle; });
+    // Focus the target directly so single-page routers never see the hash change
+    link.addEventListener('click', event => {
+      event.preventDefault();
+      (target as HTMLElement).focus();
+      target.scrollIntoView({ block: 'start' });
+    });
+
+    document.body.insertBefore(link, document.body.firstChild);
+    this.skipLinkInjected = true;
+
+    console.log(`[NavigationOverlay] Injected skip link to #${target.id}`);
+    return true;
+  }
+
+  /**
+   * Check whether the rotor is open
+   */
+  isRotorOpen(): boolean {
+    return this.rotor !== null;
+  }
+
+  // Collecting Targets
+
+  private async collectTargets(kind: NavigationItemKind): Promise<NavigationTarget[]> {
+    switch (kind) {
+      case 'landmark':
+        return this.collectLandmarks();
+      case 'heading':
+        return this.collectHeadings();
+      case 'link':
+        return this.collectElements(kind, 'a[href]', element => (element as HTMLAnchorElement).getAttribute('href') ?? '');
+      case 'form-control':
+        return this.collectElements(kind, this.FORM_CONTROL_SELECTOR, element =>
+          element.tagName === 'INPUT' ? (element as HTMLInputElement).type : element.tagName.toLowerCase()
+        );
+    }
+  }
+
+  private async collectLandmarks(): Promise<NavigationTarget[]> {
+    const landmarks = await domAnalyzer.analyzeLandmarks(document);
+    const targets: NavigationTarget[] = [];
+
+    for (const landmark of landmarks) {
+      // Sections only become region landmarks when they are named
+      if (landmark.role === 'region' && !landmark.label) continue;
+
+      const node = composedPathLocator.resolveLocator(landmark.element.xpath);
+      if (!node || !this.isNavigable(node)) continue;
+
+      targets.push({
+        node,
+        item: {
+          kind: 'landmark',
+          label: landmark.label ?? landmark.role,
+          detail: landmark.role,
+          locator: landmark.element.xpath
+        }
+      });
+    }
+
+    // analyzeLandmarks groups by landmark type
+    return this.sortByDocumentOrder(targets);
+  }
+
+  private async collectHeadings(): Promise<NavigationTarget[]> {
+    const hierarchy = await domAnalyzer.analyzeHeadingHierarchy(document);
+    const targets: NavigationTarget[] = [];
+
+    // Pre-order traversal of the hierarchy is document order
+    const visit = (headings: readonly HeadingInfo[]) => {
+      for (const heading of headings) {
+        const node = composedPathLocator.resolveLocator(heading.element.xpath);
+        if (node && this.isNavigable(node)) {
+          targets.push({
+            node,
+            item: {
+              kind: 'heading',
+              label: heading.text || '(empty heading)',
+              detail: `Heading level ${heading.level}`,
+              locator: heading.element.xpath
+            }
+          });
+        }
+        visit(heading.children);
+      }
+    };
+    visit(hierarchy);
+
+    return targets;
+  }
+
+  private collectElements(kind: NavigationItemKind, selector: string, getDetail: (element: Element) => string): NavigationTarget[] {
+    return Array.from(document.querySelectorAll(selector))
+      .filter(element => this.isNavigable(element) && !(element as HTMLInputElement).disabled)
+      .map(element => ({
+        node: element,
+        item: {
+          kind,
+          label: accessibleNameComputer.computeAccessibleName(element) || '(unnamed)',
+          detail: getDetail(element),
+          locator: composedPathLocator.getLocator(element)
+        }
+      }));
+  }
+
+  private async hasSkipLink(): Promise<boolean> {
+    const structure = await domAnalyzer.analyzeSemanticStructure(document);
+    if (structure.skipLinks.length > 0) {
+      return true;
+    }
+
+    // Any early in-page link to an existing target counts, whatever its text
+    return domAnalyzer.getSequentialFocusOrder(document)
+      .slice(0, this.SKIP_LINK_SEARCH_DEPTH)
+      .some(entry => {
+        const href = entry.node.getAttribute('href');
+        return entry.node.tagName === 'A' && !!href && href.length > 1 && href.startsWith('#') &&
+               document.getElementById(decodeURIComponent(href.substring(1))) !== null;
+      });
+  }
+
+  // Rotor
+
+  private async openRotor(): Promise<void> {
+    const active = document.activeElement;
+    this.returnFocus = active instanceof HTMLElement && active !== document.body ? active : null;
+
+    this.rotor = document.createElement('div');
+    this.rotor.id = this.ROTOR_ID;
+    this.rotor.setAttribute('role', 'dialog');
+    this.rotor.setAttribute('aria-modal', 'true');
+    this.rotor.setAttribute('aria-label', 'Page navigation');
+    this.rotor.style.cssText = [
+      'position:fixed',
+      'top:50%',
+      'left:50%',
+      'transform:translate(-50%,-50%)',
+      'z-index:2147483647',
+      'width:min(480px,90vw)',
+      'max-height:70vh',
+      'display:flex',
+      'flex-direction:column',
+      'gap:8px',
+      'padding:16px',
+      'border-radius:8px',
+      'background:#ffffff',
+      'color:#111827',
+      'box-shadow:0 8px 32px rgba(0,0,0,0.35)',
+      'font:14px/1.5 system-ui,sans-serif'
+    ].join(';');
+    this.rotor.addEventListener('keydown', event => this.handleRotorKeydown(event));
+
+    document.body.appendChild(this.rotor);
+    await this.renderRotor();
+    this.rotor?.querySelector('input')?.focus();
+  }
+
+  private closeRotor(): void {
+    if (!this.rotor) return;
+
+    this.rotor.remove();
+    this.rotor = null;
+    this.rotorTargets = [];
+
+    if (this.returnFocus?.isConnected) {
+      this.returnFocus.focus();
+    }
+    this.returnFocus = null;
+  }
+
+  private async renderRotor(filter: string = ''): Promise<void> {
+    if (!this.rotor) return;
+
+    this.rotorTargets = await this.collectTargets(this.rotorKind);
+    const needle = filter.trim().toLowerCase();
+    const visible = needle
+      ? this.rotorTargets.filter(target => target.item.label.toLowerCase().includes(needle))
+      : this.rotorTargets;
+
+    const title = document.createElement('h2');
+    title.textContent = 'Navigate page';
+    title.style.cssText = 'margin:0;font-size:16px;';
+
+    const kinds = document.createElement('div');
+    kinds.setAttribute('role', 'group');
+    kinds.setAttribute('aria-label', 'Item type');
+    kinds.style.cssText = 'display:flex;gap:4px;flex-wrap:wrap;';
+    (Object.keys(this.KIND_LABELS) as NavigationItemKind[]).forEach(kind => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = this.KIND_LABELS[kind];
+      button.setAttribute('aria-pressed', String(kind === this.rotorKind));
+      button.style.cssText = `padding:4px 8px;border-radius:4px;border:1px solid #1f6feb;cursor:pointer;${kind === this.rotorKind ? 'background:#1f6feb;color:#ffffff;' : 'background:#ffffff;color:#1f6feb;'}`;
+      button.addEventListener('click', () => {
+        this.rotorKind = kind;
+        void this.renderRotor().then(() => this.focusRotorKind());
+      });
+      kinds.appendChild(button);
+    });
+
+    const search = document.createElement('input');
+    search.type = 'search';
+    search.value = filter;
+    search.setAttribute('aria-label', `Filter ${this.KIND_LABELS[this.rotorKind].toLowerCase()}`);
+    search.style.cssText = 'padding:4px 8px;border:1px solid #6b7280;border-radius:4px;font:inherit;';
+    search.addEventListener('input', () => {
+      void this.renderRotor(search.value).then(() => {
+        const input = this.rotor?.querySelector('input');
+        input?.focus();
+        input?.setSelectionRange(input.value.length, input.value.length);
+      });
+    });
+
+    const status = document.createElement('p');
+    status.setAttribute('role', 'status');
+    status.style.cssText = 'margin:0;color:#4b5563;';
+    status.textContent = `${visible.length} ${this.KIND_LABELS[this.rotorKind].toLowerCase()}`;
+
+    const list = document.createElement('ul');
+    list.setAttribute('aria-label', this.KIND_LABELS[this.rotorKind]);
+    list.style.cssText = 'list-style:none;margin:0;padding:0;overflow:auto;';
+    visible.forEach(target => {
+      const entry = document.createElement('li');
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = `${target.item.label} — ${target.item.detail}`;
+      button.style.cssText = 'display:block;width:100%;padding:4px 8px;border:none;background:none;text-align:left;font:inherit;color:inherit;cursor:pointer;';
+      button.addEventListener('click', () => {
+        this.closeRotor();
+        this.focusTarget(target, false);
+      });
+      entry.appendChild(button);
+      list.appendChild(entry);
+    });
+
+    this.rotor.replaceChildren(title, kinds, search, status, list);
+  }
+
+  private focusRotorKind(): void {
+    this.rotor?.querySelector<HTMLElement>('[aria-pressed="true"]')?.focus();
+  }
+
+  private handleRotorKeydown(event: KeyboardEvent): void {
+    if (!this.rotor) return;
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.closeRotor();
+      return;
+    }
+
+    const focusable = Array.from(this.rotor.querySelectorAll<HTMLElement>('button, input'));
+    const index = focusable.indexOf(document.activeElement as HTMLElement);
+
+    // Keep Tab inside the dialog
+    if (event.key === 'Tab' && focusable.length > 0) {
+      if (event.shiftKey && index <= 0) {
+        event.preventDefault();
+        focusable[focusable.length - 1]!.focus();
+      } else if (!event.shiftKey && index === focusable.length - 1) {
+        event.preventDefault();
+        focusable[0]!.focus();
+      }
+      return;
+    }
+
+    // Arrow keys move through the item list
+    if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && document.activeElement?.closest('li')) {
+      const items = Array.from(this.rotor.querySelectorAll<HTMLElement>('li button'));
+      const itemIndex = items.indexOf(document.activeElement as HTMLElement);
+      const next = items[itemIndex + (event.key === 'ArrowDown' ? 1 : -1)];
+      if (next) {
+        event.preventDefault();
+        next.focus();
+      }
+    }
+  }
+
+  // Keyboard Shortcuts
+
+  private handleKeydown(event: KeyboardEvent): void {
+    const binding = (Object.keys(this.getBindingKinds()) as NavigationBinding[])
+      .find(name => this.matchesShortcut(event, this.shortcuts[name]));
+    if (!binding) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (binding === 'toggleRotor') {
+      void this.toggleRotor();
+      return;
+    }
+    if (this.rotor) return;
+
+    const [kind, direction] = this.getBindingKinds()[binding]!;
+    void this.jump(kind, direction);
+  }
+
+  private getBindingKinds(): Record<NavigationBinding, [NavigationItemKind, NavigationDirection] | null> {
+    return {
+      nextHeading: ['heading', 'next'],
+      previousHeading: ['heading', 'previous'],
+      nextLandmark: ['landmark', 'next'],
+      previousLandmark: ['landmark', 'previous'],
+      nextFormField: ['form-control', 'next'],
+      previousFormField: ['form-control', 'previous'],
+      toggleRotor: null
+    };
+  }
+
+  /**
+   * Match a binding such as 'Ctrl+Alt+Shift+H'; modifiers must match exactly
+   */
+  private matchesShortcut(event: KeyboardEvent, shortcut: string): boolean {
+    const parts = shortcut.split('+');
+    const key = parts.pop();
+    if (!key) return false;
+
+    if (event.ctrlKey !== parts.includes('Ctrl') ||
+        event.altKey !== parts.includes('Alt') ||
+        event.shiftKey !== parts.includes('Shift') ||
+        event.metaKey !== parts.includes('Meta')) {
+      return false;
+    }
+
+    // Alt and Shift change event.key for letters on some layouts; event.code does not
+    if (key.length === 1) {
+      const upper = key.toUpperCase();
+      return event.code === `Key${upper}` || event.code === `Digit${upper}` || event.key.toUpperCase() === upper;
+    }
+    return event.key === key;
+  }
+
+  private readShortcuts(settings: unknown): KeyboardShortcuts {
+    const stored = (settings as { accessibility?: { keyboardShortcuts?: Partial<KeyboardShortcuts> } } | undefined)
+      ?.accessibility?.keyboardShortcuts;
+    // Settings saved before a binding existed fall back to its default
+    return { ...DEFAULT_KEYBOARD_SHORTCUTS, ...stored };
+  }
+
+  // Utility Methods
+
+  private focusTarget(target: NavigationTarget, wrapped: boolean): void {
+    this.makeFocusable(target.node);
+    (target.node as HTMLElement).focus({ preventScroll: true });
+    target.node.scrollIntoView({ block: 'center' });
+    this.lastJumpTarget = target.node;
+
+    this.announce(`${wrapped ? 'Wrapped. ' : ''}${target.item.label}, ${target.item.detail}`);
+  }
+
+  private makeFocusable(element: Element): void {
+    const htmlElement = element as HTMLElement;
+    if (htmlElement.tabIndex < 0 && !htmlElement.hasAttribute('tabindex')) {
+      htmlElement.setAttribute('tabindex', '-1');
+    }
+  }
+
+  private isNavigable(element: Element): boolean {
+    return element.getClientRects().length > 0 &&
+           !element.closest(`#${this.ROTOR_ID}`) &&
+           element.id !== this.SKIP_LINK_ID &&
+           !accessibleNameComputer.isHiddenFromAccessibilityTree(element);
+  }
+
+  /**
+   * Check whether a node comes after the reference in document order; descendants do
+   */
+  private follows(node: Element, reference: Element): boolean {
+    return (reference.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+  }
+
+  private sortByDocumentOrder(targets: NavigationTarget[]): NavigationTarget[] {
+    return targets.sort((a, b) =>
+      a.node === b.node ? 0 : (a.node.compareDocumentPosition(b.node) & Node.DOCUMENT_POSITION_FOLLOWING) ? -1 : 1
+    );
+  }
+
+  private announce(message: string): void {
+    const announcement = document.createElement('div');
+    announcement.setAttribute('aria-live', 'polite');
+    announcement.setAttribute('aria-atomic', 'true');
+    announcement.style.cssText = 'position:absolute;left:-10000px;width:1px;height:1px;overflow:hidden;';
+    announcement.textContent = message;
+
+    document.body.appendChild(announcement);
+    setTimeout(() => announcement.remove(), 1000);
+  }
+}
+
+// Export singleton instance
+export const navigationOverlay = NavigationOverlay.getInstance();
@@ -0,0 +1,390 @@
+/**
+ * PageReaderOverlay.ts
+ *
+ * Page Reader Content Side for AccessiAI Chrome Extension
+ * Prepares page text for the Communication Agent's chrome.tts reader and shows its progress:
+ * - Page text in logical reading order, split into paragraphs and sentences
+ * - The paragraph and word being spoken, highlighted as speech advances
+ * - A reader toolbar with play/pause, sentence and paragraph skipping and stop
+ *
+ * Performance Target: <200ms to prepare a page
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  ReaderDocument,
+  ReaderHighlight,
+  ReaderParagraph,
+  ReaderState,
+  ReadingBlockKind,
+  ReadingUnit,
+  NavigationDirection,
+  CommunicationAction
+} from '../types/index';
+import { domAnalyzer, ReadingOrderEntry } from '../utils/DOMAnalyzer';
+
+/**
+ * Prepared paragraph with the DOM position of every character of its text
+ */
+interface ReaderBlock {
+  readonly node: Element;
+  readonly sentenceStarts: readonly number[];
+  readonly charNodes: readonly Text[];       // by character of the collapsed text, empty for images
+  readonly charOffsets: readonly number[];
+}
+
+interface ReaderControl {
+  readonly action: CommunicationAction;
+  readonly label: string;
+  readonly icon: string;
+  readonly unit?: ReadingUnit;
+  readonly direction?: NavigationDirection;
+}
+
+/**
+ * PageReaderOverlay - Singleton holding the prepared page text and reader UI
+ */
+export class PageReaderOverlay {
+  private static instance: PageReaderOverlay;
+
+  private blocks: ReaderBlock[] = [];
+  private highlightLayer: HTMLElement | null = null;
+  private toolbar: HTMLElement | null = null;
+  private currentBlock: number = -1;
+
+  private readonly TOOLBAR_ID = 'accessiai-reader-toolbar';
+  private readonly HIGHLIGHT_ID = 'accessiai-reader-highlight';
+  private readonly KIND_LABELS: Partial<Record<ReadingBlockKind, string>> = {
+    'image': 'Image',
+    'quote': 'Quote',
+    'code': 'Code'
+  };
+  private readonly CONTROLS: readonly ReaderControl[] = [
+    { action: 'skip', label: 'Previous paragraph', icon: '⏮', unit: 'paragraph', direction: 'previous' },
+    { action: 'skip', label: 'Previous sentence', icon: '⏪', unit: 'sentence', direction: 'previous' },
+    { action: 'pause', label: 'Pause', icon: '⏸' },
+    { action: 'skip', label: 'Next sentence', icon: '⏩', unit: 'sentence', direction: 'next' },
+    { action: 'skip', label: 'Next paragraph', icon: '⏭', unit: 'paragraph', direction: 'next' },
+    { action: 'stop', label: 'Stop reading', icon: '⏹' }
+  ];
+
+  /**
+   * Get singleton instance of PageReaderOverlay
+   */
+  static getInstance(): PageReaderOverlay {
+    if (!PageReaderOverlay.instance) {
+      PageReaderOverlay.instance = new PageReaderOverlay();
+    }
+    return PageReaderOverlay.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[PageReaderOverlay] Initializing Page Reader Overlay...');
+  }
+
+  /**
+   * Collect the page text in reading order and split it for speaking
+   *
+   * @returns ReaderDocument - Paragraphs with their sentences
+   */
+  prepareDocument(): ReaderDocument {
+    const startTime = performance.now();
+    const entries = domAnalyzer.getReadingOrder(document);
+    const segmenter = new Intl.Segmenter(document.documentElement.lang || undefined, { granularity: 'sentence' });
+
+    this.blocks = [];
+    const paragraphs: ReaderParagraph[] = [];
+
+    for (const entry of entries) {
+      const { text, charNodes, charOffsets } = this.mapText(entry);
+      const sentences: string[] = [];
+      const sentenceStarts: number[] = [];
+
+      for (const { segment, index } of segmenter.segment(text)) {
+        const sentence = segment.trim();
+        if (!sentence) continue;
+        sentences.push(sentence);
+        sentenceStarts.push(index + segment.indexOf(sentence));
+      }
+
+      this.blocks.push({ node: entry.node, sentenceStarts, charNodes, charOffsets });
+      paragraphs.push({
+        kind: entry.kind,
+        label: entry.kind === 'heading' ? `Heading level ${entry.level ?? 2}` : this.KIND_LABELS[entry.kind] ?? '',
+        sentences
+      });
+    }
+
+    console.log(`[PageReaderOverlay] Prepared ${paragraphs.length} paragraphs in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+    return {
+      pageUrl: window.location.href,
+      title: document.title,
+      ...(document.documentElement.lang ? { lang: document.documentElement.lang } : {}),
+      paragraphs
+    };
+  }
+
+  /**
+   * Highlight the paragraph being read and the word within it
+   *
+   * @param highlight - Position reported by the reader; a zero length marks only the paragraph
+   */
+  highlight(highlight: ReaderHighlight): void {
+    const block = this.blocks[highlight.paragraph];
+    if (!block?.node.isConnected) {
+      return;
+    }
+
+    const layer = this.getHighlightLayer();
+    layer.replaceChildren();
+
+    if (highlight.paragraph !== this.currentBlock) {
+      this.currentBlock = highlight.paragraph;
+      block.node.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+
+    const blockRect = block.node.getBoundingClientRect();
+    layer.appendChild(this.createBox(blockRect, 'outline:3px solid #2563eb;outline-offset:2px;border-radius:4px'));
+
+    const start = (block.sentenceStarts[highlight.sentence] ?? 0) + highlight.charIndex;
+    const end = start + highlight.length;
+    if (highlight.length <= 0 || block.charNodes.length === 0 || end > block.charNodes.length) {
+      return;
+    }
+
+    try {
+      const range = document.createRange();
+      range.setStart(block.charNodes[start]!, block.charOffsets[start]!);
+      range.setEnd(block.charNodes[end - 1]!, block.charOffsets[end - 1]! + 1);
+
+      for (const rect of Array.from(range.getClientRects())) {
+        layer.appendChild(this.createBox(rect, 'background:rgba(250,204,21,0.45);border-radius:2px'));
+      }
+    } catch (error) {
+      // The page changed under the reader; the paragraph outline still shows the place
+      console.warn('[PageReaderOverlay] Failed to highlight word:', error);
+    }
+  }
+
+  /**
+   * Show the reader toolbar for a playing or paused reader, remove it otherwise
+   *
+   * @param state - Reader state reported by the Communication Agent
+   */
+  updateState(state: ReaderState): void {
+    if (state.status === 'idle') {
+      this.clear();
+      return;
+    }
+
+    if (!this.toolbar) {
+      this.toolbar = this.createToolbar();
+      document.body.appendChild(this.toolbar);
+    }
+
+    const toggle = this.toolbar.querySelector<HTMLButtonElement>('[data-reader-toggle]');
+    if (toggle) {
+      const playing = state.status === 'playing';
+      toggle.dataset['action'] = playing ? 'pause' : 'resume';
+      toggle.textContent = playing ? '⏸' : '▶';
+      toggle.setAttribute('aria-label', playing ? 'Pause' : 'Resume');
+      toggle.title = playing ? 'Pause' : 'Resume';
+    }
+
+    const status = this.toolbar.querySelector('[data-reader-status]');
+    if (status) {
+      status.textContent = `${state.status === 'paused' ? 'Paused, p' : 'P'}aragraph ${state.paragraph + 1} of ${state.totalParagraphs}`;
+    }
+  }
+
+  /**
+   * Remove the toolbar and highlights
+   */
+  clear(): void {
+    this.highlightLayer?.remove();
+    this.highlightLayer = null;
+    this.currentBlock = -1;
+
+    this.toolbar?.remove();
+    this.toolbar = null;
+  }
+
+  // Toolbar
+
+  private createToolbar(): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.id = this.TOOLBAR_ID;
+    toolbar.setAttribute('role', 'toolbar');
+    toolbar.setAttribute('aria-label', 'Page reader');
+    toolbar.style.cssText = [
+      'position:fixed',
+      'bottom:16px',
+      'left:50%',
+      'transform:translateX(-50%)',
+      'z-index:2147483647',
+      'display:flex',
+      'align-items:center',
+      'gap:4px',
+      'padding:8px 12px',
+      'border-radius:8px',
+      'background:#111827',
+      'color:#ffffff',
+      'box-shadow:0 4px 16px rgba(0,0,0,0.35)',
+      'font:14px/1.5 system-ui,sans-serif'
+    ].join(';');
+
+    this.CONTROLS.forEach((control, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = control.icon;
+      button.setAttribute('aria-label', control.label);
+      button.title = control.label;
+      button.dataset['action'] = control.action;
+      if (control.unit) button.dataset['unit'] = control.unit;
+      if (control.direction) button.dataset['direction'] = control.direction;
+      if (control.action === 'pause') button.dataset['readerToggle'] = '';
+      button.tabIndex = index === 2 ? 0 : -1;
+      button.style.cssText = 'min-width:32px;min-height:32px;border:none;border-radius:4px;background:#374151;color:#ffffff;cursor:pointer;font-size:16px';
+      toolbar.appendChild(button);
+    });
+
+    const status = document.createElement('span');
+    status.dataset['readerStatus'] = '';
+    status.style.cssText = 'margin-left:8px;white-space:nowrap';
+    toolbar.appendChild(status);
+
+    toolbar.addEventListener('click', event => {
+      const button = (event.target as Element).closest<HTMLButtonElement>('button[data-action]');
+      if (button) {
+        this.sendControl(button);
+      }
+    });
+    toolbar.addEventListener('keydown', event => this.handleToolbarKeydown(event));
+
+    return toolbar;
+  }
+
+  /**
+   * Roving focus between the toolbar buttons, as the ARIA toolbar pattern expects
+   */
+  private handleToolbarKeydown(event: KeyboardEvent): void {
+    if (!this.toolbar) return;
+
+    const buttons = Array.from(this.toolbar.querySelectorAll<HTMLButtonElement>('button'));
+    const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    let next: number;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        next = (current + 1) % buttons.length;
+        break;
+      case 'ArrowLeft':
+        next = (current - 1 + buttons.length) % buttons.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = buttons.length - 1;
+        break;
+      case 'Escape':
+        event.preventDefault();
+        void chrome.runtime.sendMessage({ type: 'READER_CONTROL', data: { action: 'stop' } });
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    buttons.forEach((button, index) => {
+      button.tabIndex = index === next ? 0 : -1;
+    });
+    buttons[next]?.focus();
+  }
+
+  private sendControl(button: HTMLButtonElement): void {
+    const { action, unit, direction } = button.dataset;
+    chrome.runtime.sendMessage({
+      type: 'READER_CONTROL',
+      data: {
+        action,
+        ...(unit ? { unit } : {}),
+        ...(direction ? { direction } : {})
+      }
+    }).catch(error => console.warn('[PageReaderOverlay] Reader control failed:', error));
+  }
+
+  // Utility Methods
+
+  /**
+   * Collapse whitespace the same way the reading order does, remembering where each character came from
+   */
+  private mapText(entry: ReadingOrderEntry): { text: string; charNodes: Text[]; charOffsets: number[] } {
+    if (entry.kind === 'image') {
+      return { text: entry.text, charNodes: [], charOffsets: [] };
+    }
+
+    let text = '';
+    const charNodes: Text[] = [];
+    const charOffsets: number[] = [];
+    let pendingSpace: { node: Text; offset: number } | null = null;
+
+    for (const node of entry.textNodes) {
+      for (let offset = 0; offset < node.data.length; offset++) {
+        const char = node.data[offset]!;
+
+        if (/\s/.test(char)) {
+          if (text && !pendingSpace) {
+            pendingSpace = { node, offset };
+          }
+          continue;
+        }
+
+        if (pendingSpace) {
+          text += ' ';
+          charNodes.push(pendingSpace.node);
+          charOffsets.push(pendingSpace.offset);
+          pendingSpace = null;
+        }
+        text += char;
+        charNodes.push(node);
+        charOffsets.push(offset);
+      }
+    }
+
+    return { text, charNodes, charOffsets };
+  }
+
+  private getHighlightLayer(): HTMLElement {
+    if (!this.highlightLayer?.isConnected) {
+      this.highlightLayer = document.createElement('div');
+      this.highlightLayer.id = this.HIGHLIGHT_ID;
+      this.highlightLayer.setAttribute('aria-hidden', 'true');
+      this.highlightLayer.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;pointer-events:none;z-index:2147483646';
+      document.body.appendChild(this.highlightLayer);
+    }
+    return this.highlightLayer;
+  }
+
+  private createBox(rect: DOMRect, style: string): HTMLElement {
+    const box = document.createElement('div');
+    box.style.cssText = [
+      'position:absolute',
+      `top:${rect.top + window.scrollY}px`,
+      `left:${rect.left + window.scrollX}px`,
+      `width:${rect.width}px`,
+      `height:${rect.height}px`,
+      style
+    ].join(';');
+    return box;
+  }
+}
+
+// Export singleton instance
+export const pageReaderOverlay = PageReaderOverlay.getInstance();
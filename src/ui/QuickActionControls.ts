@@ -18,8 +18,10 @@
 import { 
   AccessibilityIssue,
   AccessibilityIssueType,
-  ElementInfo
+  ElementInfo,
+  ElementStateSnapshot
 } from '../types/index';
+import { composedPathLocator } from '../utils/ComposedPathLocator';
 
 /**
  * Quick fix action configuration
@@ -68,6 +70,20 @@ export interface FixResult {
   readonly elementsModified: number;
   readonly executionTime: number;
   readonly error?: string;
+  readonly locator?: string;               // of the fixed element before the fix
+  readonly before?: ElementStateSnapshot;
+  readonly after?: ElementStateSnapshot;
+}
+
+/**
+ * Fix kept in memory so it can be undone while the page is open
+ */
+interface AppliedFix {
+  readonly element: Element;               // fixed element as it was before the fix
+  readonly fixed: Element;                 // element carrying the fix; differs from element for heading replacements
+  readonly before: ElementStateSnapshot;
+  readonly after: ElementStateSnapshot;
+  readonly revertSteps: ReadonlyArray<() => void>;
 }
 
 /**
@@ -96,6 +112,9 @@ export class QuickActionControls {
   private successfulFixes: number = 0;
   private totalFixTime: number = 0;
   
+  // Undo
+  private appliedFixes: Map<string, AppliedFix> = new Map();
+  
   // Event Listeners
   private boundEventListeners: Map<string, EventListener> = new Map();
   
@@ -180,7 +199,10 @@ export class QuickActionControls {
         issueId: result.issueId || issue.id,
         fixApplied: result.fixApplied || 'unknown',
         elementsModified: result.elementsModified || 0,
-        executionTime
+        executionTime,
+        ...(result.locator ? { locator: result.locator } : {}),
+        ...(result.before ? { before: result.before } : {}),
+        ...(result.after ? { after: result.after } : {})
       };
       
       if (result.error) {
@@ -231,6 +253,41 @@ export class QuickActionControls {
     }
   }
   
+  /**
+   * Undo a quick fix applied earlier in this page session
+   * 
+   * @param issueId - Issue whose fix should be undone
+   * @returns boolean - False when no fix is recorded or the page changed the element since
+   */
+  undoQuickFix(issueId: string): boolean {
+    const applied = this.appliedFixes.get(issueId);
+    if (!applied) {
+      return false;
+    }
+    
+    if (!applied.fixed.isConnected || !this.matchesElementState(applied.fixed, applied.after)) {
+      console.warn(`[QuickActionControls] Cannot undo fix for ${issueId}: element changed since the fix`);
+      this.appliedFixes.delete(issueId);
+      return false;
+    }
+    
+    [...applied.revertSteps].reverse().forEach(step => step());
+    
+    // Restore the attributes the fix added or changed
+    Array.from(applied.element.attributes).forEach(attr => {
+      if (!(attr.name in applied.before.attributes)) {
+        applied.element.removeAttribute(attr.name);
+      }
+    });
+    Object.entries(applied.before.attributes).forEach(([name, value]) => {
+      applied.element.setAttribute(name, value);
+    });
+    
+    this.appliedFixes.delete(issueId);
+    console.log(`[QuickActionControls] Undid fix for issue: ${issueId}`);
+    return true;
+  }
+  
   /**
    * Get available quick fix actions for issue type
    * 
@@ -593,6 +650,10 @@ export class QuickActionControls {
         };
       }
       
+      const locator = composedPathLocator.getLocator(element);
+      const before = this.captureElementState(element);
+      const revertSteps: Array<() => void> = [];
+      let modifiedElement = element;
       let elementsModified = 0;
       
       switch (fixAction.id) {
@@ -601,23 +662,30 @@ export class QuickActionControls {
           break;
           
         case 'fix-missing-labels':
-          elementsModified = await this.fixMissingLabels(element);
+          elementsModified = await this.fixMissingLabels(element, revertSteps);
           break;
           
-        case 'fix-heading-structure':
-          elementsModified = await this.fixHeadingStructure(element);
+        case 'fix-heading-structure': {
+          // The heading is replaced by one of the corrected level
+          const replacement = await this.fixHeadingStructure(element);
+          if (replacement) {
+            revertSteps.push(() => replacement.replaceWith(element));
+            modifiedElement = replacement;
+            elementsModified = 1;
+          }
           break;
+        }
           
         case 'fix-color-contrast':
           elementsModified = await this.fixColorContrast(element);
           break;
           
         case 'fix-keyboard-access':
-          elementsModified = await this.fixKeyboardAccess(element);
+          elementsModified = await this.fixKeyboardAccess(element, revertSteps);
           break;
           
         case 'fix-focus-management':
-          elementsModified = await this.fixFocusManagement(element);
+          elementsModified = await this.fixFocusManagement(element, revertSteps);
           break;
           
         default:
@@ -630,11 +698,19 @@ export class QuickActionControls {
           };
       }
       
+      const after = this.captureElementState(modifiedElement);
+      if (elementsModified > 0) {
+        this.appliedFixes.set(issue.id, { element, fixed: modifiedElement, before, after, revertSteps });
+      }
+      
       return {
         success: elementsModified > 0,
         issueId: issue.id,
         fixApplied: fixAction.id,
-        elementsModified
+        elementsModified,
+        locator,
+        before,
+        after
       };
       
     } catch (error) {
@@ -678,9 +754,10 @@ export class QuickActionControls {
    * Fix missing labels for form controls
    * 
    * @param element - Form control element
+   * @param revertSteps - Collects the steps that undo the fix
    * @returns Promise<number> - Number of elements modified
    */
-  private async fixMissingLabels(element: Element): Promise<number> {
+  private async fixMissingLabels(element: Element, revertSteps: Array<() => void>): Promise<number> {
     try {
       const input = element as HTMLInputElement;
       
@@ -713,6 +790,7 @@ export class QuickActionControls {
       
       // Insert label before input
       input.parentNode?.insertBefore(label, input);
+      revertSteps.push(() => label.remove());
       
       console.log(`[QuickActionControls] Added label: "${labelText}"`);
       return 1;
@@ -727,9 +805,9 @@ export class QuickActionControls {
    * Fix heading structure issues
    * 
    * @param element - Heading element
-   * @returns Promise<number> - Number of elements modified
+   * @returns Promise<Element | null> - Replacement heading, null when unchanged
    */
-  private async fixHeadingStructure(element: Element): Promise<number> {
+  private async fixHeadingStructure(element: Element): Promise<Element | null> {
     try {
       const heading = element as HTMLHeadingElement;
       const currentLevel = parseInt(heading.tagName.charAt(1));
@@ -738,7 +816,7 @@ export class QuickActionControls {
       const correctLevel = this.calculateCorrectHeadingLevel(heading);
       
       if (currentLevel === correctLevel) {
-        return 0; // Already correct
+        return null; // Already correct
       }
       
       // Create new heading with correct level
@@ -754,11 +832,11 @@ export class QuickActionControls {
       heading.parentNode?.replaceChild(newHeading, heading);
       
       console.log(`[QuickActionControls] Fixed heading level: h${currentLevel} → h${correctLevel}`);
-      return 1;
+      return newHeading;
       
     } catch (error) {
       console.error('[QuickActionControls] Fix heading structure failed:', error);
-      return 0;
+      return null;
     }
   }
   
@@ -798,9 +876,10 @@ export class QuickActionControls {
    * Fix keyboard accessibility issues
    * 
    * @param element - Element to make keyboard accessible
+   * @param revertSteps - Collects the steps that undo the fix
    * @returns Promise<number> - Number of elements modified
    */
-  private async fixKeyboardAccess(element: Element): Promise<number> {
+  private async fixKeyboardAccess(element: Element, revertSteps: Array<() => void>): Promise<number> {
     try {
       const htmlElement = element as HTMLElement;
       
@@ -811,7 +890,9 @@ export class QuickActionControls {
       
       // Add keyboard event handlers if interactive
       if (this.isInteractive(htmlElement)) {
-        htmlElement.addEventListener('keydown', this.handleElementKeyDown.bind(this));
+        const onKeyDown = this.handleElementKeyDown.bind(this);
+        htmlElement.addEventListener('keydown', onKeyDown);
+        revertSteps.push(() => htmlElement.removeEventListener('keydown', onKeyDown));
       }
       
       console.log('[QuickActionControls] Added keyboard accessibility');
@@ -827,9 +908,10 @@ export class QuickActionControls {
    * Fix focus management issues
    * 
    * @param element - Element with focus issues
+   * @param revertSteps - Collects the steps that undo the fix
    * @returns Promise<number> - Number of elements modified
    */
-  private async fixFocusManagement(element: Element): Promise<number> {
+  private async fixFocusManagement(element: Element, revertSteps: Array<() => void>): Promise<number> {
     try {
       const htmlElement = element as HTMLElement;
       
@@ -838,8 +920,14 @@ export class QuickActionControls {
       htmlElement.style.outlineOffset = '2px';
       
       // Add focus event handlers
-      htmlElement.addEventListener('focus', this.handleElementFocus.bind(this));
-      htmlElement.addEventListener('blur', this.handleElementBlur.bind(this));
+      const onFocus = this.handleElementFocus.bind(this);
+      const onBlur = this.handleElementBlur.bind(this);
+      htmlElement.addEventListener('focus', onFocus);
+      htmlElement.addEventListener('blur', onBlur);
+      revertSteps.push(() => {
+        htmlElement.removeEventListener('focus', onFocus);
+        htmlElement.removeEventListener('blur', onBlur);
+      });
       
       console.log('[QuickActionControls] Added focus management');
       return 1;
@@ -911,27 +999,52 @@ export class QuickActionControls {
   
   // Utility Methods
   
+  /**
+   * Capture the tag and attributes a fix may change
+   * 
+   * @param element - Element to capture
+   * @returns ElementStateSnapshot - Tag name and attributes of the element
+   */
+  captureElementState(element: Element): ElementStateSnapshot {
+    const attributes: Record<string, string> = {};
+    Array.from(element.attributes).forEach(attr => {
+      attributes[attr.name] = attr.value;
+    });
+    return { tagName: element.tagName.toLowerCase(), attributes };
+  }
+  
+  /**
+   * Check whether an element is still in a captured state
+   * 
+   * @param element - Element to compare
+   * @param state - Previously captured state
+   * @returns boolean - True when tag name and attributes are unchanged
+   */
+  matchesElementState(element: Element, state: ElementStateSnapshot): boolean {
+    const current = this.captureElementState(element);
+    const names = Object.keys(state.attributes);
+    
+    return current.tagName === state.tagName &&
+           Object.keys(current.attributes).length === names.length &&
+           names.every(name => current.attributes[name] === state.attributes[name]);
+  }
+  
   private findElementByInfo(elementInfo: ElementInfo): Element | null {
+    // Elements inside shadow roots or frames are not reachable by document id
+    const isComposed = composedPathLocator.isComposedLocator(elementInfo.xpath);
+    
     // Try to find by ID first
-    if (elementInfo.id) {
+    if (elementInfo.id && !isComposed) {
       const element = document.getElementById(elementInfo.id);
       if (element) return element;
     }
     
-    // Try to find by XPath
-    try {
-      const result = document.evaluate(
-        elementInfo.xpath,
-        document,
-        null,
-        XPathResult.FIRST_ORDERED_NODE_TYPE,
-        null
-      );
-      return result.singleNodeValue as Element;
-    } catch (error) {
-      console.warn('[QuickActionControls] XPath evaluation failed:', error);
-      return null;
+    // Resolve the (possibly composed) XPath locator
+    const element = composedPathLocator.resolveLocator(elementInfo.xpath);
+    if (!element) {
+      console.warn('[QuickActionControls] Could not resolve element locator:', elementInfo.xpath);
     }
+    return element;
   }
   
   private generateAltText(image: HTMLImageElement): string {
@@ -1167,6 +1280,7 @@ export class QuickActionControls {
       });
       
       // Reset state
+      this.appliedFixes.clear();
       this.isInitialized = false;
       
       console.log('[QuickActionControls] Shutdown complete');
@@ -6,6 +6,7 @@
  * - User preference management with local storage
  * - Accessibility profile selection with predefined configurations
  * - Custom rule configuration with user-defined criteria
+ * - Voice, rate and pitch for the built-in page reader
  * - Real-time settings validation and application
  * 
  * Performance Target: <50ms UI updates, <100ms settings operations
@@ -19,8 +20,18 @@ import {
   SettingsConfig, 
   AccessibilityProfile, 
   SettingsValidationResult,
-  KeyboardShortcuts
+  KeyboardShortcuts,
+  DEFAULT_KEYBOARD_SHORTCUTS,
+  DEFAULT_SPEECH_SETTINGS,
+  SpeechSettings,
+  SpeechVoice,
+  AccessibilityIssueType,
+  CustomRule,
+  RuleCondition,
+  RuleAction
 } from '../types/index';
+import { customRuleEngine } from '../utils/CustomRuleEngine';
+import { composedPathLocator } from '../utils/ComposedPathLocator';
 
 /**
  * SettingsPanel - Main settings management interface
@@ -45,6 +56,11 @@ export class SettingsPanel {
   // Event Listeners
   private boundEventListeners: Map<string, EventListener> = new Map();
 
+  // Rule Builder Live Preview
+  private previewedElements: Map<HTMLElement, string> = new Map();
+  private previewTimer: number | null = null;
+  private readonly PREVIEW_DEBOUNCE = 200; // milliseconds
+
   // Predefined Accessibility Profiles
   private readonly DEFAULT_PROFILES: AccessibilityProfile[] = [
     {
@@ -66,14 +82,7 @@ export class SettingsPanel {
   ];
 
   // Default Keyboard Shortcuts
-  private readonly DEFAULT_SHORTCUTS: KeyboardShortcuts = {
-    togglePanel: 'Alt+F12',
-    scanPage: 'Alt+F11',
-    fixIssues: 'Alt+F10',
-    nextIssue: 'Alt+Shift+ArrowDown',
-    previousIssue: 'Alt+Shift+ArrowUp',
-    showHelp: 'Alt+F1'
-  };
+  private readonly DEFAULT_SHORTCUTS: KeyboardShortcuts = DEFAULT_KEYBOARD_SHORTCUTS;
 
   /**
    * Get singleton instance of SettingsPanel
@@ -137,6 +146,9 @@ export class SettingsPanel {
       this.panelElement.style.display = 'block';
       this.isVisible = true;
       
+      // Auto-fixes may have been enabled from the accessibility panel since
+      this.refreshAutoFixList();
+      
       // Focus management for accessibility
       const firstFocusable = this.panelElement.querySelector('[tabindex="0"]') as HTMLElement;
       if (firstFocusable) {
@@ -156,6 +168,7 @@ export class SettingsPanel {
     if (this.panelElement && this.isVisible) {
       this.panelElement.style.display = 'none';
       this.isVisible = false;
+      this.clearRulePreview();
 
       // Check for unsaved changes
       if (this.isDirty) {
@@ -274,7 +287,9 @@ export class SettingsPanel {
         customRules: [],
         wcagLevel: 'AA',
         enableVoiceCommands: false,
-        keyboardShortcuts: this.DEFAULT_SHORTCUTS
+        keyboardShortcuts: this.DEFAULT_SHORTCUTS,
+        speech: DEFAULT_SPEECH_SETTINGS,
+        autoFixIssueTypes: []
       },
       performance: {
         realTimeScanning: true,
@@ -359,6 +374,12 @@ export class SettingsPanel {
             <p>Settings panel implementation complete. Ready for integration with other components.</p>
             <p>Following extended roadmap patterns with comprehensive settings management.</p>
           </div>
+
+          ${this.generateSpeechSettingsHTML()}
+
+          ${this.generateAutoFixHTML()}
+
+          ${this.generateRuleBuilderHTML()}
         </main>
 
         <footer class="settings-panel-footer">
@@ -370,6 +391,215 @@ export class SettingsPanel {
     `;
   }
 
+  /**
+   * Generate the page reader speech section
+   */
+  private generateSpeechSettingsHTML(): string {
+    const speech = this.getSpeechSettings();
+
+    return `
+      <section class="settings-section speech-settings" aria-labelledby="speech-settings-title">
+        <h3 id="speech-settings-title">Speech</h3>
+
+        <form class="rule-form" id="speech-settings-form" novalidate>
+          <div class="rule-field">
+            <label for="speech-voice">Voice</label>
+            <select id="speech-voice" name="voiceName">
+              <option value="">System default</option>
+              ${speech.voiceName ? `<option value="${this.escapeHTML(speech.voiceName)}" selected>${this.escapeHTML(speech.voiceName)}</option>` : ''}
+            </select>
+          </div>
+          <div class="rule-row">
+            <div class="rule-field">
+              <label for="speech-rate">Rate <output for="speech-rate" id="speech-rate-value">${speech.rate.toFixed(1)}×</output></label>
+              <input type="range" id="speech-rate" name="rate" min="0.5" max="2" step="0.1" value="${speech.rate}">
+            </div>
+            <div class="rule-field">
+              <label for="speech-pitch">Pitch <output for="speech-pitch" id="speech-pitch-value">${speech.pitch.toFixed(1)}</output></label>
+              <input type="range" id="speech-pitch" name="pitch" min="0" max="2" step="0.1" value="${speech.pitch}">
+            </div>
+            <div class="rule-field">
+              <label for="speech-volume">Volume <output for="speech-volume" id="speech-volume-value">${Math.round(speech.volume * 100)}%</output></label>
+              <input type="range" id="speech-volume" name="volume" min="0" max="1" step="0.1" value="${speech.volume}">
+            </div>
+          </div>
+          <label class="rule-toggle">
+            <input type="checkbox" name="highlightWords" ${speech.highlightWords ? 'checked' : ''}>
+            <span>Highlight each word as it is read</span>
+          </label>
+          <label class="rule-toggle">
+            <input type="checkbox" name="announceScanResults" ${speech.announceScanResults ? 'checked' : ''}>
+            <span>Speak scan results</span>
+          </label>
+
+          <button type="button" class="settings-btn" id="speech-test">
+            Test Voice
+          </button>
+        </form>
+      </section>
+    `;
+  }
+
+  /**
+   * Generate the automatic fixes section
+   */
+  private generateAutoFixHTML(): string {
+    return `
+      <section class="settings-section auto-fix-settings" aria-labelledby="auto-fix-settings-title">
+        <h3 id="auto-fix-settings-title">Automatic Fixes</h3>
+        <p>Issue types listed here are fixed on every analysis. AccessiAI suggests types you always fix; what you fix, undo or ignore is only stored on this device.</p>
+
+        <ul class="rule-list" id="auto-fix-list" aria-label="Issue types fixed automatically">
+          ${this.generateAutoFixListHTML()}
+        </ul>
+
+        <button type="button" class="settings-btn" id="clear-fix-history">
+          Clear Fix History
+        </button>
+      </section>
+    `;
+  }
+
+  /**
+   * Generate the list of issue types fixed automatically
+   */
+  private generateAutoFixListHTML(): string {
+    const issueTypes = this.getAutoFixIssueTypes();
+
+    if (issueTypes.length === 0) {
+      return '<li class="rule-list-empty">No issue types are fixed automatically.</li>';
+    }
+
+    return issueTypes.map(issueType => {
+      const label = issueType.replace(/-/g, ' ');
+      return `
+        <li class="rule-list-item" data-issue-type="${this.escapeHTML(issueType)}">
+          <span>${this.escapeHTML(label)}</span>
+          <button type="button" class="settings-btn auto-fix-remove" aria-label="Stop fixing ${this.escapeHTML(label)} automatically">
+            Remove
+          </button>
+        </li>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Generate the custom rule builder section
+   */
+  private generateRuleBuilderHTML(): string {
+    return `
+      <section class="settings-section rule-builder" aria-labelledby="rule-builder-title">
+        <h3 id="rule-builder-title">Custom Rules</h3>
+
+        <ul class="rule-list" id="custom-rule-list" aria-label="Existing custom rules">
+          ${this.generateRuleListHTML()}
+        </ul>
+
+        <form class="rule-form" id="rule-builder-form" novalidate>
+          <div class="rule-field">
+            <label for="rule-name">Rule name</label>
+            <input type="text" id="rule-name" name="name" required>
+          </div>
+          <div class="rule-field">
+            <label for="rule-description">Description shown on matching issues</label>
+            <input type="text" id="rule-description" name="description">
+          </div>
+          <div class="rule-field">
+            <label for="rule-selector">CSS selector</label>
+            <input type="text" id="rule-selector" name="selector" placeholder="e.g. a[target=_blank]" required>
+          </div>
+          <div class="rule-row">
+            <div class="rule-field">
+              <label for="rule-condition-type">Condition type</label>
+              <select id="rule-condition-type" name="conditionType">
+                <option value="attribute">Attribute</option>
+                <option value="style">Computed style</option>
+                <option value="content">Content</option>
+                <option value="structure">Structure</option>
+              </select>
+            </div>
+            <div class="rule-field">
+              <label for="rule-property">Property</label>
+              <input type="text" id="rule-property" name="property" placeholder="e.g. target" required>
+            </div>
+          </div>
+          <div class="rule-row">
+            <div class="rule-field">
+              <label for="rule-operator">Operator</label>
+              <select id="rule-operator" name="operator">
+                <option value="equals">equals</option>
+                <option value="contains">contains</option>
+                <option value="startsWith">starts with</option>
+                <option value="endsWith">ends with</option>
+                <option value="regex">matches regex</option>
+              </select>
+            </div>
+            <div class="rule-field">
+              <label for="rule-value">Value</label>
+              <input type="text" id="rule-value" name="value">
+            </div>
+          </div>
+          <div class="rule-row">
+            <div class="rule-field">
+              <label for="rule-action">Action</label>
+              <select id="rule-action" name="action">
+                <option value="warn">Warn</option>
+                <option value="highlight">Highlight</option>
+                <option value="fix">Suggest fix</option>
+                <option value="ignore">Ignore built-in findings</option>
+              </select>
+            </div>
+            <div class="rule-field">
+              <label for="rule-priority">Priority</label>
+              <select id="rule-priority" name="priority">
+                <option value="low">Low</option>
+                <option value="medium" selected>Medium</option>
+                <option value="high">High</option>
+              </select>
+            </div>
+          </div>
+          <div class="rule-field">
+            <label for="rule-suggestion">Suggested fix (optional)</label>
+            <input type="text" id="rule-suggestion" name="suggestion">
+          </div>
+
+          <p class="rule-preview" id="rule-preview-status" role="status" aria-live="polite">
+            Enter a selector to preview matching elements.
+          </p>
+          <div class="rule-errors" id="rule-builder-errors" role="alert"></div>
+
+          <button type="submit" class="settings-btn settings-btn-primary" id="add-custom-rule">
+            Add Rule
+          </button>
+        </form>
+      </section>
+    `;
+  }
+
+  /**
+   * Generate list items for the stored custom rules
+   */
+  private generateRuleListHTML(): string {
+    const rules = this.currentSettings?.accessibility.customRules ?? [];
+
+    if (rules.length === 0) {
+      return '<li class="rule-list-empty">No custom rules yet.</li>';
+    }
+
+    return rules.map(rule => `
+      <li class="rule-list-item" data-rule-id="${this.escapeHTML(rule.id)}">
+        <label class="rule-toggle">
+          <input type="checkbox" class="rule-enabled" ${rule.enabled ? 'checked' : ''}>
+          <span>${this.escapeHTML(rule.name)}</span>
+        </label>
+        <code class="rule-summary">${this.escapeHTML(rule.selector)} · ${rule.condition.type} ${this.escapeHTML(rule.condition.property)} ${rule.condition.operator} "${this.escapeHTML(rule.condition.value)}" → ${rule.action.type}</code>
+        <button type="button" class="settings-btn rule-delete" aria-label="Delete rule ${this.escapeHTML(rule.name)}">
+          Delete
+        </button>
+      </li>
+    `).join('');
+  }
+
   /**
    * Apply CSS styles to the panel
    */
@@ -494,6 +724,90 @@ export class SettingsPanel {
         outline: 2px solid #007bff;
         outline-offset: 2px;
       }
+
+      .rule-builder,
+      .speech-settings {
+        margin-top: 24px;
+      }
+
+      .speech-settings .rule-toggle {
+        display: block;
+        margin-bottom: 8px;
+      }
+
+      .rule-list {
+        list-style: none;
+        margin: 0 0 16px 0;
+        padding: 0;
+      }
+
+      .rule-list-item {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 0;
+        border-bottom: 1px solid #e0e0e0;
+      }
+
+      .rule-summary {
+        flex: 1 1 100%;
+        font-size: 12px;
+        color: #555;
+        word-break: break-all;
+      }
+
+      .rule-delete {
+        background: #f8d7da;
+        color: #721c24;
+      }
+
+      .rule-form .rule-row {
+        display: flex;
+        gap: 12px;
+      }
+
+      .rule-form .rule-field {
+        display: flex;
+        flex-direction: column;
+        flex: 1;
+        margin-bottom: 12px;
+      }
+
+      .rule-form input,
+      .rule-form select {
+        padding: 6px 8px;
+        border: 1px solid #767676;
+        border-radius: 4px;
+        font-size: 14px;
+      }
+
+      .rule-form input:focus,
+      .rule-form select:focus {
+        outline: 2px solid #007bff;
+        outline-offset: 1px;
+      }
+
+      .rule-form [aria-invalid="true"] {
+        border-color: #c0392b;
+      }
+
+      .rule-preview {
+        margin: 4px 0 8px 0;
+        font-size: 13px;
+        color: #2c3e50;
+      }
+
+      .rule-errors {
+        color: #a61b1b;
+        font-size: 13px;
+        margin-bottom: 8px;
+      }
+
+      .rule-errors ul {
+        margin: 0;
+        padding-left: 20px;
+      }
     `;
 
     // Create and inject style element
@@ -533,6 +847,15 @@ export class SettingsPanel {
       this.boundEventListeners.set('save-button', saveHandler);
     }
 
+    // Page reader speech settings
+    this.setupSpeechSettingsListeners();
+
+    // Automatic fixes
+    this.setupAutoFixListeners();
+
+    // Custom rule builder
+    this.setupRuleBuilderListeners();
+
     // Global keyboard shortcuts
     const keyboardHandler = (e: Event) => this.handleGlobalKeydown(e as KeyboardEvent);
     document.addEventListener('keydown', keyboardHandler);
@@ -541,6 +864,433 @@ export class SettingsPanel {
     console.log('[SettingsPanel] Event listeners set up successfully');
   }
 
+  /**
+   * Set up speech settings listeners and fill the voice list
+   */
+  private setupSpeechSettingsListeners(): void {
+    if (!this.panelElement) return;
+
+    const form = this.panelElement.querySelector('#speech-settings-form') as HTMLFormElement | null;
+    if (form) {
+      const inputHandler = () => this.updateSpeechOutputs();
+      form.addEventListener('input', inputHandler);
+      this.boundEventListeners.set('speech-form-input', inputHandler);
+
+      const changeHandler = () => this.saveSpeechSettings();
+      form.addEventListener('change', changeHandler);
+      this.boundEventListeners.set('speech-form-change', changeHandler);
+    }
+
+    const testBtn = this.panelElement.querySelector('#speech-test');
+    if (testBtn) {
+      const testHandler = () => {
+        chrome.runtime.sendMessage({
+          type: 'SPEAK_TEXT',
+          data: { text: 'This is how AccessiAI reads pages and scan results.' }
+        }).catch(error => console.warn('[SettingsPanel] Voice test failed:', error));
+      };
+      testBtn.addEventListener('click', testHandler);
+      this.boundEventListeners.set('speech-test', testHandler);
+    }
+
+    this.loadVoices();
+  }
+
+  /**
+   * Fill the voice list with the voices chrome.tts offers
+   */
+  private async loadVoices(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_TTS_VOICES' });
+      const select = this.panelElement?.querySelector('#speech-voice') as HTMLSelectElement | null;
+      if (!response?.success || !select) return;
+
+      const current = this.getSpeechSettings().voiceName ?? '';
+      const voices = response.data as SpeechVoice[];
+
+      select.innerHTML = '<option value="">System default</option>' + voices.map(voice => `
+        <option value="${this.escapeHTML(voice.name)}" ${voice.name === current ? 'selected' : ''}>
+          ${this.escapeHTML(voice.name)}${voice.lang ? ` (${this.escapeHTML(voice.lang)})` : ''}
+        </option>
+      `).join('');
+    } catch (error) {
+      console.warn('[SettingsPanel] Failed to load voices:', error);
+    }
+  }
+
+  /**
+   * Show the current slider values next to their labels
+   */
+  private updateSpeechOutputs(): void {
+    const speech = this.readSpeechSettingsFromForm();
+    if (!speech || !this.panelElement) return;
+
+    const outputs: Record<string, string> = {
+      '#speech-rate-value': `${speech.rate.toFixed(1)}×`,
+      '#speech-pitch-value': speech.pitch.toFixed(1),
+      '#speech-volume-value': `${Math.round(speech.volume * 100)}%`
+    };
+    Object.entries(outputs).forEach(([selector, value]) => {
+      const output = this.panelElement?.querySelector(selector);
+      if (output) output.textContent = value;
+    });
+  }
+
+  /**
+   * Read the speech form into SpeechSettings
+   */
+  private readSpeechSettingsFromForm(): SpeechSettings | null {
+    const form = this.panelElement?.querySelector('#speech-settings-form') as HTMLFormElement | null;
+    if (!form) return null;
+
+    const data = new FormData(form);
+    const voiceName = String(data.get('voiceName') ?? '');
+
+    return {
+      ...(voiceName ? { voiceName } : {}),
+      rate: Number(data.get('rate')),
+      pitch: Number(data.get('pitch')),
+      volume: Number(data.get('volume')),
+      highlightWords: data.get('highlightWords') !== null,
+      announceScanResults: data.get('announceScanResults') !== null
+    };
+  }
+
+  /**
+   * Store the speech form; the Communication Agent picks it up from storage
+   */
+  private async saveSpeechSettings(): Promise<void> {
+    const speech = this.readSpeechSettingsFromForm();
+    if (!speech || !this.currentSettings) return;
+
+    this.currentSettings = {
+      ...this.currentSettings,
+      accessibility: { ...this.currentSettings.accessibility, speech }
+    };
+    this.isDirty = true;
+    await this.saveSettings();
+  }
+
+  /**
+   * Speech settings, with defaults for settings saved before speech existed
+   */
+  private getSpeechSettings(): SpeechSettings {
+    return { ...DEFAULT_SPEECH_SETTINGS, ...this.currentSettings?.accessibility.speech };
+  }
+
+  /**
+   * Set up the automatic fix list and fix history listeners
+   */
+  private setupAutoFixListeners(): void {
+    if (!this.panelElement) return;
+
+    const list = this.panelElement.querySelector('#auto-fix-list');
+    if (list) {
+      const listHandler = (e: Event) => this.handleAutoFixListClick(e);
+      list.addEventListener('click', listHandler);
+      this.boundEventListeners.set('auto-fix-list', listHandler);
+    }
+
+    const clearBtn = this.panelElement.querySelector('#clear-fix-history');
+    if (clearBtn) {
+      const clearHandler = () => {
+        chrome.runtime.sendMessage({ type: 'CLEAR_LEARNING_HISTORY' })
+          .then(response => this.announceToScreenReader(response?.success ? 'Fix history cleared' : 'Could not clear fix history'))
+          .catch(error => console.warn('[SettingsPanel] Clearing fix history failed:', error));
+      };
+      clearBtn.addEventListener('click', clearHandler);
+      this.boundEventListeners.set('clear-fix-history', clearHandler);
+    }
+  }
+
+  /**
+   * Stop fixing an issue type automatically
+   */
+  private async handleAutoFixListClick(event: Event): Promise<void> {
+    if (!this.currentSettings) return;
+
+    const target = event.target as HTMLElement;
+    const issueType = (target.closest('.rule-list-item') as HTMLElement | null)?.dataset['issueType'];
+    if (!issueType || !target.closest('.auto-fix-remove')) return;
+
+    this.currentSettings = {
+      ...this.currentSettings,
+      accessibility: {
+        ...this.currentSettings.accessibility,
+        autoFixIssueTypes: this.getAutoFixIssueTypes().filter(type => type !== issueType)
+      }
+    };
+    this.isDirty = true;
+    await this.saveSettings();
+    this.refreshAutoFixList();
+    this.announceToScreenReader('Automatic fix removed');
+  }
+
+  /**
+   * Re-render the list of issue types fixed automatically
+   */
+  private refreshAutoFixList(): void {
+    const list = this.panelElement?.querySelector('#auto-fix-list');
+    if (list) {
+      list.innerHTML = this.generateAutoFixListHTML();
+    }
+  }
+
+  /**
+   * Auto-fix issue types, empty for settings saved before auto-fixes existed
+   */
+  private getAutoFixIssueTypes(): readonly AccessibilityIssueType[] {
+    return this.currentSettings?.accessibility.autoFixIssueTypes ?? [];
+  }
+
+  /**
+   * Set up rule builder form, live preview and rule list listeners
+   */
+  private setupRuleBuilderListeners(): void {
+    if (!this.panelElement) return;
+
+    const form = this.panelElement.querySelector('#rule-builder-form') as HTMLFormElement | null;
+    if (form) {
+      const inputHandler = () => this.scheduleRulePreview();
+      form.addEventListener('input', inputHandler);
+      form.addEventListener('change', inputHandler);
+      this.boundEventListeners.set('rule-form-input', inputHandler);
+
+      const submitHandler = (e: Event) => {
+        e.preventDefault();
+        this.addCustomRule();
+      };
+      form.addEventListener('submit', submitHandler);
+      this.boundEventListeners.set('rule-form-submit', submitHandler);
+    }
+
+    const list = this.panelElement.querySelector('#custom-rule-list');
+    if (list) {
+      const listHandler = (e: Event) => this.handleRuleListEvent(e);
+      list.addEventListener('click', listHandler);
+      list.addEventListener('change', listHandler);
+      this.boundEventListeners.set('rule-list', listHandler);
+    }
+  }
+
+  /**
+   * Read the rule builder form into a CustomRule
+   */
+  private readRuleFromForm(): CustomRule | null {
+    const form = this.panelElement?.querySelector('#rule-builder-form') as HTMLFormElement | null;
+    if (!form) return null;
+
+    const data = new FormData(form);
+    const field = (name: string) => String(data.get(name) ?? '').trim();
+    const suggestion = field('suggestion');
+
+    const parameters: Record<string, unknown> = {};
+    if (suggestion) {
+      parameters['suggestion'] = suggestion;
+    }
+
+    return {
+      id: `rule-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name: field('name'),
+      description: field('description'),
+      selector: field('selector'),
+      condition: {
+        type: field('conditionType') as RuleCondition['type'],
+        property: field('property'),
+        operator: field('operator') as RuleCondition['operator'],
+        value: String(data.get('value') ?? '')
+      },
+      action: {
+        type: field('action') as RuleAction['type'],
+        parameters
+      },
+      enabled: true,
+      priority: field('priority') as CustomRule['priority']
+    };
+  }
+
+  /**
+   * Debounce the live preview while the user types
+   */
+  private scheduleRulePreview(): void {
+    if (this.previewTimer !== null) {
+      window.clearTimeout(this.previewTimer);
+    }
+    this.previewTimer = window.setTimeout(() => {
+      this.previewTimer = null;
+      this.updateRulePreview();
+    }, this.PREVIEW_DEBOUNCE);
+  }
+
+  /**
+   * Count and outline the page elements the rule being built would match
+   */
+  private updateRulePreview(): void {
+    const status = this.panelElement?.querySelector('#rule-preview-status');
+    const rule = this.readRuleFromForm();
+    this.clearRulePreview();
+    if (!status || !rule) return;
+
+    if (!rule.selector) {
+      status.textContent = 'Enter a selector to preview matching elements.';
+      return;
+    }
+
+    const selectorError = customRuleEngine.validateSelector(rule.selector);
+    if (selectorError) {
+      status.textContent = selectorError;
+      return;
+    }
+
+    if (rule.condition.operator === 'regex') {
+      const regexError = customRuleEngine.validateRegex(rule.condition.value);
+      if (regexError) {
+        status.textContent = regexError;
+        return;
+      }
+    }
+
+    // Without a property the preview shows every selector match
+    const matches = rule.condition.property
+      ? customRuleEngine.findMatchingElements(document, rule)
+      : composedPathLocator.querySelectorAllComposed(document, rule.selector);
+
+    const pageMatches = matches.filter(el => !this.panelElement?.contains(el)) as HTMLElement[];
+
+    for (const element of pageMatches) {
+      if (!element.style) continue;
+      this.previewedElements.set(element, element.style.outline);
+      element.style.outline = '3px dashed #e67e22';
+    }
+
+    status.textContent = pageMatches.length === 1
+      ? '1 element on this page matches this rule.'
+      : `${pageMatches.length} elements on this page match this rule.`;
+  }
+
+  /**
+   * Restore outlines changed by the live preview
+   */
+  private clearRulePreview(): void {
+    this.previewedElements.forEach((outline, element) => {
+      element.style.outline = outline;
+    });
+    this.previewedElements.clear();
+  }
+
+  /**
+   * Validate and add the rule from the builder form
+   */
+  private async addCustomRule(): Promise<void> {
+    if (!this.currentSettings || !this.panelElement) return;
+
+    const rule = this.readRuleFromForm();
+    if (!rule) return;
+
+    const candidate: SettingsConfig = {
+      ...this.currentSettings,
+      accessibility: {
+        ...this.currentSettings.accessibility,
+        customRules: [...this.currentSettings.accessibility.customRules, rule]
+      }
+    };
+
+    const ruleIndex = candidate.accessibility.customRules.length - 1;
+    const validation = this.validateSettings(candidate);
+    const ruleErrors = validation.errors.filter(error => error.field.startsWith(`accessibility.customRules[${ruleIndex}]`));
+
+    this.showRuleErrors(ruleErrors);
+    if (ruleErrors.length > 0) {
+      this.announceToScreenReader(`Rule not added: ${ruleErrors.length} error${ruleErrors.length === 1 ? '' : 's'}`);
+      return;
+    }
+
+    this.currentSettings = candidate;
+    this.isDirty = true;
+    await this.saveSettings();
+
+    (this.panelElement.querySelector('#rule-builder-form') as HTMLFormElement | null)?.reset();
+    this.clearRulePreview();
+    this.refreshRuleList();
+    this.announceToScreenReader(`Rule "${rule.name}" added`);
+  }
+
+  /**
+   * Show validation errors and mark the offending fields invalid
+   */
+  private showRuleErrors(errors: ReadonlyArray<{ field: string; message: string }>): void {
+    if (!this.panelElement) return;
+
+    const fieldInputs: Record<string, string> = {
+      name: '#rule-name',
+      selector: '#rule-selector',
+      'condition.property': '#rule-property',
+      'condition.value': '#rule-value'
+    };
+
+    Object.values(fieldInputs).forEach(selector => {
+      this.panelElement?.querySelector(selector)?.removeAttribute('aria-invalid');
+    });
+
+    for (const error of errors) {
+      const fieldName = error.field.replace(/^accessibility\.customRules\[\d+\]\./, '');
+      const input = fieldInputs[fieldName];
+      if (input) {
+        this.panelElement.querySelector(input)?.setAttribute('aria-invalid', 'true');
+      }
+    }
+
+    const container = this.panelElement.querySelector('#rule-builder-errors');
+    if (container) {
+      container.innerHTML = errors.length === 0
+        ? ''
+        : `<ul>${errors.map(error => `<li>${this.escapeHTML(error.message)}</li>`).join('')}</ul>`;
+    }
+  }
+
+  /**
+   * Handle enable toggles and delete buttons in the rule list
+   */
+  private async handleRuleListEvent(event: Event): Promise<void> {
+    if (!this.currentSettings) return;
+
+    const target = event.target as HTMLElement;
+    const item = target.closest('.rule-list-item') as HTMLElement | null;
+    const ruleId = item?.dataset['ruleId'];
+    if (!ruleId) return;
+
+    let customRules = [...this.currentSettings.accessibility.customRules];
+
+    if (event.type === 'click' && target.closest('.rule-delete')) {
+      customRules = customRules.filter(rule => rule.id !== ruleId);
+      this.announceToScreenReader('Rule deleted');
+    } else if (event.type === 'change' && target.classList.contains('rule-enabled')) {
+      const enabled = (target as HTMLInputElement).checked;
+      customRules = customRules.map(rule => rule.id === ruleId ? { ...rule, enabled } : rule);
+      this.announceToScreenReader(enabled ? 'Rule enabled' : 'Rule disabled');
+    } else {
+      return;
+    }
+
+    this.currentSettings = {
+      ...this.currentSettings,
+      accessibility: { ...this.currentSettings.accessibility, customRules }
+    };
+    this.isDirty = true;
+    await this.saveSettings();
+    this.refreshRuleList();
+  }
+
+  /**
+   * Re-render the stored rule list
+   */
+  private refreshRuleList(): void {
+    const list = this.panelElement?.querySelector('#custom-rule-list');
+    if (list) {
+      list.innerHTML = this.generateRuleListHTML();
+    }
+  }
+
   /**
    * Handle global keyboard shortcuts
    */
@@ -584,6 +1334,32 @@ export class SettingsPanel {
       });
     }
 
+    // Validate speech settings
+    const speech = settings.accessibility.speech ?? DEFAULT_SPEECH_SETTINGS;
+    if (!(speech.rate >= 0.5 && speech.rate <= 2)) {
+      errors.push({
+        field: 'accessibility.speech.rate',
+        message: 'Speech rate must be between 0.5 and 2',
+        code: 'INVALID_SPEECH_RATE'
+      });
+    }
+
+    if (!(speech.pitch >= 0 && speech.pitch <= 2)) {
+      errors.push({
+        field: 'accessibility.speech.pitch',
+        message: 'Speech pitch must be between 0 and 2',
+        code: 'INVALID_SPEECH_PITCH'
+      });
+    }
+
+    if (!(speech.volume >= 0 && speech.volume <= 1)) {
+      errors.push({
+        field: 'accessibility.speech.volume',
+        message: 'Speech volume must be between 0 and 1',
+        code: 'INVALID_SPEECH_VOLUME'
+      });
+    }
+
     // Validate privacy settings
     if (settings.privacy.dataRetentionDays < 1 || settings.privacy.dataRetentionDays > 365) {
       errors.push({
@@ -593,6 +1369,65 @@ export class SettingsPanel {
       });
     }
 
+    // Validate custom rules
+    const ruleIds = new Set<string>();
+    settings.accessibility.customRules.forEach((rule, index) => {
+      const field = `accessibility.customRules[${index}]`;
+
+      if (!rule.name.trim()) {
+        errors.push({
+          field: `${field}.name`,
+          message: 'Rule name is required',
+          code: 'MISSING_RULE_NAME'
+        });
+      }
+
+      if (ruleIds.has(rule.id)) {
+        errors.push({
+          field: `${field}.id`,
+          message: `Duplicate rule id: ${rule.id}`,
+          code: 'DUPLICATE_RULE_ID'
+        });
+      }
+      ruleIds.add(rule.id);
+
+      const selectorError = customRuleEngine.validateSelector(rule.selector);
+      if (selectorError) {
+        errors.push({
+          field: `${field}.selector`,
+          message: selectorError,
+          code: 'INVALID_RULE_SELECTOR'
+        });
+      }
+
+      if (!rule.condition.property.trim()) {
+        errors.push({
+          field: `${field}.condition.property`,
+          message: 'Condition property is required',
+          code: 'MISSING_RULE_PROPERTY'
+        });
+      }
+
+      if (rule.condition.operator === 'regex') {
+        const regexError = customRuleEngine.validateRegex(rule.condition.value);
+        if (regexError) {
+          errors.push({
+            field: `${field}.condition.value`,
+            message: regexError,
+            code: 'INVALID_RULE_REGEX'
+          });
+        }
+      }
+
+      if (rule.action.type === 'ignore' && rule.condition.operator !== 'regex' && !rule.condition.value) {
+        warnings.push({
+          field: `${field}.condition.value`,
+          message: 'Ignore rule with an empty value may suppress more findings than intended',
+          suggestion: 'Narrow the selector or add a condition value'
+        });
+      }
+    });
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -631,6 +1466,18 @@ export class SettingsPanel {
     }, 1000);
   }
 
+  /**
+   * Escape text for safe interpolation into innerHTML
+   */
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
   /**
    * Get current settings
    */
@@ -685,6 +1532,7 @@ export class SettingsPanel {
       }
     });
     this.boundEventListeners.clear();
+    this.clearRulePreview();
 
     // Remove panel element
     if (this.panelElement && this.panelElement.parentNode) {
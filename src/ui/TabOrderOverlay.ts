@@ -0,0 +1,316 @@
+/**
+ * TabOrderOverlay.ts
+ *
+ * Keyboard Tab Order Overlay for AccessiAI Chrome Extension
+ * Draws the page's sequential focus order on top of the page:
+ * - Numbered badges on every tabbable element, in the order Tab visits them
+ * - Arrows connecting each stop to the next
+ * - Warnings for positive tabindex jumps, off-screen focus targets and
+ *   focus going into hidden containers
+ * - Re-rendering as the page changes, scrolls or resizes
+ *
+ * The overlay never takes pointer events or focus, so the page stays usable
+ * underneath it.
+ *
+ * Performance Target: <50ms to render 200 focus stops
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import { domAnalyzer, FocusOrderEntry } from '../utils/DOMAnalyzer';
+
+/**
+ * Counts shown in the overlay legend
+ */
+export interface TabOrderSummary {
+  readonly stops: number;
+  readonly positiveTabindex: number;
+  readonly offScreen: number;
+  readonly hiddenContainer: number;
+}
+
+/**
+ * TabOrderOverlay - Singleton drawing the focus order of the page
+ */
+export class TabOrderOverlay {
+  private static instance: TabOrderOverlay;
+
+  private container: HTMLElement | null = null;
+  private observer: MutationObserver | null = null;
+  private renderTimer: ReturnType<typeof setTimeout> | null = null;
+  private frameRequest: number | null = null;
+  private lastSummary: TabOrderSummary | null = null;
+
+  private readonly OVERLAY_ID = 'accessiai-tab-order-overlay';
+  private readonly RENDER_DEBOUNCE = 300;     // milliseconds after the last DOM change
+  private readonly BADGE_SIZE = 22;           // pixels
+
+  private readonly boundReposition = () => this.scheduleFrame();
+
+  /**
+   * Get singleton instance of TabOrderOverlay
+   */
+  static getInstance(): TabOrderOverlay {
+    if (!TabOrderOverlay.instance) {
+      TabOrderOverlay.instance = new TabOrderOverlay();
+    }
+    return TabOrderOverlay.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[TabOrderOverlay] Initializing Tab Order Overlay...');
+  }
+
+  /**
+   * Show the overlay and keep it in step with the page
+   *
+   * @returns TabOrderSummary - Focus stops and warnings found
+   */
+  show(): TabOrderSummary {
+    if (!this.container) {
+      this.container = document.createElement('div');
+      this.container.id = this.OVERLAY_ID;
+      this.container.setAttribute('aria-hidden', 'true');
+      this.container.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;pointer-events:none;z-index:2147483646;';
+      document.body.appendChild(this.container);
+
+      // The overlay's own nodes would otherwise trigger endless re-renders
+      this.observer = new MutationObserver(mutations => {
+        if (mutations.some(mutation => !this.container?.contains(mutation.target))) {
+          this.scheduleRender();
+        }
+      });
+      this.observer.observe(document.body, { childList: true, subtree: true, attributes: true, characterData: true });
+
+      window.addEventListener('scroll', this.boundReposition, true);
+      window.addEventListener('resize', this.boundReposition);
+    }
+
+    return this.render();
+  }
+
+  /**
+   * Remove the overlay and stop watching the page
+   */
+  hide(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    window.removeEventListener('scroll', this.boundReposition, true);
+    window.removeEventListener('resize', this.boundReposition);
+
+    if (this.renderTimer) clearTimeout(this.renderTimer);
+    if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+    this.renderTimer = null;
+    this.frameRequest = null;
+
+    this.container?.remove();
+    this.container = null;
+    this.lastSummary = null;
+  }
+
+  /**
+   * Show the overlay when hidden, hide it when shown
+   *
+   * @returns TabOrderSummary | null - Summary when the overlay is now shown, null when hidden
+   */
+  toggle(): TabOrderSummary | null {
+    if (this.isVisible()) {
+      this.hide();
+      return null;
+    }
+    return this.show();
+  }
+
+  /**
+   * Check whether the overlay is shown
+   */
+  isVisible(): boolean {
+    return this.container !== null;
+  }
+
+  /**
+   * Summary of the last render, null while hidden
+   */
+  getSummary(): TabOrderSummary | null {
+    return this.lastSummary;
+  }
+
+  // Rendering
+
+  private render(): TabOrderSummary {
+    const startTime = performance.now();
+    const entries = domAnalyzer.getSequentialFocusOrder(document);
+    const points = entries.map(entry => this.getBadgePosition(entry.node));
+
+    const summary: TabOrderSummary = {
+      stops: entries.length,
+      positiveTabindex: entries.filter(entry => entry.flags.includes('positive-tabindex')).length,
+      offScreen: entries.filter(entry => entry.flags.includes('off-screen')).length,
+      hiddenContainer: entries.filter(entry => entry.flags.includes('hidden-container')).length
+    };
+
+    if (!this.container) {
+      return summary;
+    }
+
+    const fragment = document.createDocumentFragment();
+    fragment.appendChild(this.createArrows(points));
+    entries.forEach((entry, index) => {
+      const point = points[index];
+      if (point) fragment.appendChild(this.createBadge(entry, point));
+    });
+    fragment.appendChild(this.createLegend(summary));
+
+    this.container.replaceChildren(fragment);
+    this.lastSummary = summary;
+
+    const renderTime = performance.now() - startTime;
+    console.log(`[TabOrderOverlay] Rendered ${entries.length} focus stops in ${renderTime.toFixed(2)}ms`);
+
+    return summary;
+  }
+
+  private createArrows(points: ReadonlyArray<{ x: number; y: number }>): SVGSVGElement {
+    const svgNS = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(svgNS, 'svg');
+    const width = document.documentElement.scrollWidth;
+    const height = document.documentElement.scrollHeight;
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    svg.style.cssText = 'position:absolute;top:0;left:0;overflow:visible;';
+
+    const marker = document.createElementNS(svgNS, 'marker');
+    marker.setAttribute('id', 'accessiai-tab-order-arrowhead');
+    marker.setAttribute('viewBox', '0 0 10 10');
+    marker.setAttribute('refX', '10');
+    marker.setAttribute('refY', '5');
+    marker.setAttribute('markerWidth', '6');
+    marker.setAttribute('markerHeight', '6');
+    marker.setAttribute('orient', 'auto-start-reverse');
+    const arrowhead = document.createElementNS(svgNS, 'path');
+    arrowhead.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z');
+    arrowhead.setAttribute('fill', '#1f6feb');
+    marker.appendChild(arrowhead);
+
+    const defs = document.createElementNS(svgNS, 'defs');
+    defs.appendChild(marker);
+    svg.appendChild(defs);
+
+    // Each line stops short of the next badge so the arrowhead stays visible
+    const radius = this.BADGE_SIZE / 2;
+    for (let index = 1; index < points.length; index++) {
+      const from = points[index - 1]!;
+      const to = points[index]!;
+      const distance = Math.hypot(to.x - from.x, to.y - from.y);
+      if (distance <= this.BADGE_SIZE) continue;
+
+      const ratio = (distance - radius) / distance;
+      const line = document.createElementNS(svgNS, 'line');
+      line.setAttribute('x1', String(from.x));
+      line.setAttribute('y1', String(from.y));
+      line.setAttribute('x2', String(from.x + (to.x - from.x) * ratio));
+      line.setAttribute('y2', String(from.y + (to.y - from.y) * ratio));
+      line.setAttribute('stroke', '#1f6feb');
+      line.setAttribute('stroke-width', '2');
+      line.setAttribute('stroke-opacity', '0.7');
+      line.setAttribute('marker-end', 'url(#accessiai-tab-order-arrowhead)');
+      svg.appendChild(line);
+    }
+
+    return svg;
+  }
+
+  private createBadge(entry: FocusOrderEntry, point: { x: number; y: number }): HTMLElement {
+    const badge = document.createElement('div');
+    const flagged = entry.flags.length > 0;
+    badge.textContent = String(entry.position);
+    badge.style.cssText = [
+      'position:absolute',
+      `left:${point.x - this.BADGE_SIZE / 2}px`,
+      `top:${point.y - this.BADGE_SIZE / 2}px`,
+      `min-width:${this.BADGE_SIZE}px`,
+      `height:${this.BADGE_SIZE}px`,
+      'padding:0 4px',
+      'box-sizing:border-box',
+      'border-radius:11px',
+      `border:2px solid ${flagged ? '#ffffff' : '#1f6feb'}`,
+      `background:${flagged ? '#d1242f' : '#ffffff'}`,
+      `color:${flagged ? '#ffffff' : '#1f6feb'}`,
+      'font:bold 12px/18px system-ui,sans-serif',
+      'text-align:center',
+      'box-shadow:0 1px 3px rgba(0,0,0,0.4)'
+    ].join(';');
+
+    if (entry.flags.includes('positive-tabindex')) {
+      badge.textContent = `${entry.position}↑`;
+    }
+
+    return badge;
+  }
+
+  private createLegend(summary: TabOrderSummary): HTMLElement {
+    const legend = document.createElement('div');
+    legend.style.cssText = [
+      'position:fixed',
+      'bottom:12px',
+      'left:12px',
+      'padding:8px 12px',
+      'border-radius:6px',
+      'background:rgba(17,24,39,0.9)',
+      'color:#ffffff',
+      'font:12px/1.5 system-ui,sans-serif',
+      'white-space:pre-line'
+    ].join(';');
+
+    legend.textContent = [
+      `Tab order: ${summary.stops} stops`,
+      `${summary.positiveTabindex} positive tabindex (↑)`,
+      `${summary.offScreen} off-screen`,
+      `${summary.hiddenContainer} in hidden content`
+    ].join('\n');
+
+    return legend;
+  }
+
+  // Utility Methods
+
+  /**
+   * Badge position in page coordinates, clamped so off-screen stops stay visible
+   * at the page edge
+   */
+  private getBadgePosition(element: Element): { x: number; y: number } {
+    const rect = element.getBoundingClientRect();
+    const radius = this.BADGE_SIZE / 2;
+    const maxX = document.documentElement.scrollWidth - radius;
+    const maxY = document.documentElement.scrollHeight - radius;
+
+    return {
+      x: Math.min(Math.max(rect.left + window.scrollX, radius), maxX),
+      y: Math.min(Math.max(rect.top + window.scrollY, radius), maxY)
+    };
+  }
+
+  private scheduleRender(): void {
+    if (this.renderTimer) clearTimeout(this.renderTimer);
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = null;
+      if (this.isVisible()) this.render();
+    }, this.RENDER_DEBOUNCE);
+  }
+
+  // Scrolling containers and fixed elements move stops without a DOM change
+  private scheduleFrame(): void {
+    if (this.frameRequest !== null) return;
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      if (this.isVisible()) this.render();
+    });
+  }
+}
+
+// Export singleton instance
+export const tabOrderOverlay = TabOrderOverlay.getInstance();
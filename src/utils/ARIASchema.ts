@@ -0,0 +1,554 @@
+/**
+ * ARIASchema.ts
+ *
+ * WAI-ARIA 1.2 Schema for AccessiAI Chrome Extension
+ * Single source of truth for roles, states and properties:
+ * - Every ARIA 1.2 role, including abstract and deprecated roles
+ * - Required, supported and prohibited states and properties per role
+ * - Value type of every attribute (true/false, tristate, IDREF, token lists, numbers)
+ * - Element validation: unknown attributes, invalid values, IDREFs pointing at
+ *   missing ids, missing required states, unsupported, prohibited and
+ *   deprecated attributes
+ *
+ * aria-disabled, aria-errormessage, aria-haspopup and aria-invalid were global
+ * before ARIA 1.2; on roles that do not list them they are reported as
+ * deprecated rather than unsupported. aria-description and the braille
+ * properties come from ARIA 1.3 but already ship in browsers, so they are
+ * accepted as globals.
+ *
+ * Performance Target: <0.2ms per element
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  ARIAAttributeDefinition,
+  ARIARoleDefinition,
+  ARIAValueType,
+  IssueSeverity
+} from '../types/index';
+import { accessibleNameComputer } from './AccessibleNameComputer';
+
+export type ARIAViolationKind =
+  | 'invalid-role'
+  | 'abstract-role'
+  | 'deprecated-role'
+  | 'unknown-attribute'
+  | 'invalid-value'
+  | 'missing-reference'
+  | 'missing-required'
+  | 'unsupported-attribute'
+  | 'prohibited-attribute'
+  | 'deprecated-attribute';
+
+export interface ARIAViolation {
+  readonly kind: ARIAViolationKind;
+  readonly attribute: string;            // 'role' for role violations
+  readonly severity: IssueSeverity;
+  readonly description: string;
+  readonly suggestedFix: string;
+}
+
+type AttributeSource = {
+  readonly type: ARIAValueType;
+  readonly values?: readonly string[];
+  readonly global?: boolean;
+  readonly deprecated?: boolean;
+};
+
+type RoleSource = {
+  readonly supported?: readonly string[];
+  readonly required?: readonly string[];
+  readonly prohibited?: readonly string[];
+  readonly abstract?: boolean;
+  readonly deprecated?: boolean;
+};
+
+/**
+ * ARIASchema - Singleton schema of WAI-ARIA 1.2
+ */
+export class ARIASchema {
+  private static instance: ARIASchema;
+
+  // Global before ARIA 1.2, now only supported on the roles that list them
+  private readonly FORMERLY_GLOBAL = ['aria-disabled', 'aria-errormessage', 'aria-haspopup', 'aria-invalid'];
+
+  private readonly ATTRIBUTE_SOURCE: Record<string, AttributeSource> = {
+    // Global states and properties
+    'aria-atomic': { type: 'true-false', global: true },
+    'aria-braillelabel': { type: 'string', global: true },
+    'aria-brailleroledescription': { type: 'string', global: true },
+    'aria-busy': { type: 'true-false', global: true },
+    'aria-controls': { type: 'idref-list', global: true },
+    'aria-current': { type: 'token', values: ['page', 'step', 'location', 'date', 'time', 'true', 'false'], global: true },
+    'aria-describedby': { type: 'idref-list', global: true },
+    'aria-description': { type: 'string', global: true },
+    'aria-details': { type: 'idref', global: true },
+    'aria-dropeffect': { type: 'token-list', values: ['copy', 'execute', 'link', 'move', 'none', 'popup'], global: true, deprecated: true },
+    'aria-flowto': { type: 'idref-list', global: true },
+    'aria-grabbed': { type: 'true-false-undefined', global: true, deprecated: true },
+    'aria-hidden': { type: 'true-false-undefined', global: true },
+    'aria-keyshortcuts': { type: 'string', global: true },
+    'aria-label': { type: 'string', global: true },
+    'aria-labelledby': { type: 'idref-list', global: true },
+    'aria-live': { type: 'token', values: ['assertive', 'off', 'polite'], global: true },
+    'aria-owns': { type: 'idref-list', global: true },
+    'aria-relevant': { type: 'token-list', values: ['additions', 'all', 'removals', 'text'], global: true },
+    'aria-roledescription': { type: 'string', global: true },
+
+    // Widget and relationship attributes
+    'aria-activedescendant': { type: 'idref' },
+    'aria-autocomplete': { type: 'token', values: ['inline', 'list', 'both', 'none'] },
+    'aria-checked': { type: 'tristate' },
+    'aria-colcount': { type: 'integer' },
+    'aria-colindex': { type: 'integer' },
+    'aria-colindextext': { type: 'string' },
+    'aria-colspan': { type: 'integer' },
+    'aria-disabled': { type: 'true-false' },
+    'aria-errormessage': { type: 'idref' },
+    'aria-expanded': { type: 'true-false-undefined' },
+    'aria-haspopup': { type: 'token', values: ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'] },
+    'aria-invalid': { type: 'token', values: ['grammar', 'false', 'spelling', 'true'] },
+    'aria-level': { type: 'integer' },
+    'aria-modal': { type: 'true-false' },
+    'aria-multiline': { type: 'true-false' },
+    'aria-multiselectable': { type: 'true-false' },
+    'aria-orientation': { type: 'token', values: ['horizontal', 'undefined', 'vertical'] },
+    'aria-placeholder': { type: 'string' },
+    'aria-posinset': { type: 'integer' },
+    'aria-pressed': { type: 'tristate' },
+    'aria-readonly': { type: 'true-false' },
+    'aria-required': { type: 'true-false' },
+    'aria-rowcount': { type: 'integer' },
+    'aria-rowindex': { type: 'integer' },
+    'aria-rowindextext': { type: 'string' },
+    'aria-rowspan': { type: 'integer' },
+    'aria-selected': { type: 'true-false-undefined' },
+    'aria-setsize': { type: 'integer' },
+    'aria-sort': { type: 'token', values: ['ascending', 'descending', 'none', 'other'] },
+    'aria-valuemax': { type: 'number' },
+    'aria-valuemin': { type: 'number' },
+    'aria-valuenow': { type: 'number' },
+    'aria-valuetext': { type: 'string' }
+  };
+
+  // Shared attribute sets, named after the ARIA 1.2 superclass roles that introduce them
+  private readonly CELL = ['aria-colindex', 'aria-colindextext', 'aria-colspan', 'aria-rowindex', 'aria-rowindextext', 'aria-rowspan'];
+  private readonly INPUT = ['aria-disabled', 'aria-errormessage', 'aria-invalid'];
+  private readonly COMPOSITE = ['aria-activedescendant', 'aria-disabled'];
+  private readonly RANGE = ['aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'];
+  private readonly SET_ITEM = ['aria-posinset', 'aria-setsize'];
+  private readonly GRID_CELL = [...this.CELL, ...this.INPUT, 'aria-expanded', 'aria-haspopup', 'aria-readonly', 'aria-required', 'aria-selected'];
+  private readonly TEXTBOX = [...this.INPUT, 'aria-activedescendant', 'aria-autocomplete', 'aria-multiline', 'aria-placeholder', 'aria-readonly', 'aria-required'];
+  private readonly CHECKBOX = [...this.INPUT, 'aria-checked', 'aria-expanded', 'aria-readonly', 'aria-required'];
+  private readonly MENUITEM = ['aria-disabled', 'aria-expanded', 'aria-haspopup', ...this.SET_ITEM];
+  private readonly GRID = [...this.COMPOSITE, 'aria-colcount', 'aria-multiselectable', 'aria-readonly', 'aria-rowcount'];
+  private readonly TREE = [...this.COMPOSITE, 'aria-errormessage', 'aria-invalid', 'aria-multiselectable', 'aria-orientation', 'aria-required'];
+  private readonly NAME_PROHIBITED = ['aria-label', 'aria-labelledby'];
+
+  private readonly ROLE_SOURCE: Record<string, RoleSource> = {
+    // Abstract roles
+    'command': { abstract: true }, 'composite': { abstract: true }, 'input': { abstract: true },
+    'landmark': { abstract: true }, 'range': { abstract: true }, 'roletype': { abstract: true },
+    'section': { abstract: true }, 'sectionhead': { abstract: true }, 'select': { abstract: true },
+    'structure': { abstract: true }, 'widget': { abstract: true }, 'window': { abstract: true },
+
+    // Widget roles
+    'button': { supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup', 'aria-pressed'] },
+    'checkbox': { supported: this.CHECKBOX, required: ['aria-checked'] },
+    'gridcell': { supported: this.GRID_CELL },
+    'link': { supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup'] },
+    'menuitem': { supported: this.MENUITEM },
+    'menuitemcheckbox': { supported: [...this.MENUITEM, 'aria-checked'], required: ['aria-checked'] },
+    'menuitemradio': { supported: [...this.MENUITEM, 'aria-checked'], required: ['aria-checked'] },
+    'option': { supported: ['aria-checked', 'aria-disabled', 'aria-selected', ...this.SET_ITEM] },
+    'progressbar': { supported: this.RANGE },
+    'radio': { supported: ['aria-checked', 'aria-disabled', ...this.SET_ITEM], required: ['aria-checked'] },
+    'scrollbar': { supported: ['aria-disabled', 'aria-orientation', ...this.RANGE], required: ['aria-controls', 'aria-valuenow'] },
+    'searchbox': { supported: this.TEXTBOX },
+    'separator': { supported: ['aria-disabled', 'aria-orientation', ...this.RANGE] },
+    'slider': { supported: [...this.INPUT, 'aria-haspopup', 'aria-orientation', 'aria-readonly', ...this.RANGE], required: ['aria-valuenow'] },
+    'spinbutton': { supported: [...this.INPUT, 'aria-activedescendant', 'aria-readonly', 'aria-required', ...this.RANGE] },
+    'switch': { supported: this.CHECKBOX, required: ['aria-checked'] },
+    'tab': { supported: ['aria-disabled', 'aria-expanded', 'aria-haspopup', 'aria-selected', ...this.SET_ITEM] },
+    'tabpanel': {},
+    'textbox': { supported: this.TEXTBOX },
+    'treeitem': { supported: ['aria-checked', 'aria-disabled', 'aria-expanded', 'aria-haspopup', 'aria-level', 'aria-selected', ...this.SET_ITEM] },
+
+    // Composite widget roles
+    'combobox': { supported: [...this.INPUT, 'aria-activedescendant', 'aria-autocomplete', 'aria-expanded', 'aria-haspopup', 'aria-readonly', 'aria-required'], required: ['aria-expanded'] },
+    'grid': { supported: this.GRID },
+    'listbox': { supported: [...this.COMPOSITE, 'aria-errormessage', 'aria-expanded', 'aria-invalid', 'aria-multiselectable', 'aria-orientation', 'aria-readonly', 'aria-required'] },
+    'menu': { supported: [...this.COMPOSITE, 'aria-orientation'] },
+    'menubar': { supported: [...this.COMPOSITE, 'aria-orientation'] },
+    'radiogroup': { supported: [...this.COMPOSITE, 'aria-errormessage', 'aria-invalid', 'aria-orientation', 'aria-readonly', 'aria-required'] },
+    'tablist': { supported: [...this.COMPOSITE, 'aria-multiselectable', 'aria-orientation'] },
+    'tree': { supported: this.TREE },
+    'treegrid': { supported: [...new Set([...this.GRID, ...this.TREE])] },
+
+    // Document structure roles
+    'application': { supported: [...this.COMPOSITE, 'aria-errormessage', 'aria-expanded', 'aria-haspopup', 'aria-invalid'] },
+    'article': { supported: this.SET_ITEM },
+    'blockquote': {},
+    'caption': { prohibited: this.NAME_PROHIBITED },
+    'cell': { supported: this.CELL },
+    'code': { prohibited: this.NAME_PROHIBITED },
+    'columnheader': { supported: [...this.GRID_CELL, 'aria-sort'] },
+    'definition': {},
+    'deletion': { prohibited: this.NAME_PROHIBITED },
+    'directory': { deprecated: true },
+    'document': {},
+    'emphasis': { prohibited: this.NAME_PROHIBITED },
+    'feed': {},
+    'figure': {},
+    'generic': { prohibited: this.NAME_PROHIBITED },
+    'group': { supported: this.COMPOSITE },
+    'heading': { supported: ['aria-level'], required: ['aria-level'] },
+    'img': {},
+    'insertion': { prohibited: this.NAME_PROHIBITED },
+    'list': {},
+    'listitem': { supported: ['aria-level', ...this.SET_ITEM] },
+    'math': {},
+    'meter': { supported: this.RANGE, required: ['aria-valuenow'] },
+    'none': { prohibited: this.NAME_PROHIBITED },
+    'note': {},
+    'paragraph': { prohibited: this.NAME_PROHIBITED },
+    'presentation': { prohibited: this.NAME_PROHIBITED },
+    'row': { supported: [...this.COMPOSITE, 'aria-colindex', 'aria-expanded', 'aria-level', 'aria-rowindex', 'aria-selected', ...this.SET_ITEM] },
+    'rowgroup': {},
+    'rowheader': { supported: [...this.GRID_CELL, 'aria-sort'] },
+    'strong': { prohibited: this.NAME_PROHIBITED },
+    'subscript': { prohibited: this.NAME_PROHIBITED },
+    'superscript': { prohibited: this.NAME_PROHIBITED },
+    'table': { supported: ['aria-colcount', 'aria-rowcount'] },
+    'term': {},
+    'time': {},
+    'toolbar': { supported: [...this.COMPOSITE, 'aria-orientation'] },
+    'tooltip': {},
+
+    // Landmark roles
+    'banner': {}, 'complementary': {}, 'contentinfo': {}, 'form': {},
+    'main': {}, 'navigation': {}, 'region': {}, 'search': {},
+
+    // Live region roles
+    'alert': {}, 'log': {}, 'marquee': {}, 'status': {}, 'timer': {},
+
+    // Window roles
+    'alertdialog': { supported: ['aria-modal'] },
+    'dialog': { supported: ['aria-modal'] }
+  };
+
+  private attributes: Map<string, ARIAAttributeDefinition>;
+  private roles: Map<string, ARIARoleDefinition>;
+
+  /**
+   * Get singleton instance of ARIASchema
+   */
+  static getInstance(): ARIASchema {
+    if (!ARIASchema.instance) {
+      ARIASchema.instance = new ARIASchema();
+    }
+    return ARIASchema.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[ARIASchema] Initializing WAI-ARIA 1.2 Schema...');
+    this.attributes = new Map(Object.entries(this.ATTRIBUTE_SOURCE).map(([name, source]) => [name, {
+      name,
+      type: source.type,
+      ...(source.values && { values: source.values }),
+      global: source.global ?? false,
+      deprecated: source.deprecated ?? false
+    }]));
+    this.roles = new Map(Object.entries(this.ROLE_SOURCE).map(([name, source]) => [name, {
+      name,
+      abstract: source.abstract ?? false,
+      deprecated: source.deprecated ?? false,
+      required: source.required ?? [],
+      supported: source.supported ?? [],
+      prohibited: source.prohibited ?? []
+    }]));
+  }
+
+  /**
+   * Get a role definition
+   *
+   * @param name - Role name
+   * @returns ARIARoleDefinition | undefined - undefined for names that are not ARIA roles
+   */
+  getRole(name: string): ARIARoleDefinition | undefined {
+    return this.roles.get(name);
+  }
+
+  /**
+   * Get a state or property definition
+   *
+   * @param name - Attribute name, e.g. 'aria-expanded'
+   * @returns ARIAAttributeDefinition | undefined - undefined for names that are not ARIA 1.2 attributes
+   */
+  getAttribute(name: string): ARIAAttributeDefinition | undefined {
+    return this.attributes.get(name);
+  }
+
+  /**
+   * Check whether a role may be used in content (known and not abstract)
+   */
+  isValidRole(role: string): boolean {
+    const definition = this.roles.get(role);
+    return !!definition && !definition.abstract;
+  }
+
+  /**
+   * Resolve a role attribute to the role a browser uses: the first token that
+   * is a valid role, later tokens being fallbacks
+   *
+   * @param value - role attribute value
+   * @returns string | null - Role, null when no token is valid
+   */
+  resolveRole(value: string): string | null {
+    return value.trim().toLowerCase().split(/\s+/).find(token => this.isValidRole(token)) ?? null;
+  }
+
+  /**
+   * Check whether a role supports a state or property, globals included
+   */
+  supportsAttribute(role: string, attribute: string): boolean {
+    const definition = this.roles.get(role);
+    const attributeDefinition = this.attributes.get(attribute);
+    if (!definition || !attributeDefinition || definition.prohibited.includes(attribute)) {
+      return false;
+    }
+    return attributeDefinition.global || definition.supported.includes(attribute) || definition.required.includes(attribute);
+  }
+
+  /**
+   * Validate the role and every aria-* attribute of an element
+   *
+   * Role-specific checks use the explicit role, or the implicit role of native
+   * elements the schema knows; other native elements only get value checks.
+   *
+   * @param element - Element to validate
+   * @returns ARIAViolation[] - One entry per broken rule
+   */
+  validateElement(element: Element): ARIAViolation[] {
+    const violations: ARIAViolation[] = [];
+    const roleAttribute = element.getAttribute('role');
+    let role: string | null = null;
+
+    if (roleAttribute !== null && roleAttribute.trim()) {
+      role = this.resolveRole(roleAttribute);
+      violations.push(...this.validateRoleAttribute(roleAttribute, role));
+    } else {
+      role = this.getImplicitRole(element);
+    }
+
+    const ariaAttributes = Array.from(element.attributes).filter(attr => attr.name.startsWith('aria-'));
+    for (const attr of ariaAttributes) {
+      violations.push(...this.validateAttribute(element, attr.name, attr.value, role));
+    }
+
+    if (role && roleAttribute !== null) {
+      violations.push(...this.validateRequired(element, role));
+    }
+
+    return violations;
+  }
+
+  // Role Validation
+
+  private validateRoleAttribute(value: string, role: string | null): ARIAViolation[] {
+    const tokens = value.trim().toLowerCase().split(/\s+/);
+    const first = tokens[0] ?? '';
+    const firstDefinition = this.roles.get(first);
+
+    if (firstDefinition?.abstract) {
+      return [this.violation('abstract-role', 'role', 'high',
+        `role="${first}" is an abstract role and is never exposed to assistive technology`,
+        `Use a concrete role instead of "${first}", e.g. one of its subclass roles`)];
+    }
+
+    if (!role) {
+      return [this.violation('invalid-role', 'role', 'high',
+        `Invalid ARIA role: ${value.trim()}`,
+        'Use a valid ARIA role or remove the role attribute')];
+    }
+
+    const violations: ARIAViolation[] = [];
+    if (role !== first) {
+      violations.push(this.violation('invalid-role', 'role', 'medium',
+        `role="${value.trim()}" starts with "${first}", which is not a valid role; "${role}" is used instead`,
+        `Remove "${first}" from the role attribute`));
+    }
+    if (this.roles.get(role)?.deprecated) {
+      violations.push(this.violation('deprecated-role', 'role', 'low',
+        `role="${role}" is deprecated in WAI-ARIA 1.2`,
+        role === 'directory' ? 'Use role="list" instead' : 'Use a current WAI-ARIA role'));
+    }
+    return violations;
+  }
+
+  private validateRequired(element: Element, role: string): ARIAViolation[] {
+    const definition = this.roles.get(role);
+    if (!definition) {
+      return [];
+    }
+
+    const required = [...definition.required];
+    // A focusable separator is a widget and needs a value
+    if (role === 'separator' && (element as HTMLElement).tabIndex >= 0) {
+      required.push('aria-valuenow');
+    }
+
+    return required
+      .filter(attribute => !element.hasAttribute(attribute) && !this.isProvidedNatively(element, attribute))
+      .map(attribute => this.violation('missing-required', attribute, 'high',
+        `role="${role}" requires ${attribute}`,
+        `Add ${attribute} to the element and keep it up to date`));
+  }
+
+  // Attribute Validation
+
+  private validateAttribute(element: Element, name: string, value: string, role: string | null): ARIAViolation[] {
+    const definition = this.attributes.get(name);
+    if (!definition) {
+      return [this.violation('unknown-attribute', name, 'medium',
+        `${name} is not a WAI-ARIA 1.2 attribute`,
+        `Check the spelling of ${name} or remove it; assistive technology ignores unknown attributes`)];
+    }
+
+    const violations: ARIAViolation[] = [];
+
+    if (definition.deprecated) {
+      violations.push(this.violation('deprecated-attribute', name, 'low',
+        `${name} is deprecated in WAI-ARIA 1.2`,
+        `Remove ${name}; it is not supported by current assistive technology`));
+    }
+
+    violations.push(...this.validateValue(element, definition, value));
+
+    const roleDefinition = role ? this.roles.get(role) : undefined;
+    if (!role || !roleDefinition) {
+      return violations;
+    }
+
+    if (roleDefinition.prohibited.includes(name)) {
+      violations.push(this.violation('prohibited-attribute', name, 'medium',
+        `${name} is prohibited on role="${role}"`,
+        role === 'generic' || role === 'none' || role === 'presentation'
+          ? `Give the element a role that can be named, or move ${name} to one that has such a role`
+          : `Remove ${name}; the ${role} role cannot be named`));
+    } else if (!this.supportsAttribute(role, name)) {
+      violations.push(this.FORMERLY_GLOBAL.includes(name)
+        ? this.violation('deprecated-attribute', name, 'low',
+            `${name} is deprecated on role="${role}" since WAI-ARIA 1.2`,
+            `Move ${name} to an element with a role that supports it`)
+        : this.violation('unsupported-attribute', name, 'medium',
+            `${name} is not supported on role="${role}" and is ignored by assistive technology`,
+            `Use a role that supports ${name}, or remove the attribute`));
+    }
+
+    return violations;
+  }
+
+  private validateValue(element: Element, definition: ARIAAttributeDefinition, rawValue: string): ARIAViolation[] {
+    const value = rawValue.trim();
+    const { name, type } = definition;
+    const invalid = (expected: string) => [this.violation('invalid-value', name, 'medium',
+      `${name}="${rawValue}" is not a valid value; expected ${expected}`,
+      `Set ${name} to ${expected}`)];
+
+    switch (type) {
+      case 'true-false':
+        return this.isToken(value, ['true', 'false']) ? [] : invalid('"true" or "false"');
+      case 'true-false-undefined':
+        return this.isToken(value, ['true', 'false', 'undefined']) ? [] : invalid('"true", "false" or "undefined"');
+      case 'tristate':
+        return this.isToken(value, ['true', 'false', 'mixed', 'undefined']) ? [] : invalid('"true", "false" or "mixed"');
+      case 'integer':
+        return /^-?\d+$/.test(value) ? [] : invalid('an integer');
+      case 'number':
+        return value !== '' && Number.isFinite(Number(value)) ? [] : invalid('a number');
+      case 'token':
+        return this.isToken(value, definition.values ?? []) ? [] : invalid(`one of ${this.formatTokens(definition.values ?? [])}`);
+      case 'token-list': {
+        const tokens = value.split(/\s+/).filter(Boolean);
+        return tokens.length > 0 && tokens.every(token => this.isToken(token, definition.values ?? []))
+          ? [] : invalid(`a space-separated list of ${this.formatTokens(definition.values ?? [])}`);
+      }
+      case 'idref':
+      case 'idref-list': {
+        const ids = value.split(/\s+/).filter(Boolean);
+        if (ids.length === 0) {
+          return invalid(type === 'idref' ? 'the id of an element' : 'one or more element ids');
+        }
+        if (type === 'idref' && ids.length > 1) {
+          return invalid('a single element id');
+        }
+        const missing = this.getMissingIds(element, ids);
+        return missing.length === 0 ? [] : [this.violation('missing-reference', name, 'medium',
+          `${name} references missing element(s): ${missing.join(', ')}`,
+          `Point ${name} at existing element ids`)];
+      }
+      case 'string':
+        return [];
+    }
+  }
+
+  // Utility Methods
+
+  /**
+   * Implicit role of native elements, limited to roles whose attribute rules
+   * also apply to the host element; plain div and span are generic
+   */
+  private getImplicitRole(element: Element): string | null {
+    const tagName = element.tagName.toLowerCase();
+    if (tagName === 'div' || tagName === 'span') {
+      return 'generic';
+    }
+    const role = accessibleNameComputer.getRole(element);
+    return this.roles.has(role) ? role : null;
+  }
+
+  // Host language semantics that already provide a required state
+  private isProvidedNatively(element: Element, attribute: string): boolean {
+    const tagName = element.tagName.toLowerCase();
+    const type = (element.getAttribute('type') || '').toLowerCase();
+
+    switch (attribute) {
+      case 'aria-checked':
+        return tagName === 'input' && (type === 'checkbox' || type === 'radio');
+      case 'aria-valuenow':
+        return (tagName === 'input' && (type === 'range' || type === 'number')) || tagName === 'meter' || tagName === 'progress';
+      case 'aria-level':
+        return /^h[1-6]$/.test(tagName);
+      case 'aria-expanded':
+        return tagName === 'select';
+      default:
+        return false;
+    }
+  }
+
+  private getMissingIds(element: Element, ids: readonly string[]): string[] {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    return ids.filter(id => !root.getElementById(id));
+  }
+
+  private isToken(value: string, allowed: readonly string[]): boolean {
+    return allowed.includes(value.toLowerCase());
+  }
+
+  private formatTokens(tokens: readonly string[]): string {
+    return tokens.map(token => `"${token}"`).join(', ');
+  }
+
+  private violation(kind: ARIAViolationKind, attribute: string, severity: IssueSeverity, description: string, suggestedFix: string): ARIAViolation {
+    return { kind, attribute, severity, description, suggestedFix };
+  }
+}
+
+// Export singleton instance
+export const ariaSchema = ARIASchema.getInstance();
@@ -15,7 +15,11 @@ import type {
   ComplianceResult,
   ComplianceStatus
 } from '../types/index';
-
+import { accessibleNameComputer } from './AccessibleNameComputer';
+import { composedPathLocator } from './ComposedPathLocator';
+import { contrastEngine } from './ContrastEngine';
+import { wcagCatalog } from './WCAGCatalog';
+import { ariaSchema } from './ARIASchema';
 
 
 // ============================================================================
@@ -30,13 +34,19 @@ export interface AccessibilityScannerConfig {
   readonly wcagLevel: 'A' | 'AA' | 'AAA';
   readonly maxScanTime: number;                    // milliseconds
   readonly minContrastRatio: number;               // 4.5 for AA, 3.0 for large text
+  readonly contrastAlgorithm: ContrastAlgorithm;   // which model decides pass/fail
   readonly includeHiddenElements: boolean;
+  readonly includeShadowDOM: boolean;              // descend into open shadow roots
+  readonly includeFrames: boolean;                 // descend into same-origin iframes
 }
 
+export type ContrastAlgorithm = 'wcag2' | 'apca';
+
 export interface ScanOptions {
   readonly targetElements?: Element[];
   readonly skipElements?: string[];               // CSS selectors to skip
   readonly focusAreas?: AccessibilityIssueType[];
+  readonly includeDocumentChecks?: boolean;       // page-level checks such as heading order (default true)
   readonly includeWarnings: boolean;
   readonly generateSuggestions: boolean;
 }
@@ -44,10 +54,15 @@ export interface ScanOptions {
 export interface ColorContrastResult {
   readonly foregroundColor: string;
   readonly backgroundColor: string;
-  readonly contrastRatio: number;
+  readonly contrastRatio: number;                 // WCAG 2.x luminance ratio
+  readonly apcaContrast: number;                  // APCA Lc (signed)
+  readonly apcaRequiredLc: number | null;         // null when size/weight is too small for any Lc
+  readonly algorithm: ContrastAlgorithm;
   readonly wcagLevel: 'A' | 'AA' | 'AAA' | 'fail';
   readonly isLargeText: boolean;
-  readonly passes: boolean;
+  readonly passes: boolean;                       // pass/fail under the selected algorithm
+  readonly needsReview: boolean;                  // background cannot be reduced to one color
+  readonly reviewReason?: string;
 }
 
 export interface KeyboardAccessibilityResult {
@@ -85,46 +100,41 @@ export class AccessibilityScanner {
     wcagLevel: 'AA',
     maxScanTime: 100,                    // Performance target for real-time analysis
     minContrastRatio: 4.5,               // WCAG AA standard
-    includeHiddenElements: false
+    contrastAlgorithm: 'wcag2',
+    includeHiddenElements: false,
+    includeShadowDOM: true,
+    includeFrames: true
   };
 
   // Performance targets for optimal user experience
   private readonly SCAN_TIME_TARGET = 100;        // milliseconds
 
-  // WCAG 2.1 AA Criteria definitions
-  private readonly WCAG_CRITERIA: Record<string, WCAGCriteria> = {
-    '1.1.1': {
-      id: '1.1.1',
-      level: 'A',
-      principle: 'perceivable',
-      guideline: 'Provide text alternatives for non-text content',
-      description: 'All non-text content has a text alternative',
-      successCriteria: 'Non-text Content'
-    },
-    '1.4.3': {
-      id: '1.4.3',
-      level: 'AA',
-      principle: 'perceivable',
-      guideline: 'Make it easier for users to see and hear content',
-      description: 'Color contrast of at least 4.5:1 for normal text',
-      successCriteria: 'Contrast (Minimum)'
-    },
-    '2.1.1': {
-      id: '2.1.1',
-      level: 'A',
-      principle: 'operable',
-      guideline: 'Make all functionality available from a keyboard',
-      description: 'All functionality is available from a keyboard',
-      successCriteria: 'Keyboard'
-    },
-    '4.1.2': {
-      id: '4.1.2',
-      level: 'A',
-      principle: 'robust',
-      guideline: 'Maximize compatibility with assistive technologies',
-      description: 'Name, role, value can be programmatically determined',
-      successCriteria: 'Name, Role, Value'
-    }
+  // Content shared by several criteria
+  private readonly TEXT_CONTENT = 'p, span, a, li, td, th, label, button, h1, h2, h3, h4, h5, h6';
+  private readonly OPERABLE_CONTENT = 'a[href], button, input, select, textarea, summary, [tabindex], [onclick], [role="button"], [role="link"]';
+  private readonly FORM_CONTENT = 'input:not([type="hidden"]), select, textarea, [role="textbox"], [role="combobox"]';
+
+  // Content a criterion applies to; a page without it is "not applicable"
+  private readonly CRITERIA_APPLICABILITY: Record<string, string> = {
+    '1.1.1': 'img, svg, area, canvas, object, input[type="image"], [role="img"]',
+    '1.2.1': 'audio, video',
+    '1.2.2': 'video',
+    '1.2.3': 'video',
+    '1.2.5': 'video',
+    '1.3.1': 'h1, h2, h3, h4, h5, h6, table, ul, ol, dl, form, input, select, textarea, main, nav, header, footer, aside, section, [role]',
+    '1.4.1': `a[href], ${this.FORM_CONTENT}`,
+    '1.4.2': 'audio, video',
+    '1.4.3': this.TEXT_CONTENT,
+    '1.4.4': this.TEXT_CONTENT,
+    '2.1.1': this.OPERABLE_CONTENT,
+    '2.1.2': this.OPERABLE_CONTENT,
+    '2.4.1': 'nav, header, aside, [role="navigation"], [role="banner"], [role="complementary"], a[href]',
+    '2.4.3': this.OPERABLE_CONTENT,
+    '2.4.4': 'a[href], [role="link"]',
+    '2.4.7': this.OPERABLE_CONTENT,
+    '3.3.1': this.FORM_CONTENT,
+    '3.3.2': this.FORM_CONTENT,
+    '4.1.2': 'a[href], button, input, select, textarea, summary, iframe, [role], [tabindex]'
   };
 
   // ============================================================================
@@ -174,10 +184,12 @@ export class AccessibilityScanner {
         this.scanForKeyboardAccessibilityIssues(elementsToScan),
         this.scanForARIAIssues(elementsToScan),
         this.scanForFormAccessibilityIssues(elementsToScan),
-        this.scanForHeadingStructureIssues(document),
+        scanOptions.includeDocumentChecks === false ? Promise.resolve() : this.scanForHeadingStructureIssues(document),
         this.scanForFocusManagementIssues(elementsToScan)
       ]);
 
+      const pageUrl = document.location?.href || document.URL || 'unknown';
+
       // Calculate compliance score
       const complianceScore = this.calculateComplianceScore(this.detectedIssues, elementsToScan.length);
       
@@ -191,7 +203,7 @@ export class AccessibilityScanner {
       }
 
       const analysis: AccessibilityAnalysis = {
-        pageUrl: document.location?.href || document.URL || 'unknown',
+        pageUrl,
         analyzedAt: Date.now(),
         issues: [...this.detectedIssues],
         complianceScore,
@@ -222,23 +234,21 @@ export class AccessibilityScanner {
         this.processedElements++;
         
         const alt = img.getAttribute('alt');
-        const role = img.getAttribute('role');
-        const ariaLabel = img.getAttribute('aria-label');
-        const ariaLabelledBy = img.getAttribute('aria-labelledby');
+        const role = accessibleNameComputer.getRole(img);
         
-        // Skip decorative images
-        if (role === 'presentation' || role === 'none' || alt === '') {
+        // Skip decorative images and images hidden from assistive technology
+        if (role === 'presentation' || role === 'none' || accessibleNameComputer.isHiddenFromAccessibilityTree(img)) {
           continue;
         }
 
         // Check for missing alt text
-        if (!alt && !ariaLabel && !ariaLabelledBy) {
+        if (!accessibleNameComputer.hasAccessibleName(img)) {
           await this.createIssue({
             type: 'missing-alt-text',
             severity: 'high',
             element: img,
             description: 'Image is missing alternative text',
-            wcagCriteria: ['1.1.1'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('image-alt'),
             suggestedFix: 'Add descriptive alt attribute to the image'
           });
         }
@@ -250,7 +260,7 @@ export class AccessibilityScanner {
             severity: 'medium',
             element: img,
             description: 'Image has poor quality alternative text',
-            wcagCriteria: ['1.1.1'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('image-alt'),
             suggestedFix: 'Improve alt text to be more descriptive and meaningful'
           });
         }
@@ -276,19 +286,56 @@ export class AccessibilityScanner {
         const textContent = element.textContent?.trim();
         if (!textContent || textContent.length === 0) continue;
 
+        // Only measure elements that paint their own text
+        const hasOwnText = Array.from(element.childNodes).some(node =>
+          node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+        );
+        if (!hasOwnText) continue;
+
         const contrastResult = await this.analyzeColorContrast(element);
         
-        if (!contrastResult.passes) {
-          const severity: IssueSeverity = contrastResult.contrastRatio < 3.0 ? 'critical' : 'high';
-          
+        if (contrastResult.needsReview) {
           await this.createIssue({
             type: 'insufficient-contrast',
-            severity,
+            severity: 'low',
             element,
-            description: `Text has insufficient color contrast ratio: ${contrastResult.contrastRatio.toFixed(2)}:1`,
-            wcagCriteria: ['1.4.3'],
-            suggestedFix: `Increase contrast ratio to at least ${this.config.minContrastRatio}:1 for WCAG AA compliance`
+            description: `Color contrast needs manual review: ${contrastResult.reviewReason}`,
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('text-contrast'),
+            suggestedFix: 'Verify the text contrast against the darkest and lightest parts of the background'
           });
+        } else if (!contrastResult.passes) {
+          // Both values are reported so teams can compare models during the APCA transition
+          const bothValues = `${contrastResult.contrastRatio.toFixed(2)}:1, APCA Lc ${Math.abs(contrastResult.apcaContrast).toFixed(1)}`;
+          
+          if (contrastResult.algorithm === 'apca') {
+            const lc = Math.abs(contrastResult.apcaContrast);
+            const required = contrastResult.apcaRequiredLc;
+            const severity: IssueSeverity = lc < 30 ? 'critical' : 'high';
+            
+            await this.createIssue({
+              type: 'insufficient-contrast',
+              severity,
+              element,
+              description: required === null
+                ? `Text is too small or thin to meet APCA at any contrast (${bothValues})`
+                : `Text has insufficient APCA contrast: Lc ${lc.toFixed(1)} below required Lc ${required} (${bothValues})`,
+              wcagCriteria: wcagCatalog.getCriteriaForCheck('text-contrast'),
+              suggestedFix: required === null
+                ? 'Increase the font size or weight, then raise contrast to the APCA lookup minimum'
+                : `Increase contrast to at least Lc ${required} for this font size and weight`
+            });
+          } else {
+            const severity: IssueSeverity = contrastResult.contrastRatio < 3.0 ? 'critical' : 'high';
+            
+            await this.createIssue({
+              type: 'insufficient-contrast',
+              severity,
+              element,
+              description: `Text has insufficient color contrast ratio: ${bothValues}`,
+              wcagCriteria: wcagCatalog.getCriteriaForCheck('text-contrast'),
+              suggestedFix: `Increase contrast ratio to at least ${this.config.minContrastRatio}:1 for WCAG AA compliance`
+            });
+          }
         }
       }
 
@@ -314,7 +361,7 @@ export class AccessibilityScanner {
             severity: 'high',
             element,
             description: 'Interactive element is not keyboard accessible',
-            wcagCriteria: ['2.1.1'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('keyboard-access'),
             suggestedFix: 'Add tabindex="0" or ensure element is naturally focusable'
           });
         }
@@ -325,7 +372,7 @@ export class AccessibilityScanner {
             severity: 'medium',
             element,
             description: 'Element lacks visible focus indicator',
-            wcagCriteria: ['2.4.7'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('focus-visible'),
             suggestedFix: 'Add CSS :focus styles to provide visible focus indication'
           });
         }
@@ -337,7 +384,7 @@ export class AccessibilityScanner {
               severity: 'medium',
               element,
               description: issue,
-              wcagCriteria: ['2.1.1'],
+              wcagCriteria: wcagCatalog.getCriteriaForCheck('keyboard-access'),
               suggestedFix: 'Review keyboard interaction patterns and ensure proper implementation'
             });
           }
@@ -366,7 +413,7 @@ export class AccessibilityScanner {
             severity: issue.severity,
             element,
             description: issue.description,
-            wcagCriteria: ['4.1.2'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('aria-valid'),
             suggestedFix: issue.suggestedFix
           });
         }
@@ -394,7 +441,7 @@ export class AccessibilityScanner {
             severity: issue.severity,
             element,
             description: issue.description,
-            wcagCriteria: ['1.3.1', '3.3.2'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('form-label'),
             suggestedFix: issue.suggestedFix
           });
         }
@@ -419,7 +466,7 @@ export class AccessibilityScanner {
           severity: 'medium',
           element: document.body,
           description: 'Page is missing an h1 heading',
-          wcagCriteria: ['1.3.1'],
+          wcagCriteria: wcagCatalog.getCriteriaForCheck('heading-structure'),
           suggestedFix: 'Add an h1 heading to provide the main page title'
         });
       }
@@ -434,7 +481,7 @@ export class AccessibilityScanner {
               severity: 'low',
               element: h1Element,
               description: 'Multiple h1 headings found on page',
-              wcagCriteria: ['1.3.1'],
+              wcagCriteria: wcagCatalog.getCriteriaForCheck('heading-structure'),
               suggestedFix: 'Use only one h1 per page, use h2-h6 for subheadings'
             });
           }
@@ -456,7 +503,7 @@ export class AccessibilityScanner {
               severity: 'medium',
               element: currentHeading,
               description: `Heading level skipped from h${previousLevel} to h${currentLevel}`,
-              wcagCriteria: ['1.3.1'],
+              wcagCriteria: wcagCatalog.getCriteriaForCheck('heading-structure'),
               suggestedFix: 'Use sequential heading levels without skipping'
             });
           }
@@ -484,7 +531,7 @@ export class AccessibilityScanner {
             severity: 'medium',
             element,
             description: 'Positive tabindex values can disrupt natural tab order',
-            wcagCriteria: ['2.4.3'],
+            wcagCriteria: wcagCatalog.getCriteriaForCheck('focus-order'),
             suggestedFix: 'Use tabindex="0" or rely on natural tab order instead of positive values'
           });
         }
@@ -502,39 +549,52 @@ export class AccessibilityScanner {
   private async analyzeColorContrast(element: Element): Promise<ColorContrastResult> {
     try {
       const styles = window.getComputedStyle(element);
-      const foregroundColor = styles.color;
-      const backgroundColor = this.getEffectiveBackgroundColor(element);
-      
-      const contrastRatio = this.calculateContrastRatio(foregroundColor || 'rgb(0,0,0)', backgroundColor || 'rgb(255,255,255)');
+      const measurement = contrastEngine.measureElementContrast(element);
+      const { foregroundColor, backgroundColor, contrastRatio, apcaContrast } = measurement;
       const isLargeText = this.isLargeText(element, styles);
+      const apcaRequiredLc = contrastEngine.getAPCARequiredLc(parseFloat(styles.fontSize), parseInt(styles.fontWeight));
       
       // WCAG AA requirements: 4.5:1 for normal text, 3:1 for large text
       const requiredRatio = isLargeText ? 3.0 : 4.5;
-      const passes = contrastRatio >= requiredRatio;
+      const passes = this.config.contrastAlgorithm === 'apca'
+        ? apcaRequiredLc !== null && Math.abs(apcaContrast) >= apcaRequiredLc
+        : contrastRatio >= requiredRatio;
       
       let wcagLevel: 'A' | 'AA' | 'AAA' | 'fail' = 'fail';
       if (contrastRatio >= (isLargeText ? 4.5 : 7.0)) wcagLevel = 'AAA';
       else if (contrastRatio >= requiredRatio) wcagLevel = 'AA';
       else if (contrastRatio >= (isLargeText ? 3.0 : 4.5)) wcagLevel = 'A';
 
-      return {
+      const result: ColorContrastResult = {
         foregroundColor,
         backgroundColor,
         contrastRatio,
+        apcaContrast,
+        apcaRequiredLc,
+        algorithm: this.config.contrastAlgorithm,
         wcagLevel,
         isLargeText,
-        passes
+        passes,
+        needsReview: measurement.needsReview,
+        ...(measurement.reviewReason ? { reviewReason: measurement.reviewReason } : {})
       };
 
+      return result;
+
     } catch (error) {
       console.error('[AccessibilityScanner] Failed to analyze color contrast:', error);
       return {
         foregroundColor: 'unknown',
         backgroundColor: 'unknown',
         contrastRatio: 0,
+        apcaContrast: 0,
+        apcaRequiredLc: null,
+        algorithm: this.config.contrastAlgorithm,
         wcagLevel: 'fail',
         isLargeText: false,
-        passes: false
+        passes: false,
+        needsReview: true,
+        reviewReason: 'Contrast could not be measured'
       };
     }
   }
@@ -584,13 +644,16 @@ export class AccessibilityScanner {
     if (options.targetElements) {
       elements = options.targetElements;
     } else {
-      elements = Array.from(document.querySelectorAll('*'));
+      elements = composedPathLocator.collectElements(document, {
+        includeShadowRoots: this.config.includeShadowDOM,
+        includeFrames: this.config.includeFrames
+      });
     }
 
     // Filter out elements to skip
     if (options.skipElements) {
       const skipSelectors = options.skipElements.join(', ');
-      const elementsToSkip = new Set(Array.from(document.querySelectorAll(skipSelectors)));
+      const elementsToSkip = new Set(composedPathLocator.querySelectorAllComposed(document, skipSelectors));
       elements = elements.filter(el => !elementsToSkip.has(el));
     }
 
@@ -640,7 +703,7 @@ export class AccessibilityScanner {
 
     const elementInfo: ElementInfo = {
       tagName: element.tagName.toLowerCase(),
-      xpath: this.getSimpleXPath(element),
+      xpath: composedPathLocator.getLocator(element),
       attributes,
       boundingRect: rect
     };
@@ -663,25 +726,6 @@ export class AccessibilityScanner {
     return this.createBasicElementInfo(element);
   }
 
-  private getSimpleXPath(element: Element): string {
-    if (element.id) {
-      return `//*[@id="${element.id}"]`;
-    }
-    
-    const tagName = element.tagName.toLowerCase();
-    let index = 1;
-    let sibling = element.previousElementSibling;
-    
-    while (sibling) {
-      if (sibling.tagName.toLowerCase() === tagName) {
-        index++;
-      }
-      sibling = sibling.previousElementSibling;
-    }
-    
-    return `//${tagName}[${index}]`;
-  }
-
   private calculateComplianceScore(issues: AccessibilityIssue[], totalElements: number): number {
     if (totalElements === 0) return 100;
     
@@ -806,63 +850,6 @@ export class AccessibilityScanner {
   // COLOR CONTRAST CALCULATIONS
   // ============================================================================
 
-  private calculateContrastRatio(foreground: string, background: string): number {
-    try {
-      const fgLuminance = this.getRelativeLuminance(foreground);
-      const bgLuminance = this.getRelativeLuminance(background);
-      
-      const lighter = Math.max(fgLuminance, bgLuminance);
-      const darker = Math.min(fgLuminance, bgLuminance);
-      
-      return (lighter + 0.05) / (darker + 0.05);
-    } catch (error) {
-      return 1; // Default to failing ratio
-    }
-  }
-
-  private getRelativeLuminance(color: string): number {
-    const rgb = this.parseColor(color);
-    const normalizedRgb = rgb.map(c => {
-      c = c / 255;
-      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-    });
-    
-    const r = normalizedRgb[0] || 0;
-    const g = normalizedRgb[1] || 0;
-    const b = normalizedRgb[2] || 0;
-    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
-  }
-
-  private parseColor(color: string): [number, number, number] {
-    // Simple color parsing - can be enhanced for more formats
-    if (color.startsWith('rgb')) {
-      const matches = color.match(/\d+/g);
-      if (matches && matches.length >= 3) {
-        return [parseInt(matches[0] || '0'), parseInt(matches[1] || '0'), parseInt(matches[2] || '0')];
-      }
-    }
-    
-    // Default to black if parsing fails
-    return [0, 0, 0];
-  }
-
-  private getEffectiveBackgroundColor(element: Element): string {
-    let current: Element | null = element;
-    
-    while (current) {
-      const styles = window.getComputedStyle(current);
-      const bgColor = styles.backgroundColor;
-      
-      if (bgColor && bgColor !== 'rgba(0, 0, 0, 0)' && bgColor !== 'transparent') {
-        return bgColor;
-      }
-      
-      current = current.parentElement;
-    }
-    
-    return 'rgb(255, 255, 255)'; // Default to white
-  }
-
   private isLargeText(_element: Element, styles: CSSStyleDeclaration): boolean {
     const fontSize = parseFloat(styles.fontSize);
     const fontWeight = styles.fontWeight;
@@ -888,21 +875,17 @@ export class AccessibilityScanner {
       suggestedFix: string;
     }> = [];
 
-    const role = element.getAttribute('role');
-    const ariaLabel = element.getAttribute('aria-label');
-    const ariaLabelledBy = element.getAttribute('aria-labelledby');
-
-    // Check for invalid roles
-    if (role && !this.isValidARIARole(role)) {
+    // Roles, states and properties against the ARIA 1.2 schema, including IDREFs to missing ids
+    for (const violation of ariaSchema.validateElement(element)) {
       issues.push({
-        severity: 'high',
-        description: `Invalid ARIA role: ${role}`,
-        suggestedFix: 'Use a valid ARIA role or remove the role attribute'
+        severity: violation.severity,
+        description: violation.description,
+        suggestedFix: violation.suggestedFix
       });
     }
 
     // Check for missing accessible names
-    if (this.requiresAccessibleName(element) && !ariaLabel && !ariaLabelledBy && !element.textContent?.trim()) {
+    if (this.requiresAccessibleName(element) && !accessibleNameComputer.hasAccessibleName(element)) {
       issues.push({
         severity: 'high',
         description: 'Element requires an accessible name',
@@ -927,54 +910,33 @@ export class AccessibilityScanner {
     const tagName = element.tagName.toLowerCase();
     
     if (tagName === 'input' || tagName === 'select' || tagName === 'textarea') {
-      const id = element.getAttribute('id');
-      const ariaLabel = element.getAttribute('aria-label');
-      const ariaLabelledBy = element.getAttribute('aria-labelledby');
-      
-      // Check for associated label
-      let hasLabel = false;
-      if (id) {
-        hasLabel = document.querySelector(`label[for="${id}"]`) !== null;
+      const type = (element.getAttribute('type') || '').toLowerCase();
+      if (type === 'hidden' || accessibleNameComputer.isHiddenFromAccessibilityTree(element)) {
+        return issues;
       }
+
+      const { source } = accessibleNameComputer.computeAccessibleNameDetails(element);
       
-      if (!hasLabel && !ariaLabel && !ariaLabelledBy) {
+      if (source === 'none') {
         issues.push({
           severity: 'high',
           description: 'Form control is missing a label',
           suggestedFix: 'Add a <label> element or aria-label attribute'
         });
+      } else if (source === 'placeholder') {
+        issues.push({
+          severity: 'medium',
+          description: 'Form control relies on placeholder text as its only label',
+          suggestedFix: 'Add a visible <label> element; placeholder text disappears on input'
+        });
       }
     }
 
     return issues;
   }
 
-  private isValidARIARole(role: string): boolean {
-    const validRoles = [
-      'alert', 'alertdialog', 'application', 'article', 'banner', 'button',
-      'cell', 'checkbox', 'columnheader', 'combobox', 'complementary',
-      'contentinfo', 'definition', 'dialog', 'directory', 'document',
-      'form', 'grid', 'gridcell', 'group', 'heading', 'img', 'link',
-      'list', 'listbox', 'listitem', 'log', 'main', 'marquee', 'math',
-      'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
-      'navigation', 'note', 'option', 'presentation', 'progressbar',
-      'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader',
-      'scrollbar', 'search', 'separator', 'slider', 'spinbutton', 'status',
-      'tab', 'tablist', 'tabpanel', 'textbox', 'timer', 'toolbar',
-      'tooltip', 'tree', 'treegrid', 'treeitem'
-    ];
-    
-    return validRoles.includes(role);
-  }
-
-  private requiresAccessibleName(_element: Element): boolean {
-    const role = _element.getAttribute('role');
-    const tagName = _element.tagName.toLowerCase();
-    
-    const requiresName = ['button', 'link', 'menuitem', 'tab', 'option'];
-    
-    return requiresName.includes(role || '') || 
-           ['button', 'a'].includes(tagName);
+  private requiresAccessibleName(element: Element): boolean {
+    return accessibleNameComputer.requiresAccessibleName(element);
   }
 
   // ============================================================================
@@ -994,29 +956,64 @@ export class AccessibilityScanner {
     return this.isScanning;
   }
 
-  async validateWCAGCompliance(_element: Element, criteria: string): Promise<ComplianceResult> {
-    const wcagCriteria = this.WCAG_CRITERIA[criteria];
+  /**
+   * Get the WCAG criteria required for a conformance level
+   * 
+   * @param level - Target level; lower levels are included
+   * @returns WCAGCriteria[] - Criteria in success criterion order
+   */
+  getWCAGCriteria(level: WCAGCriteria['level'] = 'AAA'): WCAGCriteria[] {
+    return wcagCatalog.getCriteria(level);
+  }
+
+  /**
+   * Judge a success criterion for an element subtree from detected issues
+   * 
+   * Issues mapped to the criterion decide the verdict: any critical or high
+   * issue fails it, only medium or low issues make it partial. Without issues
+   * the criterion passes, or is not applicable when the subtree has no content
+   * it applies to or the criterion has no applicability selector.
+   * 
+   * @param element - Root of the evaluated content, usually the document element
+   * @param criteria - Success criterion id, e.g. '1.1.1'
+   * @param detectedIssues - Issues found in the subtree by any analyzer
+   */
+  async validateWCAGCompliance(element: Element, criteria: string, detectedIssues: readonly AccessibilityIssue[] = []): Promise<ComplianceResult> {
+    const wcagCriteria = wcagCatalog.getCriterion(criteria);
     if (!wcagCriteria) {
       throw new Error(`Unknown WCAG criteria: ${criteria}`);
     }
 
-    // Perform specific validation based on criteria
-    const issues: AccessibilityIssue[] = [];
+    const issues = detectedIssues.filter(issue => issue.wcagCriteria.includes(criteria));
     let status: ComplianceStatus = 'pass';
     let score = 1.0;
 
-    // This would contain specific validation logic for each WCAG criteria
-    // For now, return a basic result
-    
+    if (issues.length > 0) {
+      const weightedIssues = issues.reduce((sum, issue) => sum + this.getSeverityWeight(issue.severity), 0);
+      score = Math.max(0, 1 - weightedIssues / (issues.length * 4 + 4));
+      status = issues.some(issue => issue.severity === 'critical' || issue.severity === 'high') ? 'fail' : 'partial';
+    } else if (!this.isCriterionApplicable(element, criteria)) {
+      status = 'not-applicable';
+    }
+
     return {
       criteria: wcagCriteria,
       status,
       score,
       issues,
-      recommendations: []
+      recommendations: [...new Set(issues.map(issue => issue.suggestedFix).filter(Boolean))]
     };
   }
 
+  private isCriterionApplicable(element: Element, criteria: string): boolean {
+    // Without a selector a pass cannot be told apart from a page without the content
+    const selector = this.CRITERIA_APPLICABILITY[criteria];
+    if (!selector) {
+      return false;
+    }
+    return element.matches(selector) || element.querySelector(selector) !== null;
+  }
+
   // ============================================================================
   // CLEANUP AND SHUTDOWN
   // ============================================================================
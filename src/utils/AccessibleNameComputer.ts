@@ -0,0 +1,662 @@
+/**
+ * AccessibleNameComputer.ts
+ *
+ * Accessible Name and Description Computation for AccessiAI Chrome Extension
+ * Implements the W3C Accessible Name and Description Computation 1.2 (AccName)
+ * algorithm shared by every analyzer that needs to know what assistive
+ * technology will announce for an element:
+ * - Hidden-content exclusion with aria-labelledby / aria-describedby traversal
+ * - aria-label, embedded control values and native host-language labels
+ *   (label, alt, caption, legend, figcaption, SVG title)
+ * - Name from content including CSS ::before / ::after generated content
+ * - title and placeholder tooltip fallbacks
+ *
+ * Performance Target: <1ms per element
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+/**
+ * Step of the AccName algorithm that produced an element's accessible name
+ */
+export type AccessibleNameSource =
+  | 'aria-labelledby'
+  | 'aria-label'
+  | 'native'
+  | 'contents'
+  | 'title'
+  | 'placeholder'
+  | 'none';
+
+export interface AccessibleNameResult {
+  readonly name: string;
+  readonly source: AccessibleNameSource;
+}
+
+/**
+ * Traversal state carried through the recursive text alternative computation
+ */
+interface ComputationContext {
+  readonly root: Element;
+  readonly visited: Set<Node>;
+  readonly inLabelledByTraversal: boolean;
+  readonly inRecursion: boolean;
+  readonly isReferenced: boolean;
+}
+
+/**
+ * AccessibleNameComputer - Singleton implementing AccName 1.2
+ *
+ * Single source of truth for accessible names so that the scanner, visual
+ * analysis and DOM analysis agree on whether an element is labelled.
+ */
+export class AccessibleNameComputer {
+  private static instance: AccessibleNameComputer;
+
+  // Roles whose name may be computed from their descendants (ARIA 1.2 "name from: contents")
+  private readonly NAME_FROM_CONTENT_ROLES = new Set([
+    'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link',
+    'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row',
+    'rowheader', 'sectionhead', 'switch', 'tab', 'tooltip', 'treeitem'
+  ]);
+
+  // Roles for which ARIA 1.2 marks the accessible name as required
+  private readonly NAME_REQUIRED_ROLES = new Set([
+    'alertdialog', 'button', 'checkbox', 'columnheader', 'combobox', 'dialog',
+    'form', 'grid', 'heading', 'img', 'link', 'listbox', 'menuitem',
+    'menuitemcheckbox', 'menuitemradio', 'meter', 'option', 'progressbar',
+    'radio', 'radiogroup', 'region', 'rowheader', 'scrollbar', 'searchbox',
+    'slider', 'spinbutton', 'switch', 'tab', 'table', 'tabpanel', 'textbox',
+    'tree', 'treegrid', 'treeitem'
+  ]);
+
+  // Roles whose value is used when they are embedded in another element's label
+  private readonly RANGE_ROLES = new Set(['meter', 'progressbar', 'scrollbar', 'slider', 'spinbutton']);
+
+  /**
+   * Get singleton instance of AccessibleNameComputer
+   */
+  static getInstance(): AccessibleNameComputer {
+    if (!AccessibleNameComputer.instance) {
+      AccessibleNameComputer.instance = new AccessibleNameComputer();
+    }
+    return AccessibleNameComputer.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[AccessibleNameComputer] Initializing Accessible Name Computation...');
+  }
+
+  // Public API
+
+  /**
+   * Compute the accessible name of an element
+   *
+   * @param element - Element to name
+   * @returns string - Whitespace-normalized accessible name, empty if none
+   */
+  computeAccessibleName(element: Element): string {
+    return this.computeAccessibleNameDetails(element).name;
+  }
+
+  /**
+   * Compute the accessible name together with the step that produced it
+   *
+   * @param element - Element to name
+   * @returns AccessibleNameResult - Name and its source
+   */
+  computeAccessibleNameDetails(element: Element): AccessibleNameResult {
+    try {
+      const context: ComputationContext = {
+        root: element,
+        visited: new Set<Node>(),
+        inLabelledByTraversal: false,
+        inRecursion: false,
+        isReferenced: false
+      };
+
+      // Step 2B: aria-labelledby
+      const labelledBy = this.computeFromIdRefs(element, 'aria-labelledby', context);
+      if (labelledBy) {
+        return { name: labelledBy, source: 'aria-labelledby' };
+      }
+
+      // Step 2D: aria-label
+      const ariaLabel = this.normalize(element.getAttribute('aria-label') || '');
+      if (ariaLabel) {
+        return { name: ariaLabel, source: 'aria-label' };
+      }
+
+      // Presentational elements expose no name of their own
+      const role = this.getRole(element);
+      if (role === 'presentation' || role === 'none') {
+        return { name: '', source: 'none' };
+      }
+
+      // Step 2E: native host-language label
+      const native = this.computeNativeName(element, context);
+      if (native) {
+        return { name: native, source: 'native' };
+      }
+
+      // Step 2F: name from content
+      if (this.NAME_FROM_CONTENT_ROLES.has(role)) {
+        const contents = this.normalize(this.computeFromContent(element, { ...context, inRecursion: true }));
+        if (contents) {
+          return { name: contents, source: 'contents' };
+        }
+      }
+
+      // Step 2I: tooltip attribute, then placeholder for text fields (HTML-AAM)
+      const title = this.normalize(element.getAttribute('title') || '');
+      if (title) {
+        return { name: title, source: 'title' };
+      }
+
+      const placeholder = this.normalize(
+        element.getAttribute('placeholder') || element.getAttribute('aria-placeholder') || ''
+      );
+      if (placeholder && this.isTextField(element)) {
+        return { name: placeholder, source: 'placeholder' };
+      }
+
+      return { name: '', source: 'none' };
+
+    } catch (error) {
+      console.error('[AccessibleNameComputer] Failed to compute accessible name:', error);
+      return { name: '', source: 'none' };
+    }
+  }
+
+  /**
+   * Compute the accessible description of an element
+   *
+   * @param element - Element to describe
+   * @returns string - Whitespace-normalized accessible description, empty if none
+   */
+  computeAccessibleDescription(element: Element): string {
+    try {
+      const context: ComputationContext = {
+        root: element,
+        visited: new Set<Node>(),
+        inLabelledByTraversal: false,
+        inRecursion: false,
+        isReferenced: false
+      };
+
+      const describedBy = this.computeFromIdRefs(element, 'aria-describedby', context);
+      if (describedBy) {
+        return describedBy;
+      }
+
+      const ariaDescription = this.normalize(element.getAttribute('aria-description') || '');
+      if (ariaDescription) {
+        return ariaDescription;
+      }
+
+      // title is only a description when it was not already used as the name
+      const title = this.normalize(element.getAttribute('title') || '');
+      if (title && this.computeAccessibleNameDetails(element).source !== 'title') {
+        return title;
+      }
+
+      return '';
+
+    } catch (error) {
+      console.error('[AccessibleNameComputer] Failed to compute accessible description:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Check whether an element exposes a non-empty accessible name
+   *
+   * @param element - Element to check
+   * @returns boolean - True if the element has an accessible name
+   */
+  hasAccessibleName(element: Element): boolean {
+    return this.computeAccessibleName(element).length > 0;
+  }
+
+  /**
+   * Check whether an element's role requires an accessible name
+   *
+   * @param element - Element to check
+   * @returns boolean - True if ARIA requires the element to be named
+   */
+  requiresAccessibleName(element: Element): boolean {
+    return this.NAME_REQUIRED_ROLES.has(this.getRole(element));
+  }
+
+  /**
+   * Check whether an element is excluded from the accessibility tree
+   *
+   * @param element - Element to check
+   * @returns boolean - True if hidden via hidden, aria-hidden, display or visibility
+   */
+  isHiddenFromAccessibilityTree(element: Element): boolean {
+    let current: Element | null = element;
+
+    while (current) {
+      if (current.hasAttribute('hidden') || current.getAttribute('aria-hidden') === 'true') {
+        return true;
+      }
+
+      const style = window.getComputedStyle(current);
+      if (style.display === 'none') {
+        return true;
+      }
+      if (current === element && (style.visibility === 'hidden' || style.visibility === 'collapse')) {
+        return true;
+      }
+
+      current = current.parentElement ?? this.getShadowHost(current);
+    }
+
+    return false;
+  }
+
+  /**
+   * Get the effective role of an element (explicit first valid token, else implicit)
+   *
+   * @param element - Element to inspect
+   * @returns string - Role name, empty string for generic elements
+   */
+  getRole(element: Element): string {
+    const explicit = (element.getAttribute('role') || '').trim().toLowerCase().split(/\s+/)[0];
+    if (explicit) {
+      return explicit;
+    }
+    return this.getImplicitRole(element);
+  }
+
+  // Text alternative computation
+
+  /**
+   * Recursive text alternative computation (AccName step 2) for nodes reached
+   * through aria-labelledby, label association or name-from-content traversal
+   */
+  private computeTextAlternative(node: Node, context: ComputationContext): string {
+    if (context.visited.has(node)) {
+      return '';
+    }
+    context.visited.add(node);
+
+    // Step 2G: text nodes contribute their text
+    if (node.nodeType === Node.TEXT_NODE) {
+      return node.textContent || '';
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+
+    const element = node as Element;
+
+    // Step 2A: hidden nodes are skipped unless directly referenced
+    if (!context.isReferenced && this.isHiddenFromAccessibilityTree(element)) {
+      return '';
+    }
+
+    // Step 2B: aria-labelledby, only followed once per traversal
+    if (!context.inLabelledByTraversal) {
+      const labelledBy = this.computeFromIdRefs(element, 'aria-labelledby', context);
+      if (labelledBy) {
+        return labelledBy;
+      }
+    }
+
+    // Step 2C: embedded controls contribute their value
+    if (context.inRecursion && element !== context.root) {
+      const embedded = this.computeEmbeddedControlValue(element);
+      if (embedded !== null) {
+        return embedded;
+      }
+    }
+
+    // Step 2D: aria-label
+    const ariaLabel = (element.getAttribute('aria-label') || '').trim();
+    if (ariaLabel) {
+      return ariaLabel;
+    }
+
+    // Step 2E: native host-language label
+    const role = this.getRole(element);
+    if (role !== 'presentation' && role !== 'none') {
+      const native = this.computeNativeName(element, context);
+      if (native) {
+        return native;
+      }
+    }
+
+    // Step 2F: name from content when recursing or referenced; hidden descendants
+    // of an aria-labelledby target still count, so the referenced flag is kept
+    if (context.inRecursion || context.isReferenced || this.NAME_FROM_CONTENT_ROLES.has(role)) {
+      const contents = this.computeFromContent(element, { ...context, inRecursion: true });
+      if (contents.trim()) {
+        return contents;
+      }
+    }
+
+    // Step 2I: tooltip attribute
+    return (element.getAttribute('title') || '').trim();
+  }
+
+  /**
+   * Join the text alternatives of the elements referenced by an IDREF list
+   */
+  private computeFromIdRefs(element: Element, attribute: string, context: ComputationContext): string {
+    const ids = (element.getAttribute(attribute) || '').trim().split(/\s+/).filter(Boolean);
+    if (ids.length === 0 || context.inLabelledByTraversal) {
+      return '';
+    }
+
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const parts: string[] = [];
+
+    for (const id of ids) {
+      const referenced = root.getElementById ? root.getElementById(id) : null;
+      if (!referenced) continue;
+
+      const text = this.computeTextAlternative(referenced, {
+        ...context,
+        visited: new Set<Node>(),
+        inLabelledByTraversal: true,
+        inRecursion: true,
+        isReferenced: true
+      });
+      if (text.trim()) {
+        parts.push(text.trim());
+      }
+    }
+
+    return this.normalize(parts.join(' '));
+  }
+
+  /**
+   * Native host-language naming (HTML-AAM / SVG-AAM)
+   */
+  private computeNativeName(element: Element, context: ComputationContext): string {
+    const tagName = element.tagName.toLowerCase();
+
+    if (tagName === 'img' || tagName === 'area') {
+      return this.normalize(element.getAttribute('alt') || '');
+    }
+
+    if (tagName === 'input') {
+      const input = element as HTMLInputElement;
+      const type = (input.getAttribute('type') || 'text').toLowerCase();
+
+      if (type === 'image') {
+        return this.normalize(input.getAttribute('alt') || input.getAttribute('value') || '') || 'Submit';
+      }
+      if (type === 'button' || type === 'submit' || type === 'reset') {
+        const value = this.normalize(input.getAttribute('value') || '');
+        if (value) return value;
+        if (type === 'submit') return 'Submit';
+        if (type === 'reset') return 'Reset';
+        return '';
+      }
+      if (type === 'hidden') {
+        return '';
+      }
+    }
+
+    if (this.isLabelable(element)) {
+      const labels = (element as HTMLInputElement).labels;
+      if (labels && labels.length > 0) {
+        const text = Array.from(labels)
+          .map(label => this.computeFromContent(label, {
+            ...context,
+            visited: new Set<Node>([element]),
+            inRecursion: true,
+            isReferenced: false
+          }))
+          .join(' ');
+        return this.normalize(text);
+      }
+      return '';
+    }
+
+    const captionSelectors: Record<string, string> = {
+      fieldset: ':scope > legend',
+      figure: ':scope > figcaption',
+      table: ':scope > caption',
+      details: ':scope > summary'
+    };
+    const captionSelector = captionSelectors[tagName];
+    if (captionSelector) {
+      const caption = element.querySelector(captionSelector);
+      if (caption) {
+        return this.normalize(this.computeFromContent(caption, { ...context, inRecursion: true }));
+      }
+      return '';
+    }
+
+    if (tagName === 'svg') {
+      const title = element.querySelector(':scope > title');
+      return this.normalize(title?.textContent || '');
+    }
+
+    return '';
+  }
+
+  /**
+   * Name from content: ::before, child text alternatives, ::after
+   */
+  private computeFromContent(element: Element, context: ComputationContext): string {
+    let result = this.getGeneratedContent(element, '::before');
+
+    for (const child of this.getFlatTreeChildren(element)) {
+      const text = this.computeTextAlternative(child, context);
+      if (!text) continue;
+
+      if (child.nodeType === Node.ELEMENT_NODE && this.isBlockLevel(child as Element)) {
+        result += ` ${text} `;
+      } else {
+        result += text;
+      }
+    }
+
+    result += this.getGeneratedContent(element, '::after');
+    return result;
+  }
+
+  /**
+   * Children in the flat tree: a shadow host's shadow root, and for a slot the
+   * nodes assigned to it, falling back to the slot's own children
+   */
+  private getFlatTreeChildren(element: Element): Node[] {
+    if (element.shadowRoot) {
+      return Array.from(element.shadowRoot.childNodes);
+    }
+
+    if (element instanceof HTMLSlotElement) {
+      const assigned = element.assignedNodes({ flatten: true });
+      if (assigned.length > 0) {
+        return assigned;
+      }
+    }
+
+    return Array.from(element.childNodes);
+  }
+
+  /**
+   * Value of a control embedded in another element's label (AccName step 2C)
+   */
+  private computeEmbeddedControlValue(element: Element): string | null {
+    const role = this.getRole(element);
+    const tagName = element.tagName.toLowerCase();
+
+    if (role === 'textbox' || role === 'searchbox') {
+      if (tagName === 'input' || tagName === 'textarea') {
+        return (element as HTMLInputElement).value;
+      }
+      return element.textContent || '';
+    }
+
+    if (role === 'combobox' || role === 'listbox') {
+      if (tagName === 'select') {
+        return Array.from((element as HTMLSelectElement).selectedOptions)
+          .map(option => option.textContent || '')
+          .join(' ');
+      }
+      if (tagName === 'input') {
+        return (element as HTMLInputElement).value;
+      }
+      const selected = element.querySelector('[role="option"][aria-selected="true"]');
+      return selected ? selected.textContent || '' : '';
+    }
+
+    if (this.RANGE_ROLES.has(role)) {
+      const valueText = element.getAttribute('aria-valuetext');
+      if (valueText) return valueText;
+      const valueNow = element.getAttribute('aria-valuenow');
+      if (valueNow) return valueNow;
+      if (tagName === 'input') return (element as HTMLInputElement).value;
+      return '';
+    }
+
+    return null;
+  }
+
+  // Role helpers
+
+  private getImplicitRole(element: Element): string {
+    const tagName = element.tagName.toLowerCase();
+
+    switch (tagName) {
+      case 'a':
+      case 'area':
+        return element.hasAttribute('href') ? 'link' : '';
+      case 'button':
+      case 'summary':
+        return 'button';
+      case 'img':
+        return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'input':
+        return this.getInputRole(element as HTMLInputElement);
+      case 'select':
+        return (element as HTMLSelectElement).multiple || (element as HTMLSelectElement).size > 1 ? 'listbox' : 'combobox';
+      case 'textarea':
+        return 'textbox';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'nav':
+        return 'navigation';
+      case 'main':
+        return 'main';
+      case 'aside':
+        return 'complementary';
+      case 'form':
+        return 'form';
+      case 'section':
+        return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : '';
+      case 'table':
+        return 'table';
+      case 'th':
+        return element.getAttribute('scope') === 'row' ? 'rowheader' : 'columnheader';
+      case 'td':
+        return 'cell';
+      case 'tr':
+        return 'row';
+      case 'ul':
+      case 'ol':
+        return 'list';
+      case 'li':
+        return 'listitem';
+      case 'dialog':
+        return 'dialog';
+      case 'fieldset':
+        return 'group';
+      case 'figure':
+        return 'figure';
+      case 'option':
+        return 'option';
+      case 'progress':
+        return 'progressbar';
+      case 'meter':
+        return 'meter';
+      case 'svg':
+        return 'graphics-document';
+      default:
+        return '';
+    }
+  }
+
+  private getInputRole(input: HTMLInputElement): string {
+    const type = (input.getAttribute('type') || 'text').toLowerCase();
+
+    switch (type) {
+      case 'button':
+      case 'submit':
+      case 'reset':
+      case 'image':
+        return 'button';
+      case 'checkbox':
+        return 'checkbox';
+      case 'radio':
+        return 'radio';
+      case 'range':
+        return 'slider';
+      case 'number':
+        return 'spinbutton';
+      case 'search':
+        return input.hasAttribute('list') ? 'combobox' : 'searchbox';
+      case 'hidden':
+        return '';
+      default:
+        return input.hasAttribute('list') ? 'combobox' : 'textbox';
+    }
+  }
+
+  // Utility Methods
+
+  private isLabelable(element: Element): boolean {
+    return ['input', 'select', 'textarea', 'meter', 'progress', 'output', 'button']
+      .includes(element.tagName.toLowerCase());
+  }
+
+  private isTextField(element: Element): boolean {
+    const role = this.getRole(element);
+    return role === 'textbox' || role === 'searchbox' || role === 'combobox';
+  }
+
+  private isBlockLevel(element: Element): boolean {
+    // Block-level boxes introduce word boundaries in name from content
+    const display = window.getComputedStyle(element).display;
+    return !!display && !display.startsWith('inline') && display !== 'contents';
+  }
+
+  private getGeneratedContent(element: Element, pseudo: '::before' | '::after'): string {
+    const content = window.getComputedStyle(element, pseudo).content;
+    if (!content || content === 'none' || content === 'normal') {
+      return '';
+    }
+
+    // Only quoted strings are announced; counters, attr() and images are ignored
+    const strings = content.match(/"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'/g);
+    if (!strings) {
+      return '';
+    }
+
+    return strings.map(s => s.slice(1, -1)).join('');
+  }
+
+  private getShadowHost(element: Element): Element | null {
+    const root = element.getRootNode();
+    // nodeType check instead of instanceof so shadow roots inside frames are recognised
+    return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in root ? (root as ShadowRoot).host : null;
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
+
+// Export singleton instance
+export const accessibleNameComputer = AccessibleNameComputer.getInstance();
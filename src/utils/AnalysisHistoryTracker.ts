@@ -0,0 +1,237 @@
+/**
+ * AnalysisHistoryTracker.ts
+ *
+ * Analysis History and Regression Detection for AccessiAI Chrome Extension
+ * Compares stored analyses of the same page and site over time:
+ * - Score and issue counts over time per page URL and per origin
+ * - Issues introduced and fixed since the previous scan of a page
+ * - Regression alerts broadcast through the ProductionIntegrationCoordinator
+ *
+ * A page has regressed when its score drops by REGRESSION_SCORE_DROP points or
+ * more, or when the latest scan introduced a critical or high severity issue.
+ * Issues dismissed during triage are left out of every comparison. Keyboard
+ * findings are only compared between two keyboard probe runs, and scores only
+ * between runs of the same kind, since probe findings lower the score.
+ *
+ * Performance Target: <50ms to build a trend from 30 stored analyses
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityAnalysis,
+  AccessibilityIssue,
+  AnalysisRunComparison,
+  AnalysisTrend,
+  AnalysisTrendPoint
+} from '../types/index';
+import { IndexedDBManager } from './IndexedDBManager';
+import { issueFingerprinter } from './IssueFingerprinter';
+import { issueTriageManager } from './IssueTriageManager';
+import { ProductionIntegrationCoordinatorImpl } from '../integration/ProductionIntegrationCoordinator';
+
+/**
+ * AnalysisHistoryTracker - Singleton building trends from stored analyses
+ */
+export class AnalysisHistoryTracker {
+  private static instance: AnalysisHistoryTracker;
+
+  private dbManager: IndexedDBManager;
+
+  private readonly DEFAULT_TREND_LENGTH = 30;
+  private readonly REGRESSION_SCORE_DROP = 5;   // score points
+
+  /**
+   * Get singleton instance of AnalysisHistoryTracker
+   */
+  static getInstance(): AnalysisHistoryTracker {
+    if (!AnalysisHistoryTracker.instance) {
+      AnalysisHistoryTracker.instance = new AnalysisHistoryTracker();
+    }
+    return AnalysisHistoryTracker.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[AnalysisHistoryTracker] Initializing Analysis History Tracker...');
+    this.dbManager = IndexedDBManager.getInstance();
+  }
+
+  /**
+   * Get stored analyses of a page
+   *
+   * @param pageUrl - Page URL
+   * @param limit - Maximum number of analyses
+   * @returns Promise<AccessibilityAnalysis[]> - Analyses, newest first
+   */
+  async getPageHistory(pageUrl: string, limit: number = this.DEFAULT_TREND_LENGTH): Promise<AccessibilityAnalysis[]> {
+    return this.dbManager.retrieveAccessibilityAnalyses({ pageUrl, limit });
+  }
+
+  /**
+   * Get stored analyses of every page on an origin
+   *
+   * @param origin - Origin, e.g. 'https://example.com'
+   * @param limit - Maximum number of analyses
+   * @returns Promise<AccessibilityAnalysis[]> - Analyses, newest first
+   */
+  async getOriginHistory(origin: string, limit?: number): Promise<AccessibilityAnalysis[]> {
+    const analyses = await this.dbManager.retrieveAccessibilityAnalyses();
+    const onOrigin = analyses.filter(analysis => this.getOrigin(analysis.pageUrl) === origin);
+    return limit ? onOrigin.slice(0, limit) : onOrigin;
+  }
+
+  /**
+   * Build the score trend of a page
+   *
+   * @param pageUrl - Page URL
+   * @param limit - Maximum number of points
+   * @returns Promise<AnalysisTrend> - One point per stored analysis, oldest first
+   */
+  async getPageTrend(pageUrl: string, limit: number = this.DEFAULT_TREND_LENGTH): Promise<AnalysisTrend> {
+    const history = await this.getPageHistory(pageUrl, limit);
+    const [current, previous] = history;
+
+    return {
+      scope: 'page',
+      key: pageUrl,
+      points: [...history].reverse().map(analysis => this.toPoint([analysis])),
+      latestComparison: current && previous ? this.compareRuns(previous, current) : null
+    };
+  }
+
+  /**
+   * Build the score trend of a site
+   *
+   * Each point is the average of the latest score of every page analyzed on
+   * the origin up to that moment, so a single new page moves the line by its
+   * share of the site rather than replacing it.
+   *
+   * @param origin - Origin, e.g. 'https://example.com'
+   * @param limit - Maximum number of points
+   * @returns Promise<AnalysisTrend> - One point per stored analysis, oldest first
+   */
+  async getOriginTrend(origin: string, limit: number = this.DEFAULT_TREND_LENGTH): Promise<AnalysisTrend> {
+    const history = await this.getOriginHistory(origin);
+    const latestByPage = new Map<string, AccessibilityAnalysis>();
+    const points: AnalysisTrendPoint[] = [];
+
+    for (const analysis of [...history].reverse()) {
+      latestByPage.set(analysis.pageUrl, analysis);
+      points.push({ ...this.toPoint([...latestByPage.values()]), analyzedAt: analysis.analyzedAt });
+    }
+
+    // The most recently analyzed page stands in for the site's latest change
+    const [current] = history;
+    const previous = current ? history.find(analysis => analysis !== current && analysis.pageUrl === current.pageUrl) : undefined;
+
+    return {
+      scope: 'origin',
+      key: origin,
+      points: points.slice(-limit),
+      latestComparison: current && previous ? this.compareRuns(previous, current) : null
+    };
+  }
+
+  /**
+   * Compare two analyses of the same page
+   *
+   * @param previous - Earlier analysis
+   * @param current - Later analysis
+   * @returns AnalysisRunComparison - Score change and issues introduced and fixed
+   */
+  compareRuns(previous: AccessibilityAnalysis, current: AccessibilityAnalysis): AnalysisRunComparison {
+    const sameRunMode = !!previous.keyboardProbe === !!current.keyboardProbe;
+    const includeKeyboard = !!previous.keyboardProbe && !!current.keyboardProbe;
+    const previousIssues = this.indexByFingerprint(previous.issues, includeKeyboard);
+    const currentIssues = this.indexByFingerprint(current.issues, includeKeyboard);
+
+    const introducedIssues = [...currentIssues].filter(([fingerprint]) => !previousIssues.has(fingerprint)).map(([, issue]) => issue);
+    const fixedIssues = [...previousIssues].filter(([fingerprint]) => !currentIssues.has(fingerprint)).map(([, issue]) => issue);
+    const scoreDelta = current.complianceScore - previous.complianceScore;
+
+    return {
+      pageUrl: current.pageUrl,
+      previousAnalyzedAt: previous.analyzedAt,
+      currentAnalyzedAt: current.analyzedAt,
+      previousScore: previous.complianceScore,
+      currentScore: current.complianceScore,
+      scoreDelta,
+      introducedIssues,
+      fixedIssues,
+      isRegression: (sameRunMode && scoreDelta <= -this.REGRESSION_SCORE_DROP) || introducedIssues.some(issue => this.isSevere(issue))
+    };
+  }
+
+  /**
+   * Compare the latest analysis of a page with the one before and raise an
+   * alert when the page got worse
+   *
+   * @param pageUrl - Page that was just analyzed and stored
+   * @returns Promise<AnalysisRunComparison | null> - Comparison, null before the page's second run
+   */
+  async checkForRegression(pageUrl: string): Promise<AnalysisRunComparison | null> {
+    const [current, previous] = await this.getPageHistory(pageUrl, 2);
+    if (!current || !previous) {
+      return null;
+    }
+
+    const comparison = this.compareRuns(previous, current);
+    if (comparison.isRegression) {
+      console.warn(`[AnalysisHistoryTracker] Regression on ${pageUrl}: score ${comparison.previousScore} -> ${comparison.currentScore}, ${comparison.introducedIssues.length} new issues`);
+
+      await ProductionIntegrationCoordinatorImpl.getInstance().broadcastSystemEvent({
+        type: 'system-alert',
+        source: 'analysis-history',
+        data: comparison,
+        timestamp: Date.now(),
+        correlationId: current.id ?? pageUrl
+      });
+    }
+
+    return comparison;
+  }
+
+  // Utility Methods
+
+  private toPoint(analyses: readonly AccessibilityAnalysis[]): AnalysisTrendPoint {
+    const activeIssues = analyses.flatMap(analysis => this.getActiveIssues(analysis.issues));
+    const totalScore = analyses.reduce((sum, analysis) => sum + analysis.complianceScore, 0);
+
+    return {
+      analyzedAt: Math.max(...analyses.map(analysis => analysis.analyzedAt)),
+      complianceScore: analyses.length > 0 ? Math.round(totalScore / analyses.length) : 0,
+      totalIssues: activeIssues.length,
+      criticalIssues: activeIssues.filter(issue => this.isSevere(issue)).length,
+      pageCount: analyses.length
+    };
+  }
+
+  private indexByFingerprint(issues: readonly AccessibilityIssue[], includeKeyboard: boolean): Map<string, AccessibilityIssue> {
+    return new Map(this.getActiveIssues(issues)
+      .filter(issue => includeKeyboard || issue.source !== 'keyboard')
+      .map(issue => [issue.fingerprint ?? issueFingerprinter.computeFingerprint(issue), issue]));
+  }
+
+  private getActiveIssues(issues: readonly AccessibilityIssue[]): AccessibilityIssue[] {
+    return issues.filter(issue => !issueTriageManager.isSuppressed(issue));
+  }
+
+  private isSevere(issue: AccessibilityIssue): boolean {
+    return issue.severity === 'critical' || issue.severity === 'high';
+  }
+
+  private getOrigin(pageUrl: string): string | null {
+    try {
+      return new URL(pageUrl).origin;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const analysisHistoryTracker = AnalysisHistoryTracker.getInstance();
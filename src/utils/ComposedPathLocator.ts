@@ -0,0 +1,298 @@
+/**
+ * ComposedPathLocator.ts
+ *
+ * Composed Tree Traversal and Element Locators for AccessiAI Chrome Extension
+ * Lets analyzers see the page the way assistive technology does, across
+ * encapsulation boundaries:
+ * - Element collection descending into open shadow roots and same-origin frames
+ * - Composed-path locators stored in ElementInfo.xpath
+ * - Locator resolution for quick fixes and the content-script highlighter
+ *
+ * Locator format: one XPath-style segment per tree scope, joined by a boundary
+ * marker, e.g. `//*[@id="app"] >>shadow>> /div[1]/button[2]`. Elements in the
+ * top-level document get a plain XPath so document.evaluate keeps working.
+ *
+ * Performance Target: <20ms traversal for 5,000 elements
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+export interface ComposedTraversalOptions {
+  readonly includeShadowRoots: boolean;
+  readonly includeFrames: boolean;
+}
+
+type TreeScope = Document | ShadowRoot;
+type ScopeBoundary = 'shadow' | 'frame';
+
+/**
+ * ComposedPathLocator - Singleton for composed tree traversal and locators
+ */
+export class ComposedPathLocator {
+  private static instance: ComposedPathLocator;
+
+  private readonly BOUNDARY_MARKERS: Record<ScopeBoundary, string> = {
+    shadow: ' >>shadow>> ',
+    frame: ' >>frame>> '
+  };
+  private readonly BOUNDARY_PATTERN = / >>(shadow|frame)>> /;
+
+  private readonly DEFAULT_OPTIONS: ComposedTraversalOptions = {
+    includeShadowRoots: true,
+    includeFrames: true
+  };
+
+  /**
+   * Get singleton instance of ComposedPathLocator
+   */
+  static getInstance(): ComposedPathLocator {
+    if (!ComposedPathLocator.instance) {
+      ComposedPathLocator.instance = new ComposedPathLocator();
+    }
+    return ComposedPathLocator.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[ComposedPathLocator] Initializing Composed Path Locator...');
+  }
+
+  // Traversal
+
+  /**
+   * Collect every element in document order, including open shadow trees and
+   * same-origin frame documents
+   *
+   * @param root - Document, shadow root or element to start from
+   * @param options - Which boundaries to cross
+   * @returns Element[] - Elements in composed document order
+   */
+  collectElements(root: TreeScope | Element, options: Partial<ComposedTraversalOptions> = {}): Element[] {
+    const effective = { ...this.DEFAULT_OPTIONS, ...options };
+    const elements: Element[] = [];
+
+    try {
+      const start = root.nodeType === Node.ELEMENT_NODE ? [root as Element] : Array.from((root as TreeScope).children);
+      for (const element of start) {
+        this.collectFrom(element, effective, elements);
+      }
+    } catch (error) {
+      console.error('[ComposedPathLocator] Failed to collect elements:', error);
+    }
+
+    return elements;
+  }
+
+  /**
+   * querySelectorAll across shadow and frame boundaries
+   *
+   * @param root - Document or shadow root to search
+   * @param selector - CSS selector
+   * @returns Element[] - Matching elements in composed document order
+   */
+  querySelectorAllComposed(root: TreeScope, selector: string): Element[] {
+    return this.collectElements(root).filter(element => {
+      try {
+        return element.matches(selector);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  private collectFrom(element: Element, options: ComposedTraversalOptions, elements: Element[]): void {
+    elements.push(element);
+
+    if (options.includeShadowRoots && element.shadowRoot) {
+      for (const child of Array.from(element.shadowRoot.children)) {
+        this.collectFrom(child, options, elements);
+      }
+    }
+
+    if (options.includeFrames) {
+      const frameDocument = this.getFrameDocument(element);
+      if (frameDocument?.documentElement) {
+        this.collectFrom(frameDocument.documentElement, options, elements);
+      }
+    }
+
+    for (const child of Array.from(element.children)) {
+      this.collectFrom(child, options, elements);
+    }
+  }
+
+  // Locators
+
+  /**
+   * Build a composed-path locator for an element
+   *
+   * @param element - Element to locate
+   * @returns string - Locator resolvable by resolveLocator
+   */
+  getLocator(element: Element): string {
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+      const scope = current.getRootNode() as TreeScope;
+      segments.unshift(this.getScopedPath(current, scope));
+
+      if (this.isShadowRoot(scope)) {
+        segments.unshift(this.BOUNDARY_MARKERS.shadow);
+        current = scope.host;
+      } else {
+        const frameElement = this.getOwnerFrame(scope as Document);
+        if (frameElement) {
+          segments.unshift(this.BOUNDARY_MARKERS.frame);
+        }
+        current = frameElement;
+      }
+    }
+
+    return segments.join('');
+  }
+
+  /**
+   * Resolve a locator produced by getLocator (or a plain XPath) to an element
+   *
+   * @param locator - Composed-path locator or XPath
+   * @param rootDocument - Top-level document to resolve against
+   * @returns Element | null - Matching element, null if it no longer exists
+   */
+  resolveLocator(locator: string, rootDocument: Document = document): Element | null {
+    try {
+      const parts = locator.split(this.BOUNDARY_PATTERN);
+      let scope: TreeScope = rootDocument;
+      let element = this.resolveSegment(parts[0] || '', scope);
+
+      // split() with a capture group yields [segment, boundary, segment, ...]
+      for (let i = 1; i < parts.length && element; i += 2) {
+        const boundary = parts[i] as ScopeBoundary;
+        const segment = parts[i + 1] || '';
+
+        const nextScope: TreeScope | null = boundary === 'shadow'
+          ? element.shadowRoot
+          : this.getFrameDocument(element);
+        if (!nextScope) {
+          return null;
+        }
+
+        scope = nextScope;
+        element = this.resolveSegment(segment, scope);
+      }
+
+      return element;
+
+    } catch (error) {
+      console.warn('[ComposedPathLocator] Failed to resolve locator:', locator, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a locator crosses a shadow or frame boundary
+   */
+  isComposedLocator(locator: string): boolean {
+    return this.BOUNDARY_PATTERN.test(locator);
+  }
+
+  private getScopedPath(element: Element, scope: TreeScope): string {
+    // Ids are only unique within their own tree scope
+    if (element.id && !element.id.includes('"') && scope.getElementById(element.id) === element) {
+      return `//*[@id="${element.id}"]`;
+    }
+
+    const steps: string[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+      const tagName = current.localName;
+      let index = 1;
+      let sibling = current.previousElementSibling;
+
+      while (sibling) {
+        if (sibling.localName === tagName) {
+          index++;
+        }
+        sibling = sibling.previousElementSibling;
+      }
+
+      steps.unshift(`${tagName}[${index}]`);
+      current = current.parentElement;
+    }
+
+    return `/${steps.join('/')}`;
+  }
+
+  private resolveSegment(segment: string, scope: TreeScope): Element | null {
+    const idMatch = segment.match(/^\/\/\*\[@id="([^"]*)"\]$/);
+    if (idMatch) {
+      return scope.getElementById(idMatch[1] || '');
+    }
+
+    const stepPattern = /^(\/[^/[\]]+\[\d+\])+$/;
+    if (stepPattern.test(segment)) {
+      let candidates: Element[] = Array.from(scope.children);
+      let match: Element | null = null;
+
+      for (const step of segment.substring(1).split('/')) {
+        const [, tagName, position] = step.match(/^([^[]+)\[(\d+)\]$/) || [];
+        const sameTag = candidates.filter(candidate => candidate.localName === tagName);
+        match = sameTag[Number(position) - 1] ?? null;
+        if (!match) {
+          return null;
+        }
+        candidates = Array.from(match.children);
+      }
+
+      return match;
+    }
+
+    // Arbitrary XPath from other analyzers, only evaluable against documents
+    if (scope.nodeType === Node.DOCUMENT_NODE) {
+      const doc = scope as Document;
+      const result = doc.evaluate(segment, doc, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+      return result.singleNodeValue as Element | null;
+    }
+
+    return null;
+  }
+
+  // Utility Methods
+
+  /**
+   * Realm-independent shadow root check; instanceof fails for nodes that
+   * live in a frame's document
+   */
+  private isShadowRoot(node: Node): node is ShadowRoot {
+    return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node;
+  }
+
+  private getFrameDocument(element: Element): Document | null {
+    const tagName = element.localName;
+    if (tagName !== 'iframe' && tagName !== 'frame') {
+      return null;
+    }
+
+    try {
+      // Cross-origin frames throw or return null here
+      return (element as HTMLIFrameElement).contentDocument;
+    } catch {
+      return null;
+    }
+  }
+
+  private getOwnerFrame(scope: Document): Element | null {
+    try {
+      return scope.defaultView?.frameElement ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const composedPathLocator = ComposedPathLocator.getInstance();
@@ -0,0 +1,551 @@
+/**
+ * ConformanceReportGenerator.ts
+ *
+ * Accessibility Conformance Reports for AccessiAI Chrome Extension
+ * Builds WCAG-EM style conformance reports in the VPAT® 2.x (WCAG edition) structure:
+ * - Per-page criterion verdicts from AccessibilityScanner.validateWCAGCompliance
+ * - Criteria without automated checks (see WCAGCatalog) reported as Not Evaluated
+ *   until a tester records a verdict (see ManualCheckManager)
+ * - Aggregation across every page analyzed in the current audit session
+ * - Supports / Partially Supports / Does Not Support / Not Applicable per criterion
+ * - Evidence links to the issues behind each verdict
+ * - Auditor remarks persisted with the session
+ * - HTML and JSON export
+ *
+ * Analyses are read from IndexedDB, so a session covers the pages of one site.
+ *
+ * Performance Target: <100ms to build a report from 50 pages
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityAnalysis,
+  AccessibilityIssue,
+  CriterionEvaluation,
+  IssueSeverity,
+  ManualCheckResult,
+  WCAGCatalogEntry,
+  WCAGCriteria
+} from '../types/index';
+import { accessibilityScanner } from './AccessibilityScanner';
+import { IndexedDBManager } from './IndexedDBManager';
+import type { GeneratedReport } from './ReportGenerator';
+import { wcagCatalog } from './WCAGCatalog';
+
+export type ConformanceLevel = 'Supports' | 'Partially Supports' | 'Does Not Support' | 'Not Applicable' | 'Not Evaluated';
+
+export type ConformanceReportFormat = 'html' | 'json';
+
+/**
+ * Audit session grouping the pages covered by one report
+ */
+export interface AuditSession {
+  readonly id: string;
+  readonly startedAt: number;
+  readonly remarks: Record<string, string>;   // auditor remarks by criterion id
+}
+
+/**
+ * Issue cited as evidence for a criterion verdict
+ */
+export interface ConformanceEvidence {
+  readonly pageUrl: string;
+  readonly issueId: string;
+  readonly fingerprint: string | null;
+  readonly description: string;
+  readonly severity: IssueSeverity;
+  readonly locator: string;
+}
+
+/**
+ * One row of the conformance table
+ */
+export interface ConformanceRow {
+  readonly criterion: WCAGCriteria;
+  readonly conformance: ConformanceLevel;
+  readonly pagesEvaluated: number;
+  readonly pagesFailing: number;
+  readonly evidence: readonly ConformanceEvidence[];
+  readonly generatedRemarks: string;
+  readonly remarks: string;                  // auditor remarks, or the generated ones when none were written
+}
+
+/**
+ * Conformance report for a session and target level
+ */
+export interface ConformanceReport {
+  readonly productName: string;
+  readonly level: WCAGCriteria['level'];
+  readonly session: AuditSession;
+  readonly pageUrls: readonly string[];
+  readonly generatedAt: number;
+  readonly rows: readonly ConformanceRow[];
+}
+
+/**
+ * ConformanceReportGenerator - Singleton building conformance reports
+ */
+export class ConformanceReportGenerator {
+  private static instance: ConformanceReportGenerator;
+
+  private dbManager: IndexedDBManager;
+
+  private readonly SESSION_STORAGE_KEY = 'accessiaiAuditSession';
+
+  // Triage statuses meaning the finding is not a real failure
+  private readonly NON_FAILING_TRIAGE = new Set(['false-positive', 'resolved']);
+
+  private readonly LEVELS: WCAGCriteria['level'][] = ['A', 'AA', 'AAA'];
+
+  /**
+   * Get singleton instance of ConformanceReportGenerator
+   */
+  static getInstance(): ConformanceReportGenerator {
+    if (!ConformanceReportGenerator.instance) {
+      ConformanceReportGenerator.instance = new ConformanceReportGenerator();
+    }
+    return ConformanceReportGenerator.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[ConformanceReportGenerator] Initializing Conformance Report Generator...');
+    this.dbManager = IndexedDBManager.getInstance();
+  }
+
+  /**
+   * Evaluate every success criterion with automated checks for the current page
+   *
+   * Stored with the analysis so later reports can aggregate pages that are no
+   * longer open. Manual-only criteria get no verdict and stay Not Evaluated.
+   *
+   * @param document - Analyzed document
+   * @param issues - Issues found on the page
+   * @returns Promise<CriterionEvaluation[]> - One verdict per criterion
+   */
+  async evaluatePage(document: Document, issues: readonly AccessibilityIssue[]): Promise<CriterionEvaluation[]> {
+    const failingIssues = issues.filter(issue => !issue.triage || !this.NON_FAILING_TRIAGE.has(issue.triage.status));
+
+    const testable = wcagCatalog.getCriteria('AAA').filter(entry => entry.automation !== 'manual');
+
+    return Promise.all(testable.map(async criteria => {
+      const result = await accessibilityScanner.validateWCAGCompliance(document.documentElement, criteria.id, failingIssues);
+      return {
+        criterion: criteria.id,
+        status: result.status,
+        issueIds: result.issues.map(issue => issue.id),
+        source: 'automated' as const
+      };
+    }));
+  }
+
+  /**
+   * Build a conformance report for the current audit session
+   *
+   * The latest analysis of each page analyzed since the session started is used.
+   *
+   * @param level - Target conformance level
+   * @param productName - Name shown on the report, defaults to the first page's host
+   * @returns Promise<ConformanceReport> - Report rows for every criterion up to the level
+   */
+  async buildReport(level: WCAGCriteria['level'], productName?: string): Promise<ConformanceReport> {
+    const startTime = performance.now();
+    const session = await this.getSession();
+    const analyses = await this.getSessionAnalyses(session);
+
+    const rows = wcagCatalog.getCriteria(level).map(criterion => {
+      const row = this.buildRow(criterion, analyses);
+      return { ...row, remarks: session.remarks[criterion.id] || row.generatedRemarks };
+    });
+
+    const pageUrls = analyses.map(analysis => analysis.pageUrl);
+    console.log(`[ConformanceReportGenerator] Report for ${pageUrls.length} pages built in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+    return {
+      productName: productName || this.getDefaultProductName(pageUrls),
+      level,
+      session,
+      pageUrls,
+      generatedAt: Date.now(),
+      rows
+    };
+  }
+
+  /**
+   * Generate a downloadable conformance report
+   *
+   * @param report - Report to export
+   * @param format - 'html' or 'json'
+   * @returns GeneratedReport - Content with filename and MIME type
+   */
+  exportReport(report: ConformanceReport, format: ConformanceReportFormat): GeneratedReport {
+    const baseName = `accessiai-acr-${report.productName.replace(/[^a-z0-9.-]+/gi, '-').toLowerCase()}-${new Date(report.generatedAt).toISOString().substring(0, 10)}`;
+
+    if (format === 'json') {
+      return {
+        format: 'json',
+        filename: `${baseName}.json`,
+        mimeType: 'application/json',
+        content: JSON.stringify(this.toVPATStructure(report), null, 2)
+      };
+    }
+
+    return {
+      format: 'html',
+      filename: `${baseName}.html`,
+      mimeType: 'text/html;charset=utf-8',
+      content: this.generateHTML(report)
+    };
+  }
+
+  /**
+   * Save an auditor remark for a criterion in the current session
+   *
+   * An empty remark falls back to the generated one.
+   */
+  async setRemarks(criterion: string, remarks: string): Promise<AuditSession> {
+    const session = await this.getSession();
+    const { [criterion]: _previous, ...otherRemarks } = session.remarks;
+    const updated: AuditSession = {
+      ...session,
+      remarks: remarks.trim() ? { ...otherRemarks, [criterion]: remarks.trim() } : otherRemarks
+    };
+    await this.saveSession(updated);
+    return updated;
+  }
+
+  /**
+   * Get the current audit session, starting one if none exists
+   */
+  async getSession(): Promise<AuditSession> {
+    try {
+      const result = await chrome.storage.local.get([this.SESSION_STORAGE_KEY]);
+      const session = result[this.SESSION_STORAGE_KEY] as AuditSession | undefined;
+      if (session) {
+        return session;
+      }
+    } catch (error) {
+      console.warn('[ConformanceReportGenerator] Failed to load audit session:', error);
+    }
+    return this.startNewSession();
+  }
+
+  /**
+   * Start a new audit session; pages analyzed before now are no longer reported
+   */
+  async startNewSession(): Promise<AuditSession> {
+    const session: AuditSession = {
+      id: `session-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      startedAt: Date.now(),
+      remarks: {}
+    };
+    await this.saveSession(session);
+    console.log(`[ConformanceReportGenerator] Started audit session ${session.id}`);
+    return session;
+  }
+
+  // Aggregation
+
+  private async getSessionAnalyses(session: AuditSession): Promise<AccessibilityAnalysis[]> {
+    const analyses = await this.dbManager.retrieveAccessibilityAnalyses({ since: session.startedAt });
+    const latestByPage = new Map<string, AccessibilityAnalysis>();
+
+    // Analyses arrive newest first; pages stored before verdicts were recorded are skipped
+    for (const analysis of analyses) {
+      if (analysis.criteriaEvaluations && !latestByPage.has(analysis.pageUrl)) {
+        latestByPage.set(analysis.pageUrl, analysis);
+      }
+    }
+
+    return [...latestByPage.values()].sort((a, b) => a.pageUrl.localeCompare(b.pageUrl));
+  }
+
+  private buildRow(criterion: WCAGCatalogEntry, analyses: readonly AccessibilityAnalysis[]): Omit<ConformanceRow, 'remarks'> {
+    const evidence: ConformanceEvidence[] = [];
+    const manualChecks: ManualCheckResult[] = [];
+    let evaluated = 0;
+    let applicable = 0;
+    let passing = 0;
+    let failing = 0;
+
+    for (const analysis of analyses) {
+      const evaluation = analysis.criteriaEvaluations?.find(item => item.criterion === criterion.id);
+      if (!evaluation) continue;
+
+      evaluated++;
+      const manualCheck = evaluation.source === 'manual'
+        ? analysis.manualChecks?.find(item => item.criterion === criterion.id)
+        : undefined;
+      if (manualCheck) {
+        manualChecks.push(manualCheck);
+      }
+      if (evaluation.status === 'not-applicable') continue;
+
+      applicable++;
+      if (evaluation.status === 'pass') {
+        passing++;
+        continue;
+      }
+      if (evaluation.status === 'fail') {
+        failing++;
+      }
+
+      const issueIds = new Set(evaluation.issueIds);
+      for (const issue of analysis.issues) {
+        if (!issueIds.has(issue.id)) continue;
+        evidence.push({
+          pageUrl: analysis.pageUrl,
+          issueId: issue.id,
+          fingerprint: issue.fingerprint ?? null,
+          description: issue.description,
+          severity: issue.severity,
+          locator: issue.element.xpath
+        });
+      }
+    }
+
+    const conformance = this.getConformanceLevel(evaluated, applicable, passing, failing);
+    const pagesFailing = applicable - passing;
+
+    return {
+      criterion,
+      conformance,
+      pagesEvaluated: evaluated,
+      pagesFailing,
+      evidence,
+      generatedRemarks: this.getGeneratedRemarks(criterion, conformance, analyses.length, applicable, pagesFailing, evidence, manualChecks)
+    };
+  }
+
+  private getConformanceLevel(evaluated: number, applicable: number, passing: number, failing: number): ConformanceLevel {
+    if (evaluated === 0) return 'Not Evaluated';
+    if (applicable === 0) return 'Not Applicable';
+    if (passing === applicable) return 'Supports';
+    if (failing === applicable) return 'Does Not Support';
+    return 'Partially Supports';
+  }
+
+  private getGeneratedRemarks(
+    criterion: WCAGCatalogEntry,
+    conformance: ConformanceLevel,
+    pages: number,
+    applicable: number,
+    pagesFailing: number,
+    evidence: readonly ConformanceEvidence[],
+    manualChecks: readonly ManualCheckResult[]
+  ): string {
+    const manualNotes = [...new Set(manualChecks.map(check => check.note).filter(Boolean))].slice(0, 3);
+    const noteSuffix = manualNotes.length > 0 ? ` Tester notes: ${manualNotes.join('; ')}.` : '';
+
+    switch (conformance) {
+      case 'Not Evaluated':
+        if (pages === 0) return 'No pages have been analyzed in this audit session.';
+        return criterion.automation === 'manual'
+          ? 'Requires manual review; automated checks cannot evaluate this criterion.'
+          : 'Requires manual review; none of the analyzed pages were checked against this criterion.';
+      case 'Not Applicable':
+        return `None of the ${pages} evaluated pages contain content this criterion applies to.`;
+      case 'Supports':
+        if (manualChecks.length === applicable) {
+          return `Passed manual review on the ${applicable} applicable pages.${noteSuffix}`;
+        }
+        return criterion.automation === 'partial'
+          ? `No issues were detected on the ${applicable} applicable pages. Automated checks only cover part of this criterion; manual review is still needed.`
+          : `No issues were detected on the ${applicable} applicable pages.`;
+      default: {
+        if (evidence.length === 0) {
+          return `Failed manual review on ${pagesFailing} of ${applicable} applicable pages.${noteSuffix}`;
+        }
+        const descriptions = [...new Set(evidence.map(item => item.description))].slice(0, 3);
+        return `${evidence.length} issue${evidence.length === 1 ? '' : 's'} on ${pagesFailing} of ${applicable} applicable pages, including: ${descriptions.join('; ')}.${noteSuffix}`;
+      }
+    }
+  }
+
+  // Export Formats
+
+  /**
+   * Shape the report like the VPAT 2.x WCAG edition: product information,
+   * evaluation methods, applicable standards and one table per level
+   */
+  private toVPATStructure(report: ConformanceReport): Record<string, unknown> {
+    return {
+      format: 'VPAT 2.x WCAG Edition',
+      productInformation: {
+        name: report.productName,
+        reportDate: new Date(report.generatedAt).toISOString(),
+        description: `Pages analyzed between ${new Date(report.session.startedAt).toISOString()} and ${new Date(report.generatedAt).toISOString()}`
+      },
+      evaluationMethodsUsed: this.getEvaluationMethods(report),
+      applicableStandards: this.LEVELS.map(level => ({
+        standard: `WCAG 2.2 Level ${level}`,
+        included: this.isLevelIncluded(level, report.level)
+      })),
+      pagesEvaluated: report.pageUrls,
+      tables: this.LEVELS
+        .filter(level => this.isLevelIncluded(level, report.level))
+        .map(level => ({
+          title: `Table: Success Criteria, Level ${level}`,
+          level,
+          criteria: report.rows.filter(row => row.criterion.level === level).map(row => ({
+            criterion: row.criterion.id,
+            name: row.criterion.successCriteria,
+            conformanceLevel: row.conformance,
+            remarks: row.remarks,
+            pagesEvaluated: row.pagesEvaluated,
+            pagesFailing: row.pagesFailing,
+            evidence: row.evidence
+          }))
+        }))
+    };
+  }
+
+  private generateHTML(report: ConformanceReport): string {
+    const tables = this.LEVELS
+      .filter(level => this.isLevelIncluded(level, report.level))
+      .map(level => {
+        const rows = report.rows.filter(row => row.criterion.level === level);
+        return `
+    <h3>Table: Success Criteria, Level ${level}</h3>
+    <table>
+      <thead>
+        <tr><th scope="col">Criteria</th><th scope="col">Conformance Level</th><th scope="col">Remarks and Explanations</th></tr>
+      </thead>
+      <tbody>${rows.length === 0 ? `
+        <tr><td colspan="3">No Level ${level} criteria are evaluated by this tool.</td></tr>` : rows.map(row => `
+        <tr>
+          <th scope="row">${row.criterion.id} ${this.escapeHTML(row.criterion.successCriteria)} (Level ${row.criterion.level})</th>
+          <td>${row.conformance}</td>
+          <td>${this.escapeHTML(row.remarks)}${row.evidence.length > 0 ? ` <a href="#evidence-${this.getAnchor(row.criterion.id)}">Evidence (${row.evidence.length})</a>` : ''}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>`;
+      }).join('');
+
+    const evidenceSections = report.rows.filter(row => row.evidence.length > 0).map(row => `
+    <section id="evidence-${this.getAnchor(row.criterion.id)}">
+      <h3>${row.criterion.id} ${this.escapeHTML(row.criterion.successCriteria)}</h3>
+      <ul>${row.evidence.map(item => `
+        <li>
+          <strong>${this.escapeHTML(item.severity)}</strong>: ${this.escapeHTML(item.description)}
+          <br><a href="${this.escapeHTML(item.pageUrl)}">${this.escapeHTML(item.pageUrl)}</a> – <code>${this.escapeHTML(item.locator)}</code>${item.fingerprint ? ` <small>(${this.escapeHTML(item.fingerprint)})</small>` : ''}
+        </li>`).join('')}
+      </ul>
+    </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${this.escapeHTML(report.productName)} Accessibility Conformance Report</title>
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; color: #222; line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 24px; }
+    h1 { font-size: 1.6em; }
+    h2 { font-size: 1.3em; border-bottom: 2px solid #667eea; padding-bottom: 4px; margin-top: 2em; }
+    h3 { font-size: 1.1em; }
+    table { border-collapse: collapse; width: 100%; margin: 12px 0; }
+    th, td { border: 1px solid #999; padding: 6px 10px; text-align: left; vertical-align: top; }
+    thead th { background: #f3f4fb; }
+    tbody th { font-weight: 600; width: 30%; }
+    dt { font-weight: 600; }
+    dd { margin: 0 0 8px; }
+    @media print {
+      body { max-width: none; padding: 0; font-size: 10pt; }
+      a { color: inherit; }
+      tr, li { break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${this.escapeHTML(report.productName)} Accessibility Conformance Report</h1>
+    <p>WCAG Edition (based on the VPAT® 2.x format)</p>
+  </header>
+  <main>
+    <dl>
+      <dt>Name of Product/Version</dt><dd>${this.escapeHTML(report.productName)}</dd>
+      <dt>Report Date</dt><dd>${this.escapeHTML(new Date(report.generatedAt).toLocaleDateString())}</dd>
+      <dt>Product Description</dt><dd>${report.pageUrls.length} pages analyzed in audit session started ${this.escapeHTML(new Date(report.session.startedAt).toLocaleString())}</dd>
+      <dt>Contact Information</dt><dd>&nbsp;</dd>
+      <dt>Evaluation Methods Used</dt><dd>${this.escapeHTML(this.getEvaluationMethods(report))}</dd>
+    </dl>
+
+    <h2>Applicable Standards/Guidelines</h2>
+    <table>
+      <thead><tr><th scope="col">Standard/Guideline</th><th scope="col">Included In Report</th></tr></thead>
+      <tbody>${this.LEVELS.map(level => `
+        <tr><th scope="row">Web Content Accessibility Guidelines 2.1 Level ${level}</th><td>${this.isLevelIncluded(level, report.level) ? 'Yes' : 'No'}</td></tr>`).join('')}
+      </tbody>
+    </table>
+
+    <h2>Terms</h2>
+    <ul>
+      <li><strong>Supports</strong>: The functionality of the product has at least one method that meets the criterion without known defects.</li>
+      <li><strong>Partially Supports</strong>: Some functionality of the product does not meet the criterion.</li>
+      <li><strong>Does Not Support</strong>: The majority of product functionality does not meet the criterion.</li>
+      <li><strong>Not Applicable</strong>: The criterion is not relevant to the product.</li>
+      <li><strong>Not Evaluated</strong>: The product has not been evaluated against the criterion.</li>
+    </ul>
+
+    <h2>WCAG 2.2 Report</h2>
+    ${tables}
+
+    <h2>Pages Evaluated</h2>
+    <ul>${report.pageUrls.map(url => `
+      <li><a href="${this.escapeHTML(url)}">${this.escapeHTML(url)}</a></li>`).join('')}
+    </ul>
+
+    ${evidenceSections ? `<h2>Evidence</h2>${evidenceSections}` : ''}
+  </main>
+</body>
+</html>
+`;
+  }
+
+  // Utility Methods
+
+  private getEvaluationMethods(report: ConformanceReport): string {
+    return `Automated testing with AccessiAI ${report.pageUrls.length === 1 ? 'of 1 page' : `of ${report.pageUrls.length} pages`}, reviewed by an auditor. Automated checks cannot decide every criterion; remarks record manual findings.`;
+  }
+
+  private isLevelIncluded(level: WCAGCriteria['level'], target: WCAGCriteria['level']): boolean {
+    return this.LEVELS.indexOf(level) <= this.LEVELS.indexOf(target);
+  }
+
+  private getDefaultProductName(pageUrls: readonly string[]): string {
+    try {
+      return pageUrls[0] ? new URL(pageUrls[0]).hostname : 'Website';
+    } catch {
+      return 'Website';
+    }
+  }
+
+  private getAnchor(criterion: string): string {
+    return criterion.replace(/\./g, '-');
+  }
+
+  private async saveSession(session: AuditSession): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [this.SESSION_STORAGE_KEY]: session });
+    } catch (error) {
+      console.warn('[ConformanceReportGenerator] Failed to save audit session:', error);
+    }
+  }
+
+  private escapeHTML(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+// Export singleton instance
+export const conformanceReportGenerator = ConformanceReportGenerator.getInstance();
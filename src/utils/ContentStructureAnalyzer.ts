@@ -17,10 +17,13 @@
 import { 
   AccessibilityIssue,
   ContentAnalysisResult,
-  ElementInfo,
   AccessibilityIssueType,
-  IssueSeverity
+  IssueSeverity,
+  WCAGCheckId
 } from '../types/index';
+import { accessibleNameComputer } from './AccessibleNameComputer';
+import { domAnalyzer } from './DOMAnalyzer';
+import { wcagCatalog } from './WCAGCatalog';
 
 /**
  * ContentStructureAnalyzer - Singleton class for content structure accessibility analysis
@@ -117,6 +120,31 @@ export class ContentStructureAnalyzer {
     }
   }
 
+  /**
+   * Re-run content structure checks for a subset of elements
+   * 
+   * Form label checks run for the given controls only; heading and landmark
+   * checks depend on the whole page and run only when requested.
+   * 
+   * @param document - Document the elements belong to
+   * @param elements - Elements affected by a DOM change
+   * @param includeDocumentChecks - Whether to re-validate headings and landmarks
+   * @returns Promise<AccessibilityIssue[]> - Issues for the affected elements
+   */
+  async analyzeElements(document: Document, elements: Element[], includeDocumentChecks: boolean): Promise<AccessibilityIssue[]> {
+    const controls = elements.filter(el => 
+      ['input', 'select', 'textarea'].includes(el.localName) && el.closest('form') !== null
+    );
+
+    const [formIssues, headingIssues, landmarkIssues] = await Promise.all([
+      this.validateFormControls(controls),
+      includeDocumentChecks ? this.validateHeadingHierarchy(document) : Promise.resolve([]),
+      includeDocumentChecks ? this.validateLandmarks(document) : Promise.resolve([])
+    ]);
+
+    return [...headingIssues, ...landmarkIssues, ...formIssues];
+  }
+
   /**
    * Validate heading hierarchy for accessibility compliance
    * 
@@ -197,6 +225,7 @@ export class ContentStructureAnalyzer {
     if (mainElements.length === 0) {
       issues.push(await this.createIssue({
         type: 'semantic-markup',
+        check: 'landmarks',
         severity: 'high',
         element: document.body,
         description: 'Page is missing a main landmark',
@@ -209,6 +238,7 @@ export class ContentStructureAnalyzer {
     if (navElements.length === 0) {
       issues.push(await this.createIssue({
         type: 'semantic-markup',
+        check: 'landmarks',
         severity: 'medium',
         element: document.body,
         description: 'Page is missing navigation landmarks',
@@ -225,45 +255,37 @@ export class ContentStructureAnalyzer {
    * @returns Promise<AccessibilityIssue[]> - Form accessibility issues
    */
   private async validateFormAccessibility(document: Document): Promise<AccessibilityIssue[]> {
-    const issues: AccessibilityIssue[] = [];
     const forms = Array.from(document.querySelectorAll('form'));
+    const controls = forms.flatMap(form => Array.from(form.querySelectorAll('input, select, textarea')));
 
-    for (const form of forms) {
-      const controls = Array.from(form.querySelectorAll('input, select, textarea'));
+    return this.validateFormControls(controls);
+  }
+
+  /**
+   * Check that each form control has an accessible name
+   * 
+   * @param controls - Form controls to check
+   * @returns Promise<AccessibilityIssue[]> - Missing label issues
+   */
+  private async validateFormControls(controls: Element[]): Promise<AccessibilityIssue[]> {
+    const issues: AccessibilityIssue[] = [];
+
+    for (const control of controls) {
+      if (control.getAttribute('type') === 'hidden' || accessibleNameComputer.isHiddenFromAccessibilityTree(control)) {
+        continue;
+      }
       
-      for (const control of controls) {
-        const id = control.getAttribute('id');
-        const ariaLabel = control.getAttribute('aria-label');
-        const ariaLabelledBy = control.getAttribute('aria-labelledby');
-        
-        let hasLabel = false;
-        
-        // Check for explicit label
-        if (id) {
-          const label = document.querySelector(`label[for="${id}"]`);
-          if (label) hasLabel = true;
-        }
-        
-        // Check for implicit label
-        if (!hasLabel) {
-          const parentLabel = control.closest('label');
-          if (parentLabel) hasLabel = true;
-        }
-        
-        // Check for ARIA labeling
-        if (!hasLabel && (ariaLabel || ariaLabelledBy)) {
-          hasLabel = true;
-        }
-        
-        if (!hasLabel) {
-          issues.push(await this.createIssue({
-            type: 'missing-labels',
-            severity: 'high',
-            element: control,
-            description: 'Form control is missing a label',
-            suggestedFix: 'Add a <label> element or aria-label attribute'
-          }));
-        }
+      // Labels, aria-label(ledby), title and placeholder all resolve through AccName
+      const hasLabel = accessibleNameComputer.hasAccessibleName(control);
+      
+      if (!hasLabel) {
+        issues.push(await this.createIssue({
+          type: 'missing-labels',
+          severity: 'high',
+          element: control,
+          description: 'Form control is missing a label',
+          suggestedFix: 'Add a <label> element or aria-label attribute'
+        }));
       }
     }
 
@@ -278,12 +300,13 @@ export class ContentStructureAnalyzer {
    */
   private async createIssue(issueData: {
     type: AccessibilityIssueType;
+    check?: WCAGCheckId;
     severity: IssueSeverity;
     element: Element;
     description: string;
     suggestedFix: string;
   }): Promise<AccessibilityIssue> {
-    const elementInfo = this.createElementInfo(issueData.element);
+    const elementInfo = domAnalyzer.createElementInfo(issueData.element);
 
     return {
       id: `content-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
@@ -291,102 +314,26 @@ export class ContentStructureAnalyzer {
       severity: issueData.severity,
       element: elementInfo,
       description: issueData.description,
-      wcagCriteria: this.getWCAGCriteria(issueData.type),
+      wcagCriteria: issueData.check
+        ? wcagCatalog.getCriteriaForCheck(issueData.check)
+        : wcagCatalog.getCriteriaForIssueType(issueData.type),
       suggestedFix: issueData.suggestedFix,
       detectedAt: Date.now(),
-      confidence: 0.95 // High confidence for content structure analysis
+      confidence: 0.95, // High confidence for content structure analysis
+      source: 'content-structure'
     };
   }
 
-  /**
-   * Create element information object
-   * 
-   * @param element - Element to create info for
-   * @returns ElementInfo - Element information
-   */
-  private createElementInfo(element: Element): ElementInfo {
-    const rect = element.getBoundingClientRect();
-    const attributes: Record<string, string> = {};
-
-    for (let i = 0; i < element.attributes.length; i++) {
-      const attr = element.attributes[i];
-      if (attr) {
-        attributes[attr.name] = attr.value;
-      }
-    }
-
-    const elementInfo: ElementInfo = {
-      tagName: element.tagName.toLowerCase(),
-      xpath: this.getXPath(element),
-      attributes,
-      boundingRect: rect
-    };
-
-    if (element.id) (elementInfo as any).id = element.id;
-    if (element.className) (elementInfo as any).className = element.className;
-    if (element.textContent?.trim()) (elementInfo as any).textContent = element.textContent.trim();
-
-    return elementInfo;
-  }
-
-  /**
-   * Get XPath for element
-   * 
-   * @param element - Element to get XPath for
-   * @returns string - XPath
-   */
-  private getXPath(element: Element): string {
-    if (element.id) {
-      return `//*[@id="${element.id}"]`;
-    }
-    
-    const tagName = element.tagName.toLowerCase();
-    let index = 1;
-    let sibling = element.previousElementSibling;
-    
-    while (sibling) {
-      if (sibling.tagName.toLowerCase() === tagName) {
-        index++;
-      }
-      sibling = sibling.previousElementSibling;
-    }
-    
-    return `//${tagName}[${index}]`;
-  }
-
-  /**
-   * Get WCAG criteria for issue type
-   * 
-   * @param issueType - Issue type
-   * @returns string[] - WCAG criteria
-   */
-  private getWCAGCriteria(issueType: AccessibilityIssueType): string[] {
-    const criteriaMap: Record<AccessibilityIssueType, string[]> = {
-      'missing-alt-text': ['1.1.1'],
-      'insufficient-contrast': ['1.4.3'],
-      'keyboard-inaccessible': ['2.1.1'],
-      'missing-labels': ['1.3.1', '3.3.2'],
-      'invalid-aria': ['4.1.2'],
-      'heading-structure': ['1.3.1'],
-      'focus-management': ['2.4.3'],
-      'semantic-markup': ['1.3.1'],
-      'color-only-information': ['1.4.1'],
-      'text-size': ['1.4.4'],
-      'link-purpose': ['2.4.4'],
-      'form-validation': ['3.3.1', '3.3.2']
-    };
-
-    return criteriaMap[issueType] || ['1.3.1'];
-  }
-
   /**
    * Calculate overall accessibility score
    * 
+   * Public so the score can be recomputed after issues are dismissed during triage.
+   * 
    * @param totalIssues - Total number of issues found
    * @param document - Document analyzed
    * @returns number - Score from 0-100
    */
-  private calculateOverallScore(totalIssues: number, document: Document): number {
+  calculateOverallScore(totalIssues: number, document: Document): number {
     const totalElements = document.querySelectorAll('h1, h2, h3, h4, h5, h6, main, nav, form, input, select, textarea').length;
     if (totalElements === 0) return 100;
     
@@ -0,0 +1,865 @@
+/**
+ * ContrastEngine.ts
+ *
+ * Color Parsing and Contrast Measurement Engine for AccessiAI Chrome Extension
+ * Implements rendered-color contrast measurement shared by all analyzers:
+ * - CSS Color 4/5 parsing: hex, named, rgb, hsl, hwb, lab, lch, oklab, oklch,
+ *   color() and color-mix()
+ * - Alpha compositing of semi-transparent backgrounds up the composed tree
+ * - Group opacity applied to both text and background the way browsers paint it
+ * - WCAG 2.x luminance ratio and APCA Lc (WCAG 3 draft) with font lookup tables
+ * - "Needs review" detection for text over background images, gradients,
+ *   filters and blend modes where a single ratio would be misleading
+ *
+ * Performance Target: <2ms per element
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+/**
+ * sRGB color with 0-255 channels and 0-1 alpha
+ */
+export interface RGBAColor {
+  readonly r: number;
+  readonly g: number;
+  readonly b: number;
+  readonly a: number;
+}
+
+export interface ContrastMeasurement {
+  readonly foreground: RGBAColor;
+  readonly background: RGBAColor;
+  readonly foregroundColor: string;
+  readonly backgroundColor: string;
+  readonly contrastRatio: number;
+  readonly apcaContrast: number;                  // signed APCA Lc, positive for dark text on light
+  readonly needsReview: boolean;
+  readonly reviewReason?: string;
+}
+
+type ColorSpace =
+  | 'srgb' | 'srgb-linear' | 'display-p3' | 'xyz' | 'xyz-d65' | 'xyz-d50'
+  | 'lab' | 'lch' | 'oklab' | 'oklch' | 'hsl' | 'hwb';
+
+type Triple = [number, number, number];
+
+/**
+ * ContrastEngine - Singleton for color parsing, compositing and contrast ratios
+ */
+export class ContrastEngine {
+  private static instance: ContrastEngine;
+
+  private readonly WHITE: RGBAColor = { r: 255, g: 255, b: 255, a: 1 };
+  private readonly TRANSPARENT: RGBAColor = { r: 0, g: 0, b: 0, a: 0 };
+
+  // CSS named colors (CSS Color 4), stored as hex
+  private readonly NAMED_COLORS: Record<string, string> = {
+    aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+    beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+    blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+    chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+    cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+    darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+    darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+    darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1',
+    darkviolet: '9400d3', deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+    dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff',
+    gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080',
+    green: '008000', greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4',
+    indianred: 'cd5c5c', indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+    lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080',
+    lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3',
+    lightpink: 'ffb6c1', lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa',
+    lightslategray: '778899', lightslategrey: '778899', lightsteelblue: 'b0c4de', lightyellow: 'ffffe0',
+    lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000',
+    mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db',
+    mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+    mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+    navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+    orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+    paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+    pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+    red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+    sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+    skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+    springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+    tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+    whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32'
+  };
+
+  // D50 <-> D65 chromatic adaptation (Bradford), from CSS Color 4
+  private readonly D50_TO_D65: Triple[] = [
+    [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+    [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+    [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+  ];
+  private readonly D65_TO_D50: Triple[] = [
+    [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+    [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+    [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371]
+  ];
+  private readonly D50_WHITE: Triple = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+  // APCA-W3 0.0.98G-4g constants
+  private readonly APCA = {
+    mainTRC: 2.4,
+    sRco: 0.2126729,
+    sGco: 0.7151522,
+    sBco: 0.0721750,
+    normBG: 0.56,
+    normTXT: 0.57,
+    revTXT: 0.62,
+    revBG: 0.65,
+    blkThrs: 0.022,
+    blkClmp: 1.414,
+    scaleBoW: 1.14,
+    scaleWoB: 1.14,
+    loBoWoffset: 0.027,
+    loWoBoffset: 0.027,
+    deltaYmin: 0.0005,
+    loClip: 0.1
+  } as const;
+
+  // APCA font lookup: minimum |Lc| by font size (px rows) and weight (100-900 columns).
+  // null marks size/weight combinations too thin or small for body text at any contrast.
+  private readonly APCA_FONT_LOOKUP: ReadonlyArray<readonly [number, ReadonlyArray<number | null>]> = [
+    [12, [null, null, null, null, null, null, null, null, null]],
+    [14, [null, null, null, 100, 100, 90, 75, null, null]],
+    [15, [null, null, null, 100, 90, 75, 70, null, null]],
+    [16, [null, null, null, 90, 75, 70, 60, 60, null]],
+    [18, [null, null, 100, 75, 70, 60, 55, 55, 55]],
+    [21, [null, null, 90, 70, 60, 55, 50, 50, 50]],
+    [24, [null, null, 75, 60, 55, 50, 45, 45, 45]],
+    [28, [null, 100, 70, 55, 50, 45, 43, 43, 43]],
+    [32, [null, 90, 65, 50, 45, 43, 40, 40, 40]],
+    [36, [null, 75, 60, 45, 43, 40, 38, 38, 38]],
+    [42, [100, 70, 55, 43, 40, 38, 35, 35, 35]],
+    [48, [90, 60, 50, 40, 38, 35, 33, 33, 33]],
+    [60, [75, 55, 45, 38, 35, 33, 30, 30, 30]],
+    [72, [60, 50, 40, 35, 33, 30, 30, 30, 30]],
+    [96, [50, 45, 35, 33, 30, 30, 30, 30, 30]]
+  ];
+
+  /**
+   * Get singleton instance of ContrastEngine
+   */
+  static getInstance(): ContrastEngine {
+    if (!ContrastEngine.instance) {
+      ContrastEngine.instance = new ContrastEngine();
+    }
+    return ContrastEngine.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[ContrastEngine] Initializing Contrast Engine...');
+  }
+
+  // Element Measurement
+
+  /**
+   * Measure the rendered contrast between an element's text and what is painted behind it
+   *
+   * @param element - Element whose own text is being measured
+   * @returns ContrastMeasurement - Composited colors, ratio and review flag
+   */
+  measureElementContrast(element: Element): ContrastMeasurement {
+    const chain = this.getAncestorChain(element);
+    const styles = window.getComputedStyle(element);
+    const textColor = this.parseColor(styles.color) ?? { r: 0, g: 0, b: 0, a: 1 };
+
+    // Render the text pixel and the background pixel through every paint layer
+    const foreground = this.renderLayers(chain, 0, this.WHITE, textColor);
+    const background = this.renderLayers(chain, 0, this.WHITE, null);
+    const reviewReason = this.getReviewReason(chain, styles);
+
+    return {
+      foreground,
+      background,
+      foregroundColor: this.formatColor(foreground),
+      backgroundColor: this.formatColor(background),
+      contrastRatio: this.calculateContrastRatio(foreground, background),
+      apcaContrast: this.calculateAPCAContrast(foreground, background),
+      needsReview: reviewReason !== null,
+      ...(reviewReason ? { reviewReason } : {})
+    };
+  }
+
+  /**
+   * Get the opaque background color painted behind an element
+   *
+   * @param element - Element to inspect
+   * @returns RGBAColor - Fully composited background
+   */
+  getEffectiveBackgroundColor(element: Element): RGBAColor {
+    return this.renderLayers(this.getAncestorChain(element), 0, this.WHITE, null);
+  }
+
+  // Contrast Math
+
+  /**
+   * WCAG 2.x contrast ratio between two colors (alpha is composited onto white first)
+   */
+  calculateContrastRatio(foreground: RGBAColor, background: RGBAColor): number {
+    const bg = background.a < 1 ? this.composite(background, this.WHITE) : background;
+    const fg = foreground.a < 1 ? this.composite(foreground, bg) : foreground;
+
+    const fgLuminance = this.getRelativeLuminance(fg);
+    const bgLuminance = this.getRelativeLuminance(bg);
+
+    const lighter = Math.max(fgLuminance, bgLuminance);
+    const darker = Math.min(fgLuminance, bgLuminance);
+
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+
+  /**
+   * APCA lightness contrast (Lc) of text on a background
+   *
+   * @param text - Text color (alpha is composited onto the background)
+   * @param background - Background color (alpha is composited onto white)
+   * @returns number - Signed Lc, roughly -108 to 106; 0 when below the noise floor
+   */
+  calculateAPCAContrast(text: RGBAColor, background: RGBAColor): number {
+    const bg = background.a < 1 ? this.composite(background, this.WHITE) : background;
+    const fg = text.a < 1 ? this.composite(text, bg) : text;
+
+    const txtY = this.getAPCALuminance(fg);
+    const bgY = this.getAPCALuminance(bg);
+    const c = this.APCA;
+
+    if (Math.abs(bgY - txtY) < c.deltaYmin) {
+      return 0;
+    }
+
+    let output: number;
+    if (bgY > txtY) {
+      // Dark text on light background
+      const sapc = (Math.pow(bgY, c.normBG) - Math.pow(txtY, c.normTXT)) * c.scaleBoW;
+      output = sapc < c.loClip ? 0 : sapc - c.loBoWoffset;
+    } else {
+      // Light text on dark background
+      const sapc = (Math.pow(bgY, c.revBG) - Math.pow(txtY, c.revTXT)) * c.scaleWoB;
+      output = sapc > -c.loClip ? 0 : sapc + c.loWoBoffset;
+    }
+
+    return output * 100;
+  }
+
+  /**
+   * Minimum APCA |Lc| for text of the given size and weight
+   *
+   * @param fontSizePx - Computed font size in CSS pixels
+   * @param fontWeight - Numeric font weight (100-900)
+   * @returns number | null - Required Lc, null if the text is too small or thin to pass
+   */
+  getAPCARequiredLc(fontSizePx: number, fontWeight: number): number | null {
+    let row: ReadonlyArray<number | null> | null = null;
+    for (const [size, values] of this.APCA_FONT_LOOKUP) {
+      if (fontSizePx + 0.01 >= size) {
+        row = values;
+      }
+    }
+    if (!row) {
+      return null;
+    }
+
+    const column = Math.min(8, Math.max(0, Math.floor((fontWeight || 400) / 100) - 1));
+    return row[column] ?? null;
+  }
+
+  /**
+   * WCAG 2.x relative luminance
+   */
+  getRelativeLuminance(color: RGBAColor): number {
+    const [r, g, b] = [color.r, color.g, color.b].map(c => {
+      const channel = c / 255;
+      return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+    }) as Triple;
+
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  }
+
+  /**
+   * Source-over compositing of one color onto another
+   */
+  composite(top: RGBAColor, bottom: RGBAColor): RGBAColor {
+    const alpha = top.a + bottom.a * (1 - top.a);
+    if (alpha === 0) {
+      return this.TRANSPARENT;
+    }
+
+    const blend = (t: number, b: number) => (t * top.a + b * bottom.a * (1 - top.a)) / alpha;
+    return {
+      r: blend(top.r, bottom.r),
+      g: blend(top.g, bottom.g),
+      b: blend(top.b, bottom.b),
+      a: alpha
+    };
+  }
+
+  /**
+   * Serialize a color as a CSS rgb()/rgba() string
+   */
+  formatColor(color: RGBAColor): string {
+    const r = Math.round(color.r);
+    const g = Math.round(color.g);
+    const b = Math.round(color.b);
+    return color.a >= 1
+      ? `rgb(${r}, ${g}, ${b})`
+      : `rgba(${r}, ${g}, ${b}, ${Math.round(color.a * 1000) / 1000})`;
+  }
+
+  private getAPCALuminance(color: RGBAColor): number {
+    const c = this.APCA;
+    const y = c.sRco * Math.pow(color.r / 255, c.mainTRC) +
+              c.sGco * Math.pow(color.g / 255, c.mainTRC) +
+              c.sBco * Math.pow(color.b / 255, c.mainTRC);
+
+    // Soft clamp near black to model flare
+    return y > c.blkThrs ? y : y + Math.pow(c.blkThrs - y, c.blkClmp);
+  }
+
+  // Color Parsing
+
+  /**
+   * Parse any CSS color value to sRGB
+   *
+   * @param value - CSS color string
+   * @param currentColor - Value to substitute for currentcolor
+   * @returns RGBAColor | null - Parsed color, null if unsupported
+   */
+  parseColor(value: string, currentColor?: RGBAColor): RGBAColor | null {
+    try {
+      const input = value.trim().toLowerCase();
+      if (!input) return null;
+
+      if (input === 'transparent') return this.TRANSPARENT;
+      if (input === 'currentcolor') return currentColor ?? null;
+
+      if (input.startsWith('#')) return this.parseHex(input.substring(1));
+
+      const named = this.NAMED_COLORS[input];
+      if (named) return this.parseHex(named);
+
+      const fn = input.match(/^([a-z-]+)\((.*)\)$/);
+      if (!fn) return null;
+
+      const name = fn[1] || '';
+      const body = fn[2] || '';
+
+      if (name === 'color-mix') return this.parseColorMix(body, currentColor);
+
+      const { channels, alpha } = this.splitChannels(body);
+
+      switch (name) {
+        case 'rgb':
+        case 'rgba':
+          return this.fromSpace('srgb', [
+            this.parseNumber(channels[0], 255) / 255,
+            this.parseNumber(channels[1], 255) / 255,
+            this.parseNumber(channels[2], 255) / 255
+          ], alpha);
+        case 'hsl':
+        case 'hsla':
+          return this.fromSpace('hsl', [
+            this.parseHue(channels[0]),
+            this.parseNumber(channels[1], 100),
+            this.parseNumber(channels[2], 100)
+          ], alpha);
+        case 'hwb':
+          return this.fromSpace('hwb', [
+            this.parseHue(channels[0]),
+            this.parseNumber(channels[1], 100),
+            this.parseNumber(channels[2], 100)
+          ], alpha);
+        case 'lab':
+          return this.fromSpace('lab', [
+            this.parseNumber(channels[0], 100),
+            this.parseNumber(channels[1], 125),
+            this.parseNumber(channels[2], 125)
+          ], alpha);
+        case 'lch':
+          return this.fromSpace('lch', [
+            this.parseNumber(channels[0], 100),
+            this.parseNumber(channels[1], 150),
+            this.parseHue(channels[2])
+          ], alpha);
+        case 'oklab':
+          return this.fromSpace('oklab', [
+            this.parseNumber(channels[0], 1),
+            this.parseNumber(channels[1], 0.4),
+            this.parseNumber(channels[2], 0.4)
+          ], alpha);
+        case 'oklch':
+          return this.fromSpace('oklch', [
+            this.parseNumber(channels[0], 1),
+            this.parseNumber(channels[1], 0.4),
+            this.parseHue(channels[2])
+          ], alpha);
+        case 'color': {
+          const space = channels[0] as ColorSpace;
+          const coords: Triple = [
+            this.parseNumber(channels[1], 1),
+            this.parseNumber(channels[2], 1),
+            this.parseNumber(channels[3], 1)
+          ];
+          return this.fromSpace(space, coords, alpha);
+        }
+        default:
+          return null;
+      }
+
+    } catch (error) {
+      console.warn('[ContrastEngine] Failed to parse color:', value, error);
+      return null;
+    }
+  }
+
+  private parseHex(hex: string): RGBAColor | null {
+    if (!/^[0-9a-f]+$/.test(hex)) return null;
+
+    const expand = hex.length <= 4 ? hex.split('').map(c => c + c).join('') : hex;
+    if (expand.length !== 6 && expand.length !== 8) return null;
+
+    const channel = (i: number) => parseInt(expand.substring(i, i + 2), 16);
+    return {
+      r: channel(0),
+      g: channel(2),
+      b: channel(4),
+      a: expand.length === 8 ? channel(6) / 255 : 1
+    };
+  }
+
+  /**
+   * color-mix(in <space> [<hue-method> hue], <color> [<pct>], <color> [<pct>])
+   */
+  private parseColorMix(body: string, currentColor?: RGBAColor): RGBAColor | null {
+    const args = this.splitTopLevel(body, ',');
+    if (args.length !== 3) return null;
+
+    const spaceMatch = (args[0] || '').match(/^in\s+([a-z0-9-]+)/);
+    const space = (spaceMatch?.[1] || 'oklab') as ColorSpace;
+
+    const parseStop = (arg: string): { color: RGBAColor | null; pct: number | null } => {
+      const pctMatch = arg.match(/\s(-?[\d.]+)%$|^(-?[\d.]+)%\s/);
+      const pct = pctMatch ? parseFloat(pctMatch[1] ?? pctMatch[2] ?? '') / 100 : null;
+      const colorText = pctMatch ? arg.replace(pctMatch[0], ' ').trim() : arg.trim();
+      return { color: this.parseColor(colorText, currentColor), pct };
+    };
+
+    const first = parseStop(args[1] || '');
+    const second = parseStop(args[2] || '');
+    if (!first.color || !second.color) return null;
+
+    let p1 = first.pct;
+    let p2 = second.pct;
+    if (p1 === null && p2 === null) { p1 = 0.5; p2 = 0.5; }
+    else if (p1 === null) { p1 = 1 - (p2 as number); }
+    else if (p2 === null) { p2 = 1 - p1; }
+
+    const sum = (p1 as number) + (p2 as number);
+    if (sum <= 0) return null;
+
+    // Percentages summing below 100% scale the result's alpha
+    const alphaMultiplier = Math.min(sum, 1);
+    const w2 = (p2 as number) / sum;
+
+    const a1 = first.color.a;
+    const a2 = second.color.a;
+    const alpha = a1 * (1 - w2) + a2 * w2;
+
+    const c1 = this.toSpace(space, first.color);
+    const c2 = this.toSpace(space, second.color);
+    const hueIndex = this.getHueIndex(space);
+
+    const mixed = c1.map((value, i) => {
+      const other = c2[i] as number;
+      if (i === hueIndex) {
+        // Shorter hue interpolation
+        let delta = other - value;
+        if (delta > 180) delta -= 360;
+        if (delta < -180) delta += 360;
+        return (value + delta * w2 + 360) % 360;
+      }
+      // Premultiplied interpolation for non-hue channels
+      const premixed = value * a1 * (1 - w2) + other * a2 * w2;
+      return alpha > 0 ? premixed / alpha : 0;
+    }) as Triple;
+
+    return this.fromSpace(space, mixed, alpha * alphaMultiplier);
+  }
+
+  private splitChannels(body: string): { channels: string[]; alpha: number } {
+    const [main, alphaPart] = body.includes('/')
+      ? [body.substring(0, body.lastIndexOf('/')), body.substring(body.lastIndexOf('/') + 1)]
+      : [body, undefined];
+
+    const channels = main.includes(',')
+      ? main.split(',').map(c => c.trim())
+      : main.trim().split(/\s+/);
+
+    // Legacy comma syntax carries alpha as a fourth argument
+    let alphaText = alphaPart?.trim();
+    if (alphaText === undefined && main.includes(',') && channels.length === 4) {
+      alphaText = channels.pop();
+    }
+
+    const alpha = alphaText === undefined ? 1 : this.clamp(this.parseNumber(alphaText, 1), 0, 1);
+    return { channels, alpha };
+  }
+
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === separator && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+
+    return parts;
+  }
+
+  /**
+   * Parse a number or percentage; percentages map onto the given reference range
+   */
+  private parseNumber(value: string | undefined, percentReference: number): number {
+    if (!value || value === 'none') return 0;
+    if (value.endsWith('%')) return (parseFloat(value) / 100) * percentReference;
+    return parseFloat(value) || 0;
+  }
+
+  private parseHue(value: string | undefined): number {
+    if (!value || value === 'none') return 0;
+    const number = parseFloat(value) || 0;
+    if (value.endsWith('rad')) return (number * 180) / Math.PI;
+    if (value.endsWith('grad')) return number * 0.9;
+    if (value.endsWith('turn')) return number * 360;
+    return number;
+  }
+
+  // Color Space Conversion (CSS Color 4 sample code)
+
+  private fromSpace(space: ColorSpace, coords: Triple, alpha: number): RGBAColor | null {
+    const srgb = this.spaceToSrgb(space, coords);
+    if (!srgb) return null;
+
+    return {
+      r: this.clamp(srgb[0], 0, 1) * 255,
+      g: this.clamp(srgb[1], 0, 1) * 255,
+      b: this.clamp(srgb[2], 0, 1) * 255,
+      a: this.clamp(alpha, 0, 1)
+    };
+  }
+
+  private toSpace(space: ColorSpace, color: RGBAColor): Triple {
+    const srgb: Triple = [color.r / 255, color.g / 255, color.b / 255];
+    const linear = srgb.map(c => this.srgbToLinear(c)) as Triple;
+
+    switch (space) {
+      case 'srgb': return srgb;
+      case 'srgb-linear': return linear;
+      case 'hsl': return this.srgbToHsl(srgb);
+      case 'hwb': {
+        const [h] = this.srgbToHsl(srgb);
+        return [h, Math.min(...srgb) * 100, (1 - Math.max(...srgb)) * 100];
+      }
+      case 'xyz':
+      case 'xyz-d65': return this.linearSrgbToXyz(linear);
+      case 'xyz-d50': return this.multiply(this.D65_TO_D50, this.linearSrgbToXyz(linear));
+      case 'lab': return this.xyzD50ToLab(this.multiply(this.D65_TO_D50, this.linearSrgbToXyz(linear)));
+      case 'lch': return this.toPolar(this.xyzD50ToLab(this.multiply(this.D65_TO_D50, this.linearSrgbToXyz(linear))));
+      case 'oklab': return this.linearSrgbToOklab(linear);
+      case 'oklch': return this.toPolar(this.linearSrgbToOklab(linear));
+      case 'display-p3': return this.xyzToLinearP3(this.linearSrgbToXyz(linear)).map(c => this.linearToSrgb(c)) as Triple;
+      default: return srgb;
+    }
+  }
+
+  private spaceToSrgb(space: ColorSpace, coords: Triple): Triple | null {
+    const fromLinear = (linear: Triple) => linear.map(c => this.linearToSrgb(c)) as Triple;
+    const fromXyz = (xyz: Triple) => fromLinear(this.xyzToLinearSrgb(xyz));
+
+    switch (space) {
+      case 'srgb': return coords;
+      case 'srgb-linear': return fromLinear(coords);
+      case 'hsl': return this.hslToSrgb(coords);
+      case 'hwb': return this.hwbToSrgb(coords);
+      case 'xyz':
+      case 'xyz-d65': return fromXyz(coords);
+      case 'xyz-d50': return fromXyz(this.multiply(this.D50_TO_D65, coords));
+      case 'lab': return fromXyz(this.multiply(this.D50_TO_D65, this.labToXyzD50(coords)));
+      case 'lch': return fromXyz(this.multiply(this.D50_TO_D65, this.labToXyzD50(this.fromPolar(coords))));
+      case 'oklab': return fromLinear(this.oklabToLinearSrgb(coords));
+      case 'oklch': return fromLinear(this.oklabToLinearSrgb(this.fromPolar(coords)));
+      case 'display-p3': return fromXyz(this.linearP3ToXyz(coords.map(c => this.srgbToLinear(c)) as Triple));
+      default: return null;
+    }
+  }
+
+  private getHueIndex(space: ColorSpace): number {
+    if (space === 'hsl' || space === 'hwb') return 0;
+    if (space === 'lch' || space === 'oklch') return 2;
+    return -1;
+  }
+
+  private srgbToLinear(c: number): number {
+    const sign = c < 0 ? -1 : 1;
+    const abs = Math.abs(c);
+    return abs <= 0.04045 ? c / 12.92 : sign * Math.pow((abs + 0.055) / 1.055, 2.4);
+  }
+
+  private linearToSrgb(c: number): number {
+    const sign = c < 0 ? -1 : 1;
+    const abs = Math.abs(c);
+    return abs <= 0.0031308 ? c * 12.92 : sign * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+  }
+
+  private linearSrgbToXyz(rgb: Triple): Triple {
+    return this.multiply([
+      [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+      [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+      [0.01933081871559182, 0.11919477979462598, 0.9505321522496607]
+    ], rgb);
+  }
+
+  private xyzToLinearSrgb(xyz: Triple): Triple {
+    return this.multiply([
+      [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+      [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+      [0.05563007969699366, -0.20397695888897652, 1.0569715142428786]
+    ], xyz);
+  }
+
+  private linearP3ToXyz(rgb: Triple): Triple {
+    return this.multiply([
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+      [0, 0.04511338185890264, 1.043944368900976]
+    ], rgb);
+  }
+
+  private xyzToLinearP3(xyz: Triple): Triple {
+    return this.multiply([
+      [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+      [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+      [0.03584583024378447, -0.07617238926804182, 0.9568845240076872]
+    ], xyz);
+  }
+
+  private xyzD50ToLab(xyz: Triple): Triple {
+    const epsilon = 216 / 24389;
+    const kappa = 24389 / 27;
+    const [x, y, z] = xyz.map((v, i) => v / (this.D50_WHITE[i] as number)) as Triple;
+    const f = (v: number) => v > epsilon ? Math.cbrt(v) : (kappa * v + 16) / 116;
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+  }
+
+  private labToXyzD50(lab: Triple): Triple {
+    const epsilon = 216 / 24389;
+    const kappa = 24389 / 27;
+    const [l, a, b] = lab;
+    const fy = (l + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+
+    const x = Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa;
+    const y = l > kappa * epsilon ? Math.pow((l + 16) / 116, 3) : l / kappa;
+    const z = Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa;
+
+    return [x * this.D50_WHITE[0], y * this.D50_WHITE[1], z * this.D50_WHITE[2]];
+  }
+
+  private linearSrgbToOklab(rgb: Triple): Triple {
+    const lms = this.multiply([
+      [0.4122214708, 0.5363325363, 0.0514459929],
+      [0.2119034982, 0.6806995451, 0.1073969566],
+      [0.0883024619, 0.2817188376, 0.6299787005]
+    ], rgb).map(v => Math.cbrt(v)) as Triple;
+
+    return this.multiply([
+      [0.2104542553, 0.7936177850, -0.0040720468],
+      [1.9779984951, -2.4285922050, 0.4505937099],
+      [0.0259040371, 0.7827717662, -0.8086757660]
+    ], lms);
+  }
+
+  private oklabToLinearSrgb(lab: Triple): Triple {
+    const lms = this.multiply([
+      [1, 0.3963377774, 0.2158037573],
+      [1, -0.1055613458, -0.0638541728],
+      [1, -0.0894841775, -1.2914855480]
+    ], lab).map(v => v * v * v) as Triple;
+
+    return this.multiply([
+      [4.0767416621, -3.3077115913, 0.2309699292],
+      [-1.2684380046, 2.6097574011, -0.3413193965],
+      [-0.0041960863, -0.7034186147, 1.7076147010]
+    ], lms);
+  }
+
+  private hslToSrgb([h, s, l]: Triple): Triple {
+    const sat = s / 100;
+    const light = l / 100;
+    const f = (n: number) => {
+      const k = (n + h / 30) % 12;
+      const a = sat * Math.min(light, 1 - light);
+      return light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [f(0), f(8), f(4)];
+  }
+
+  private hwbToSrgb([h, w, b]: Triple): Triple {
+    const white = w / 100;
+    const black = b / 100;
+    if (white + black >= 1) {
+      const gray = white / (white + black);
+      return [gray, gray, gray];
+    }
+    const rgb = this.hslToSrgb([h, 100, 50]);
+    return rgb.map(c => c * (1 - white - black) + white) as Triple;
+  }
+
+  private srgbToHsl([r, g, b]: Triple): Triple {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const light = (max + min) / 2;
+    const delta = max - min;
+
+    if (delta === 0) return [0, 0, light * 100];
+
+    const sat = light === 0 || light === 1 ? 0 : (max - light) / Math.min(light, 1 - light);
+    let hue: number;
+    if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+
+    return [hue * 60, sat * 100, light * 100];
+  }
+
+  private toPolar([l, a, b]: Triple): Triple {
+    const hue = (Math.atan2(b, a) * 180) / Math.PI;
+    return [l, Math.sqrt(a * a + b * b), (hue + 360) % 360];
+  }
+
+  private fromPolar([l, c, h]: Triple): Triple {
+    const rad = (h * Math.PI) / 180;
+    return [l, c * Math.cos(rad), c * Math.sin(rad)];
+  }
+
+  private multiply(matrix: Triple[], vector: Triple): Triple {
+    return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Triple;
+  }
+
+  // Layer Rendering
+
+  /**
+   * Paint the ancestor chain from the root down. Each element's background is
+   * composited over the backdrop, and group opacity blends everything the
+   * element paints (including descendants and text) back onto that backdrop.
+   */
+  private renderLayers(chain: Element[], index: number, backdrop: RGBAColor, text: RGBAColor | null): RGBAColor {
+    const element = chain[index];
+    if (!element) {
+      return text ? this.composite(text, backdrop) : backdrop;
+    }
+
+    const styles = window.getComputedStyle(element);
+    const background = this.parseColor(styles.backgroundColor) ?? this.TRANSPARENT;
+    const opacity = this.clamp(parseFloat(styles.opacity), 0, 1);
+
+    const inside = this.composite(background, backdrop);
+    const painted = this.renderLayers(chain, index + 1, inside, text);
+
+    if (isNaN(opacity) || opacity >= 1) {
+      return painted;
+    }
+
+    return this.composite({ ...painted, a: painted.a * opacity }, backdrop);
+  }
+
+  /**
+   * Detect paint that a single solid-color ratio cannot represent
+   */
+  private getReviewReason(chain: Element[], textStyles: CSSStyleDeclaration): string | null {
+    const clip = textStyles.getPropertyValue('-webkit-background-clip') || textStyles.getPropertyValue('background-clip');
+    if (clip === 'text') {
+      return 'Text is filled with its background (background-clip: text)';
+    }
+
+    if (textStyles.getPropertyValue('-webkit-text-fill-color') &&
+        this.parseColor(textStyles.getPropertyValue('-webkit-text-fill-color'))?.a === 0) {
+      return 'Text fill is transparent';
+    }
+
+    // Walk outward from the text until an opaque background hides everything below
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const element = chain[i] as Element;
+      const styles = window.getComputedStyle(element);
+
+      if (styles.backgroundImage && styles.backgroundImage !== 'none') {
+        return styles.backgroundImage.includes('gradient(')
+          ? 'Text is rendered over a CSS gradient'
+          : 'Text is rendered over a background image';
+      }
+
+      if (styles.filter && styles.filter !== 'none') {
+        return 'A CSS filter alters the rendered colors';
+      }
+
+      if (styles.mixBlendMode && styles.mixBlendMode !== 'normal') {
+        return 'A blend mode alters the rendered colors';
+      }
+
+      const background = this.parseColor(styles.backgroundColor);
+      const opacity = parseFloat(styles.opacity);
+      if (background && background.a >= 1 && (isNaN(opacity) || opacity >= 1)) {
+        break;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ancestors from the document root down to the element, crossing shadow boundaries
+   */
+  private getAncestorChain(element: Element): Element[] {
+    const chain: Element[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+      chain.unshift(current);
+      if (current.parentElement) {
+        current = current.parentElement;
+      } else {
+        const root = current.getRootNode();
+        current = root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in root ? (root as ShadowRoot).host : null;
+      }
+    }
+
+    return chain;
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+  }
+}
+
+// Export singleton instance
+export const contrastEngine = ContrastEngine.getInstance();
@@ -0,0 +1,579 @@
+/**
+ * CustomRuleEngine.ts
+ *
+ * Custom Rule Evaluation Engine for AccessiAI Chrome Extension
+ * Executes user-authored accessibility rules alongside the built-in analyzers:
+ * - CustomRule (settings) with attribute/style/content/structure conditions
+ *   and equals/contains/startsWith/endsWith/regex operators
+ * - CustomAccessibilityRule (preferences) with per-element check lists
+ * - highlight / fix / warn actions emitted as AccessibilityIssues tagged with the rule id
+ * - ignore actions that suppress matching built-in findings
+ *
+ * Performance Target: <50ms for 20 rules
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityIssue,
+  AccessibilityIssueType,
+  AccessibilityCheck,
+  CustomAccessibilityRule,
+  CustomRule,
+  IssueSeverity,
+  RuleCondition,
+  SettingsConfig
+} from '../types/index';
+import { accessibleNameComputer } from './AccessibleNameComputer';
+import { composedPathLocator } from './ComposedPathLocator';
+import { domAnalyzer } from './DOMAnalyzer';
+import { storageManager } from './StorageManager';
+import { wcagCatalog } from './WCAGCatalog';
+
+/**
+ * Rules to evaluate, from both storage locations
+ */
+export interface RuleSet {
+  readonly customRules: readonly CustomRule[];
+  readonly accessibilityRules: readonly CustomAccessibilityRule[];
+}
+
+/**
+ * Elements matched by an ignore rule and the issue types it suppresses
+ */
+export interface RuleSuppression {
+  readonly ruleId: string;
+  readonly elements: readonly Element[];
+  readonly issueTypes: readonly AccessibilityIssueType[] | null;   // null suppresses every type
+  readonly includeDescendants: boolean;
+}
+
+/**
+ * Problem with a rule definition found during evaluation
+ */
+export interface RuleError {
+  readonly ruleId: string;
+  readonly field: string;
+  readonly message: string;
+}
+
+export interface RuleEvaluationResult {
+  readonly issues: AccessibilityIssue[];
+  readonly suppressions: RuleSuppression[];
+  readonly errors: RuleError[];
+  readonly rulesEvaluated: number;
+  readonly evaluationTime: number;
+}
+
+/**
+ * CustomRuleEngine - Singleton executing user-defined accessibility rules
+ */
+export class CustomRuleEngine {
+  private static instance: CustomRuleEngine;
+
+  // Performance Targets
+  private readonly EVALUATION_TIME_TARGET = 50; // milliseconds
+
+  // Characters of element text kept on rule issues
+  private readonly MAX_TEXT_LENGTH = 200;
+
+  // Named validators usable in AccessibilityCheck.validator instead of a regex
+  private readonly NAMED_VALIDATORS: Record<string, (value: string, element: Element) => boolean> = {
+    nonEmpty: (value) => value.trim().length > 0,
+    isNumeric: (value) => value.trim() !== '' && !isNaN(Number(value)),
+    isUrl: (value) => /^(https?:)?\/\//i.test(value.trim()),
+    hasAccessibleName: (_value, element) => accessibleNameComputer.hasAccessibleName(element)
+  };
+
+  private readonly PRIORITY_SEVERITY: Record<CustomRule['priority'], IssueSeverity> = {
+    low: 'low',
+    medium: 'medium',
+    high: 'high'
+  };
+
+  // Compiled regex cache keyed by pattern
+  private regexCache = new Map<string, RegExp>();
+
+  /**
+   * Get singleton instance of CustomRuleEngine
+   */
+  static getInstance(): CustomRuleEngine {
+    if (!CustomRuleEngine.instance) {
+      CustomRuleEngine.instance = new CustomRuleEngine();
+    }
+    return CustomRuleEngine.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[CustomRuleEngine] Initializing Custom Rule Engine...');
+  }
+
+  /**
+   * Load enabled rules from settings (chrome.storage) and user preferences
+   *
+   * @returns Promise<RuleSet> - Rules to evaluate
+   */
+  async loadRules(): Promise<RuleSet> {
+    let customRules: readonly CustomRule[] = [];
+    let accessibilityRules: readonly CustomAccessibilityRule[] = [];
+
+    try {
+      const result = await chrome.storage.local.get(['accessiaiSettings']);
+      const settings = result['accessiaiSettings'] as SettingsConfig | undefined;
+      customRules = settings?.accessibility?.customRules ?? [];
+    } catch (error) {
+      console.warn('[CustomRuleEngine] Failed to load custom rules from settings:', error);
+    }
+
+    try {
+      const preferences = await storageManager.loadUserPreferences();
+      accessibilityRules = preferences?.accessibility?.customRules ?? [];
+    } catch (error) {
+      console.warn('[CustomRuleEngine] Failed to load custom rules from preferences:', error);
+    }
+
+    return { customRules, accessibilityRules };
+  }
+
+  /**
+   * Evaluate every enabled rule against the document
+   *
+   * @param document - Document to evaluate
+   * @param rules - Rules to run
+   * @returns RuleEvaluationResult - Issues, suppressions and rule errors
+   */
+  evaluateRules(document: Document, rules: RuleSet): RuleEvaluationResult {
+    const startTime = performance.now();
+    const issues: AccessibilityIssue[] = [];
+    const suppressions: RuleSuppression[] = [];
+    const errors: RuleError[] = [];
+    let rulesEvaluated = 0;
+
+    for (const rule of rules.customRules) {
+      if (!rule.enabled) continue;
+      rulesEvaluated++;
+
+      try {
+        this.evaluateCustomRule(document, rule, issues, suppressions, errors);
+      } catch (error) {
+        console.error(`[CustomRuleEngine] Failed to evaluate rule ${rule.id}:`, error);
+        errors.push({ ruleId: rule.id, field: 'rule', message: String(error) });
+      }
+    }
+
+    for (const rule of rules.accessibilityRules) {
+      if (!rule.enabled) continue;
+      rulesEvaluated++;
+
+      try {
+        this.evaluateAccessibilityRule(document, rule, issues, errors);
+      } catch (error) {
+        console.error(`[CustomRuleEngine] Failed to evaluate rule ${rule.id}:`, error);
+        errors.push({ ruleId: rule.id, field: 'rule', message: String(error) });
+      }
+    }
+
+    const evaluationTime = performance.now() - startTime;
+    if (evaluationTime > this.EVALUATION_TIME_TARGET) {
+      console.warn(`[CustomRuleEngine] Rule evaluation took ${evaluationTime.toFixed(2)}ms, exceeding target of ${this.EVALUATION_TIME_TARGET}ms`);
+    }
+
+    console.log(`[CustomRuleEngine] Evaluated ${rulesEvaluated} rules: ${issues.length} issues, ${suppressions.length} suppressions`);
+
+    return { issues, suppressions, errors, rulesEvaluated, evaluationTime };
+  }
+
+  /**
+   * Remove built-in issues whose element is covered by an ignore rule
+   *
+   * @param issues - Built-in analyzer issues
+   * @param suppressions - Suppressions from evaluateRules
+   * @returns AccessibilityIssue[] - Issues that remain
+   */
+  applySuppressions(issues: AccessibilityIssue[], suppressions: readonly RuleSuppression[]): AccessibilityIssue[] {
+    if (suppressions.length === 0) {
+      return issues;
+    }
+
+    return issues.filter(issue => {
+      const relevant = suppressions.filter(s => !s.issueTypes || s.issueTypes.includes(issue.type));
+      if (relevant.length === 0) return true;
+
+      const element = composedPathLocator.resolveLocator(issue.element.xpath);
+      if (!element) return true;
+
+      const suppressed = relevant.some(s => s.elements.some(matched =>
+        matched === element || (s.includeDescendants && matched.contains(element))
+      ));
+
+      if (suppressed) {
+        console.log(`[CustomRuleEngine] Suppressed ${issue.type} issue ${issue.id}`);
+      }
+      return !suppressed;
+    });
+  }
+
+  /**
+   * Build ignore-rule suppressions for a set of elements without a
+   * full-document pass; used when only part of the page is re-analyzed
+   *
+   * @param elements - Elements whose issues may need suppressing
+   * @param rules - Rules to consult
+   * @returns RuleSuppression[] - Suppressions limited to the given elements
+   */
+  getSuppressionsFor(elements: readonly Element[], rules: RuleSet): RuleSuppression[] {
+    const suppressions: RuleSuppression[] = [];
+
+    for (const rule of rules.customRules) {
+      if (!rule.enabled || rule.action.type !== 'ignore') continue;
+      if (this.validateSelector(rule.selector)) continue;
+      if (rule.condition.operator === 'regex' && this.validateRegex(rule.condition.value)) continue;
+
+      const parameters = rule.action.parameters;
+      const includeDescendants = parameters['includeDescendants'] !== false;
+      const matched = new Set<Element>();
+
+      for (const element of elements) {
+        // An ignore rule on an ancestor also covers its descendants
+        let candidate: Element | null = element;
+        while (candidate) {
+          if (!matched.has(candidate) && candidate.matches(rule.selector) && this.evaluateCondition(candidate, rule.condition)) {
+            matched.add(candidate);
+          }
+          if (!includeDescendants) break;
+          candidate = this.getComposedParent(candidate);
+        }
+      }
+
+      if (matched.size > 0) {
+        suppressions.push({
+          ruleId: rule.id,
+          elements: Array.from(matched),
+          issueTypes: Array.isArray(parameters['issueTypes']) ? parameters['issueTypes'] as AccessibilityIssueType[] : null,
+          includeDescendants
+        });
+      }
+    }
+
+    return suppressions;
+  }
+
+  /**
+   * Find the elements a rule applies to (selector match plus condition)
+   *
+   * @param root - Document to search
+   * @param rule - Rule to match
+   * @returns Element[] - Elements the rule fires on
+   */
+  findMatchingElements(root: Document, rule: Pick<CustomRule, 'selector' | 'condition'>): Element[] {
+    if (this.validateSelector(rule.selector)) {
+      return [];
+    }
+
+    return composedPathLocator.querySelectorAllComposed(root, rule.selector)
+      .filter(element => this.evaluateCondition(element, rule.condition));
+  }
+
+  /**
+   * Evaluate a rule condition against one element
+   *
+   * @param element - Element to test
+   * @param condition - Condition to evaluate
+   * @returns boolean - True when the condition matches
+   */
+  evaluateCondition(element: Element, condition: RuleCondition): boolean {
+    const actual = this.readProperty(element, condition.type, condition.property);
+    if (actual === null) {
+      return false;
+    }
+
+    switch (condition.operator) {
+      case 'equals':
+        return actual === condition.value;
+      case 'contains':
+        return actual.includes(condition.value);
+      case 'startsWith':
+        return actual.startsWith(condition.value);
+      case 'endsWith':
+        return actual.endsWith(condition.value);
+      case 'regex': {
+        const regex = this.compileRegex(condition.value);
+        return regex ? regex.test(actual) : false;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Validate a CSS selector
+   *
+   * @param selector - Selector to validate
+   * @returns string | null - Error message, null when valid
+   */
+  validateSelector(selector: string): string | null {
+    if (!selector || !selector.trim()) {
+      return 'Selector is required';
+    }
+
+    try {
+      document.createDocumentFragment().querySelector(selector);
+      return null;
+    } catch (error) {
+      return `Invalid CSS selector: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Validate a regular expression pattern
+   *
+   * @param pattern - Pattern to validate
+   * @returns string | null - Error message, null when valid
+   */
+  validateRegex(pattern: string): string | null {
+    try {
+      new RegExp(pattern);
+      return null;
+    } catch (error) {
+      return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  // Rule Evaluation
+
+  private evaluateCustomRule(
+    document: Document,
+    rule: CustomRule,
+    issues: AccessibilityIssue[],
+    suppressions: RuleSuppression[],
+    errors: RuleError[]
+  ): void {
+    const selectorError = this.validateSelector(rule.selector);
+    if (selectorError) {
+      errors.push({ ruleId: rule.id, field: 'selector', message: selectorError });
+      return;
+    }
+
+    if (rule.condition.operator === 'regex') {
+      const regexError = this.validateRegex(rule.condition.value);
+      if (regexError) {
+        errors.push({ ruleId: rule.id, field: 'condition.value', message: regexError });
+        return;
+      }
+    }
+
+    const matches = this.findMatchingElements(document, rule);
+    if (matches.length === 0) return;
+
+    const parameters = rule.action.parameters;
+
+    if (rule.action.type === 'ignore') {
+      const issueTypes = Array.isArray(parameters['issueTypes'])
+        ? parameters['issueTypes'] as AccessibilityIssueType[]
+        : null;
+
+      suppressions.push({
+        ruleId: rule.id,
+        elements: matches,
+        issueTypes,
+        includeDescendants: parameters['includeDescendants'] !== false
+      });
+      return;
+    }
+
+    const issueType = (parameters['issueType'] as AccessibilityIssueType | undefined) ?? 'semantic-markup';
+    // Criteria listed on the rule win; otherwise they come from the catalog for the issue type
+    const wcagCriteria = Array.isArray(parameters['wcagCriteria']) && parameters['wcagCriteria'].length > 0
+      ? parameters['wcagCriteria'] as string[]
+      : wcagCatalog.getCriteriaForIssueType(issueType);
+    const severity = (parameters['severity'] as IssueSeverity | undefined) ?? this.PRIORITY_SEVERITY[rule.priority];
+
+    for (const element of matches) {
+      issues.push(this.createRuleIssue({
+        ruleId: rule.id,
+        type: issueType,
+        severity: rule.action.type === 'highlight' && !parameters['severity'] ? 'low' : severity,
+        element,
+        description: rule.description || rule.name,
+        wcagCriteria,
+        suggestedFix: this.describeFix(rule)
+      }));
+    }
+  }
+
+  private evaluateAccessibilityRule(
+    document: Document,
+    rule: CustomAccessibilityRule,
+    issues: AccessibilityIssue[],
+    errors: RuleError[]
+  ): void {
+    const selectorError = this.validateSelector(rule.selector);
+    if (selectorError) {
+      errors.push({ ruleId: rule.id, field: 'selector', message: selectorError });
+      return;
+    }
+
+    const elements = composedPathLocator.querySelectorAllComposed(document, rule.selector);
+
+    for (const element of elements) {
+      for (const check of rule.checks) {
+        if (this.passesCheck(element, check)) continue;
+
+        const issueType = this.getCheckIssueType(check);
+        issues.push(this.createRuleIssue({
+          ruleId: rule.id,
+          type: issueType,
+          severity: 'medium',
+          element,
+          description: check.errorMessage || `${rule.name}: ${check.type} check on "${check.property}" failed`,
+          wcagCriteria: wcagCatalog.getCriteriaForIssueType(issueType),
+          suggestedFix: rule.description || `Update "${check.property}" to satisfy the ${rule.name} rule`
+        }));
+      }
+    }
+  }
+
+  /**
+   * AccessibilityCheck semantics: expectedValue must equal, validator (regex or
+   * named validator) must match, otherwise the property must be present
+   */
+  private passesCheck(element: Element, check: AccessibilityCheck): boolean {
+    const actual = this.readProperty(element, check.type, check.property);
+
+    if (check.expectedValue !== undefined) {
+      return actual === check.expectedValue;
+    }
+
+    if (check.validator) {
+      const named = this.NAMED_VALIDATORS[check.validator];
+      if (named) {
+        return named(actual ?? '', element);
+      }
+      const regex = this.compileRegex(check.validator);
+      return regex ? regex.test(actual ?? '') : true;
+    }
+
+    return actual !== null && actual.trim() !== '';
+  }
+
+  /**
+   * Read the value a condition or check compares against; null when absent
+   */
+  private readProperty(element: Element, type: RuleCondition['type'], property: string): string | null {
+    switch (type) {
+      case 'attribute':
+        return element.getAttribute(property);
+
+      case 'style':
+        return window.getComputedStyle(element).getPropertyValue(property).trim();
+
+      case 'content':
+        if (property === 'accessibleName') return accessibleNameComputer.computeAccessibleName(element);
+        if (property === 'accessibleDescription') return accessibleNameComputer.computeAccessibleDescription(element);
+        if (property === 'innerHTML') return element.innerHTML;
+        return (element.textContent || '').trim();
+
+      case 'structure':
+        switch (property) {
+          case 'tagName': return element.tagName.toLowerCase();
+          case 'role': return accessibleNameComputer.getRole(element);
+          case 'parentTag': return element.parentElement?.tagName.toLowerCase() ?? null;
+          case 'childCount': return String(element.children.length);
+          case 'depth': {
+            let depth = 0;
+            for (let current = element.parentElement; current; current = current.parentElement) depth++;
+            return String(depth);
+          }
+          default:
+            // Any other property is treated as a descendant selector
+            try {
+              return element.querySelector(property) ? 'true' : 'false';
+            } catch {
+              return null;
+            }
+        }
+
+      default:
+        return null;
+    }
+  }
+
+  // Utility Methods
+
+  private compileRegex(pattern: string): RegExp | null {
+    const cached = this.regexCache.get(pattern);
+    if (cached) return cached;
+
+    try {
+      const regex = new RegExp(pattern);
+      this.regexCache.set(pattern, regex);
+      return regex;
+    } catch (error) {
+      console.warn(`[CustomRuleEngine] Invalid regex "${pattern}":`, error);
+      return null;
+    }
+  }
+
+  private getComposedParent(element: Element): Element | null {
+    if (element.parentElement) return element.parentElement;
+    const root = element.getRootNode();
+    return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in root ? (root as ShadowRoot).host : null;
+  }
+
+  private getCheckIssueType(check: AccessibilityCheck): AccessibilityIssueType {
+    if (check.type === 'attribute' && check.property.startsWith('aria-')) return 'invalid-aria';
+    if (check.type === 'attribute' && check.property === 'alt') return 'missing-alt-text';
+    if (check.type === 'style' && check.property.includes('color')) return 'insufficient-contrast';
+    if (check.type === 'style' && check.property.startsWith('font')) return 'text-size';
+    return 'semantic-markup';
+  }
+
+  private describeFix(rule: CustomRule): string {
+    const parameters = rule.action.parameters;
+
+    if (rule.action.type === 'fix') {
+      if (typeof parameters['suggestion'] === 'string') {
+        return parameters['suggestion'];
+      }
+      if (typeof parameters['attribute'] === 'string') {
+        return `Set ${parameters['attribute']}="${String(parameters['value'] ?? '')}"`;
+      }
+    }
+
+    return typeof parameters['suggestion'] === 'string'
+      ? parameters['suggestion']
+      : `Review elements matching "${rule.selector}" (${rule.name})`;
+  }
+
+  private createRuleIssue(issueData: {
+    ruleId: string;
+    type: AccessibilityIssueType;
+    severity: IssueSeverity;
+    element: Element;
+    description: string;
+    wcagCriteria: string[];
+    suggestedFix: string;
+  }): AccessibilityIssue {
+    return {
+      id: `rule-${issueData.ruleId}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      type: issueData.type,
+      severity: issueData.severity,
+      element: domAnalyzer.createElementInfo(issueData.element, this.MAX_TEXT_LENGTH),
+      description: issueData.description,
+      wcagCriteria: issueData.wcagCriteria,
+      suggestedFix: issueData.suggestedFix,
+      detectedAt: Date.now(),
+      confidence: 1.0, // user-authored rules are deterministic
+      category: 'general',
+      ruleId: issueData.ruleId,
+      source: 'custom-rule'
+    };
+  }
+}
+
+// Export singleton instance
+export const customRuleEngine = CustomRuleEngine.getInstance();
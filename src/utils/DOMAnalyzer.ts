@@ -15,8 +15,12 @@ import type {
   SemanticStructure,
   ViewportInfo,
   AnalysisPerformance,
-  AccessibilityAnalysis
+  AccessibilityAnalysis,
+  ReadingBlockKind
 } from '../types/index';
+import { accessibleNameComputer } from './AccessibleNameComputer';
+import { composedPathLocator } from './ComposedPathLocator';
+import { ariaSchema } from './ARIASchema';
 
 // ============================================================================
 // DOM ANALYZER INTERFACES
@@ -46,6 +50,26 @@ export interface DOMTraversalResult {
   readonly errors: string[];
 }
 
+export type FocusOrderFlag =
+  | 'positive-tabindex'      // jumps ahead of document order
+  | 'off-screen'             // focus lands outside the page
+  | 'hidden-container';      // focus lands inside aria-hidden, transparent or collapsed content
+
+export interface FocusOrderEntry {
+  readonly node: Element;
+  readonly info: FocusableElementInfo;
+  readonly position: number;               // 1-based place in sequential focus order
+  readonly flags: readonly FocusOrderFlag[];
+}
+
+export interface ReadingOrderEntry {
+  readonly node: Element;
+  readonly kind: ReadingBlockKind;
+  readonly level?: number;                 // headings only
+  readonly textNodes: readonly Text[];     // rendered text of the block, empty for images
+  readonly text: string;                   // whitespace collapsed; the text alternative for images
+}
+
 // ============================================================================
 // DOM ANALYZER IMPLEMENTATION
 // ============================================================================
@@ -74,6 +98,21 @@ export class DOMAnalyzer {
   // Performance targets for optimal user experience
   private readonly ANALYSIS_TIME_TARGET = 100; // milliseconds
 
+  // Elements that can take part in sequential focus navigation
+  private readonly TABBABLE_SELECTOR = 'a[href], area[href], button, input, select, textarea, summary, iframe, [tabindex], [contenteditable=""], [contenteditable="true"]';
+
+  // Elements that hold a unit of readable text, by the kind of block they start
+  private readonly READING_BLOCKS: ReadonlyArray<{ selector: string; kind: ReadingBlockKind }> = [
+    { selector: 'h1, h2, h3, h4, h5, h6, [role="heading"]', kind: 'heading' },
+    { selector: 'li, dt, dd, [role="listitem"]', kind: 'list-item' },
+    { selector: 'blockquote', kind: 'quote' },
+    { selector: 'figcaption, caption', kind: 'caption' },
+    { selector: 'td, th, [role="cell"], [role="gridcell"]', kind: 'cell' },
+    { selector: 'img[alt], [role="img"][aria-label]', kind: 'image' },
+    { selector: 'pre', kind: 'code' },
+    { selector: 'p, div', kind: 'paragraph' }
+  ];
+
   // ============================================================================
   // SINGLETON PATTERN
   // ============================================================================
@@ -207,7 +246,13 @@ export class DOMAnalyzer {
     }
   }
 
-  private async analyzeHeadingHierarchy(document: Document): Promise<HeadingInfo[]> {
+  /**
+   * Get the headings of the document nested by level
+   * 
+   * @param document - Document to analyze
+   * @returns Promise<HeadingInfo[]> - Top-level headings with their subheadings as children
+   */
+  async analyzeHeadingHierarchy(document: Document): Promise<HeadingInfo[]> {
     try {
       const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
       const hierarchy: HeadingInfo[] = [];
@@ -258,7 +303,13 @@ export class DOMAnalyzer {
     }
   }
 
-  private async analyzeLandmarks(document: Document): Promise<LandmarkInfo[]> {
+  /**
+   * Get the landmark regions of the document, grouped by landmark type
+   * 
+   * @param document - Document to analyze
+   * @returns Promise<LandmarkInfo[]> - Landmarks with their role and accessible label
+   */
+  async analyzeLandmarks(document: Document): Promise<LandmarkInfo[]> {
     try {
       const landmarkSelectors = [
         'main, [role="main"]',
@@ -345,7 +396,90 @@ export class DOMAnalyzer {
     }
   }
 
-  private async analyzeSemanticStructure(document: Document): Promise<SemanticStructure> {
+  /**
+   * Get tabbable elements in sequential focus navigation order
+   * 
+   * Positive tabindex values come first in ascending order, then everything
+   * with tabindex 0 in document order, descending into open shadow roots.
+   * Elements the browser skips (disabled, inert, not rendered) are left out.
+   * 
+   * @param document - Document to walk
+   * @returns FocusOrderEntry[] - Elements in the order Tab visits them
+   */
+  getSequentialFocusOrder(document: Document): FocusOrderEntry[] {
+    const candidates = composedPathLocator
+      .querySelectorAllComposed(document, this.TABBABLE_SELECTOR)
+      .filter(element => this.isTabbable(element));
+
+    const positive = candidates
+      .filter(element => (element as HTMLElement).tabIndex > 0)
+      .sort((a, b) => (a as HTMLElement).tabIndex - (b as HTMLElement).tabIndex);
+    const sequential = candidates.filter(element => (element as HTMLElement).tabIndex === 0);
+
+    return [...positive, ...sequential].map((element, index) => ({
+      node: element,
+      info: {
+        element: this.createElementInfo(element),
+        tabIndex: (element as HTMLElement).tabIndex,
+        isVisible: this.isElementVisible(element),
+        hasKeyboardHandler: this.hasKeyboardEventHandlers(element)
+      },
+      position: index + 1,
+      flags: this.getFocusOrderFlags(element, document)
+    }));
+  }
+
+  /**
+   * Get the readable text blocks of the document in logical reading order
+   * 
+   * Blocks follow composed document order, so content in open shadow roots is
+   * read where it renders. A block nested in an earlier block is part of that
+   * block's text. A div only counts when it has text of its own and no blocks
+   * inside, so layout wrappers do not swallow the page. Content hidden
+   * from assistive technology, empty blocks and AccessiAI's own UI are left out.
+   * 
+   * @param document - Document to walk
+   * @returns ReadingOrderEntry[] - Blocks in the order they are read
+   */
+  getReadingOrder(document: Document): ReadingOrderEntry[] {
+    const selector = this.READING_BLOCKS.map(block => block.selector).join(', ');
+    const entries: ReadingOrderEntry[] = [];
+    let enclosing: Element | null = null;
+
+    for (const element of composedPathLocator.querySelectorAllComposed(document, selector)) {
+      if (enclosing?.contains(element)) continue;
+      if (element.closest('.accessiai-panel, .accessiai-modal, [id^="accessiai-"]')) continue;
+      if (accessibleNameComputer.isHiddenFromAccessibilityTree(element)) continue;
+
+      const kind = this.READING_BLOCKS.find(block => element.matches(block.selector))?.kind ?? 'paragraph';
+      if (element.tagName === 'DIV' && (!this.hasOwnText(element) || element.querySelector(selector))) continue;
+
+      const textNodes = kind === 'image' ? [] : this.getRenderedTextNodes(element);
+      const text = kind === 'image'
+        ? accessibleNameComputer.computeAccessibleName(element).trim()
+        : textNodes.map(node => node.data).join('').replace(/\s+/g, ' ').trim();
+      if (!text) continue;
+
+      entries.push({
+        node: element,
+        kind,
+        ...(kind === 'heading' ? { level: this.getHeadingLevel(element) } : {}),
+        textNodes,
+        text
+      });
+      enclosing = element;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get which structural regions and skip links the document has
+   * 
+   * @param document - Document to analyze
+   * @returns Promise<SemanticStructure> - Region presence flags and skip links found
+   */
+  async analyzeSemanticStructure(document: Document): Promise<SemanticStructure> {
     try {
       const hasMain = document.querySelector('main, [role="main"]') !== null;
       const hasNavigation = document.querySelector('nav, [role="navigation"]') !== null;
@@ -403,7 +537,10 @@ export class DOMAnalyzer {
 
   async validateARIAAttributes(document: Document): Promise<{ valid: ElementInfo[]; invalid: ElementInfo[] }> {
     try {
-      const elementsWithARIA = Array.from(document.querySelectorAll('[aria-*], [role]'));
+      // CSS has no attribute-prefix selector, so filter for aria-* attributes manually
+      const elementsWithARIA = Array.from(document.querySelectorAll('*')).filter(element =>
+        Array.from(element.attributes).some(attr => attr.name.startsWith('aria-') || attr.name === 'role')
+      );
       const valid: ElementInfo[] = [];
       const invalid: ElementInfo[] = [];
 
@@ -431,63 +568,35 @@ export class DOMAnalyzer {
   // UTILITY METHODS
   // ============================================================================
 
-  private createElementInfo(element: Element): ElementInfo {
-    const rect = element.getBoundingClientRect();
+  /**
+   * Describe an element for an issue or analysis result
+   *
+   * Shared by the analyzers so the same element always gets the same locator
+   * and therefore the same issue fingerprint.
+   *
+   * @param element - Element to describe
+   * @param maxTextLength - Truncate the text content to this many characters
+   * @returns ElementInfo - Tag, composed-path locator, attributes, position and text
+   */
+  createElementInfo(element: Element, maxTextLength?: number): ElementInfo {
     const attributes: Record<string, string> = {};
-
-    // Collect all attributes
-    for (let i = 0; i < element.attributes.length; i++) {
-      const attr = element.attributes[i];
-      if (attr) {
-        attributes[attr.name] = attr.value;
-      }
+    for (const attr of Array.from(element.attributes)) {
+      attributes[attr.name] = attr.value;
     }
 
-    const elementInfo: ElementInfo = {
+    // SVG elements expose className as an SVGAnimatedString
+    const className = typeof element.className === 'string' ? element.className : '';
+    const text = element.textContent?.trim() ?? '';
+
+    return {
       tagName: element.tagName.toLowerCase(),
-      xpath: this.getXPath(element),
+      xpath: composedPathLocator.getLocator(element),
       attributes,
-      boundingRect: rect
+      boundingRect: element.getBoundingClientRect(),
+      ...(element.id ? { id: element.id } : {}),
+      ...(className ? { className } : {}),
+      ...(text ? { textContent: maxTextLength === undefined ? text : text.substring(0, maxTextLength) } : {})
     };
-
-    if (element.id) {
-      (elementInfo as any).id = element.id;
-    }
-    if (element.className) {
-      (elementInfo as any).className = element.className;
-    }
-    if (element.textContent?.trim()) {
-      (elementInfo as any).textContent = element.textContent.trim();
-    }
-
-    return elementInfo;
-  }
-
-  private getXPath(element: Element): string {
-    if (element.id) {
-      return `//*[@id="${element.id}"]`;
-    }
-
-    const parts: string[] = [];
-    let current: Element | null = element;
-
-    while (current && current.nodeType === Node.ELEMENT_NODE) {
-      let index = 1;
-      let sibling = current.previousElementSibling;
-
-      while (sibling) {
-        if (sibling.tagName === current.tagName) {
-          index++;
-        }
-        sibling = sibling.previousElementSibling;
-      }
-
-      const tagName = current.tagName.toLowerCase();
-      parts.unshift(`${tagName}[${index}]`);
-      current = current.parentElement;
-    }
-
-    return '/' + parts.join('/');
   }
 
   private getViewportInfo(): ViewportInfo {
@@ -519,7 +628,13 @@ export class DOMAnalyzer {
     return Array.from(document.querySelectorAll(interactiveSelectors.join(', ')));
   }
 
-  private getImplicitRole(element: Element): string {
+  /**
+   * Get the role an element has without a role attribute
+   * 
+   * @param element - Element to inspect
+   * @returns string - Implicit role, empty string for generic elements
+   */
+  getImplicitRole(element: Element): string {
     const tagName = element.tagName.toLowerCase();
     const roleMap: Record<string, string> = {
       'main': 'main',
@@ -530,12 +645,89 @@ export class DOMAnalyzer {
       'section': 'region',
       'article': 'article',
       'button': 'button',
-      'a': 'link'
+      'summary': 'button',
+      'dialog': 'dialog',
+      'ul': 'list',
+      'ol': 'list',
+      'li': 'listitem',
+      'option': 'option',
+      'table': 'table',
+      'tr': 'row',
+      'td': 'cell',
+      'th': 'columnheader',
+      'textarea': 'textbox'
     };
 
+    if (tagName === 'a' || tagName === 'area') {
+      return element.hasAttribute('href') ? 'link' : '';
+    }
+    if (tagName === 'select') {
+      const select = element as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+    }
+    if (tagName === 'input') {
+      const inputRoles: Record<string, string> = {
+        'button': 'button', 'submit': 'button', 'reset': 'button', 'image': 'button',
+        'checkbox': 'checkbox', 'radio': 'radio', 'range': 'slider', 'number': 'spinbutton'
+      };
+      const type = (element.getAttribute('type') || 'text').toLowerCase();
+      return type === 'hidden' ? '' : inputRoles[type] ?? (element.hasAttribute('list') ? 'combobox' : 'textbox');
+    }
+
     return roleMap[tagName] || '';
   }
 
+  /**
+   * Get the role of an element: the first role token, else its implicit role
+   * 
+   * @param element - Element to inspect
+   * @returns string - Role, empty string for generic elements
+   */
+  getRole(element: Element): string {
+    const explicit = (element.getAttribute('role') || '').trim().toLowerCase().split(/\s+/)[0];
+    return explicit || this.getImplicitRole(element);
+  }
+
+  /**
+   * Check whether a role is a concrete WAI-ARIA 1.2 role
+   */
+  isValidRole(role: string): boolean {
+    return ariaSchema.isValidRole(role);
+  }
+
+  private hasOwnText(element: Element): boolean {
+    return Array.from(element.childNodes).some(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+  }
+
+  private getRenderedTextNodes(element: Element): Text[] {
+    const textNodes: Text[] = [];
+    const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+      acceptNode: node => {
+        if (node.nodeType === Node.TEXT_NODE) return NodeFilter.FILTER_ACCEPT;
+
+        const child = node as Element;
+        if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(child.tagName) ||
+            child.getAttribute('aria-hidden') === 'true' ||
+            child.hasAttribute('hidden') ||
+            window.getComputedStyle(child).display === 'none') {
+          return NodeFilter.FILTER_REJECT;
+        }
+        return NodeFilter.FILTER_SKIP;
+      }
+    });
+
+    while (walker.nextNode()) {
+      textNodes.push(walker.currentNode as Text);
+    }
+    return textNodes;
+  }
+
+  private getHeadingLevel(element: Element): number {
+    const match = /^H([1-6])$/.exec(element.tagName);
+    if (match) return parseInt(match[1]!, 10);
+    return parseInt(element.getAttribute('aria-level') || '', 10) || 2;
+  }
+
   private getLandmarkLabel(element: Element): string | undefined {
     return element.getAttribute('aria-label') ||
            element.getAttribute('aria-labelledby') ||
@@ -543,6 +735,59 @@ export class DOMAnalyzer {
            undefined;
   }
 
+  private isTabbable(element: Element): boolean {
+    const htmlElement = element as HTMLElement & { disabled?: boolean };
+    if (htmlElement.tabIndex < 0 || htmlElement.disabled) return false;
+    if (element instanceof HTMLInputElement && element.type === 'hidden') return false;
+    if (element.closest('[inert]') || element.closest('.accessiai-panel, .accessiai-modal, [id^="accessiai-"]')) return false;
+
+    // Elements without boxes (display: none, closed details) never receive focus
+    return element.getClientRects().length > 0 && window.getComputedStyle(element).visibility !== 'hidden';
+  }
+
+  private getFocusOrderFlags(element: Element, document: Document): FocusOrderFlag[] {
+    const flags: FocusOrderFlag[] = [];
+
+    if ((element as HTMLElement).tabIndex > 0) {
+      flags.push('positive-tabindex');
+    }
+
+    const rect = element.getBoundingClientRect();
+    const view = document.defaultView ?? window;
+    const pageWidth = document.documentElement.scrollWidth;
+    const pageHeight = document.documentElement.scrollHeight;
+    if (rect.right + view.scrollX <= 0 || rect.bottom + view.scrollY <= 0 ||
+        rect.left + view.scrollX >= pageWidth || rect.top + view.scrollY >= pageHeight) {
+      flags.push('off-screen');
+    }
+
+    if (this.isInHiddenContainer(element)) {
+      flags.push('hidden-container');
+    }
+
+    return flags;
+  }
+
+  private isInHiddenContainer(element: Element): boolean {
+    if (element.closest('[aria-hidden="true"]')) return true;
+
+    // Visually hidden elements themselves (skip links) are fine; their containers are not
+    let current: Element | null = element;
+    while (current && current !== current.ownerDocument.body) {
+      const style = window.getComputedStyle(current);
+      if (style.opacity === '0') return true;
+
+      if (current !== element && style.overflow === 'hidden') {
+        const rect = current.getBoundingClientRect();
+        if (rect.width < 1 || rect.height < 1) return true;
+      }
+
+      current = current.parentElement ?? ((current.getRootNode() as ShadowRoot).host ?? null);
+    }
+
+    return false;
+  }
+
   private getTabIndex(element: Element): number {
     const tabIndex = element.getAttribute('tabindex');
     if (tabIndex === null) {
@@ -575,26 +820,18 @@ export class DOMAnalyzer {
     // Basic ARIA validation - can be extended
     const role = element.getAttribute('role');
     
-    // Check for valid roles
-    const validRoles = [
-      'alert', 'alertdialog', 'application', 'article', 'banner', 'button',
-      'cell', 'checkbox', 'columnheader', 'combobox', 'complementary',
-      'contentinfo', 'definition', 'dialog', 'directory', 'document',
-      'form', 'grid', 'gridcell', 'group', 'heading', 'img', 'link',
-      'list', 'listbox', 'listitem', 'log', 'main', 'marquee', 'math',
-      'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
-      'navigation', 'note', 'option', 'presentation', 'progressbar',
-      'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader',
-      'scrollbar', 'search', 'separator', 'slider', 'spinbutton', 'status',
-      'tab', 'tablist', 'tabpanel', 'textbox', 'timer', 'toolbar',
-      'tooltip', 'tree', 'treegrid', 'treeitem'
-    ];
+    // Check for valid roles; later tokens are fallbacks for the first valid one
+    if (role && !ariaSchema.resolveRole(role)) {
+      return false;
+    }
 
-    if (role && !validRoles.includes(role)) {
+    // Roles that require a name must resolve to one via the AccName computation
+    if (accessibleNameComputer.requiresAccessibleName(element) &&
+        !accessibleNameComputer.isHiddenFromAccessibilityTree(element) &&
+        !accessibleNameComputer.hasAccessibleName(element)) {
       return false;
     }
 
-    // Additional ARIA validation can be added here
     return true;
   }
 
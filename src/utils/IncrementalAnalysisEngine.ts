@@ -0,0 +1,432 @@
+/**
+ * IncrementalAnalysisEngine.ts
+ *
+ * Incremental Re-analysis for AccessiAI Chrome Extension
+ * Turns MutationObserver records into targeted re-scans instead of full page analysis:
+ * - Reduces mutation records to the topmost added, removed and changed subtrees
+ * - Re-runs the content, visual and widget checks of a full analysis for affected
+ *   elements only, and page-level checks when headings or landmarks change
+ * - Merges results into the current issue set and retires issues for removed nodes
+ * - Reports the change as an IssueDiff for the panel
+ *
+ * Performance Target: <20ms for typical single-page-app updates
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityIssue,
+  AccessibilityIssueType,
+  IssueDiff,
+  IssueSource
+} from '../types/index';
+import { contentStructureAnalyzer } from './ContentStructureAnalyzer';
+import { VisualAnalysisSystem } from './VisualAnalysisSystem';
+import { widgetPatternValidator } from './WidgetPatternValidator';
+import { composedPathLocator } from './ComposedPathLocator';
+import { customRuleEngine } from './CustomRuleEngine';
+import { issueFingerprinter } from './IssueFingerprinter';
+
+/**
+ * DOM changes reduced from a batch of mutation records
+ */
+export interface MutationChangeSet {
+  readonly addedRoots: Element[];         // topmost inserted subtrees
+  readonly removedRoots: Element[];       // topmost detached subtrees
+  readonly changedRoots: Element[];       // attribute changes; descendants may be affected
+  readonly touchedElements: Element[];    // child list or text changes; only the element and its ancestors
+  readonly structureChanged: boolean;     // headings or landmarks were added, removed or changed
+}
+
+export interface IncrementalAnalysisResult {
+  readonly issues: AccessibilityIssue[];
+  readonly diff: IssueDiff;
+  readonly scannedElements: number;
+  readonly analysisTime: number;
+}
+
+/**
+ * IncrementalAnalysisEngine - Singleton merging subtree re-scans into the current issue set
+ */
+export class IncrementalAnalysisEngine {
+  private static instance: IncrementalAnalysisEngine;
+
+  // Performance Targets
+  private readonly ANALYSIS_TIME_TARGET = 20; // milliseconds
+
+  // Extension UI never contributes to analysis
+  private readonly EXTENSION_UI_SELECTOR = '[id^="accessiai-"], .accessiai-modal';
+  private readonly EXTENSION_CLASS_PATTERN = /^accessiai-/;
+
+  // Elements whose presence feeds page-level heading and landmark checks
+  private readonly STRUCTURE_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role="heading"], main, nav, [role="main"], [role="navigation"]';
+  private readonly STRUCTURE_ATTRIBUTES = new Set(['role', 'aria-level']);
+
+  // Analyzers re-run for affected elements; keyboard findings need a probe run and
+  // custom rules are not re-evaluated, so those issues only retire with their element
+  private readonly RECHECKED_SOURCES = new Set<IssueSource>(['content-structure', 'visual', 'widget-pattern']);
+
+  // Content structure issue types produced by the page-level checks
+  private readonly DOCUMENT_LEVEL_TYPES = new Set<AccessibilityIssueType>(['heading-structure', 'semantic-markup']);
+
+  // Ancestors whose accessible name comes from their contents
+  private readonly NAME_FROM_CONTENT_SELECTOR = 'a, button, label, summary, legend, caption, figcaption, h1, h2, h3, h4, h5, h6, th, td, option, [role]';
+
+  // Containers whose findings depend on their descendants: layout tables and widgets
+  private readonly CONTAINER_SELECTOR = 'table, [role], [aria-expanded], [aria-modal], dialog';
+
+  // Live elements behind the current issue set, keyed by issue id
+  private issueElements = new Map<string, Element>();
+
+  /**
+   * Get singleton instance of IncrementalAnalysisEngine
+   */
+  static getInstance(): IncrementalAnalysisEngine {
+    if (!IncrementalAnalysisEngine.instance) {
+      IncrementalAnalysisEngine.instance = new IncrementalAnalysisEngine();
+    }
+    return IncrementalAnalysisEngine.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[IncrementalAnalysisEngine] Initializing Incremental Analysis Engine...');
+  }
+
+  /**
+   * Record the element behind each issue of a full analysis
+   *
+   * Locators are resolved while the DOM still matches the analysis, so later
+   * mutations can be related to issues even after positional locators go stale.
+   *
+   * @param issues - Issues from a full analysis
+   * @param rootDocument - Document the issues were found in
+   */
+  bindIssues(issues: readonly AccessibilityIssue[], rootDocument: Document = document): void {
+    this.issueElements.clear();
+    this.bindNewIssues(issues, rootDocument);
+  }
+
+  /**
+   * Reduce a batch of mutation records to the subtrees that need re-analysis
+   *
+   * @param mutations - Records collected by a MutationObserver
+   * @returns MutationChangeSet - Topmost affected subtrees
+   */
+  collectChanges(mutations: readonly MutationRecord[]): MutationChangeSet {
+    const added = new Set<Element>();
+    const removed = new Set<Element>();
+    const changed = new Set<Element>();
+    const touched = new Set<Element>();
+    let structureChanged = false;
+
+    for (const record of mutations) {
+      if (this.isExtensionNode(record.target)) continue;
+
+      switch (record.type) {
+        case 'childList':
+          record.addedNodes.forEach(node => {
+            if (node.nodeType === Node.ELEMENT_NODE && !this.isExtensionNode(node)) {
+              added.add(node as Element);
+            }
+          });
+          record.removedNodes.forEach(node => {
+            if (node.nodeType === Node.ELEMENT_NODE && !this.isExtensionNode(node)) {
+              removed.add(node as Element);
+            }
+          });
+
+          // Child changes alter the parent's accessible name and contents
+          if (record.target.nodeType === Node.ELEMENT_NODE) {
+            touched.add(record.target as Element);
+          }
+          break;
+
+        case 'attributes':
+          if (record.attributeName === 'class' && this.isExtensionClassChange(record)) continue;
+          changed.add(record.target as Element);
+          if (record.attributeName && this.STRUCTURE_ATTRIBUTES.has(record.attributeName)) {
+            structureChanged = true;
+          }
+          break;
+
+        case 'characterData': {
+          const parent = record.target.parentElement;
+          if (parent && !this.isExtensionNode(parent)) {
+            touched.add(parent);
+          }
+          break;
+        }
+      }
+    }
+
+    const addedRoots = this.getTopmost(Array.from(added).filter(el => el.isConnected));
+    const removedRoots = this.getTopmost(Array.from(removed).filter(el => !el.isConnected));
+    const changedRoots = this.getTopmost(Array.from(changed).filter(el => el.isConnected))
+      .filter(el => !this.isInsideAny(el, addedRoots));
+    const touchedElements = Array.from(touched).filter(el => el.isConnected);
+
+    structureChanged = structureChanged ||
+      [...addedRoots, ...removedRoots, ...changedRoots].some(el => this.containsStructure(el)) ||
+      touchedElements.some(el => el.closest('h1, h2, h3, h4, h5, h6, [role="heading"]') !== null);
+
+    return { addedRoots, removedRoots, changedRoots, touchedElements, structureChanged };
+  }
+
+  /**
+   * Check whether a change set requires any re-analysis
+   */
+  hasChanges(changeSet: MutationChangeSet): boolean {
+    return changeSet.addedRoots.length > 0 ||
+      changeSet.removedRoots.length > 0 ||
+      changeSet.changedRoots.length > 0 ||
+      changeSet.touchedElements.length > 0;
+  }
+
+  /**
+   * Re-analyze the affected elements and merge the results into the issue set
+   *
+   * @param document - Document that changed
+   * @param changeSet - Changes from collectChanges
+   * @param currentIssues - Issue set to update
+   * @returns Promise<IncrementalAnalysisResult> - Merged issues and the diff against currentIssues
+   */
+  async analyzeChanges(
+    document: Document,
+    changeSet: MutationChangeSet,
+    currentIssues: readonly AccessibilityIssue[]
+  ): Promise<IncrementalAnalysisResult> {
+    const startTime = performance.now();
+    const scope = this.buildScope(changeSet);
+    this.getContainers(scope).forEach(container => scope.add(container));
+    const scopeElements = Array.from(scope);
+
+    // Retire issues for removed elements and for checks that are about to re-run
+    const kept: AccessibilityIssue[] = [];
+    const retired: AccessibilityIssue[] = [];
+
+    for (const issue of currentIssues) {
+      if (this.isStale(issue, scope, changeSet.structureChanged)) {
+        retired.push(issue);
+        this.issueElements.delete(issue.id);
+      } else {
+        kept.push(this.refreshLocator(issue));
+      }
+    }
+
+    // The analyzers of a full analysis, so re-detected issues get the same fingerprints
+    const [contentIssues, visualIssues, rules] = await Promise.all([
+      contentStructureAnalyzer.analyzeElements(document, scopeElements, changeSet.structureChanged),
+      VisualAnalysisSystem.getInstance().analyzeElements(document, scopeElements),
+      customRuleEngine.loadRules()
+    ]);
+    const widgetIssues = widgetPatternValidator.validateElements(document, scopeElements);
+
+    const detected = customRuleEngine.applySuppressions(
+      this.dedupe(issueFingerprinter.assignFingerprints([...contentIssues, ...visualIssues, ...widgetIssues]), kept),
+      customRuleEngine.getSuppressionsFor(scopeElements, rules)
+    );
+
+    // Re-detected issues keep their original identity instead of showing as new
+    const retiredByKey = new Map(retired.map(issue => [this.getIssueKey(issue), issue]));
+    const restored: AccessibilityIssue[] = [];
+    const added: AccessibilityIssue[] = [];
+
+    for (const issue of detected) {
+      const previous = retiredByKey.get(this.getIssueKey(issue));
+      if (previous) {
+        retiredByKey.delete(this.getIssueKey(issue));
+        restored.push({ ...previous, element: issue.element });
+      } else {
+        added.push({ ...issue, scanStatus: 'new' });
+      }
+    }
+
+    this.bindNewIssues([...restored, ...added], document);
+
+    const issues = [...kept, ...restored, ...added];
+    const analysisTime = performance.now() - startTime;
+
+    if (analysisTime > this.ANALYSIS_TIME_TARGET) {
+      console.warn(`[IncrementalAnalysisEngine] Incremental analysis took ${analysisTime.toFixed(2)}ms, exceeding target of ${this.ANALYSIS_TIME_TARGET}ms`);
+    }
+
+    console.log(`[IncrementalAnalysisEngine] Re-analyzed ${scopeElements.length} elements: ${added.length} new, ${retiredByKey.size} retired`);
+
+    return {
+      issues,
+      diff: {
+        added,
+        retired: Array.from(retiredByKey.values()),
+        unchanged: kept.length + restored.length
+      },
+      scannedElements: scopeElements.length,
+      analysisTime
+    };
+  }
+
+  /**
+   * Check whether a diff contains any additions or retirements
+   */
+  isEmptyDiff(diff: IssueDiff): boolean {
+    return diff.added.length === 0 && diff.retired.length === 0;
+  }
+
+  // Change Scope
+
+  /**
+   * Elements whose checks must re-run: every element in added and changed
+   * subtrees and every touched element, plus the nearest ancestor that takes its
+   * accessible name from them and the controls named by affected labels
+   */
+  private buildScope(changeSet: MutationChangeSet): Set<Element> {
+    const scope = new Set<Element>();
+
+    for (const root of [...changeSet.addedRoots, ...changeSet.changedRoots]) {
+      composedPathLocator.collectElements(root).forEach(el => scope.add(el));
+    }
+
+    for (const element of [...changeSet.addedRoots, ...changeSet.changedRoots, ...changeSet.touchedElements]) {
+      scope.add(element);
+
+      const named = this.findComposedAncestor(element, this.NAME_FROM_CONTENT_SELECTOR);
+      if (named) scope.add(named);
+    }
+
+    for (const element of Array.from(scope)) {
+      if (element instanceof HTMLLabelElement && element.control) {
+        scope.add(element.control);
+      }
+    }
+
+    return scope;
+  }
+
+  /**
+   * Tables and widgets above the scope, whose rules look at the elements inside them
+   */
+  private getContainers(scope: ReadonlySet<Element>): Element[] {
+    const visited = new Set<Element>();
+    const containers: Element[] = [];
+
+    for (const element of scope) {
+      let ancestor = this.getComposedParent(element);
+      while (ancestor && !visited.has(ancestor) && !scope.has(ancestor)) {
+        visited.add(ancestor);
+        if (ancestor.matches(this.CONTAINER_SELECTOR)) containers.push(ancestor);
+        ancestor = this.getComposedParent(ancestor);
+      }
+    }
+
+    return containers;
+  }
+
+  private isStale(issue: AccessibilityIssue, scope: Set<Element>, structureChanged: boolean): boolean {
+    const element = this.issueElements.get(issue.id);
+
+    if (element && !element.isConnected) {
+      return true;
+    }
+
+    // Page-level findings are attached to headings or the body and re-computed as a set
+    if (issue.source === 'content-structure' && this.DOCUMENT_LEVEL_TYPES.has(issue.type)) {
+      return structureChanged;
+    }
+
+    return !!element && scope.has(element) && !!issue.source && this.RECHECKED_SOURCES.has(issue.source);
+  }
+
+  /**
+   * Positional locators shift when siblings are inserted or removed
+   */
+  private refreshLocator(issue: AccessibilityIssue): AccessibilityIssue {
+    const element = this.issueElements.get(issue.id);
+    if (!element) return issue;
+
+    const xpath = composedPathLocator.getLocator(element);
+    return xpath === issue.element.xpath ? issue : { ...issue, element: { ...issue.element, xpath } };
+  }
+
+  /**
+   * Drop findings reported twice or already present in the kept set
+   */
+  private dedupe(issues: AccessibilityIssue[], kept: readonly AccessibilityIssue[]): AccessibilityIssue[] {
+    const keptKeys = new Set(kept.map(issue => this.getIssueKey(issue)));
+    return issueFingerprinter.dedupe(issues).filter(issue => !keptKeys.has(this.getIssueKey(issue)));
+  }
+
+  private getIssueKey(issue: AccessibilityIssue): string {
+    return issue.fingerprint ?? issueFingerprinter.computeFingerprint(issue);
+  }
+
+  private bindNewIssues(issues: readonly AccessibilityIssue[], rootDocument: Document): void {
+    for (const issue of issues) {
+      const element = composedPathLocator.resolveLocator(issue.element.xpath, rootDocument);
+      if (element) {
+        this.issueElements.set(issue.id, element);
+      }
+    }
+  }
+
+  // Utility Methods
+
+  private isExtensionNode(node: Node): boolean {
+    const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+    return !!element?.closest(this.EXTENSION_UI_SELECTOR);
+  }
+
+  /**
+   * Highlighting toggles accessiai-* classes on page elements; those changes
+   * must not trigger re-analysis
+   */
+  private isExtensionClassChange(record: MutationRecord): boolean {
+    const strip = (value: string | null) => (value ?? '')
+      .split(/\s+/)
+      .filter(name => name && !this.EXTENSION_CLASS_PATTERN.test(name))
+      .sort()
+      .join(' ');
+
+    return strip(record.oldValue) === strip((record.target as Element).getAttribute('class'));
+  }
+
+  private containsStructure(element: Element): boolean {
+    return element.matches(this.STRUCTURE_SELECTOR) || element.querySelector(this.STRUCTURE_SELECTOR) !== null;
+  }
+
+  private getTopmost(elements: Element[]): Element[] {
+    const set = new Set(elements);
+    return elements.filter(element => {
+      let ancestor = this.getComposedParent(element);
+      while (ancestor) {
+        if (set.has(ancestor)) return false;
+        ancestor = this.getComposedParent(ancestor);
+      }
+      return true;
+    });
+  }
+
+  private isInsideAny(element: Element, roots: readonly Element[]): boolean {
+    return roots.some(root => root === element || root.contains(element));
+  }
+
+  private findComposedAncestor(element: Element, selector: string): Element | null {
+    let ancestor = this.getComposedParent(element);
+    while (ancestor && ancestor !== element.ownerDocument.body) {
+      if (ancestor.matches(selector)) return ancestor;
+      ancestor = this.getComposedParent(ancestor);
+    }
+    return null;
+  }
+
+  private getComposedParent(element: Element): Element | null {
+    if (element.parentElement) return element.parentElement;
+    const root = element.getRootNode();
+    return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in root ? (root as ShadowRoot).host : null;
+  }
+}
+
+// Export singleton instance
+export const incrementalAnalysisEngine = IncrementalAnalysisEngine.getInstance();
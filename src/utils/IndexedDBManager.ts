@@ -18,9 +18,14 @@ import {
   SettingsConfig,
   AccessibilityIssue,
   AccessibilityAnalysis,
+  IssueScanSummary,
+  IssueTriage,
+  IssueBaseline,
+  FixFeedbackStats,
   UserPreferences,
   SystemHealthReport
 } from '../types/index';
+import { issueFingerprinter } from './IssueFingerprinter';
 
 /**
  * Database schema configuration
@@ -93,6 +98,24 @@ export interface BackupMetadata {
   readonly checksum: string;
 }
 
+/**
+ * Record in the accessibility-issues store, one per finding and page
+ *
+ * Keyed by page URL and fingerprint. Fingerprints include the element locator,
+ * which is positional for elements without an id, so the record of such an
+ * element is replaced when earlier siblings are inserted or removed.
+ */
+export interface StoredIssueRecord extends AccessibilityIssue {
+  readonly id: string;                 // `${pageUrl}#${fingerprint}`
+  readonly issueId?: string;           // id of the issue in the latest scan; missing on records from older versions
+  readonly pageUrl: string;
+  readonly resolved: boolean;
+  readonly resolvedAt?: number;
+  readonly firstDetectedAt: number;
+  readonly lastSeenAt: number;
+  readonly storedAt: number;
+}
+
 /**
  * IndexedDBManager - Comprehensive database schema management
  * 
@@ -114,7 +137,7 @@ export class IndexedDBManager {
   // Database Schema Definition
   private readonly SCHEMA: DatabaseSchema = {
     name: 'AccessiAIDB',
-    version: 1,
+    version: 5,
     stores: [
       {
         name: 'settings',
@@ -134,7 +157,36 @@ export class IndexedDBManager {
           { name: 'type', keyPath: 'type', unique: false },
           { name: 'detectedAt', keyPath: 'detectedAt', unique: false },
           { name: 'pageUrl', keyPath: 'pageUrl', unique: false },
-          { name: 'resolved', keyPath: 'resolved', unique: false }
+          { name: 'resolved', keyPath: 'resolved', unique: false },
+          { name: 'fingerprint', keyPath: 'fingerprint', unique: false }
+        ]
+      },
+      {
+        name: 'issue-triage',
+        keyPath: 'fingerprint',
+        autoIncrement: false,
+        indexes: [
+          { name: 'status', keyPath: 'status', unique: false },
+          { name: 'updatedAt', keyPath: 'updatedAt', unique: false }
+        ]
+      },
+      {
+        name: 'issue-baselines',
+        keyPath: 'id',
+        autoIncrement: false,
+        indexes: [
+          { name: 'name', keyPath: 'name', unique: false },
+          { name: 'updatedAt', keyPath: 'updatedAt', unique: false }
+        ]
+      },
+      {
+        name: 'fix-feedback',
+        keyPath: 'id',
+        autoIncrement: false,
+        indexes: [
+          { name: 'site', keyPath: 'site', unique: false },
+          { name: 'issueType', keyPath: 'issueType', unique: false },
+          { name: 'updatedAt', keyPath: 'updatedAt', unique: false }
         ]
       },
       {
@@ -257,7 +309,7 @@ export class IndexedDBManager {
   /**
    * Handle database schema upgrades
    */
-  private handleSchemaUpgrade(db: IDBDatabase, _transaction: IDBTransaction, oldVersion: number, newVersion: number): void {
+  private handleSchemaUpgrade(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number): void {
     console.log(`[IndexedDBManager] Upgrading schema from v${oldVersion} to v${newVersion}`);
     
     try {
@@ -279,6 +331,19 @@ export class IndexedDBManager {
               multiEntry: indexSchema.multiEntry || false
             });
           }
+        } else {
+          // Existing stores pick up indexes added in later schema versions
+          const store = transaction.objectStore(storeSchema.name);
+          
+          for (const indexSchema of storeSchema.indexes) {
+            if (!store.indexNames.contains(indexSchema.name)) {
+              console.log(`[IndexedDBManager] Creating index: ${indexSchema.name} on ${storeSchema.name}`);
+              store.createIndex(indexSchema.name, indexSchema.keyPath, {
+                unique: indexSchema.unique,
+                multiEntry: indexSchema.multiEntry || false
+              });
+            }
+          }
         }
       }
       
@@ -381,10 +446,21 @@ export class IndexedDBManager {
       const transaction = this.database!.transaction(['accessibility-issues'], 'readwrite');
       const store = transaction.objectStore('accessibility-issues');
       
-      const issueRecord = {
+      const pageUrl = window.location.href;
+      const fingerprint = issue.fingerprint ?? issueFingerprinter.computeFingerprint(issue);
+      const recordId = this.getIssueRecordId(pageUrl, fingerprint);
+      const existing: StoredIssueRecord | undefined = await this.promisifyRequest(store.get(recordId));
+      
+      // One record per finding and page; repeated scans update it in place
+      const issueRecord: StoredIssueRecord = {
         ...issue,
-        pageUrl: window.location.href,
+        id: recordId,
+        issueId: issue.id,
+        fingerprint,
+        pageUrl,
         resolved: false,
+        firstDetectedAt: existing?.firstDetectedAt ?? issue.detectedAt,
+        lastSeenAt: Date.now(),
         storedAt: Date.now()
       };
       
@@ -400,6 +476,288 @@ export class IndexedDBManager {
     }
   }
 
+  /**
+   * Store the issues of a scan and classify them against the previous scan of the same URL
+   * 
+   * Issues are matched by fingerprint. Findings missing from this scan are
+   * marked resolved; records stored before fingerprints existed cannot be
+   * matched and are replaced. Keyboard findings are only resolved by a scan
+   * that pressed keys as well.
+   *
+   * @param keyboardProbe - Whether the scan ran the keyboard checks
+   */
+  async syncIssueLifecycle(pageUrl: string, issues: readonly AccessibilityIssue[], keyboardProbe: boolean = false): Promise<IssueScanSummary> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const transaction = this.database!.transaction(['accessibility-issues'], 'readwrite');
+      const store = transaction.objectStore('accessibility-issues');
+      
+      const storedRecords: StoredIssueRecord[] = await this.promisifyRequest(store.index('pageUrl').getAll(pageUrl));
+      const openRecords = new Map<string, StoredIssueRecord>();
+      
+      for (const record of storedRecords) {
+        if (!record.fingerprint) {
+          await this.promisifyRequest(store.delete(record.id));
+        } else if (!record.resolved && (keyboardProbe || record.source !== 'keyboard')) {
+          openRecords.set(record.fingerprint, record);
+        }
+      }
+      
+      const newIssues: AccessibilityIssue[] = [];
+      const persistingIssues: AccessibilityIssue[] = [];
+      const now = Date.now();
+      
+      for (const issue of issues) {
+        const fingerprint = issue.fingerprint ?? issueFingerprinter.computeFingerprint(issue);
+        const previous = openRecords.get(fingerprint);
+        openRecords.delete(fingerprint);
+        
+        const scanStatus = previous ? 'persisting' : 'new';
+        const classified: AccessibilityIssue = { ...issue, fingerprint, scanStatus };
+        (previous ? persistingIssues : newIssues).push(classified);
+        
+        const record: StoredIssueRecord = {
+          ...classified,
+          id: this.getIssueRecordId(pageUrl, fingerprint),
+          issueId: issue.id,
+          pageUrl,
+          resolved: false,
+          firstDetectedAt: previous?.firstDetectedAt ?? issue.detectedAt,
+          lastSeenAt: now,
+          storedAt: now
+        };
+        await this.promisifyRequest(store.put(record));
+      }
+      
+      // Whatever the previous scan reported and this one did not is resolved
+      const resolvedIssues: AccessibilityIssue[] = [];
+      for (const record of openRecords.values()) {
+        const resolvedRecord: StoredIssueRecord = { ...record, resolved: true, resolvedAt: now, scanStatus: 'resolved' };
+        await this.promisifyRequest(store.put(resolvedRecord));
+        resolvedIssues.push({ ...resolvedRecord, id: record.issueId ?? record.id });
+      }
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Issue lifecycle synced in ${operationTime.toFixed(2)}ms: ${newIssues.length} new, ${persistingIssues.length} persisting, ${resolvedIssues.length} resolved`);
+      
+      return { newIssues, persistingIssues, resolvedIssues };
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to sync issue lifecycle:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store an issue triage decision, keyed by issue fingerprint
+   */
+  async storeIssueTriage(triage: IssueTriage): Promise<void> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['issue-triage'], 'readwrite').objectStore('issue-triage');
+      await this.promisifyRequest(store.put(triage));
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Issue triage stored in ${operationTime.toFixed(2)}ms`);
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to store issue triage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve all issue triage decisions
+   */
+  async retrieveIssueTriage(): Promise<IssueTriage[]> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['issue-triage'], 'readonly').objectStore('issue-triage');
+      const results = await this.promisifyRequest(store.getAll());
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Retrieved ${results.length} issue triage records in ${operationTime.toFixed(2)}ms`);
+      
+      return results;
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to retrieve issue triage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the triage decision for a fingerprint
+   */
+  async deleteIssueTriage(fingerprint: string): Promise<void> {
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['issue-triage'], 'readwrite').objectStore('issue-triage');
+      await this.promisifyRequest(store.delete(fingerprint));
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to delete issue triage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store an issue baseline, replacing any baseline with the same id
+   */
+  async storeIssueBaseline(baseline: IssueBaseline): Promise<void> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['issue-baselines'], 'readwrite').objectStore('issue-baselines');
+      await this.promisifyRequest(store.put(baseline));
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Issue baseline "${baseline.name}" stored in ${operationTime.toFixed(2)}ms`);
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to store issue baseline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve all issue baselines
+   */
+  async retrieveIssueBaselines(): Promise<IssueBaseline[]> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['issue-baselines'], 'readonly').objectStore('issue-baselines');
+      const results = await this.promisifyRequest(store.getAll());
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Retrieved ${results.length} issue baselines in ${operationTime.toFixed(2)}ms`);
+      
+      return results;
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to retrieve issue baselines:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an issue baseline
+   */
+  async deleteIssueBaseline(id: string): Promise<void> {
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['issue-baselines'], 'readwrite').objectStore('issue-baselines');
+      await this.promisifyRequest(store.delete(id));
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to delete issue baseline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store fix feedback counts, replacing the record with the same id
+   */
+  async storeFixFeedbackStats(stats: readonly FixFeedbackStats[]): Promise<void> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const transaction = this.database!.transaction(['fix-feedback'], 'readwrite');
+      const store = transaction.objectStore('fix-feedback');
+      await Promise.all(stats.map(record => this.promisifyRequest(store.put(record))));
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Stored ${stats.length} fix feedback records in ${operationTime.toFixed(2)}ms`);
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to store fix feedback:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve fix feedback counts, optionally for the given sites only
+   */
+  async retrieveFixFeedbackStats(sites?: readonly string[]): Promise<FixFeedbackStats[]> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['fix-feedback'], 'readonly').objectStore('fix-feedback');
+      const results: FixFeedbackStats[] = sites
+        ? (await Promise.all(sites.map(site => this.promisifyRequest(store.index('site').getAll(site))))).flat()
+        : await this.promisifyRequest(store.getAll());
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Retrieved ${results.length} fix feedback records in ${operationTime.toFixed(2)}ms`);
+      
+      return results;
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to retrieve fix feedback:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete fix feedback records by id
+   */
+  async deleteFixFeedbackStats(ids: readonly string[]): Promise<void> {
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const store = this.database!.transaction(['fix-feedback'], 'readwrite').objectStore('fix-feedback');
+      await Promise.all(ids.map(id => this.promisifyRequest(store.delete(id))));
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to delete fix feedback:', error);
+      throw error;
+    }
+  }
+
   /**
    * Retrieve accessibility issues by criteria
    */
@@ -472,9 +830,10 @@ export class IndexedDBManager {
       const transaction = this.database!.transaction(['accessibility-analyses'], 'readwrite');
       const store = transaction.objectStore('accessibility-analyses');
       
+      // Analyses read back from the store keep their id, so storing them again updates in place
       const analysisRecord = {
-        id: `analysis-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         ...analysis,
+        id: analysis.id ?? `analysis-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         storedAt: Date.now()
       };
       
@@ -490,6 +849,56 @@ export class IndexedDBManager {
     }
   }
 
+  /**
+   * Retrieve stored accessibility analyses, newest first
+   */
+  async retrieveAccessibilityAnalyses(criteria?: {
+    pageUrl?: string;
+    since?: number;
+    limit?: number;
+  }): Promise<AccessibilityAnalysis[]> {
+    const startTime = performance.now();
+    
+    try {
+      if (!this.database) {
+        await this.initialize();
+      }
+      
+      const transaction = this.database!.transaction(['accessibility-analyses'], 'readonly');
+      const store = transaction.objectStore('accessibility-analyses');
+      
+      let request: IDBRequest;
+      
+      if (criteria?.pageUrl) {
+        request = store.index('pageUrl').getAll(criteria.pageUrl);
+      } else if (criteria?.since !== undefined) {
+        request = store.index('analyzedAt').getAll(IDBKeyRange.lowerBound(criteria.since));
+      } else {
+        request = store.getAll();
+      }
+      
+      let results: AccessibilityAnalysis[] = await this.promisifyRequest(request);
+      
+      if (criteria?.since !== undefined) {
+        results = results.filter(analysis => analysis.analyzedAt >= criteria.since!);
+      }
+      results.sort((a, b) => b.analyzedAt - a.analyzedAt);
+      if (criteria?.limit) {
+        results = results.slice(0, criteria.limit);
+      }
+      
+      const operationTime = performance.now() - startTime;
+      this.recordOperation(operationTime);
+      
+      console.log(`[IndexedDBManager] Retrieved ${results.length} accessibility analyses in ${operationTime.toFixed(2)}ms`);
+      
+      return results;
+    } catch (error) {
+      console.error('[IndexedDBManager] Failed to retrieve accessibility analyses:', error);
+      throw error;
+    }
+  }
+
   /**
    * Store user preferences
    */
@@ -766,6 +1175,13 @@ export class IndexedDBManager {
     return hash.toString(16);
   }
 
+  /**
+   * Key of an issue record: one record per issue fingerprint and page
+   */
+  private getIssueRecordId(pageUrl: string, fingerprint: string): string {
+    return `${pageUrl}#${fingerprint}`;
+  }
+
   /**
    * Record operation performance metrics
    */
@@ -0,0 +1,214 @@
+/**
+ * IssueFingerprinter.ts
+ *
+ * Deterministic Issue Identity for AccessiAI Chrome Extension
+ * Gives the same finding the same fingerprint on every scan, so results can be
+ * deduplicated and compared between runs:
+ * - Issue type and sorted WCAG criteria
+ * - Normalized element locator (generated id fragments collapsed)
+ * - Content hash of the element's stable attributes, text and the finding's message template
+ *
+ * Measured values (contrast ratios, counts) are stripped from messages so a
+ * finding keeps its identity while its numbers change.
+ *
+ * Locators of elements without an id are positional (/html[1]/body[1]/div[3]/...),
+ * so inserting an earlier sibling of the element or of any ancestor gives the
+ * same finding a new fingerprint; it is then reported as resolved and new.
+ * Elements with a unique id keep their fingerprint wherever they move.
+ *
+ * Performance Target: <1ms per 100 issues
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import { AccessibilityIssue, ElementInfo } from '../types/index';
+
+/**
+ * IssueFingerprinter - Singleton computing stable issue fingerprints
+ */
+export class IssueFingerprinter {
+  private static instance: IssueFingerprinter;
+
+  // Attributes that identify what an element is, not how it is currently styled
+  private readonly STABLE_ATTRIBUTES = [
+    'alt', 'src', 'href', 'type', 'name', 'role', 'for', 'title',
+    'placeholder', 'aria-label', 'aria-labelledby', 'aria-describedby'
+  ];
+
+  private readonly MAX_TEXT_LENGTH = 200;
+
+  // Ids produced by frameworks and bundlers, e.g. ":r1:", "ember123", "input-4f2a9c1e"
+  private readonly GENERATED_ID_PATTERN = /^:r[0-9a-z]+:$|\d{2,}|[0-9a-f]{6,}/i;
+
+  /**
+   * Get singleton instance of IssueFingerprinter
+   */
+  static getInstance(): IssueFingerprinter {
+    if (!IssueFingerprinter.instance) {
+      IssueFingerprinter.instance = new IssueFingerprinter();
+    }
+    return IssueFingerprinter.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[IssueFingerprinter] Initializing Issue Fingerprinter...');
+  }
+
+  /**
+   * Compute the fingerprint of an issue
+   *
+   * @param issue - Issue to identify
+   * @returns string - Fingerprint, identical for the same finding across scans
+   */
+  computeFingerprint(issue: AccessibilityIssue): string {
+    const parts = [
+      issue.type,
+      [...issue.wcagCriteria].sort().join(','),
+      this.normalizeLocator(issue.element.xpath),
+      this.computeContentHash(issue),
+      issue.ruleId ?? ''
+    ];
+
+    return `fp-${this.hash(parts.join('|'))}`;
+  }
+
+  /**
+   * Attach fingerprints to issues that do not have one yet
+   *
+   * @param issues - Issues from an analysis run
+   * @returns AccessibilityIssue[] - Issues carrying a fingerprint
+   */
+  assignFingerprints(issues: readonly AccessibilityIssue[]): AccessibilityIssue[] {
+    return issues.map(issue => issue.fingerprint ? issue : { ...issue, fingerprint: this.computeFingerprint(issue) });
+  }
+
+  /**
+   * Keep the first issue for each fingerprint
+   *
+   * Different analyzers can report the same finding (for example a missing
+   * form label from both the scanner and the structure analyzer).
+   *
+   * @param issues - Fingerprinted issues
+   * @returns AccessibilityIssue[] - Issues with duplicates removed
+   */
+  dedupe(issues: readonly AccessibilityIssue[]): AccessibilityIssue[] {
+    const seen = new Set<string>();
+
+    return issues.filter(issue => {
+      const fingerprint = issue.fingerprint ?? this.computeFingerprint(issue);
+      if (seen.has(fingerprint)) {
+        return false;
+      }
+      seen.add(fingerprint);
+      return true;
+    });
+  }
+
+  /**
+   * Hash the current state of an issue's element
+   *
+   * Covers every attribute except presentation (class, style) and extension
+   * markers, so a triage decision can lapse when the element is edited even
+   * though the finding keeps its fingerprint.
+   *
+   * @param element - Element info from the issue
+   * @returns string - Element state hash
+   */
+  computeElementHash(element: ElementInfo): string {
+    const attributes = Object.keys(element.attributes)
+      .filter(name => name !== 'class' && name !== 'style' && !name.startsWith('data-accessiai'))
+      .sort()
+      .map(name => `${name}=${this.normalizeText(element.attributes[name] ?? '')}`)
+      .join(';');
+
+    return this.hash([element.tagName.toLowerCase(), attributes, this.getIdentifyingText(element)].join('\u0000'));
+  }
+
+  /**
+   * Normalize a locator so framework-generated id fragments do not change identity
+   *
+   * Positional steps are kept as they are; see the note on positional locators above.
+   *
+   * @param locator - Locator from ElementInfo.xpath
+   * @returns string - Normalized locator
+   */
+  normalizeLocator(locator: string): string {
+    return locator
+      .trim()
+      .replace(/@id="([^"]*)"/g, (match, id: string) =>
+        this.GENERATED_ID_PATTERN.test(id) ? `@id="${id.replace(/[0-9a-f]{6,}|\d+/gi, '#')}"` : match
+      )
+      .toLowerCase();
+  }
+
+  // Content Hashing
+
+  private computeContentHash(issue: AccessibilityIssue): string {
+    return this.hash([
+      issue.element.tagName.toLowerCase(),
+      this.getStableAttributes(issue.element),
+      this.getIdentifyingText(issue.element),
+      this.getMessageTemplate(issue.description)
+    ].join('\u0000'));
+  }
+
+  /**
+   * Short text identifies a control or image; long text belongs to a container
+   * whose contents change independently of the finding
+   */
+  private getIdentifyingText(element: ElementInfo): string {
+    if (element.tagName === 'html' || element.tagName === 'body') {
+      return '';
+    }
+    const text = this.normalizeText(element.textContent ?? '');
+    return text.length <= this.MAX_TEXT_LENGTH ? text : '';
+  }
+
+  private getStableAttributes(element: ElementInfo): string {
+    return this.STABLE_ATTRIBUTES
+      .filter(name => element.attributes[name] !== undefined)
+      .map(name => `${name}=${this.normalizeAttribute(name, element.attributes[name] ?? '')}`)
+      .join(';');
+  }
+
+  private normalizeAttribute(name: string, value: string): string {
+    // Cache-busting query strings and fragments change between deployments
+    if (name === 'src' || name === 'href') {
+      return value.split(/[?#]/)[0] ?? '';
+    }
+    return this.normalizeText(value);
+  }
+
+  private normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private getMessageTemplate(description: string): string {
+    return description.replace(/-?\d+(\.\d+)?/g, '#');
+  }
+
+  // Utility Methods
+
+  /**
+   * 64-bit FNV-1a style hash from two 32-bit passes with different offsets
+   */
+  private hash(input: string): string {
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193 ^ input.length;
+
+    for (let i = 0; i < input.length; i++) {
+      const code = input.charCodeAt(i);
+      h1 = Math.imul(h1 ^ code, 0x01000193);
+      h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+    }
+
+    return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+  }
+}
+
+// Export singleton instance
+export const issueFingerprinter = IssueFingerprinter.getInstance();
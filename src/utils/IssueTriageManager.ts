@@ -0,0 +1,169 @@
+/**
+ * IssueTriageManager.ts
+ *
+ * Issue Triage Lifecycle for AccessiAI Chrome Extension
+ * Lets auditors record a decision for each finding:
+ * - open / acknowledged / won't fix / false positive / resolved, with note and author
+ * - Decisions persisted in IndexedDB against the issue fingerprint
+ * - Dismissed issues hidden from the panel and excluded from compliance scores
+ * - Decisions lapse when the underlying element changes, so the issue comes back
+ *
+ * Performance Target: <10ms to apply triage to 500 issues
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityIssue,
+  IssueTriage,
+  IssueTriageStatus
+} from '../types/index';
+import { IndexedDBManager } from './IndexedDBManager';
+import { issueFingerprinter } from './IssueFingerprinter';
+
+/**
+ * IssueTriageManager - Singleton applying and recording triage decisions
+ */
+export class IssueTriageManager {
+  private static instance: IssueTriageManager;
+
+  private dbManager: IndexedDBManager;
+
+  // Statuses that take an issue out of the active list and the score
+  private readonly SUPPRESSING_STATUSES = new Set<IssueTriageStatus>(['wont-fix', 'false-positive', 'resolved']);
+
+  private readonly AUTHOR_STORAGE_KEY = 'accessiaiTriageAuthor';
+
+  /**
+   * Get singleton instance of IssueTriageManager
+   */
+  static getInstance(): IssueTriageManager {
+    if (!IssueTriageManager.instance) {
+      IssueTriageManager.instance = new IssueTriageManager();
+    }
+    return IssueTriageManager.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[IssueTriageManager] Initializing Issue Triage Manager...');
+    this.dbManager = IndexedDBManager.getInstance();
+  }
+
+  /**
+   * Attach stored triage decisions to issues
+   *
+   * A decision only applies while the element still matches the state it was
+   * made against; otherwise it is discarded and the issue is active again.
+   *
+   * @param issues - Fingerprinted issues
+   * @returns Promise<AccessibilityIssue[]> - Issues with current triage attached
+   */
+  async applyTriage(issues: readonly AccessibilityIssue[]): Promise<AccessibilityIssue[]> {
+    let records: IssueTriage[];
+    try {
+      records = await this.dbManager.retrieveIssueTriage();
+    } catch (error) {
+      console.warn('[IssueTriageManager] Triage unavailable, showing all issues:', error);
+      return [...issues];
+    }
+
+    const byFingerprint = new Map(records.map(record => [record.fingerprint, record]));
+    const lapsed = new Set<string>();
+
+    const triaged = issues.map(issue => {
+      const { triage: _previous, ...untriaged } = issue;
+      const fingerprint = issue.fingerprint ?? issueFingerprinter.computeFingerprint(issue);
+      const record = byFingerprint.get(fingerprint);
+
+      if (!record) {
+        return untriaged as AccessibilityIssue;
+      }
+
+      if (record.elementHash !== issueFingerprinter.computeElementHash(issue.element)) {
+        lapsed.add(fingerprint);
+        return untriaged as AccessibilityIssue;
+      }
+
+      return { ...untriaged, triage: record } as AccessibilityIssue;
+    });
+
+    for (const fingerprint of lapsed) {
+      console.log(`[IssueTriageManager] Element changed since triage, reopening ${fingerprint}`);
+      await this.dbManager.deleteIssueTriage(fingerprint).catch(error => {
+        console.warn('[IssueTriageManager] Failed to discard lapsed triage:', error);
+      });
+    }
+
+    return triaged;
+  }
+
+  /**
+   * Record a triage decision for an issue
+   *
+   * @param issue - Issue being triaged
+   * @param status - New status; 'open' removes any stored decision
+   * @param note - Auditor's note
+   * @param author - Who made the decision
+   * @returns Promise<AccessibilityIssue> - Issue with the new triage attached
+   */
+  async setTriage(issue: AccessibilityIssue, status: IssueTriageStatus, note: string, author: string): Promise<AccessibilityIssue> {
+    const fingerprint = issue.fingerprint ?? issueFingerprinter.computeFingerprint(issue);
+    const { triage: _previous, ...untriaged } = issue;
+
+    await this.rememberAuthor(author);
+
+    if (status === 'open' && !note.trim()) {
+      await this.dbManager.deleteIssueTriage(fingerprint);
+      return { ...untriaged, fingerprint } as AccessibilityIssue;
+    }
+
+    const triage: IssueTriage = {
+      fingerprint,
+      status,
+      note: note.trim(),
+      author: author.trim(),
+      updatedAt: Date.now(),
+      elementHash: issueFingerprinter.computeElementHash(issue.element)
+    };
+
+    await this.dbManager.storeIssueTriage(triage);
+    console.log(`[IssueTriageManager] ${fingerprint} marked ${status} by ${triage.author || 'unknown'}`);
+
+    return { ...untriaged, fingerprint, triage } as AccessibilityIssue;
+  }
+
+  /**
+   * Check whether an issue is dismissed by its triage status
+   */
+  isSuppressed(issue: AccessibilityIssue): boolean {
+    return !!issue.triage && this.SUPPRESSING_STATUSES.has(issue.triage.status);
+  }
+
+  /**
+   * Author name used for the last triage decision
+   */
+  async getDefaultAuthor(): Promise<string> {
+    try {
+      const result = await chrome.storage.local.get([this.AUTHOR_STORAGE_KEY]);
+      return (result[this.AUTHOR_STORAGE_KEY] as string | undefined) ?? '';
+    } catch {
+      return '';
+    }
+  }
+
+  private async rememberAuthor(author: string): Promise<void> {
+    if (!author.trim()) return;
+    try {
+      await chrome.storage.local.set({ [this.AUTHOR_STORAGE_KEY]: author.trim() });
+    } catch (error) {
+      console.warn('[IssueTriageManager] Failed to remember triage author:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const issueTriageManager = IssueTriageManager.getInstance();
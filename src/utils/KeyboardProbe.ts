@@ -0,0 +1,459 @@
+/**
+ * KeyboardProbe.ts
+ *
+ * Runtime Keyboard Probe for AccessiAI Chrome Extension
+ * Moves focus through the page the way a keyboard user would and reports what
+ * static attribute checks cannot see:
+ * - Keyboard traps: Tab or Shift+Tab cycles that never reach the end of the page
+ * - Focus lost to the page body after activating a control
+ * - Focus not returning to the trigger when a dialog closes with Escape
+ * - Dialogs that do not close with Escape; the probe closes them with their close button
+ *
+ * Tab and Shift+Tab are dispatched as keydown events so page scripts can
+ * intercept them; when a page leaves the key alone the probe moves focus to the
+ * next stop itself, since synthetic events have no default action. Findings are
+ * focus-management issues carrying the key presses that reproduce them.
+ *
+ * Focus, scroll position and the expanded state of activated controls are
+ * restored when the probe finishes.
+ *
+ * Performance Target: <2s to probe 200 focus stops and 20 triggers
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import { AccessibilityIssue, IssueSeverity } from '../types/index';
+import { domAnalyzer } from './DOMAnalyzer';
+import { composedPathLocator } from './ComposedPathLocator';
+import { accessibleNameComputer } from './AccessibleNameComputer';
+import { wcagCatalog } from './WCAGCatalog';
+
+/**
+ * Outcome of a probe run
+ */
+export interface KeyboardProbeResult {
+  readonly issues: AccessibilityIssue[];
+  readonly tabStops: number;
+  readonly forwardReachedEnd: boolean;
+  readonly backwardReachedEnd: boolean;
+  readonly triggersActivated: number;
+  readonly probeTime: number;
+}
+
+type TabDirection = 'forward' | 'backward';
+
+/**
+ * KeyboardProbe - Singleton simulating keyboard navigation on the page
+ */
+export class KeyboardProbe {
+  private static instance: KeyboardProbe;
+
+  private readonly MAX_TRIGGERS = 20;
+  private readonly TAB_SETTLE_DELAY = 0;      // milliseconds for focus handlers after a key press
+  private readonly SETTLE_DELAY = 50;         // milliseconds for open/close animations after activation
+  private readonly LABEL_LENGTH = 40;         // characters of accessible name shown in a step
+
+  // Accessible names of controls that dismiss a dialog
+  private readonly CLOSE_NAME_PATTERN = /^(close|dismiss|cancel|×|✕)(\s|$)/i;
+
+  // Controls that open or toggle content in place; links and submit buttons would leave the page
+  private readonly TRIGGER_SELECTOR = [
+    'button[aria-expanded]',
+    'button[aria-haspopup]:not([aria-haspopup="false"])',
+    'button[aria-controls]',
+    '[role="button"][aria-expanded]:not(a[href])',
+    '[role="button"][aria-haspopup]:not(a[href]):not([aria-haspopup="false"])',
+    'summary'
+  ].join(', ');
+
+  private readonly DIALOG_SELECTOR = 'dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]';
+
+  /**
+   * Get singleton instance of KeyboardProbe
+   */
+  static getInstance(): KeyboardProbe {
+    if (!KeyboardProbe.instance) {
+      KeyboardProbe.instance = new KeyboardProbe();
+    }
+    return KeyboardProbe.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[KeyboardProbe] Initializing Keyboard Probe...');
+  }
+
+  /**
+   * Tab through the page in both directions and activate its in-page triggers
+   *
+   * @param document - Document to probe
+   * @returns Promise<KeyboardProbeResult> - Focus-management issues with reproduction steps
+   */
+  async probe(document: Document): Promise<KeyboardProbeResult> {
+    const startTime = performance.now();
+    const originalFocus = this.getActiveElement(document);
+    const scrollX = window.scrollX;
+    const scrollY = window.scrollY;
+    const order = domAnalyzer.getSequentialFocusOrder(document).map(entry => entry.node as HTMLElement);
+    const issues: AccessibilityIssue[] = [];
+
+    let forwardReachedEnd = true;
+    let backwardReachedEnd = true;
+    let triggersActivated = 0;
+
+    try {
+      const forward = await this.walk(document, order, 'forward');
+      const backward = await this.walk(document, order, 'backward');
+      forwardReachedEnd = forward.reachedEnd;
+      backwardReachedEnd = backward.reachedEnd;
+      if (forward.issue) issues.push(forward.issue);
+      if (backward.issue) issues.push(backward.issue);
+
+      const triggers = order.filter(element => this.isTrigger(element)).slice(0, this.MAX_TRIGGERS);
+      for (const trigger of triggers) {
+        const issue = await this.activate(document, trigger, order.indexOf(trigger) + 1);
+        triggersActivated++;
+        if (issue) issues.push(issue);
+      }
+    } finally {
+      this.restoreFocus(document, originalFocus);
+      window.scrollTo(scrollX, scrollY);
+    }
+
+    const probeTime = performance.now() - startTime;
+    console.log(`[KeyboardProbe] Probed ${order.length} tab stops and ${triggersActivated} triggers in ${probeTime.toFixed(2)}ms, ${issues.length} issues`);
+
+    return { issues, tabStops: order.length, forwardReachedEnd, backwardReachedEnd, triggersActivated, probeTime };
+  }
+
+  // Tab Sequence
+
+  /**
+   * Press Tab (or Shift+Tab) from the start of the page until focus leaves the
+   * last stop or lands on a stop it already visited
+   */
+  private async walk(document: Document, order: readonly HTMLElement[], direction: TabDirection): Promise<{ reachedEnd: boolean; issue: AccessibilityIssue | null }> {
+    const lastStop = direction === 'forward' ? order[order.length - 1] : order[0];
+    if (!lastStop) {
+      return { reachedEnd: true, issue: null };
+    }
+
+    this.blurActiveElement(document);
+    const path: Element[] = [];
+    const maxPresses = order.length + 5;
+
+    for (let press = 0; press < maxPresses; press++) {
+      const focused = await this.pressTab(document, order, direction);
+      if (!focused) {
+        return { reachedEnd: true, issue: null };
+      }
+
+      const cycleStart = path.indexOf(focused);
+      path.push(focused);
+      if (cycleStart >= 0) {
+        const cycle = path.slice(cycleStart);
+        const escaped = await this.escapesWithEscapeKey(document, focused);
+        return { reachedEnd: false, issue: escaped ? null : this.createTrapIssue(focused, path.slice(0, cycleStart), cycle, direction) };
+      }
+
+      if (focused === lastStop) {
+        return { reachedEnd: true, issue: null };
+      }
+    }
+
+    // New stops kept appearing; no cycle to report
+    console.warn(`[KeyboardProbe] ${direction} walk stopped after ${maxPresses} presses without reaching the end`);
+    return { reachedEnd: false, issue: null };
+  }
+
+  /**
+   * Dispatch a Tab keydown on the focused element and, unless the page handled
+   * it, move focus to the next stop
+   *
+   * @returns Element | null - Focused element afterwards, null when focus left the page
+   */
+  private async pressTab(document: Document, order: readonly HTMLElement[], direction: TabDirection): Promise<Element | null> {
+    const before = this.getActiveElement(document);
+    const notHandled = this.dispatchKey(before ?? document.body, 'Tab', direction === 'backward');
+    await this.settle(this.TAB_SETTLE_DELAY);
+
+    if (notHandled && this.getActiveElement(document) === before) {
+      const next = this.getNextStop(order, before, direction);
+      if (next) {
+        next.focus({ preventScroll: true });
+      } else {
+        this.blurActiveElement(document);
+      }
+      await this.settle(this.TAB_SETTLE_DELAY);
+    }
+
+    return this.getActiveElement(document);
+  }
+
+  private getNextStop(order: readonly HTMLElement[], current: Element | null, direction: TabDirection): HTMLElement | null {
+    const step = direction === 'forward' ? 1 : -1;
+    if (!current) {
+      return (direction === 'forward' ? order[0] : order[order.length - 1]) ?? null;
+    }
+
+    const index = order.indexOf(current as HTMLElement);
+    if (index >= 0) {
+      return order[index + step] ?? null;
+    }
+
+    // Focus sits on something that was not tabbable when the probe started:
+    // continue from its position in the document
+    const following = direction === 'forward' ? Node.DOCUMENT_POSITION_FOLLOWING : Node.DOCUMENT_POSITION_PRECEDING;
+    const candidates = direction === 'forward' ? order : [...order].reverse();
+    return candidates.find(element => (current.compareDocumentPosition(element) & following) !== 0) ?? null;
+  }
+
+  /**
+   * A cycle inside a modal dialog is expected as long as Escape closes it
+   */
+  private async escapesWithEscapeKey(document: Document, focused: Element): Promise<boolean> {
+    const dialog = focused.closest(this.DIALOG_SELECTOR);
+    if (!dialog) {
+      return false;
+    }
+
+    this.dispatchKey(focused, 'Escape', false);
+    await this.settle();
+
+    const active = this.getActiveElement(document);
+    return !this.isShown(dialog) || !active || !dialog.contains(active);
+  }
+
+  // Trigger Activation
+
+  /**
+   * Activate a trigger from the keyboard and check where focus ends up
+   */
+  private async activate(document: Document, trigger: HTMLElement, position: number): Promise<AccessibilityIssue | null> {
+    if (!trigger.isConnected) {
+      return null;
+    }
+
+    const openDialogs = new Set(this.getOpenDialogs(document));
+    const expanded = trigger.getAttribute('aria-expanded');
+    const details = trigger.tagName === 'SUMMARY' ? trigger.parentElement : null;
+    const detailsOpen = details instanceof HTMLDetailsElement ? details.open : null;
+    const reachSteps = [`Press Tab until ${this.describe(trigger)} is focused (tab stop ${position})`, 'Press Enter'];
+
+    trigger.focus({ preventScroll: true });
+    if (this.getActiveElement(document) !== trigger) {
+      return null;
+    }
+
+    trigger.click();
+    await this.settle();
+
+    try {
+      const active = this.getActiveElement(document);
+      const dialog = this.getOpenDialogs(document).find(candidate => !openDialogs.has(candidate));
+
+      if (!active && !dialog) {
+        return this.createFocusIssue(trigger, 'high',
+          `Focus is lost to the page body after activating ${this.describe(trigger)}`,
+          'Keep focus on the control after activation, or move it to the content the control revealed; never leave it on a removed or hidden element',
+          [...reachSteps, 'Focus moves to the page body']);
+      }
+
+      if (dialog) {
+        return await this.checkDialogFocusReturn(document, trigger, dialog, reachSteps);
+      }
+
+      return null;
+
+    } finally {
+      this.restoreTrigger(trigger, expanded, details, detailsOpen);
+    }
+  }
+
+  /**
+   * Close a dialog opened by a trigger with Escape and check focus went back
+   */
+  private async checkDialogFocusReturn(document: Document, trigger: HTMLElement, dialog: Element, reachSteps: readonly string[]): Promise<AccessibilityIssue | null> {
+    const dialogLabel = this.describe(dialog);
+    const steps = [...reachSteps, `${dialogLabel} opens`, 'Press Escape'];
+
+    this.dispatchKey(this.getActiveElement(document) ?? dialog, 'Escape', false);
+    await this.settle();
+
+    if (this.isShown(dialog)) {
+      // Without a way to close it the return cannot be checked; put the page back for the next trigger
+      if (dialog instanceof HTMLDialogElement) {
+        dialog.close();
+        console.warn(`[KeyboardProbe] ${dialogLabel} did not close on Escape; focus return not checked`);
+        return null;
+      }
+
+      const closeControl = this.findCloseControl(dialog);
+      if (closeControl) {
+        closeControl.click();
+        await this.settle();
+      }
+      if (this.isShown(dialog)) {
+        console.warn(`[KeyboardProbe] ${dialogLabel} could not be closed and is still open on the page`);
+      }
+
+      return this.createFocusIssue(dialog, 'medium',
+        `${dialogLabel} does not close when Escape is pressed`,
+        'Close the dialog on Escape and move focus back to the control that opened it',
+        [...steps, `${dialogLabel} stays open`]);
+    }
+
+    const active = this.getActiveElement(document);
+    if (active === trigger) {
+      return null;
+    }
+
+    return this.createFocusIssue(trigger, active ? 'medium' : 'high',
+      `Focus does not return to ${this.describe(trigger)} when ${dialogLabel} closes`,
+      'When the dialog closes, move focus back to the control that opened it so keyboard users continue where they left off',
+      [...steps, `${dialogLabel} closes and focus lands on ${active ? this.describe(active) : 'the page body'} instead of ${this.describe(trigger)}`]);
+  }
+
+  /**
+   * Button inside a dialog that dismisses it, found by its accessible name
+   */
+  private findCloseControl(dialog: Element): HTMLElement | null {
+    const buttons = Array.from(dialog.querySelectorAll<HTMLElement>('button, [role="button"]'));
+    return buttons.find(button => this.CLOSE_NAME_PATTERN.test(accessibleNameComputer.computeAccessibleName(button).trim())) ?? null;
+  }
+
+  private restoreTrigger(trigger: HTMLElement, expanded: string | null, details: HTMLElement | null, detailsOpen: boolean | null): void {
+    if (details instanceof HTMLDetailsElement && detailsOpen !== null) {
+      details.open = detailsOpen;
+    } else if (trigger.isConnected && expanded !== null && trigger.getAttribute('aria-expanded') !== expanded) {
+      trigger.click();
+    }
+  }
+
+  // Issue Creation
+
+  private createTrapIssue(focused: Element, lead: readonly Element[], cycle: readonly Element[], direction: TabDirection): AccessibilityIssue {
+    const key = direction === 'forward' ? 'Tab' : 'Shift+Tab';
+    const stops = cycle.length - 1;
+    const steps = [
+      `Start with focus at the ${direction === 'forward' ? 'top' : 'bottom'} of the page`,
+      ...(lead.length > 0 ? [`Press ${key} ${lead.length} ${lead.length === 1 ? 'time' : 'times'} to reach ${this.describe(lead[lead.length - 1]!)}`] : []),
+      ...cycle.map(element => `Press ${key} → ${this.describe(element)}`),
+      `Focus keeps cycling through the same ${stops} ${stops === 1 ? 'stop' : 'stops'} and never reaches the ${direction === 'forward' ? 'end' : 'start'} of the page`
+    ];
+
+    return this.buildIssue(focused, 'critical',
+      `Keyboard trap: ${key} cycles through ${stops} ${stops === 1 ? 'element' : 'elements'} starting at ${this.describe(focused)}`,
+      wcagCatalog.getCriteriaForCheck('keyboard-trap'),
+      'Let Tab and Shift+Tab move focus out of the component, or close it with Escape when it is a modal dialog',
+      steps);
+  }
+
+  private createFocusIssue(trigger: Element, severity: IssueSeverity, description: string, suggestedFix: string, steps: readonly string[]): AccessibilityIssue {
+    return this.buildIssue(trigger, severity, description, wcagCatalog.getCriteriaForCheck('focus-order'), suggestedFix, steps);
+  }
+
+  private buildIssue(element: Element, severity: IssueSeverity, description: string, wcagCriteria: readonly string[], suggestedFix: string, steps: readonly string[]): AccessibilityIssue {
+    return {
+      id: `issue-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      type: 'focus-management',
+      severity,
+      element: domAnalyzer.createElementInfo(element),
+      description,
+      wcagCriteria,
+      suggestedFix,
+      detectedAt: Date.now(),
+      confidence: 0.8,
+      category: 'interaction',
+      source: 'keyboard',
+      reproductionSteps: steps
+    };
+  }
+
+  // Utility Methods
+
+  /**
+   * Focused element, following shadow roots; null when focus is on the body
+   */
+  private getActiveElement(document: Document): Element | null {
+    let active = document.activeElement;
+    while (active?.shadowRoot?.activeElement) {
+      active = active.shadowRoot.activeElement;
+    }
+    return !active || active === document.body || active === document.documentElement ? null : active;
+  }
+
+  private blurActiveElement(document: Document): void {
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && active !== document.body) {
+      active.blur();
+    }
+  }
+
+  private restoreFocus(document: Document, element: Element | null): void {
+    if (element instanceof HTMLElement && element.isConnected) {
+      element.focus({ preventScroll: true });
+    } else {
+      this.blurActiveElement(document);
+    }
+  }
+
+  /**
+   * @returns boolean - True when no handler called preventDefault
+   */
+  private dispatchKey(target: Element, key: string, shiftKey: boolean): boolean {
+    return target.dispatchEvent(new KeyboardEvent('keydown', {
+      key,
+      code: key,
+      shiftKey,
+      bubbles: true,
+      cancelable: true,
+      composed: true
+    }));
+  }
+
+  private settle(delay: number = this.SETTLE_DELAY): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  private isTrigger(element: HTMLElement): boolean {
+    if (!element.matches(this.TRIGGER_SELECTOR)) {
+      return false;
+    }
+    // A plain <button> in a form submits it
+    return !(element instanceof HTMLButtonElement && element.type === 'submit' && element.form !== null);
+  }
+
+  private getOpenDialogs(document: Document): Element[] {
+    return composedPathLocator
+      .querySelectorAllComposed(document, this.DIALOG_SELECTOR)
+      .filter(dialog => this.isShown(dialog));
+  }
+
+  private isShown(element: Element): boolean {
+    if (!element.isConnected || element.getClientRects().length === 0) {
+      return false;
+    }
+    return window.getComputedStyle(element).visibility !== 'hidden';
+  }
+
+  /**
+   * Short human-readable reference to an element for reproduction steps
+   */
+  private describe(element: Element): string {
+    const tag = element.tagName.toLowerCase();
+    const reference = element.id ? `${tag}#${element.id}` : tag;
+    const name = accessibleNameComputer.computeAccessibleName(element).trim();
+    if (!name) {
+      return reference;
+    }
+    const label = name.length > this.LABEL_LENGTH ? `${name.substring(0, this.LABEL_LENGTH - 1)}…` : name;
+    return `${reference} "${label}"`;
+  }
+}
+
+// Export singleton instance
+export const keyboardProbe = KeyboardProbe.getInstance();
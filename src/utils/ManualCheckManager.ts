@@ -0,0 +1,283 @@
+/**
+ * ManualCheckManager.ts
+ *
+ * Guided Manual Checks for AccessiAI Chrome Extension
+ * Supports the panel's checklist mode for criteria automation cannot decide:
+ * - Checklist of manual and partially automated criteria for a WCAG level
+ * - Elements relevant to each criterion, for highlighting on the page
+ * - Pass / fail / not applicable verdicts with notes
+ * - Verdicts merged into the page's stored AccessibilityAnalysis and carried
+ *   over to later analyses of the same page
+ *
+ * A detected failure always outranks a manual pass; testers dismiss false
+ * findings through triage instead.
+ *
+ * Performance Target: <20ms to build a checklist
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityAnalysis,
+  AccessibilityIssue,
+  ComplianceStatus,
+  CriterionEvaluation,
+  ManualCheckOutcome,
+  ManualCheckResult,
+  WCAGCatalogEntry,
+  WCAGCriteria
+} from '../types/index';
+import { IndexedDBManager } from './IndexedDBManager';
+import { composedPathLocator } from './ComposedPathLocator';
+import { wcagCatalog } from './WCAGCatalog';
+
+/**
+ * One step of the manual checklist
+ */
+export interface ManualCheckItem {
+  readonly criterion: WCAGCatalogEntry;
+  readonly selector: string | null;      // elements to review, null when the criterion concerns the whole page
+  readonly result: ManualCheckResult | null;
+}
+
+/**
+ * ManualCheckManager - Singleton recording manual criterion verdicts
+ */
+export class ManualCheckManager {
+  private static instance: ManualCheckManager;
+
+  private dbManager: IndexedDBManager;
+
+  private readonly FOCUSABLE = 'a[href], button, input, select, textarea, summary, [tabindex], [contenteditable="true"]';
+  private readonly FORM_CONTROLS = 'form, input, select, textarea';
+  private readonly MEDIA = 'video, audio';
+
+  // Elements a tester should look at for each criterion
+  private readonly REVIEW_SELECTORS: Record<string, string> = {
+    '1.1.1': 'img, svg, canvas, [role="img"], input[type="image"], area',
+    '1.2.1': this.MEDIA,
+    '1.2.2': 'video',
+    '1.2.3': 'video',
+    '1.2.4': this.MEDIA,
+    '1.2.5': 'video',
+    '1.2.6': 'video',
+    '1.2.7': 'video',
+    '1.2.8': 'video',
+    '1.2.9': 'audio',
+    '1.3.1': 'table, ul, ol, dl, fieldset, h1, h2, h3, h4, h5, h6',
+    '1.3.2': 'main, [role="main"], table, [style*="order"]',
+    '1.3.5': 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), select, textarea',
+    '1.4.1': 'a[href], [aria-invalid="true"]',
+    '1.4.2': 'audio, video[autoplay]',
+    '1.4.5': 'img, svg',
+    '1.4.9': 'img, svg',
+    '1.4.11': 'button, input, select, textarea, [role="button"], [role="checkbox"], [role="switch"]',
+    '1.4.13': '[title], [aria-describedby], [role="tooltip"]',
+    '2.1.1': this.FOCUSABLE,
+    '2.1.2': this.FOCUSABLE,
+    '2.1.3': this.FOCUSABLE,
+    '2.1.4': '[accesskey], [aria-keyshortcuts]',
+    '2.2.2': 'marquee, video[autoplay], [aria-live], [role="marquee"], [role="timer"]',
+    '2.3.1': 'video, canvas, img[src$=".gif"]',
+    '2.3.3': '[style*="animation"], [style*="transition"]',
+    '2.4.1': 'a[href^="#"], nav, [role="navigation"], main',
+    '2.4.3': this.FOCUSABLE,
+    '2.4.4': 'a[href]',
+    '2.4.6': 'h1, h2, h3, h4, h5, h6, label',
+    '2.4.7': this.FOCUSABLE,
+    '2.4.9': 'a[href]',
+    '2.4.10': 'h1, h2, h3, h4, h5, h6',
+    '2.4.11': this.FOCUSABLE,
+    '2.4.12': this.FOCUSABLE,
+    '2.4.13': this.FOCUSABLE,
+    '2.5.1': '[draggable="true"], canvas, [role="slider"]',
+    '2.5.2': 'button, a[href], [role="button"]',
+    '2.5.3': 'button, a[href], [role="button"], [aria-label]',
+    '2.5.5': 'button, a[href], input, select, [role="button"]',
+    '2.5.7': '[draggable="true"], [role="slider"]',
+    '2.5.8': 'button, a[href], input, select, [role="button"]',
+    '3.1.2': '[lang]',
+    '3.1.4': 'abbr',
+    '3.2.1': this.FORM_CONTROLS,
+    '3.2.2': this.FORM_CONTROLS,
+    '3.2.3': 'nav, [role="navigation"], header, footer',
+    '3.2.4': 'nav, [role="navigation"], button, [role="button"]',
+    '3.2.6': 'a[href^="mailto:"], a[href^="tel:"], [aria-label*="help" i], [aria-label*="chat" i]',
+    '3.3.1': this.FORM_CONTROLS,
+    '3.3.2': this.FORM_CONTROLS,
+    '3.3.3': this.FORM_CONTROLS,
+    '3.3.4': 'form',
+    '3.3.5': this.FORM_CONTROLS,
+    '3.3.6': 'form',
+    '3.3.7': 'form',
+    '3.3.8': 'input[type="password"], form',
+    '3.3.9': 'input[type="password"], form',
+    '4.1.2': '[role], button, input, select, textarea',
+    '4.1.3': '[role="status"], [role="alert"], [role="log"], [aria-live]'
+  };
+
+  private readonly OUTCOME_STATUS: Record<ManualCheckOutcome, ComplianceStatus> = {
+    'pass': 'pass',
+    'fail': 'fail',
+    'not-applicable': 'not-applicable'
+  };
+
+  /**
+   * Get singleton instance of ManualCheckManager
+   */
+  static getInstance(): ManualCheckManager {
+    if (!ManualCheckManager.instance) {
+      ManualCheckManager.instance = new ManualCheckManager();
+    }
+    return ManualCheckManager.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[ManualCheckManager] Initializing Manual Check Manager...');
+    this.dbManager = IndexedDBManager.getInstance();
+  }
+
+  /**
+   * Build the checklist for a page
+   *
+   * Covers manual-only criteria and partially automated criteria without
+   * detected failures, with any verdicts already recorded for the page.
+   *
+   * @param pageUrl - Page being reviewed
+   * @param level - Target WCAG level
+   * @param issues - Current issues on the page
+   * @returns Promise<ManualCheckItem[]> - Checklist in criterion order
+   */
+  async getChecklist(pageUrl: string, level: WCAGCriteria['level'], issues: readonly AccessibilityIssue[]): Promise<ManualCheckItem[]> {
+    const results = await this.getResults(pageUrl);
+    const byCriterion = new Map(results.map(result => [result.criterion, result]));
+
+    return wcagCatalog.getCoverage(level, issues).needsManualReview.map(criterion => ({
+      criterion,
+      selector: this.REVIEW_SELECTORS[criterion.id] ?? null,
+      result: byCriterion.get(criterion.id) ?? null
+    }));
+  }
+
+  /**
+   * Find the page elements a tester should review for a checklist item
+   *
+   * @param item - Checklist item
+   * @param root - Document to search
+   * @returns Element[] - Matching elements outside the extension's own UI
+   */
+  findReviewElements(item: ManualCheckItem, root: Document = document): Element[] {
+    if (!item.selector) return [];
+
+    return composedPathLocator
+      .querySelectorAllComposed(root, item.selector)
+      .filter(element => !element.closest('.accessiai-panel, .accessiai-modal'));
+  }
+
+  /**
+   * Get the manual verdicts recorded for a page
+   *
+   * @param pageUrl - Page URL
+   * @returns Promise<ManualCheckResult[]> - Verdicts from the latest stored analysis
+   */
+  async getResults(pageUrl: string): Promise<ManualCheckResult[]> {
+    const analysis = await this.getLatestAnalysis(pageUrl);
+    return [...(analysis?.manualChecks ?? [])];
+  }
+
+  /**
+   * Record a manual verdict and merge it into the page's stored analysis
+   *
+   * @param pageUrl - Page being reviewed; must have been analyzed
+   * @param criterion - Success criterion id
+   * @param outcome - Tester's verdict
+   * @param note - What the tester observed
+   * @param author - Who made the check
+   * @returns Promise<ManualCheckResult> - The recorded verdict
+   */
+  async recordResult(pageUrl: string, criterion: string, outcome: ManualCheckOutcome, note: string, author: string): Promise<ManualCheckResult> {
+    const analysis = await this.getLatestAnalysis(pageUrl);
+    if (!analysis) {
+      throw new Error(`No stored analysis for ${pageUrl}; run an analysis before recording manual checks`);
+    }
+
+    const result: ManualCheckResult = {
+      criterion,
+      outcome,
+      note: note.trim(),
+      author: author.trim(),
+      checkedAt: Date.now()
+    };
+
+    const results = [...(analysis.manualChecks ?? []).filter(existing => existing.criterion !== criterion), result];
+    await this.dbManager.storeAccessibilityAnalysis(this.mergeResults(analysis, results));
+
+    console.log(`[ManualCheckManager] ${criterion} marked ${outcome} on ${pageUrl}`);
+    return result;
+  }
+
+  /**
+   * Carry the manual verdicts of the previous analysis of a page over to a new one
+   *
+   * @param analysis - Analysis about to be stored
+   * @returns Promise<AccessibilityAnalysis> - Analysis including the earlier verdicts
+   */
+  async carryOver(analysis: AccessibilityAnalysis): Promise<AccessibilityAnalysis> {
+    try {
+      const previous = await this.getLatestAnalysis(analysis.pageUrl);
+      if (!previous?.manualChecks?.length) {
+        return analysis;
+      }
+      return this.mergeResults(analysis, previous.manualChecks);
+    } catch (error) {
+      console.warn('[ManualCheckManager] Failed to carry over manual checks:', error);
+      return analysis;
+    }
+  }
+
+  /**
+   * Merge manual verdicts into an analysis's criterion evaluations
+   *
+   * @param analysis - Analysis with automated evaluations
+   * @param results - Manual verdicts for the same page
+   * @returns AccessibilityAnalysis - Analysis with merged evaluations and verdicts
+   */
+  mergeResults(analysis: AccessibilityAnalysis, results: readonly ManualCheckResult[]): AccessibilityAnalysis {
+    const evaluations = new Map<string, CriterionEvaluation>(
+      (analysis.criteriaEvaluations ?? []).map(evaluation => [evaluation.criterion, evaluation])
+    );
+
+    for (const result of results) {
+      const existing = evaluations.get(result.criterion);
+      const detectedFailure = existing?.source !== 'manual' && (existing?.status === 'fail' || existing?.status === 'partial');
+      if (detectedFailure && result.outcome === 'pass') continue;
+
+      evaluations.set(result.criterion, {
+        criterion: result.criterion,
+        status: this.OUTCOME_STATUS[result.outcome],
+        issueIds: existing && existing.source !== 'manual' ? existing.issueIds : [],
+        source: 'manual'
+      });
+    }
+
+    return {
+      ...analysis,
+      criteriaEvaluations: [...evaluations.values()],
+      manualChecks: [...results].sort((a, b) => a.criterion.localeCompare(b.criterion, undefined, { numeric: true }))
+    };
+  }
+
+  // Utility Methods
+
+  private async getLatestAnalysis(pageUrl: string): Promise<AccessibilityAnalysis | null> {
+    const [latest] = await this.dbManager.retrieveAccessibilityAnalyses({ pageUrl, limit: 1 });
+    return latest ?? null;
+  }
+}
+
+// Export singleton instance
+export const manualCheckManager = ManualCheckManager.getInstance();
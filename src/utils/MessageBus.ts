@@ -35,6 +35,12 @@ export interface MessageBusConfig {
   readonly retryDelay: number;
 }
 
+export interface PendingRequest {
+  readonly resolve: (response: AgentMessage) => void;
+  readonly reject: (error: Error) => void;
+  readonly timer: ReturnType<typeof setTimeout>;
+}
+
 export interface QueuedMessage {
   readonly message: AgentMessage;
   readonly enqueuedAt: number;
@@ -113,6 +119,8 @@ export class MessageBus {
   // ============================================================================
 
   private subscribers: Map<string, MessageHandler[]> = new Map();
+  private subscriptions: Map<string, { topic: string; handler: MessageHandler }> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
   private messageQueue: PriorityQueue<QueuedMessage> = new PriorityQueue();
   private routingRules: RoutingRule[] = [];
   private processing: boolean = false;
@@ -233,6 +241,7 @@ export class MessageBus {
       
       // Generate subscription ID
       const subscriptionId = `${topic}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      this.subscriptions.set(subscriptionId, { topic, handler });
       
       console.log(`[MessageBus] Subscribed to topic: ${topic}, subscription ID: ${subscriptionId}`);
       return subscriptionId;
@@ -248,21 +257,22 @@ export class MessageBus {
    */
   async unsubscribe(subscriptionId: string): Promise<void> {
     try {
-      // Parse subscription ID to get topic
-      const parts = subscriptionId.split('-');
-      if (parts.length === 0 || !parts[0]) {
-        throw new Error('Invalid subscription ID format');
+      const subscription = this.subscriptions.get(subscriptionId);
+      if (!subscription) {
+        throw new Error('Unknown subscription ID');
       }
       
-      const topic = parts[0];
-      const handlers = this.subscribers.get(topic);
+      this.subscriptions.delete(subscriptionId);
+      const handlers = this.subscribers.get(subscription.topic);
       
-      if (handlers && handlers.length > 0) {
-        // For simplicity, remove the last handler (in production, we'd track handlers by ID)
-        handlers.pop();
+      if (handlers) {
+        const index = handlers.indexOf(subscription.handler);
+        if (index > -1) {
+          handlers.splice(index, 1);
+        }
         
         if (handlers.length === 0) {
-          this.subscribers.delete(topic);
+          this.subscribers.delete(subscription.topic);
         }
       }
       
@@ -274,6 +284,46 @@ export class MessageBus {
     }
   }
 
+  /**
+   * Route a command or query and wait for the response carrying its ID as correlationId
+   * 
+   * The request is rejected at once when no agent is subscribed to receive it,
+   * and when no response arrives within the message TTL.
+   */
+  async request(message: AgentMessage): Promise<AgentMessage> {
+    const targets = this.applyRoutingRules(message);
+    if (targets.length === 0) {
+      targets.push(message.target);
+    }
+    if (!targets.some(target => target === 'broadcast' || (this.subscribers.get(target)?.length ?? 0) > 0)) {
+      throw new Error(`No agent subscribed to receive requests for ${message.target}`);
+    }
+    
+    const ttl = message.ttl || this.config.defaultTTL;
+    
+    const response = new Promise<AgentMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(message.id);
+        reject(new Error(`No response from ${message.target} within ${ttl}ms`));
+      }, ttl);
+      
+      this.pendingRequests.set(message.id, { resolve, reject, timer });
+    });
+    
+    try {
+      await this.route(message);
+    } catch (error) {
+      const pending = this.pendingRequests.get(message.id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(message.id);
+      }
+      throw error;
+    }
+    
+    return response;
+  }
+
   /**
    * Route message directly to target agent(s)
    */
@@ -281,8 +331,20 @@ export class MessageBus {
     const startTime = performance.now();
     
     try {
-      // Apply routing rules
-      const targets = this.applyRoutingRules(message);
+      // Responses settle a pending request instead of being delivered
+      if (message.type === 'response' && message.correlationId) {
+        const pending = this.pendingRequests.get(message.correlationId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingRequests.delete(message.correlationId);
+          pending.resolve(message);
+          this.updateMetrics(performance.now() - startTime, true);
+          return;
+        }
+      }
+      
+      // Apply routing rules; responses always go back to their target
+      const targets = message.type === 'response' ? [] : this.applyRoutingRules(message);
       
       if (targets.length === 0) {
         if (message.target === 'broadcast') {
@@ -633,6 +695,13 @@ export class MessageBus {
     this.stopProcessing();
     this.messageQueue.clear();
     this.subscribers.clear();
+    this.subscriptions.clear();
+    
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Message bus shut down'));
+    });
+    this.pendingRequests.clear();
     this.routingRules = [];
     
     console.log('[MessageBus] Shutdown complete');
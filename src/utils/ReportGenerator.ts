@@ -0,0 +1,628 @@
+/**
+ * ReportGenerator.ts
+ *
+ * Audit Report Export for AccessiAI Chrome Extension
+ * Turns a unified analysis result into downloadable reports:
+ * - Self-contained HTML audit report with a print stylesheet (save as PDF from the print dialog)
+ * - JSON for scripting and archiving
+ * - CSV for spreadsheets and issue trackers
+ * - SARIF 2.1.0 for code-scanning tools
+ *
+ * Every format groups issues by WCAG success criterion and carries the element
+ * snippet and remediation text. Dismissed issues (see IssueTriageManager) are
+ * reported separately, or as SARIF suppressions. HTML and JSON reports also
+ * list the criteria automated checks cannot decide (see WCAGCatalog).
+ *
+ * Performance Target: <50ms for 500 issues
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import { AccessibilityIssue, ElementInfo, IssueSeverity, WCAGCoverage, WCAGCriteria } from '../types/index';
+import type { UnifiedAnalysisResult } from './UnifiedAnalysisCoordinator';
+import { wcagCatalog } from './WCAGCatalog';
+
+export type ReportFormat = 'html' | 'json' | 'csv' | 'sarif';
+
+/**
+ * Generated report ready to be downloaded
+ */
+export interface GeneratedReport {
+  readonly format: ReportFormat;
+  readonly filename: string;
+  readonly mimeType: string;
+  readonly content: string;
+}
+
+/**
+ * Issues reported against a single success criterion
+ */
+export interface CriterionGroup {
+  readonly criterion: string;            // '' for issues without a WCAG mapping
+  readonly title: string;
+  readonly level: 'A' | 'AA' | 'AAA' | '';
+  readonly issues: AccessibilityIssue[];
+}
+
+/**
+ * ReportGenerator - Singleton producing audit reports in several formats
+ */
+export class ReportGenerator {
+  private static instance: ReportGenerator;
+
+  private readonly TOOL_NAME = 'AccessiAI';
+  private readonly TOOL_VERSION = '2.0.0';
+  private readonly MAX_SNIPPET_TEXT = 80;
+
+  private readonly SEVERITY_ORDER: Record<IssueSeverity, number> = {
+    critical: 0,
+    high: 1,
+    medium: 2,
+    low: 3
+  };
+
+  private readonly FORMAT_DETAILS: Record<ReportFormat, { extension: string; mimeType: string }> = {
+    html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+    json: { extension: 'json', mimeType: 'application/json' },
+    csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+    sarif: { extension: 'sarif', mimeType: 'application/sarif+json' }
+  };
+
+  /**
+   * Get singleton instance of ReportGenerator
+   */
+  static getInstance(): ReportGenerator {
+    if (!ReportGenerator.instance) {
+      ReportGenerator.instance = new ReportGenerator();
+    }
+    return ReportGenerator.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[ReportGenerator] Initializing Report Generator...');
+  }
+
+  /**
+   * Generate a report in the requested format
+   *
+   * @param result - Unified analysis result to report on
+   * @param format - Output format
+   * @param level - WCAG level the manual review list covers
+   * @returns GeneratedReport - Report content with filename and MIME type
+   */
+  generate(result: UnifiedAnalysisResult, format: ReportFormat, level: WCAGCriteria['level'] = 'AA'): GeneratedReport {
+    const startTime = performance.now();
+
+    let content: string;
+    switch (format) {
+      case 'html':
+        content = this.generateHTML(result, level);
+        break;
+      case 'json':
+        content = this.generateJSON(result, level);
+        break;
+      case 'csv':
+        content = this.generateCSV(result);
+        break;
+      case 'sarif':
+        content = this.generateSARIF(result);
+        break;
+      default:
+        throw new Error(`Unsupported report format: ${format as string}`);
+    }
+
+    const details = this.FORMAT_DETAILS[format];
+    console.log(`[ReportGenerator] ${format.toUpperCase()} report generated in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+    return {
+      format,
+      filename: `${this.getFileBaseName(result)}.${details.extension}`,
+      mimeType: details.mimeType,
+      content
+    };
+  }
+
+  /**
+   * Save a generated report through a temporary download link
+   *
+   * @param report - Report to save
+   * @param doc - Document to attach the link to
+   */
+  download(report: GeneratedReport, doc: Document = document): void {
+    const url = URL.createObjectURL(new Blob([report.content], { type: report.mimeType }));
+    const link = doc.createElement('a');
+    link.href = url;
+    link.download = report.filename;
+    link.style.display = 'none';
+
+    doc.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Revoke after the click has been handled so the download can start
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Group issues by WCAG success criterion
+   *
+   * An issue mapped to several criteria appears under each of them. Groups are
+   * sorted by criterion number, issues within a group by severity.
+   *
+   * @param issues - Issues to group
+   * @returns CriterionGroup[] - Groups, with unmapped issues last
+   */
+  groupByCriterion(issues: readonly AccessibilityIssue[]): CriterionGroup[] {
+    const groups = new Map<string, AccessibilityIssue[]>();
+
+    for (const issue of issues) {
+      const criteria = issue.wcagCriteria.length > 0 ? issue.wcagCriteria : [''];
+      for (const criterion of criteria) {
+        const group = groups.get(criterion) ?? [];
+        group.push(issue);
+        groups.set(criterion, group);
+      }
+    }
+
+    return [...groups.entries()]
+      .sort(([a], [b]) => this.compareCriteria(a, b))
+      .map(([criterion, groupIssues]) => ({
+        criterion,
+        title: this.getCriterionTitle(criterion),
+        level: wcagCatalog.getCriterion(criterion)?.level ?? '',
+        issues: groupIssues.sort((a, b) => this.SEVERITY_ORDER[a.severity] - this.SEVERITY_ORDER[b.severity])
+      }));
+  }
+
+  /**
+   * Build a short HTML snippet describing an element
+   *
+   * The snippet is raw text; each output format escapes it for its own syntax.
+   *
+   * @param element - Element info from an issue
+   * @returns string - Opening tag with attributes and truncated text
+   */
+  buildSnippet(element: ElementInfo): string {
+    const tagName = element.tagName.toLowerCase();
+    const attributes = Object.entries(element.attributes)
+      .filter(([name]) => !name.startsWith('data-accessiai'))
+      .map(([name, value]) => value === '' ? name : `${name}="${value}"`)
+      .join(' ');
+    const openTag = `<${tagName}${attributes ? ` ${attributes}` : ''}>`;
+
+    const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (!text || tagName === 'html' || tagName === 'body') {
+      return openTag;
+    }
+
+    const shortText = text.length > this.MAX_SNIPPET_TEXT ? `${text.substring(0, this.MAX_SNIPPET_TEXT)}…` : text;
+    return `${openTag}${shortText}</${tagName}>`;
+  }
+
+  // HTML Report
+
+  private generateHTML(result: UnifiedAnalysisResult, level: WCAGCriteria['level']): string {
+    const { active, dismissed } = this.partitionIssues(result.aggregatedIssues);
+    const groups = this.groupByCriterion(active);
+    const coverage = wcagCatalog.getCoverage(level, active);
+    const generatedAt = new Date(result.timestamp);
+
+    const summaryRows = groups.map(group => `
+          <tr>
+            <td><a href="#${this.getGroupAnchor(group)}">${this.escapeHTML(this.formatCriterion(group))}</a></td>
+            <td>${group.level || '—'}</td>
+            <td>${group.issues.length}</td>
+          </tr>`).join('');
+
+    const sections = groups.map(group => `
+      <section class="criterion" id="${this.getGroupAnchor(group)}">
+        <h2>${this.escapeHTML(this.formatCriterion(group))}${group.level ? ` <span class="level">Level ${group.level}</span>` : ''}</h2>
+        ${group.criterion ? `<p><a href="${wcagCatalog.getUnderstandingUrl(group.criterion)}">Understanding ${group.criterion}</a></p>` : ''}
+        ${group.issues.map(issue => this.renderHTMLIssue(issue)).join('')}
+      </section>`).join('');
+
+    const dismissedSection = dismissed.length === 0 ? '' : `
+      <section class="criterion dismissed" id="dismissed">
+        <h2>Dismissed Issues</h2>
+        <p>Reviewed by an auditor and excluded from the score.</p>
+        ${dismissed.map(issue => this.renderHTMLIssue(issue)).join('')}
+      </section>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Accessibility Audit Report – ${this.escapeHTML(result.pageUrl)}</title>
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; color: #222; line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 24px; }
+    h1 { font-size: 1.6em; margin-bottom: 0.2em; }
+    h2 { font-size: 1.25em; border-bottom: 2px solid #667eea; padding-bottom: 4px; margin-top: 2em; }
+    h3 { font-size: 1em; margin: 0 0 4px; }
+    a { color: #3949ab; }
+    table { border-collapse: collapse; width: 100%; margin: 12px 0; }
+    th, td { border: 1px solid #ccc; padding: 6px 10px; text-align: left; }
+    th { background: #f3f4fb; }
+    .meta { color: #555; margin: 0; }
+    .scores { display: flex; gap: 24px; margin: 16px 0; }
+    .scores div { border: 1px solid #ccc; border-radius: 8px; padding: 8px 16px; }
+    .scores strong { display: block; font-size: 1.5em; }
+    .level { font-size: 0.75em; font-weight: normal; color: #555; }
+    .issue { border: 1px solid #ddd; border-left: 6px solid #999; border-radius: 4px; padding: 10px 14px; margin: 12px 0; }
+    .issue.severity-critical { border-left-color: #b71c1c; }
+    .issue.severity-high { border-left-color: #e65100; }
+    .issue.severity-medium { border-left-color: #f9a825; }
+    .issue.severity-low { border-left-color: #2e7d32; }
+    .issue dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; margin: 8px 0 0; }
+    .issue dt { font-weight: 600; }
+    .issue dd { margin: 0; }
+    pre { background: #f6f8fa; border: 1px solid #e1e4e8; padding: 8px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; margin: 0; }
+    .print-button { padding: 6px 14px; font-size: 1em; cursor: pointer; }
+    @media print {
+      body { max-width: none; padding: 0; font-size: 11pt; }
+      .print-button { display: none; }
+      a { color: inherit; text-decoration: none; }
+      h2 { break-after: avoid; }
+      .issue, tr { break-inside: avoid; }
+      pre { white-space: pre-wrap; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Accessibility Audit Report</h1>
+    <p class="meta">Page: <a href="${this.escapeHTML(result.pageUrl)}">${this.escapeHTML(result.pageUrl)}</a></p>
+    <p class="meta">Generated: ${this.escapeHTML(generatedAt.toLocaleString())} by ${this.TOOL_NAME} ${this.TOOL_VERSION}</p>
+    <button type="button" class="print-button" onclick="window.print()">Print / Save as PDF</button>
+  </header>
+  <main>
+    <div class="scores">
+      <div><strong>${Math.round(result.overallScore)}</strong>Compliance score</div>
+      <div><strong>${result.totalIssues}</strong>Open issues</div>
+      <div><strong>${result.criticalIssues}</strong>Critical</div>
+      <div><strong>${result.highPriorityIssues}</strong>High</div>
+      <div><strong>${result.dismissedIssues}</strong>Dismissed</div>
+    </div>
+    <h2>Summary by Success Criterion</h2>
+    ${groups.length === 0 ? '<p>No open issues were found.</p>' : `
+    <table>
+      <thead>
+        <tr><th scope="col">Success criterion</th><th scope="col">Level</th><th scope="col">Issues</th></tr>
+      </thead>
+      <tbody>${summaryRows}
+      </tbody>
+    </table>`}
+    ${sections}
+    ${dismissedSection}
+    ${this.renderHTMLCoverage(coverage)}
+  </main>
+</body>
+</html>
+`;
+  }
+
+  private renderHTMLCoverage(coverage: WCAGCoverage): string {
+    const evaluated = coverage.automated.length + coverage.partial.length;
+    const total = evaluated + coverage.manual.length;
+
+    const rows = coverage.needsManualReview.map(entry => `
+          <tr>
+            <td><a href="${entry.understandingUrl}">${entry.id} ${this.escapeHTML(entry.successCriteria)}</a></td>
+            <td>${entry.level}</td>
+            <td>${entry.automation === 'manual' ? 'Manual only' : 'Partially automated'}</td>
+          </tr>`).join('');
+
+    return `
+      <section class="criterion" id="manual-review">
+        <h2>Needs Manual Review <span class="level">Level ${coverage.level}</span></h2>
+        <p>Automated checks cover ${evaluated} of ${total} success criteria at this level. The criteria below had no automated failures and still need a tester's judgement.</p>
+        <table>
+          <thead>
+            <tr><th scope="col">Success criterion</th><th scope="col">Level</th><th scope="col">Automation</th></tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>
+      </section>`;
+  }
+
+  private renderHTMLIssue(issue: AccessibilityIssue): string {
+    const triage = issue.triage;
+
+    return `
+        <article class="issue severity-${issue.severity}">
+          <h3>${this.escapeHTML(issue.description)}</h3>
+          <dl>
+            <dt>Severity</dt><dd>${this.capitalize(issue.severity)}</dd>
+            <dt>Type</dt><dd>${this.escapeHTML(issue.type)}${issue.ruleId ? ` (custom rule ${this.escapeHTML(issue.ruleId)})` : ''}</dd>
+            <dt>Location</dt><dd><code>${this.escapeHTML(issue.element.xpath)}</code></dd>
+            <dt>Element</dt><dd><pre><code>${this.escapeHTML(this.buildSnippet(issue.element))}</code></pre></dd>
+            <dt>Remediation</dt><dd>${this.escapeHTML(issue.suggestedFix)}</dd>
+            ${issue.reproductionSteps ? `<dt>Steps to reproduce</dt><dd><ol>${issue.reproductionSteps.map(step => `<li>${this.escapeHTML(step)}</li>`).join('')}</ol></dd>` : ''}
+            ${triage ? `<dt>Status</dt><dd>${this.escapeHTML(triage.status)}${triage.author ? ` by ${this.escapeHTML(triage.author)}` : ''}${triage.note ? ` – ${this.escapeHTML(triage.note)}` : ''}</dd>` : ''}
+          </dl>
+        </article>`;
+  }
+
+  // JSON Report
+
+  private generateJSON(result: UnifiedAnalysisResult, level: WCAGCriteria['level']): string {
+    const { active, dismissed } = this.partitionIssues(result.aggregatedIssues);
+    const coverage = wcagCatalog.getCoverage(level, active);
+
+    const report = {
+      tool: { name: this.TOOL_NAME, version: this.TOOL_VERSION },
+      pageUrl: result.pageUrl,
+      timestamp: result.timestamp,
+      summary: {
+        overallScore: result.overallScore,
+        totalIssues: result.totalIssues,
+        criticalIssues: result.criticalIssues,
+        highPriorityIssues: result.highPriorityIssues,
+        mediumPriorityIssues: result.mediumPriorityIssues,
+        lowPriorityIssues: result.lowPriorityIssues,
+        customRuleIssues: result.customRuleIssues,
+        dismissedIssues: result.dismissedIssues,
+        baselineIssues: result.baselineIssues,
+        scanSummary: result.scanSummary
+      },
+      criteria: this.groupByCriterion(active).map(group => ({
+        criterion: group.criterion || null,
+        title: group.title,
+        level: group.level || null,
+        issues: group.issues.map(issue => this.toReportIssue(issue))
+      })),
+      dismissed: dismissed.map(issue => this.toReportIssue(issue)),
+      coverage: {
+        level: coverage.level,
+        automated: coverage.automated.map(entry => entry.id),
+        partial: coverage.partial.map(entry => entry.id),
+        manual: coverage.manual.map(entry => entry.id),
+        needsManualReview: coverage.needsManualReview.map(entry => entry.id)
+      }
+    };
+
+    return JSON.stringify(report, null, 2);
+  }
+
+  private toReportIssue(issue: AccessibilityIssue): Record<string, unknown> {
+    return {
+      id: issue.id,
+      fingerprint: issue.fingerprint ?? null,
+      type: issue.type,
+      severity: issue.severity,
+      confidence: issue.confidence,
+      description: issue.description,
+      wcagCriteria: issue.wcagCriteria,
+      locator: issue.element.xpath,
+      snippet: this.buildSnippet(issue.element),
+      remediation: issue.suggestedFix,
+      reproductionSteps: issue.reproductionSteps ?? null,
+      ruleId: issue.ruleId ?? null,
+      scanStatus: issue.scanStatus ?? null,
+      triage: issue.triage ?? null,
+      detectedAt: new Date(issue.detectedAt).toISOString()
+    };
+  }
+
+  // CSV Report
+
+  private generateCSV(result: UnifiedAnalysisResult): string {
+    const header = [
+      'Criterion', 'Criterion Title', 'Level', 'Severity', 'Type', 'Description', 'Locator',
+      'Snippet', 'Remediation', 'Status', 'Triage Note', 'Fingerprint', 'Confidence', 'Detected At'
+    ];
+
+    const rows = this.groupByCriterion(result.aggregatedIssues).flatMap(group =>
+      group.issues.map(issue => [
+        group.criterion,
+        group.title,
+        group.level,
+        issue.severity,
+        issue.type,
+        issue.description,
+        issue.element.xpath,
+        this.buildSnippet(issue.element),
+        issue.suggestedFix,
+        issue.triage?.status ?? 'open',
+        issue.triage?.note ?? '',
+        issue.fingerprint ?? '',
+        issue.confidence.toFixed(2),
+        new Date(issue.detectedAt).toISOString()
+      ])
+    );
+
+    // CRLF line endings per RFC 4180
+    return [header, ...rows].map(row => row.map(value => this.escapeCSV(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private escapeCSV(value: string): string {
+    // Page content must not be interpreted as a formula by spreadsheet applications
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  // SARIF Report
+
+  private generateSARIF(result: UnifiedAnalysisResult): string {
+    const ruleIds: string[] = [];
+    const rules: Record<string, unknown>[] = [];
+
+    const getRuleIndex = (issue: AccessibilityIssue): number => {
+      const ruleId = this.getSarifRuleId(issue);
+      let index = ruleIds.indexOf(ruleId);
+      if (index === -1) {
+        index = ruleIds.push(ruleId) - 1;
+        rules.push(this.toSarifRule(ruleId, issue));
+      }
+      return index;
+    };
+
+    const results = result.aggregatedIssues.map(issue => {
+      const ruleIndex = getRuleIndex(issue);
+      const sarifResult: Record<string, unknown> = {
+        ruleId: ruleIds[ruleIndex],
+        ruleIndex,
+        level: this.getSarifLevel(issue.severity),
+        message: { text: `${issue.description} ${issue.suggestedFix}`.trim() },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: result.pageUrl },
+            region: { snippet: { text: this.buildSnippet(issue.element) } }
+          },
+          logicalLocations: [{ fullyQualifiedName: issue.element.xpath, kind: 'element' }]
+        }],
+        properties: {
+          severity: issue.severity,
+          confidence: issue.confidence,
+          wcagCriteria: issue.wcagCriteria,
+          remediation: issue.suggestedFix
+        }
+      };
+
+      if (issue.fingerprint) {
+        sarifResult['partialFingerprints'] = { 'accessiaiFingerprint/v1': issue.fingerprint };
+      }
+
+      if (issue.triage && issue.triage.status !== 'open') {
+        sarifResult['suppressions'] = [{
+          kind: 'external',
+          status: issue.triage.status === 'acknowledged' ? 'underReview' : 'accepted',
+          justification: [issue.triage.status, issue.triage.note].filter(Boolean).join(': ')
+        }];
+      }
+
+      return sarifResult;
+    });
+
+    const sarif = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: this.TOOL_NAME,
+            version: this.TOOL_VERSION,
+            rules
+          }
+        },
+        invocations: [{ executionSuccessful: true, endTimeUtc: new Date(result.timestamp).toISOString() }],
+        artifacts: [{ location: { uri: result.pageUrl } }],
+        results
+      }]
+    };
+
+    return JSON.stringify(sarif, null, 2);
+  }
+
+  private toSarifRule(ruleId: string, issue: AccessibilityIssue): Record<string, unknown> {
+    const criterion = issue.wcagCriteria[0] ?? '';
+    const rule: Record<string, unknown> = {
+      id: ruleId,
+      name: ruleId.replace(/[^a-z0-9]+(.)?/gi, (_match, next: string | undefined) => (next ?? '').toUpperCase()),
+      shortDescription: { text: criterion ? `${criterion} ${this.getCriterionTitle(criterion)}` : issue.type },
+      defaultConfiguration: { level: this.getSarifLevel(issue.severity) },
+      properties: {
+        tags: ['accessibility', ...issue.wcagCriteria.map(id => `wcag${id}`)]
+      }
+    };
+
+    if (criterion) {
+      rule['helpUri'] = wcagCatalog.getUnderstandingUrl(criterion);
+    }
+
+    return rule;
+  }
+
+  private getSarifRuleId(issue: AccessibilityIssue): string {
+    return issue.ruleId ? `custom/${issue.ruleId}` : issue.type;
+  }
+
+  private getSarifLevel(severity: IssueSeverity): 'error' | 'warning' | 'note' {
+    switch (severity) {
+      case 'critical':
+      case 'high':
+        return 'error';
+      case 'medium':
+        return 'warning';
+      default:
+        return 'note';
+    }
+  }
+
+  // Utility Methods
+
+  private partitionIssues(issues: readonly AccessibilityIssue[]): { active: AccessibilityIssue[]; dismissed: AccessibilityIssue[] } {
+    const active: AccessibilityIssue[] = [];
+    const dismissed: AccessibilityIssue[] = [];
+
+    for (const issue of issues) {
+      // Acknowledged issues are still open work; the other statuses are dismissed
+      if (issue.triage && issue.triage.status !== 'open' && issue.triage.status !== 'acknowledged') {
+        dismissed.push(issue);
+      } else {
+        active.push(issue);
+      }
+    }
+
+    return { active, dismissed };
+  }
+
+  private compareCriteria(a: string, b: string): number {
+    if (!a) return 1;
+    if (!b) return -1;
+
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+      const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private getCriterionTitle(criterion: string): string {
+    if (!criterion) return 'Best practices (no WCAG mapping)';
+    return wcagCatalog.getCriterion(criterion)?.successCriteria ?? 'Success criterion';
+  }
+
+  private formatCriterion(group: CriterionGroup): string {
+    return group.criterion ? `${group.criterion} ${group.title}` : group.title;
+  }
+
+  private getGroupAnchor(group: CriterionGroup): string {
+    return group.criterion ? `sc-${group.criterion.replace(/\./g, '-')}` : 'sc-other';
+  }
+
+  private getFileBaseName(result: UnifiedAnalysisResult): string {
+    let host = 'page';
+    try {
+      host = new URL(result.pageUrl).hostname.replace(/[^a-z0-9.-]/gi, '') || host;
+    } catch {
+      // Non-URL page identifiers fall back to the generic name
+    }
+    const date = new Date(result.timestamp);
+    const stamp = isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+    return `accessiai-report-${host}-${stamp.substring(0, 10)}`;
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+
+  private escapeHTML(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+// Export singleton instance
+export const reportGenerator = ReportGenerator.getInstance();
@@ -0,0 +1,443 @@
+/**
+ * SiteCrawler.ts
+ *
+ * Multi-page Site Crawl for AccessiAI Chrome Extension
+ * Runs in the background service worker and audits a whole site:
+ * - Breadth-first crawl from a start URL, limited to its origin
+ * - Depth and page limits; fragments, downloads and media links skipped
+ * - Index pages (`/docs/index.html`) crawled once, under their directory URL
+ * - The crawl tab skips the content script's own startup analysis and the
+ *   replay of stored fixes, so each page is measured as served and stored once
+ * - Each page loaded in an inactive background tab, where the content script
+ *   runs UnifiedAnalysisCoordinator.analyzeAccessibility and stores the result
+ *   in `accessibility-analyses`
+ * - Crawl progress persisted in chrome.storage so the popup can follow it
+ * - Site dashboard of the worst pages and the most common issue types
+ *
+ * Offscreen documents cannot host content scripts, hence the background tab.
+ * Analyses land in the IndexedDB of the crawled origin, next to those of
+ * single-page scans, so conformance reports on that site include them.
+ *
+ * To try it locally, serve a static site (e.g. `python3 -m http.server` in a
+ * folder of linked HTML pages) and crawl http://localhost:8000/.
+ *
+ * Performance Target: crawl overhead <200ms per page beyond load and analysis
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityIssueType,
+  CrawlOptions,
+  CrawlPageResult,
+  CrawlPageSnapshot,
+  CrawlState,
+  CrawlStatus,
+  SiteDashboard
+} from '../types/index';
+
+/**
+ * SiteCrawler - Singleton running one site crawl at a time
+ */
+export class SiteCrawler {
+  private static instance: SiteCrawler;
+
+  private state: CrawlState | null = null;
+  private crawlTabId: number | null = null;
+  private cancelRequested: boolean = false;
+
+  private readonly STATE_STORAGE_KEY = 'accessiaiCrawlState';
+  private readonly MAX_DEPTH = 5;
+  private readonly MAX_PAGES = 200;
+  private readonly PAGE_LOAD_TIMEOUT = 30000;        // milliseconds
+  private readonly CONTENT_SCRIPT_ATTEMPTS = 10;
+  private readonly CONTENT_SCRIPT_RETRY_DELAY = 500; // milliseconds
+  private readonly DASHBOARD_SIZE = 10;
+
+  // Links to these resources are not pages and never get a content script
+  private readonly NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|tar|dmg|exe|jpe?g|png|gif|svg|webp|ico|mp3|mp4|webm|ogg|wav|docx?|xlsx?|pptx?|csv|json|xml|txt)$/i;
+
+  // Servers answer a directory URL with its index page, so both name the same page
+  private readonly DIRECTORY_INDEX = /\/index\.html?$/i;
+
+  /**
+   * Get singleton instance of SiteCrawler
+   */
+  static getInstance(): SiteCrawler {
+    if (!SiteCrawler.instance) {
+      SiteCrawler.instance = new SiteCrawler();
+    }
+    return SiteCrawler.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[SiteCrawler] Initializing Site Crawler...');
+  }
+
+  /**
+   * Start crawling a site
+   *
+   * Returns once the crawl is under way; follow it with getState().
+   *
+   * @param options - Start URL, depth and page limit
+   * @returns Promise<CrawlState> - Initial crawl state
+   */
+  async start(options: CrawlOptions): Promise<CrawlState> {
+    if (this.state?.status === 'running') {
+      throw new Error('A site crawl is already running');
+    }
+
+    const validated = this.validateOptions(options);
+    this.cancelRequested = false;
+    await this.updateState({
+      id: `crawl-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      options: validated,
+      status: 'running',
+      startedAt: Date.now(),
+      pendingCount: 1,
+      pages: []
+    });
+
+    console.log(`[SiteCrawler] Crawling ${validated.startUrl} (depth ${validated.maxDepth}, up to ${validated.maxPages} pages)`);
+
+    this.run(validated).catch(error => {
+      console.error('[SiteCrawler] Crawl failed:', error);
+    });
+
+    return this.state!;
+  }
+
+  /**
+   * Stop the running crawl after the page currently being analyzed
+   */
+  cancel(): void {
+    if (this.state?.status === 'running') {
+      this.cancelRequested = true;
+      console.log('[SiteCrawler] Cancellation requested');
+    }
+  }
+
+  /**
+   * Check whether a tab is the one the crawler loads pages in
+   *
+   * Its pages are analyzed on the crawler's request only.
+   */
+  isCrawlTab(tabId: number): boolean {
+    return this.crawlTabId === tabId;
+  }
+
+  /**
+   * Get the current or most recent crawl
+   *
+   * @returns Promise<CrawlState | null> - null when no crawl has run
+   */
+  async getState(): Promise<CrawlState | null> {
+    if (this.state) {
+      return this.state;
+    }
+
+    try {
+      const result = await chrome.storage.local.get([this.STATE_STORAGE_KEY]);
+      const stored = result[this.STATE_STORAGE_KEY] as CrawlState | undefined;
+      if (!stored) {
+        return null;
+      }
+      // A crawl still marked running was cut off when the service worker stopped
+      this.state = stored.status === 'running'
+        ? { ...stored, status: 'failed', finishedAt: Date.now(), pendingCount: 0, error: 'The crawl was interrupted' }
+        : stored;
+      return this.state;
+    } catch (error) {
+      console.warn('[SiteCrawler] Failed to load crawl state:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Summarize a crawl for the site dashboard
+   *
+   * @param state - Crawl to summarize
+   * @returns SiteDashboard - Worst pages and most common issue types
+   */
+  getDashboard(state: CrawlState): SiteDashboard {
+    const analyzed = state.pages.filter(page => page.status === 'analyzed');
+    const issueTypes = new Map<AccessibilityIssueType, { count: number; pages: number }>();
+
+    for (const page of analyzed) {
+      for (const [type, count] of Object.entries(page.issueTypeCounts) as Array<[AccessibilityIssueType, number]>) {
+        const totals = issueTypes.get(type) ?? { count: 0, pages: 0 };
+        issueTypes.set(type, { count: totals.count + count, pages: totals.pages + 1 });
+      }
+    }
+
+    return {
+      pagesAnalyzed: analyzed.length,
+      pagesFailed: state.pages.length - analyzed.length,
+      averageScore: analyzed.length > 0
+        ? Math.round(analyzed.reduce((sum, page) => sum + page.complianceScore, 0) / analyzed.length)
+        : 0,
+      totalIssues: analyzed.reduce((sum, page) => sum + page.totalIssues, 0),
+      worstPages: [...analyzed]
+        .sort((a, b) => a.complianceScore - b.complianceScore || b.totalIssues - a.totalIssues)
+        .slice(0, this.DASHBOARD_SIZE),
+      commonIssueTypes: [...issueTypes.entries()]
+        .map(([type, totals]) => ({ type, ...totals }))
+        .sort((a, b) => b.count - a.count || b.pages - a.pages)
+        .slice(0, this.DASHBOARD_SIZE)
+    };
+  }
+
+  // Crawl Loop
+
+  private async run(options: CrawlOptions): Promise<void> {
+    const origin = new URL(options.startUrl).origin;
+    const queue: Array<{ url: string; depth: number }> = [{ url: options.startUrl, depth: 0 }];
+    const seen = new Set<string>([options.startUrl]);
+    const pages: CrawlPageResult[] = [];
+
+    try {
+      const tab = await chrome.tabs.create({ url: 'about:blank', active: false });
+      if (tab.id === undefined) {
+        throw new Error('Could not open a tab for crawling');
+      }
+      this.crawlTabId = tab.id;
+
+      while (pages.length < options.maxPages && !this.cancelRequested) {
+        const next = queue.shift();
+        if (!next) break;
+
+        const { result, snapshot } = await this.crawlPage(tab.id, next.url, next.depth, origin);
+        pages.push(result);
+
+        if (snapshot && next.depth < options.maxDepth) {
+          for (const link of snapshot.links) {
+            const url = this.normalizeUrl(link, origin);
+            if (url && !seen.has(url)) {
+              seen.add(url);
+              queue.push({ url, depth: next.depth + 1 });
+            }
+          }
+        }
+
+        await this.updateState({
+          ...this.state!,
+          pages: [...pages],
+          pendingCount: Math.min(queue.length, options.maxPages - pages.length)
+        });
+      }
+
+      await this.finish(this.cancelRequested ? 'cancelled' : 'completed');
+    } catch (error) {
+      await this.finish('failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      await this.closeCrawlTab();
+    }
+  }
+
+  private async crawlPage(
+    tabId: number,
+    url: string,
+    depth: number,
+    origin: string
+  ): Promise<{ result: CrawlPageResult; snapshot: CrawlPageSnapshot | null }> {
+    const startTime = performance.now();
+
+    try {
+      await this.loadPage(tabId, url);
+
+      // Redirects can leave the crawl scope
+      const tab = await chrome.tabs.get(tabId);
+      if (!tab.url || new URL(tab.url).origin !== origin) {
+        throw new Error(`Redirected outside ${origin}`);
+      }
+
+      const snapshot = await this.requestAnalysis(tabId);
+      console.log(`[SiteCrawler] Analyzed ${url} in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+      return {
+        result: {
+          url,
+          depth,
+          status: 'analyzed',
+          title: snapshot.title,
+          complianceScore: snapshot.complianceScore,
+          totalIssues: snapshot.totalIssues,
+          criticalIssues: snapshot.criticalIssues,
+          highPriorityIssues: snapshot.highPriorityIssues,
+          issueTypeCounts: snapshot.issueTypeCounts,
+          analyzedAt: Date.now()
+        },
+        snapshot
+      };
+    } catch (error) {
+      console.warn(`[SiteCrawler] Failed to analyze ${url}:`, error);
+
+      return {
+        result: {
+          url,
+          depth,
+          status: 'failed',
+          title: '',
+          complianceScore: 0,
+          totalIssues: 0,
+          criticalIssues: 0,
+          highPriorityIssues: 0,
+          issueTypeCounts: {},
+          error: error instanceof Error ? error.message : 'Unknown error',
+          analyzedAt: Date.now()
+        },
+        snapshot: null
+      };
+    }
+  }
+
+  /**
+   * Navigate the crawl tab and wait for the page to finish loading
+   */
+  private loadPage(tabId: number, url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
+        if (updatedTabId === tabId && changeInfo.status === 'complete' && tab.url !== 'about:blank') {
+          cleanup();
+          resolve();
+        }
+      };
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error(`Timed out loading ${url}`));
+      }, this.PAGE_LOAD_TIMEOUT);
+      const cleanup = () => {
+        clearTimeout(timeout);
+        chrome.tabs.onUpdated.removeListener(listener);
+      };
+
+      chrome.tabs.onUpdated.addListener(listener);
+      chrome.tabs.update(tabId, { url }).catch(error => {
+        cleanup();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Ask the content script to analyze the loaded page
+   *
+   * The content script registers its listener after initializing, so early
+   * attempts are retried.
+   */
+  private async requestAnalysis(tabId: number): Promise<CrawlPageSnapshot> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < this.CONTENT_SCRIPT_ATTEMPTS; attempt++) {
+      try {
+        const response = await chrome.tabs.sendMessage(tabId, { type: 'CRAWL_ANALYZE_PAGE' });
+        if (response?.success) {
+          return response.data as CrawlPageSnapshot;
+        }
+        lastError = new Error(response?.error || 'Page analysis failed');
+      } catch (error) {
+        lastError = error;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.CONTENT_SCRIPT_RETRY_DELAY));
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('Content script did not respond');
+  }
+
+  // State Management
+
+  private async updateState(state: CrawlState): Promise<void> {
+    this.state = state;
+    try {
+      await chrome.storage.local.set({ [this.STATE_STORAGE_KEY]: state });
+    } catch (error) {
+      console.warn('[SiteCrawler] Failed to persist crawl state:', error);
+    }
+  }
+
+  private async finish(status: CrawlStatus, error?: string): Promise<void> {
+    if (!this.state) return;
+
+    const { error: _previous, ...rest } = this.state;
+    await this.updateState({
+      ...rest,
+      status,
+      finishedAt: Date.now(),
+      pendingCount: 0,
+      ...(error ? { error } : {})
+    });
+    this.cancelRequested = false;
+
+    console.log(`[SiteCrawler] Crawl ${status} after ${this.state.pages.length} pages`);
+  }
+
+  private async closeCrawlTab(): Promise<void> {
+    if (this.crawlTabId === null) return;
+
+    try {
+      await chrome.tabs.remove(this.crawlTabId);
+    } catch {
+      // The user may have closed the tab already
+    }
+    this.crawlTabId = null;
+  }
+
+  // Utility Methods
+
+  private validateOptions(options: CrawlOptions): CrawlOptions {
+    let startUrl: URL;
+    try {
+      startUrl = new URL(options.startUrl);
+    } catch {
+      throw new Error(`Invalid start URL: ${options.startUrl}`);
+    }
+    if (startUrl.protocol !== 'http:' && startUrl.protocol !== 'https:') {
+      throw new Error('Only http and https sites can be crawled');
+    }
+
+    return {
+      startUrl: this.toPageUrl(startUrl),
+      maxDepth: this.clamp(options.maxDepth, 0, this.MAX_DEPTH),
+      maxPages: this.clamp(options.maxPages, 1, this.MAX_PAGES)
+    };
+  }
+
+  /**
+   * Resolve a link to a crawlable page URL within the origin, or null
+   */
+  private normalizeUrl(link: string, origin: string): string | null {
+    try {
+      const url = new URL(link);
+      if (url.origin !== origin || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+        return null;
+      }
+      if (this.NON_PAGE_EXTENSIONS.test(url.pathname)) {
+        return null;
+      }
+      return this.toPageUrl(url);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * One URL per page: no fragment, and directories instead of their index pages
+   */
+  private toPageUrl(url: URL): string {
+    const page = new URL(url.href);
+    page.hash = '';
+    page.pathname = page.pathname.replace(this.DIRECTORY_INDEX, '/');
+    return page.href;
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Number.isFinite(value) ? Math.min(max, Math.max(min, Math.floor(value))) : min;
+  }
+}
+
+// Export singleton instance
+export const siteCrawler = SiteCrawler.getInstance();
@@ -5,6 +5,14 @@
  * Integrates and coordinates multiple analysis systems including:
  * - ContentStructureAnalyzer for heading hierarchy and form validation
  * - VisualAnalysisSystem for image and media analysis
+ * - CustomRuleEngine for user-authored rules and ignore suppressions
+ * - WidgetPatternValidator for custom widgets checked against the ARIA Authoring Practices
+ * - KeyboardProbe for keyboard traps and focus loss found by simulated tabbing (opt-in)
+ * - Issue fingerprints for cross-scan deduplication and new/persisting/resolved status
+ * - Triage decisions that dismiss issues from counts and scores
+ * - Per-criterion WCAG verdicts stored for conformance reports, merged with manual checks
+ * - Run-to-run comparison with regression alerts, and per-page analysis history
+ * - "Only new issues" mode hiding issues accepted in a baseline
  * - Unified result aggregation and issue management
  * 
  * Performance Target: <200ms end-to-end analysis pipeline
@@ -19,12 +27,22 @@ import {
   ContentAnalysisResult,
   VisualAnalysisResult,
   AccessibilityAnalysis,
+  IssueScanSummary,
   IssueSeverity
 } from '../types/index';
 
 import { ContentStructureAnalyzer } from './ContentStructureAnalyzer';
 import { VisualAnalysisSystem } from './VisualAnalysisSystem';
 import { IndexedDBManager } from './IndexedDBManager';
+import { customRuleEngine, RuleEvaluationResult, RuleError } from './CustomRuleEngine';
+import { issueFingerprinter } from './IssueFingerprinter';
+import { issueTriageManager } from './IssueTriageManager';
+import { conformanceReportGenerator } from './ConformanceReportGenerator';
+import { manualCheckManager } from './ManualCheckManager';
+import { analysisHistoryTracker } from './AnalysisHistoryTracker';
+import { issueBaselineManager } from './IssueBaselineManager';
+import { keyboardProbe } from './KeyboardProbe';
+import { widgetPatternValidator } from './WidgetPatternValidator';
 
 /**
  * Unified analysis result combining all analysis types
@@ -42,6 +60,12 @@ export interface UnifiedAnalysisResult {
   readonly highPriorityIssues: number;
   readonly mediumPriorityIssues: number;
   readonly lowPriorityIssues: number;
+  readonly customRuleIssues: number;
+  readonly suppressedIssues: number;
+  readonly dismissedIssues: number;                // hidden by triage (won't fix, false positive, resolved)
+  readonly baselineIssues: number;                 // hidden by a baseline in "only new issues" mode
+  readonly ruleErrors: RuleError[];
+  readonly scanSummary: IssueScanSummary | null;   // null when results are not stored
   readonly pageUrl: string;
   readonly timestamp: string;
 }
@@ -56,6 +80,10 @@ export interface AnalysisConfig {
   readonly storeResults: boolean;
   readonly includeResolvedIssues: boolean;
   readonly maxIssuesPerCategory: number;
+  readonly enableCustomRules: boolean;
+  readonly onlyNewIssues: boolean;                 // report only issues not covered by a baseline for the page
+  readonly enableWidgetPatterns: boolean;          // check custom widgets against the APG patterns
+  readonly enableKeyboardProbe: boolean;           // tab through the page and activate its triggers; moves focus
 }
 
 /**
@@ -97,7 +125,11 @@ export class UnifiedAnalysisCoordinator {
     enableParallelExecution: true,
     storeResults: true,
     includeResolvedIssues: false,
-    maxIssuesPerCategory: 50
+    maxIssuesPerCategory: 50,
+    enableCustomRules: true,
+    onlyNewIssues: false,
+    enableWidgetPatterns: true,
+    enableKeyboardProbe: false
   };
 
   /**
@@ -244,6 +276,41 @@ export class UnifiedAnalysisCoordinator {
         }
       }
 
+      // Evaluate user-authored rules
+      let ruleEvaluation: RuleEvaluationResult | null = null;
+      if (finalConfig.enableCustomRules) {
+        progressCallback?.({
+          stage: 'custom-rules',
+          percentage: 82,
+          currentTask: 'Evaluating custom rules'
+        });
+
+        ruleEvaluation = await this.evaluateCustomRules(document);
+      }
+
+      // Arrow keys are only sent to widgets when the run may move focus anyway
+      let interactionIssues: AccessibilityIssue[] = [];
+      if (finalConfig.enableWidgetPatterns) {
+        progressCallback?.({
+          stage: 'widget-patterns',
+          percentage: 83,
+          currentTask: 'Validating widget patterns'
+        });
+
+        interactionIssues = await this.validateWidgetPatterns(document, finalConfig.enableKeyboardProbe);
+      }
+
+      // The probe moves focus, so it runs after the read-only analyzers have finished
+      if (finalConfig.enableKeyboardProbe) {
+        progressCallback?.({
+          stage: 'keyboard-probe',
+          percentage: 84,
+          currentTask: 'Probing keyboard navigation'
+        });
+
+        interactionIssues.push(...await this.runKeyboardProbe(document));
+      }
+
       // Aggregate results
       progressCallback?.({
         stage: 'aggregation',
@@ -251,9 +318,11 @@ export class UnifiedAnalysisCoordinator {
         currentTask: 'Aggregating analysis results'
       });
 
-      const unifiedResult = await this.aggregateResults(
+      let unifiedResult = await this.aggregateResults(
         contentAnalysis,
         visualAnalysis,
+        interactionIssues,
+        ruleEvaluation,
         document,
         finalConfig
       );
@@ -266,7 +335,15 @@ export class UnifiedAnalysisCoordinator {
           currentTask: 'Storing analysis results'
         });
 
-        await this.storeAnalysisResults(unifiedResult);
+        const scanSummary = await this.storeAnalysisResults(unifiedResult, document, finalConfig.enableKeyboardProbe);
+        if (scanSummary) {
+          unifiedResult = this.applyScanSummary(unifiedResult, scanSummary);
+        }
+      }
+
+      // History and issue lifecycle keep the full issue set; only the report is filtered
+      if (finalConfig.onlyNewIssues) {
+        unifiedResult = await this.applyBaselines(unifiedResult, document);
       }
 
       const totalAnalysisTime = performance.now() - analysisStartTime;
@@ -289,20 +366,65 @@ export class UnifiedAnalysisCoordinator {
     } finally {
       this.isAnalyzing = false;
     }
-  }  /**
+  }
+
+  /**
+   * Load and evaluate custom rules; failures never break the built-in analysis
+   */
+  private async evaluateCustomRules(document: Document): Promise<RuleEvaluationResult | null> {
+    try {
+      const rules = await customRuleEngine.loadRules();
+      if (rules.customRules.length === 0 && rules.accessibilityRules.length === 0) {
+        return null;
+      }
+      return customRuleEngine.evaluateRules(document, rules);
+    } catch (error) {
+      console.error('[UnifiedAnalysisCoordinator] Custom rule evaluation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Validate widget patterns; failures never break the built-in analysis
+   */
+  private async validateWidgetPatterns(document: Document, simulateKeys: boolean): Promise<AccessibilityIssue[]> {
+    try {
+      const validation = await widgetPatternValidator.validate(document, { simulateKeys });
+      return validation.issues;
+    } catch (error) {
+      console.error('[UnifiedAnalysisCoordinator] Widget pattern validation failed:', error);
+      return [];
+    }
+  }
 
+  /**
+   * Run the keyboard probe; failures never break the built-in analysis
+   */
+  private async runKeyboardProbe(document: Document): Promise<AccessibilityIssue[]> {
+    try {
+      const probeResult = await keyboardProbe.probe(document);
+      return probeResult.issues;
+    } catch (error) {
+      console.error('[UnifiedAnalysisCoordinator] Keyboard probe failed:', error);
+      return [];
+    }
+  }
+
+  /**
    * Aggregate results from multiple analysis systems
    */
   private async aggregateResults(
     contentAnalysis: ContentAnalysisResult | null,
     visualAnalysis: VisualAnalysisResult | null,
+    interactionIssues: readonly AccessibilityIssue[],
+    ruleEvaluation: RuleEvaluationResult | null,
     document: Document,
     config: AnalysisConfig
   ): Promise<UnifiedAnalysisResult> {
     console.log('[UnifiedAnalysisCoordinator] Aggregating analysis results...');
 
     // Collect all issues
-    const allIssues: AccessibilityIssue[] = [];
+    let allIssues: AccessibilityIssue[] = [];
     
     if (contentAnalysis) {
       allIssues.push(...contentAnalysis.headingIssues);
@@ -316,19 +438,42 @@ export class UnifiedAnalysisCoordinator {
       allIssues.push(...visualAnalysis.layoutAnalysis.issues);
     }
 
+    allIssues.push(...interactionIssues);
+
+    // Ignore rules suppress built-in findings; rule issues are added afterwards
+    const builtInCount = allIssues.length;
+    if (ruleEvaluation) {
+      allIssues = customRuleEngine.applySuppressions(allIssues, ruleEvaluation.suppressions);
+    }
+    const suppressedIssues = builtInCount - allIssues.length;
+
+    if (ruleEvaluation) {
+      allIssues.push(...ruleEvaluation.issues);
+    }
+
+    // The same finding can come from more than one analyzer
+    allIssues = issueFingerprinter.dedupe(issueFingerprinter.assignFingerprints(allIssues));
+
+    // Dismissed issues stay in the list for the panel but leave counts and scores
+    allIssues = await issueTriageManager.applyTriage(allIssues);
+    const dismissedIds = new Set(allIssues.filter(issue => issueTriageManager.isSuppressed(issue)).map(issue => issue.id));
+
     // Filter resolved issues if needed
     const filteredIssues = config.includeResolvedIssues 
       ? allIssues 
       : allIssues.filter(issue => !('resolved' in issue) || !(issue as any).resolved);
+    const activeIssues = filteredIssues.filter(issue => !dismissedIds.has(issue.id));
 
     // Group issues by category
-    const issuesByCategory = this.groupIssuesByCategory(filteredIssues);
+    const issuesByCategory = this.groupIssuesByCategory(activeIssues);
     
     // Group issues by severity
-    const issuesBySeverity = this.groupIssuesBySeverity(filteredIssues);
+    const issuesBySeverity = this.groupIssuesBySeverity(activeIssues);
 
     // Calculate overall score
-    const overallScore = this.calculateOverallScore(contentAnalysis, visualAnalysis);
+    const overallScore = dismissedIds.size > 0
+      ? this.calculateScoreExcluding(contentAnalysis, visualAnalysis, dismissedIds, document)
+      : this.calculateOverallScore(contentAnalysis, visualAnalysis);
 
     // Calculate analysis time
     const totalAnalysisTime = (contentAnalysis?.analysisTime || 0) + (visualAnalysis?.analysisTime || 0);
@@ -341,11 +486,17 @@ export class UnifiedAnalysisCoordinator {
       aggregatedIssues: filteredIssues,
       issuesByCategory,
       issuesBySeverity,
-      totalIssues: filteredIssues.length,
+      totalIssues: activeIssues.length,
       criticalIssues: (issuesBySeverity.critical || []).length,
       highPriorityIssues: (issuesBySeverity.high || []).length,
       mediumPriorityIssues: (issuesBySeverity.medium || []).length,
       lowPriorityIssues: (issuesBySeverity.low || []).length,
+      customRuleIssues: ruleEvaluation?.issues.length ?? 0,
+      suppressedIssues,
+      dismissedIssues: dismissedIds.size,
+      baselineIssues: 0,
+      ruleErrors: ruleEvaluation?.errors ?? [],
+      scanSummary: null,
       pageUrl: document.location.href,
       timestamp: new Date().toISOString()
     };
@@ -436,13 +587,45 @@ export class UnifiedAnalysisCoordinator {
     return Math.round(scores[0] || 0);
   }
 
+  /**
+   * Recalculate the overall score without issues dismissed during triage or hidden by a baseline
+   */
+  private calculateScoreExcluding(
+    contentAnalysis: ContentAnalysisResult | null,
+    visualAnalysis: VisualAnalysisResult | null,
+    dismissedIds: Set<string>,
+    document: Document
+  ): number {
+    const isActive = (issue: AccessibilityIssue) => !dismissedIds.has(issue.id);
+
+    const rescoredContent = contentAnalysis && {
+      ...contentAnalysis,
+      overallScore: this.contentAnalyzer.calculateOverallScore(
+        [...contentAnalysis.headingIssues, ...contentAnalysis.landmarkIssues, ...contentAnalysis.formIssues].filter(isActive).length,
+        document
+      )
+    };
+
+    const rescoredVisual = visualAnalysis && {
+      ...visualAnalysis,
+      overallScore: this.visualAnalyzer.calculateOverallScore(
+        [...visualAnalysis.imageAnalysis.issues, ...visualAnalysis.mediaAnalysis.issues, ...visualAnalysis.layoutAnalysis.issues].filter(isActive),
+        document
+      )
+    };
+
+    return this.calculateOverallScore(rescoredContent, rescoredVisual);
+  }
+
   /**
    * Store analysis results in database
    */
-  private async storeAnalysisResults(result: UnifiedAnalysisResult): Promise<void> {
+  private async storeAnalysisResults(result: UnifiedAnalysisResult, document: Document, keyboardProbe: boolean): Promise<IssueScanSummary | null> {
     try {
       console.log('[UnifiedAnalysisCoordinator] Storing analysis results...');
       
+      const criteriaEvaluations = await conformanceReportGenerator.evaluatePage(document, result.aggregatedIssues);
+      
       // Create AccessibilityAnalysis object for storage
       const analysisForStorage: AccessibilityAnalysis = {
         pageUrl: result.pageUrl,
@@ -451,24 +634,90 @@ export class UnifiedAnalysisCoordinator {
         complianceScore: result.overallScore,
         totalElements: 0, // Would need to calculate from document
         processedElements: 0, // Would need to track during analysis
-        analysisTime: result.analysisTime
+        analysisTime: result.analysisTime,
+        criteriaEvaluations,
+        keyboardProbe
       };
       
-      // Store the analysis
-      await this.dbManager.storeAccessibilityAnalysis(analysisForStorage);
+      // Store the analysis, keeping the tester's manual verdicts for this page
+      await this.dbManager.storeAccessibilityAnalysis(await manualCheckManager.carryOver(analysisForStorage));
       
-      // Store individual issues
-      for (const issue of result.aggregatedIssues) {
-        await this.dbManager.storeAccessibilityIssue(issue);
-      }
+      // Store individual issues, matched against the previous scan of this URL
+      const scanSummary = await this.dbManager.syncIssueLifecycle(result.pageUrl, result.aggregatedIssues, keyboardProbe);
+      
+      // Compare with the previous run of this URL; alerts are broadcast on regression
+      await analysisHistoryTracker.checkForRegression(result.pageUrl);
       
       console.log('[UnifiedAnalysisCoordinator] Analysis results stored successfully');
+      return scanSummary;
     } catch (error) {
       console.error('[UnifiedAnalysisCoordinator] Failed to store analysis results:', error);
       // Don't throw - storage failure shouldn't break analysis
+      return null;
     }
   }
 
+  /**
+   * Tag aggregated issues with their new/persisting status
+   */
+  private applyScanSummary(result: UnifiedAnalysisResult, scanSummary: IssueScanSummary): UnifiedAnalysisResult {
+    const classified = new Map(
+      [...scanSummary.newIssues, ...scanSummary.persistingIssues].map(issue => [issue.fingerprint, issue])
+    );
+    const tag = (issue: AccessibilityIssue) => classified.get(issue.fingerprint) ?? issue;
+
+    const issuesByCategory: Record<string, AccessibilityIssue[]> = {};
+    for (const [category, issues] of Object.entries(result.issuesByCategory)) {
+      issuesByCategory[category] = issues.map(tag);
+    }
+
+    return {
+      ...result,
+      aggregatedIssues: result.aggregatedIssues.map(tag),
+      issuesByCategory,
+      issuesBySeverity: {
+        critical: result.issuesBySeverity.critical.map(tag),
+        high: result.issuesBySeverity.high.map(tag),
+        medium: result.issuesBySeverity.medium.map(tag),
+        low: result.issuesBySeverity.low.map(tag)
+      },
+      scanSummary
+    };
+  }
+
+  /**
+   * Remove issues accepted in a baseline for the page from the result and its score
+   */
+  private async applyBaselines(result: UnifiedAnalysisResult, document: Document): Promise<UnifiedAnalysisResult> {
+    const { newIssues, baselineIssues } = await issueBaselineManager.filterNewIssues(result.pageUrl, result.aggregatedIssues);
+    if (baselineIssues.length === 0) {
+      return result;
+    }
+
+    const activeIssues = newIssues.filter(issue => !issueTriageManager.isSuppressed(issue));
+    const hiddenIds = new Set([
+      ...baselineIssues.map(issue => issue.id),
+      ...newIssues.filter(issue => issueTriageManager.isSuppressed(issue)).map(issue => issue.id)
+    ]);
+    const issuesBySeverity = this.groupIssuesBySeverity(activeIssues);
+
+    console.log(`[UnifiedAnalysisCoordinator] ${baselineIssues.length} issues hidden by baselines`);
+
+    return {
+      ...result,
+      overallScore: this.calculateScoreExcluding(result.contentAnalysis, result.visualAnalysis, hiddenIds, document),
+      aggregatedIssues: newIssues,
+      issuesByCategory: this.groupIssuesByCategory(activeIssues),
+      issuesBySeverity,
+      totalIssues: activeIssues.length,
+      criticalIssues: issuesBySeverity.critical.length,
+      highPriorityIssues: issuesBySeverity.high.length,
+      mediumPriorityIssues: issuesBySeverity.medium.length,
+      lowPriorityIssues: issuesBySeverity.low.length,
+      baselineIssues: baselineIssues.length
+    };
+  }
+
   /**
    * Create empty content analysis result
    */
@@ -515,17 +764,21 @@ export class UnifiedAnalysisCoordinator {
 
   /**
    * Get analysis history from database
+   * 
+   * @param pageUrl - Page to get the history of; all stored pages when omitted
+   * @param limit - Maximum number of analyses
+   * @returns Promise<AccessibilityAnalysis[]> - Analyses, newest first
    */
-  async getAnalysisHistory(_pageUrl?: string, limit: number = 10): Promise<AccessibilityAnalysis[]> {
+  async getAnalysisHistory(pageUrl?: string, limit: number = 10): Promise<AccessibilityAnalysis[]> {
     try {
       if (!this.isInitialized) {
         await this.initialize();
       }
       
-      // This would need to be implemented in IndexedDBManager
-      // For now, return empty array
-      console.log(`[UnifiedAnalysisCoordinator] Retrieving analysis history (limit: ${limit})`);
-      return [];
+      console.log(`[UnifiedAnalysisCoordinator] Retrieving analysis history for ${pageUrl ?? 'all pages'} (limit: ${limit})`);
+      return pageUrl
+        ? await analysisHistoryTracker.getPageHistory(pageUrl, limit)
+        : await this.dbManager.retrieveAccessibilityAnalyses({ limit });
     } catch (error) {
       console.error('[UnifiedAnalysisCoordinator] Failed to get analysis history:', error);
       return [];
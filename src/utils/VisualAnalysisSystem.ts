@@ -21,8 +21,12 @@ import {
   MediaAccessibilityInfo,
   ElementInfo,
   AccessibilityIssueType,
-  IssueSeverity
+  IssueSeverity,
+  WCAGCheckId
 } from '../types/index';
+import { accessibleNameComputer } from './AccessibleNameComputer';
+import { contrastEngine } from './ContrastEngine';
+import { wcagCatalog } from './WCAGCatalog';
 
 /**
  * VisualAnalysisSystem - Singleton class for visual content accessibility analysis
@@ -40,6 +44,9 @@ export class VisualAnalysisSystem {
   // Performance Targets
   private readonly ANALYSIS_TIME_TARGET = 150; // milliseconds
   private readonly MAX_CONCURRENT_ANALYSIS = 10; // concurrent image analysis
+  private readonly MAX_CONTRAST_CHECKS = 50; // text elements checked for contrast, in document order
+  
+  private readonly TEXT_SELECTOR = 'p, span, div, h1, h2, h3, h4, h5, h6, a, button, label';
   
   // Analysis Counters
   private analysisCount: number = 0;
@@ -126,6 +133,44 @@ export class VisualAnalysisSystem {
     }
   }
   
+  /**
+   * Re-run the visual checks for a subset of elements
+   * 
+   * Applies the same checks as analyzeVisualContent to the given elements only,
+   * including its contrast limit, so the findings match a full analysis.
+   * 
+   * @param document - Document containing the elements
+   * @param elements - Elements to check
+   * @returns Promise<AccessibilityIssue[]> - Visual issues for the elements
+   */
+  async analyzeElements(document: Document, elements: readonly Element[]): Promise<AccessibilityIssue[]> {
+    // The full analysis does not look into shadow roots
+    const inDocument = elements.filter(element => element.getRootNode() === document);
+    const contrastChecked = new Set(
+      Array.from(document.querySelectorAll(this.TEXT_SELECTOR)).slice(0, this.MAX_CONTRAST_CHECKS)
+    );
+    const issues: AccessibilityIssue[] = [];
+    
+    for (const element of inDocument) {
+      if (element instanceof HTMLImageElement) {
+        issues.push(...(await this.analyzeImage(element)).issues);
+      } else if (element instanceof HTMLMediaElement) {
+        issues.push(...this.analyzeMediaElement(element).issues);
+      } else if (element instanceof HTMLTableElement && this.isLayoutTable(element)) {
+        issues.push(this.createLayoutTableIssue(element));
+      }
+      
+      if (contrastChecked.has(element)) {
+        const contrastIssue = await this.checkColorContrast(element);
+        if (contrastIssue) {
+          issues.push(contrastIssue);
+        }
+      }
+    }
+    
+    return issues;
+  }
+  
   /**
    * Analyze images for accessibility compliance
    * 
@@ -180,20 +225,23 @@ export class VisualAnalysisSystem {
     const ariaLabel = image.getAttribute('aria-label') || '';
     const ariaLabelledBy = image.getAttribute('aria-labelledby') || '';
     const role = image.getAttribute('role') || '';
+    const accessibleName = accessibleNameComputer.computeAccessibleName(image);
+    const isPresentational = role === 'presentation' || role === 'none';
+    const isHidden = accessibleNameComputer.isHiddenFromAccessibilityTree(image);
     
     // Check for missing alt text
-    if (!alt && !ariaLabel && !ariaLabelledBy && role !== 'presentation' && role !== 'none') {
+    if (!accessibleName && !image.hasAttribute('alt') && !isPresentational && !isHidden) {
       issues.push(this.createVisualIssue(
         'missing-alt-text',
         image,
         'Image is missing alternative text. Add descriptive alt text for screen readers.',
         'critical',
-        ['1.1.1']
+        'image-alt'
       ));
     }
     
     // Check for empty alt text on informative images
-    if (alt === '' && !ariaLabel && !ariaLabelledBy && role !== 'presentation' && role !== 'none') {
+    if (!accessibleName && image.getAttribute('alt') === '' && role !== 'presentation' && role !== 'none' && !isHidden) {
       // Check if image appears to be decorative based on context
       const isDecorative = this.isImageDecorative(image);
       if (!isDecorative) {
@@ -202,7 +250,7 @@ export class VisualAnalysisSystem {
           image,
           'Image appears informative but has empty alt text. Provide descriptive alternative text.',
           'high',
-          ['1.1.1']
+          'image-alt'
         ));
       }
     }
@@ -214,7 +262,7 @@ export class VisualAnalysisSystem {
         image,
         'Alt text appears redundant or non-descriptive. Provide meaningful description.',
         'medium',
-        ['1.1.1']
+        'image-alt'
       ));
     }
     
@@ -225,7 +273,7 @@ export class VisualAnalysisSystem {
         image,
         'Alt text is very long. Consider using shorter description or longdesc attribute.',
         'low',
-        ['1.1.1']
+        'image-alt'
       ));
     }
     
@@ -236,8 +284,8 @@ export class VisualAnalysisSystem {
       ariaLabel,
       ariaLabelledBy,
       role,
-      isDecorative: role === 'presentation' || role === 'none',
-      hasAccessibleName: !!(alt || ariaLabel || ariaLabelledBy),
+      isDecorative: isPresentational || isHidden || (image.getAttribute('alt') === '' && !accessibleName),
+      hasAccessibleName: accessibleName.length > 0,
       elementInfo: this.createElementInfo(image)
     };
     
@@ -298,7 +346,7 @@ export class VisualAnalysisSystem {
           ? 'Video is missing captions or subtitles. Provide captions for accessibility.'
           : 'Audio content should have a transcript available.',
         'critical',
-        ['1.2.2', '1.2.3']
+        isVideo ? 'media-captions' : 'media-transcript'
       ));
     }
     
@@ -311,7 +359,7 @@ export class VisualAnalysisSystem {
           media,
           'Video may need audio descriptions for visual content. Consider adding audio descriptions.',
           'medium',
-          ['1.2.5']
+          'media-audio-description'
         ));
       }
     }
@@ -323,7 +371,7 @@ export class VisualAnalysisSystem {
         media,
         'Media autoplays which can be disorienting. Consider removing autoplay or providing controls.',
         'medium',
-        ['1.4.2']
+        'media-autoplay'
       ));
     }
     
@@ -334,7 +382,7 @@ export class VisualAnalysisSystem {
         media,
         'Media lacks user controls. Provide controls for user to pause, stop, or adjust volume.',
         'medium',
-        ['1.4.2']
+        'media-controls'
       ));
     }
     
@@ -374,19 +422,13 @@ export class VisualAnalysisSystem {
       const tables = Array.from(document.querySelectorAll('table'));
       for (const table of tables) {
         if (this.isLayoutTable(table)) {
-          issues.push(this.createVisualIssue(
-            'semantic-markup',
-            table,
-            'Table appears to be used for layout. Use CSS for layout instead of tables.',
-            'medium',
-            ['1.3.1']
-          ));
+          issues.push(this.createLayoutTableIssue(table));
         }
       }
       
       // Check for elements with insufficient color contrast
-      const textElements = Array.from(document.querySelectorAll('p, span, div, h1, h2, h3, h4, h5, h6, a, button, label'));
-      for (const element of textElements.slice(0, 50)) { // Limit to first 50 for performance
+      const textElements = Array.from(document.querySelectorAll(this.TEXT_SELECTOR));
+      for (const element of textElements.slice(0, this.MAX_CONTRAST_CHECKS)) { // Limit for performance
         const contrastIssue = await this.checkColorContrast(element);
         if (contrastIssue) {
           issues.push(contrastIssue);
@@ -410,6 +452,17 @@ export class VisualAnalysisSystem {
    * @returns boolean - True if image appears decorative
    */
   private isImageDecorative(image: HTMLImageElement): boolean {
+    // Images hidden from assistive technology are never announced
+    if (accessibleNameComputer.isHiddenFromAccessibilityTree(image)) {
+      return true;
+    }
+    
+    // Images inside a control already named by its other content are redundant
+    const control = image.closest('a[href], button, [role="link"], [role="button"]');
+    if (control && accessibleNameComputer.computeAccessibleName(control)) {
+      return true;
+    }
+    
     // Check parent elements for decorative context
     const parent = image.parentElement;
     if (parent) {
@@ -484,28 +537,52 @@ export class VisualAnalysisSystem {
    */
   private async checkColorContrast(element: Element): Promise<AccessibilityIssue | null> {
     try {
-      const computedStyle = window.getComputedStyle(element);
-      const color = computedStyle.color;
-      const backgroundColor = computedStyle.backgroundColor;
-      
-      // Skip if no text content
-      if (!element.textContent?.trim()) {
+      // Skip elements that do not paint text of their own
+      const hasOwnText = Array.from(element.childNodes).some(node =>
+        node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+      );
+      if (!hasOwnText) {
         return null;
       }
       
-      // Basic contrast check (simplified)
-      if (color === backgroundColor) {
+      const measurement = contrastEngine.measureElementContrast(element);
+      
+      // A single ratio would be misleading over images, gradients or filters
+      if (measurement.needsReview) {
         return this.createVisualIssue(
           'insufficient-contrast',
           element,
-          'Text and background colors are identical, making text invisible.',
+          `Color contrast needs manual review: ${measurement.reviewReason}.`,
+          'low',
+          'text-contrast'
+        );
+      }
+      
+      const computedStyle = window.getComputedStyle(element);
+      const fontSize = parseFloat(computedStyle.fontSize);
+      const isBold = parseInt(computedStyle.fontWeight) >= 700;
+      const isLargeText = fontSize >= 24 || (fontSize >= 18.66 && isBold);
+      const requiredRatio = isLargeText ? 3.0 : 4.5;
+      
+      if (measurement.contrastRatio < 1.1) {
+        return this.createVisualIssue(
+          'insufficient-contrast',
+          element,
+          'Text and background colors are effectively identical, making text invisible.',
           'critical',
-          ['1.4.3']
+          'text-contrast'
         );
       }
       
-      // Additional contrast ratio calculation would go here
-      // For now, we'll skip complex color contrast calculations
+      if (measurement.contrastRatio < requiredRatio) {
+        return this.createVisualIssue(
+          'insufficient-contrast',
+          element,
+          `Text contrast ${measurement.contrastRatio.toFixed(2)}:1 (${measurement.foregroundColor} on ${measurement.backgroundColor}) is below the required ${requiredRatio}:1.`,
+          measurement.contrastRatio < 3.0 ? 'critical' : 'high',
+          'text-contrast'
+        );
+      }
       
       return null;
       
@@ -515,6 +592,16 @@ export class VisualAnalysisSystem {
     }
   }
   
+  private createLayoutTableIssue(table: HTMLTableElement): AccessibilityIssue {
+    return this.createVisualIssue(
+      'semantic-markup',
+      table,
+      'Table appears to be used for layout. Use CSS for layout instead of tables.',
+      'medium',
+      'layout-table'
+    );
+  }
+  
   /**
    * Create visual accessibility issue
    * 
@@ -522,7 +609,7 @@ export class VisualAnalysisSystem {
    * @param element - Element with issue
    * @param description - Issue description
    * @param severity - Issue severity
-   * @param wcagCriteria - WCAG criteria
+   * @param check - Check that found the issue; maps to WCAG criteria through the catalog
    * @returns AccessibilityIssue
    */
   private createVisualIssue(
@@ -530,8 +617,10 @@ export class VisualAnalysisSystem {
     element: Element, 
     description: string,
     severity: IssueSeverity = 'medium',
-    wcagCriteria: string[] = []
+    check?: WCAGCheckId
   ): AccessibilityIssue {
+    const wcagCriteria = check ? wcagCatalog.getCriteriaForCheck(check) : wcagCatalog.getCriteriaForIssueType(type);
+    
     return {
       id: `visual-${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       type,
@@ -541,7 +630,8 @@ export class VisualAnalysisSystem {
       wcagCriteria,
       suggestedFix: this.getSuggestedFix(type),
       detectedAt: Date.now(),
-      confidence: 0.9 // High confidence for visual analysis
+      confidence: 0.9, // High confidence for visual analysis
+      source: 'visual'
     };
   }
   
@@ -647,11 +737,13 @@ export class VisualAnalysisSystem {
   /**
    * Calculate overall accessibility score
    * 
+   * Public so the score can be recomputed after issues are dismissed during triage.
+   * 
    * @param issues - All accessibility issues found
    * @param document - Document analyzed
    * @returns number - Score from 0-100
    */
-  private calculateOverallScore(issues: AccessibilityIssue[], document: Document): number {
+  calculateOverallScore(issues: AccessibilityIssue[], document: Document): number {
     const totalElements = document.querySelectorAll('img, video, audio, table').length;
     if (totalElements === 0) return 100;
     
@@ -0,0 +1,507 @@
+/**
+ * WCAGCatalog.ts
+ *
+ * WCAG 2.2 Success Criteria Catalog for AccessiAI Chrome Extension
+ * Single source of truth for success criteria across the extension:
+ * - All WCAG 2.2 success criteria with level, principle and guideline
+ * - Short description and understanding text with a link to the Understanding document
+ * - Which automated checks test each criterion, and whether that decides it
+ *   (automated), only finds some failures (partial), or it is manual-only
+ * - Check-to-criteria mapping used by every analyzer to fill `wcagCriteria`
+ * - Coverage summaries listing criteria that still need manual review
+ *
+ * 4.1.1 Parsing is obsolete in WCAG 2.2 and is not listed.
+ *
+ * Performance Target: <1ms per lookup
+ *
+ * @version 2.0.0
+ * @author AccessiAI Team
+ */
+
+import {
+  AccessibilityIssue,
+  AccessibilityIssueType,
+  WCAGAutomation,
+  WCAGCatalogEntry,
+  WCAGCheckId,
+  WCAGCoverage,
+  WCAGCriteria,
+  WCAGPrinciple
+} from '../types/index';
+
+type CatalogSource = {
+  readonly id: string;
+  readonly title: string;
+  readonly level: WCAGCriteria['level'];
+  readonly since: WCAGCatalogEntry['since'];
+  readonly slug: string;
+  readonly automation: WCAGAutomation;
+  readonly checks: readonly WCAGCheckId[];
+  readonly description: string;
+  readonly understanding: string;
+};
+
+/**
+ * WCAGCatalog - Singleton catalog of WCAG 2.2 success criteria
+ */
+export class WCAGCatalog {
+  private static instance: WCAGCatalog;
+
+  private readonly UNDERSTANDING_BASE_URL = 'https://www.w3.org/WAI/WCAG22/Understanding/';
+
+  private readonly PRINCIPLES: Record<string, WCAGPrinciple> = {
+    '1': 'perceivable',
+    '2': 'operable',
+    '3': 'understandable',
+    '4': 'robust'
+  };
+
+  private readonly GUIDELINES: Record<string, string> = {
+    '1.1': 'Text Alternatives',
+    '1.2': 'Time-based Media',
+    '1.3': 'Adaptable',
+    '1.4': 'Distinguishable',
+    '2.1': 'Keyboard Accessible',
+    '2.2': 'Enough Time',
+    '2.3': 'Seizures and Physical Reactions',
+    '2.4': 'Navigable',
+    '2.5': 'Input Modalities',
+    '3.1': 'Readable',
+    '3.2': 'Predictable',
+    '3.3': 'Input Assistance',
+    '4.1': 'Compatible'
+  };
+
+  private readonly LEVEL_ORDER: Record<WCAGCriteria['level'], number> = { 'A': 0, 'AA': 1, 'AAA': 2 };
+
+  // Fallback check for issues that only carry an issue type (custom rules, generic analyzers)
+  private readonly ISSUE_TYPE_CHECKS: Record<AccessibilityIssueType, WCAGCheckId> = {
+    'missing-alt-text': 'image-alt',
+    'insufficient-contrast': 'text-contrast',
+    'keyboard-inaccessible': 'keyboard-access',
+    'missing-labels': 'form-label',
+    'invalid-aria': 'aria-valid',
+    'heading-structure': 'heading-structure',
+    'focus-management': 'focus-order',
+    'semantic-markup': 'semantic-structure',
+    'color-only-information': 'color-only',
+    'text-size': 'text-size',
+    'link-purpose': 'link-purpose',
+    'form-validation': 'form-validation'
+  };
+
+  private readonly SOURCE: readonly CatalogSource[] = [
+    // 1.1 Text Alternatives
+    { id: '1.1.1', title: 'Non-text Content', level: 'A', since: '2.0', slug: 'non-text-content', automation: 'partial', checks: ['image-alt'],
+      description: 'All non-text content has a text alternative that serves the equivalent purpose.',
+      understanding: 'Information conveyed by images, controls and other non-text content can be rendered as speech, braille or large print.' },
+
+    // 1.2 Time-based Media
+    { id: '1.2.1', title: 'Audio-only and Video-only (Prerecorded)', level: 'A', since: '2.0', slug: 'audio-only-and-video-only-prerecorded', automation: 'partial', checks: ['media-transcript'],
+      description: 'Prerecorded audio-only and video-only media have an equivalent alternative.',
+      understanding: 'People who cannot hear audio or see video can get the same information from a transcript or audio track.' },
+    { id: '1.2.2', title: 'Captions (Prerecorded)', level: 'A', since: '2.0', slug: 'captions-prerecorded', automation: 'partial', checks: ['media-captions'],
+      description: 'Captions are provided for all prerecorded audio content in synchronized media.',
+      understanding: 'Deaf and hard of hearing users can follow dialogue and important sounds in videos.' },
+    { id: '1.2.3', title: 'Audio Description or Media Alternative (Prerecorded)', level: 'A', since: '2.0', slug: 'audio-description-or-media-alternative-prerecorded', automation: 'partial', checks: ['media-audio-description'],
+      description: 'An audio description or full text alternative is provided for prerecorded video.',
+      understanding: 'Blind users get the visual information of a video through narration or a text alternative.' },
+    { id: '1.2.4', title: 'Captions (Live)', level: 'AA', since: '2.0', slug: 'captions-live', automation: 'manual', checks: [],
+      description: 'Captions are provided for all live audio content in synchronized media.',
+      understanding: 'Deaf and hard of hearing users can follow live broadcasts in real time.' },
+    { id: '1.2.5', title: 'Audio Description (Prerecorded)', level: 'AA', since: '2.0', slug: 'audio-description-prerecorded', automation: 'partial', checks: ['media-audio-description'],
+      description: 'Audio description is provided for all prerecorded video content.',
+      understanding: 'Blind users hear descriptions of important visual details that are not in the soundtrack.' },
+    { id: '1.2.6', title: 'Sign Language (Prerecorded)', level: 'AAA', since: '2.0', slug: 'sign-language-prerecorded', automation: 'manual', checks: [],
+      description: 'Sign language interpretation is provided for prerecorded audio content.',
+      understanding: 'People whose first language is a sign language can follow media in that language.' },
+    { id: '1.2.7', title: 'Extended Audio Description (Prerecorded)', level: 'AAA', since: '2.0', slug: 'extended-audio-description-prerecorded', automation: 'manual', checks: [],
+      description: 'Extended audio description is provided where pauses are too short for standard description.',
+      understanding: 'Video pauses so that descriptions can be as long as the visual information requires.' },
+    { id: '1.2.8', title: 'Media Alternative (Prerecorded)', level: 'AAA', since: '2.0', slug: 'media-alternative-prerecorded', automation: 'manual', checks: [],
+      description: 'A full text alternative is provided for all prerecorded synchronized and video-only media.',
+      understanding: 'Deaf-blind users and others can read everything that happens in the media.' },
+    { id: '1.2.9', title: 'Audio-only (Live)', level: 'AAA', since: '2.0', slug: 'audio-only-live', automation: 'manual', checks: [],
+      description: 'An alternative for live audio-only content is provided.',
+      understanding: 'Live audio such as radio webcasts is available as text in real time.' },
+
+    // 1.3 Adaptable
+    { id: '1.3.1', title: 'Info and Relationships', level: 'A', since: '2.0', slug: 'info-and-relationships', automation: 'partial', checks: ['layout-table', 'semantic-structure', 'landmarks', 'heading-structure', 'form-label', 'widget-structure'],
+      description: 'Information, structure and relationships conveyed through presentation are programmatically determinable.',
+      understanding: 'Structure that is visible, such as headings, lists, tables and labels, is also available to assistive technologies.' },
+    { id: '1.3.2', title: 'Meaningful Sequence', level: 'A', since: '2.0', slug: 'meaningful-sequence', automation: 'manual', checks: [],
+      description: 'When sequence affects meaning, the correct reading sequence is programmatically determinable.',
+      understanding: 'Screen readers present content in an order that keeps its meaning.' },
+    { id: '1.3.3', title: 'Sensory Characteristics', level: 'A', since: '2.0', slug: 'sensory-characteristics', automation: 'manual', checks: [],
+      description: 'Instructions do not rely solely on shape, color, size, location, orientation or sound.',
+      understanding: 'Users who cannot perceive shape or position can still follow instructions.' },
+    { id: '1.3.4', title: 'Orientation', level: 'AA', since: '2.1', slug: 'orientation', automation: 'manual', checks: [],
+      description: 'Content does not restrict its view and operation to a single display orientation unless essential.',
+      understanding: 'Users with devices mounted in a fixed orientation can use the content.' },
+    { id: '1.3.5', title: 'Identify Input Purpose', level: 'AA', since: '2.1', slug: 'identify-input-purpose', automation: 'manual', checks: [],
+      description: 'The purpose of inputs collecting user information can be programmatically determined.',
+      understanding: 'Browsers can autofill and tools can add familiar icons to personal data fields.' },
+    { id: '1.3.6', title: 'Identify Purpose', level: 'AAA', since: '2.1', slug: 'identify-purpose', automation: 'manual', checks: [],
+      description: 'The purpose of UI components, icons and regions can be programmatically determined.',
+      understanding: 'Content can be personalized, for example with symbols users already know.' },
+
+    // 1.4 Distinguishable
+    { id: '1.4.1', title: 'Use of Color', level: 'A', since: '2.0', slug: 'use-of-color', automation: 'partial', checks: ['color-only'],
+      description: 'Color is not the only visual means of conveying information or distinguishing elements.',
+      understanding: 'Users with color vision deficiencies receive the same information by other visual cues.' },
+    { id: '1.4.2', title: 'Audio Control', level: 'A', since: '2.0', slug: 'audio-control', automation: 'partial', checks: ['media-autoplay', 'media-controls'],
+      description: 'Audio playing automatically for more than 3 seconds can be paused, stopped or muted.',
+      understanding: 'Screen reader users can hear their reader over automatically playing audio.' },
+    { id: '1.4.3', title: 'Contrast (Minimum)', level: 'AA', since: '2.0', slug: 'contrast-minimum', automation: 'automated', checks: ['text-contrast'],
+      description: 'Text has a contrast ratio of at least 4.5:1, or 3:1 for large text.',
+      understanding: 'Text is readable by people with moderately low vision or color deficiencies.' },
+    { id: '1.4.4', title: 'Resize Text', level: 'AA', since: '2.0', slug: 'resize-text', automation: 'partial', checks: ['text-size'],
+      description: 'Text can be resized up to 200 percent without loss of content or functionality.',
+      understanding: 'People with low vision can enlarge text without assistive technology.' },
+    { id: '1.4.5', title: 'Images of Text', level: 'AA', since: '2.0', slug: 'images-of-text', automation: 'manual', checks: [],
+      description: 'Text is used instead of images of text, except where customizable or essential.',
+      understanding: 'Users can adjust the size, font and colors of text to suit their needs.' },
+    { id: '1.4.6', title: 'Contrast (Enhanced)', level: 'AAA', since: '2.0', slug: 'contrast-enhanced', automation: 'manual', checks: [],
+      description: 'Text has a contrast ratio of at least 7:1, or 4.5:1 for large text.',
+      understanding: 'Text is readable by people with more severe low vision.' },
+    { id: '1.4.7', title: 'Low or No Background Audio', level: 'AAA', since: '2.0', slug: 'low-or-no-background-audio', automation: 'manual', checks: [],
+      description: 'Prerecorded speech has no or very quiet background sound, or it can be turned off.',
+      understanding: 'Hard of hearing users can separate speech from background sounds.' },
+    { id: '1.4.8', title: 'Visual Presentation', level: 'AAA', since: '2.0', slug: 'visual-presentation', automation: 'manual', checks: [],
+      description: 'Blocks of text can be presented with user-selected colors, limited width, unjustified and well spaced.',
+      understanding: 'People with reading or visual disabilities can read and track blocks of text.' },
+    { id: '1.4.9', title: 'Images of Text (No Exception)', level: 'AAA', since: '2.0', slug: 'images-of-text-no-exception', automation: 'manual', checks: [],
+      description: 'Images of text are only used for decoration or where essential.',
+      understanding: 'All text can be customized by the user.' },
+    { id: '1.4.10', title: 'Reflow', level: 'AA', since: '2.1', slug: 'reflow', automation: 'manual', checks: [],
+      description: 'Content reflows at 320 CSS pixels wide without scrolling in two dimensions.',
+      understanding: 'Users who zoom to 400 percent can read without scrolling sideways line by line.' },
+    { id: '1.4.11', title: 'Non-text Contrast', level: 'AA', since: '2.1', slug: 'non-text-contrast', automation: 'manual', checks: [],
+      description: 'UI components and meaningful graphics have a contrast ratio of at least 3:1.',
+      understanding: 'People with low vision can see controls, their states and the graphics needed to understand content.' },
+    { id: '1.4.12', title: 'Text Spacing', level: 'AA', since: '2.1', slug: 'text-spacing', automation: 'manual', checks: [],
+      description: 'No content is lost when users increase line, paragraph, letter and word spacing.',
+      understanding: 'People who override text spacing to read more easily do not lose content.' },
+    { id: '1.4.13', title: 'Content on Hover or Focus', level: 'AA', since: '2.1', slug: 'content-on-hover-or-focus', automation: 'manual', checks: [],
+      description: 'Additional content shown on hover or focus is dismissible, hoverable and persistent.',
+      understanding: 'Tooltips and popups do not obscure content or disappear before users can read them.' },
+
+    // 2.1 Keyboard Accessible
+    { id: '2.1.1', title: 'Keyboard', level: 'A', since: '2.0', slug: 'keyboard', automation: 'partial', checks: ['keyboard-access', 'widget-keyboard'],
+      description: 'All functionality is operable through a keyboard interface.',
+      understanding: 'People who cannot use a mouse can operate every function.' },
+    { id: '2.1.2', title: 'No Keyboard Trap', level: 'A', since: '2.0', slug: 'no-keyboard-trap', automation: 'partial', checks: ['keyboard-trap'],
+      description: 'Keyboard focus can always be moved away from a component using the keyboard.',
+      understanding: 'Keyboard users do not get stuck inside a widget or embedded content.' },
+    { id: '2.1.3', title: 'Keyboard (No Exception)', level: 'AAA', since: '2.0', slug: 'keyboard-no-exception', automation: 'manual', checks: [],
+      description: 'All functionality is operable through a keyboard interface without exception.',
+      understanding: 'Every function, including path-dependent input, works from the keyboard.' },
+    { id: '2.1.4', title: 'Character Key Shortcuts', level: 'A', since: '2.1', slug: 'character-key-shortcuts', automation: 'manual', checks: [],
+      description: 'Single-character shortcuts can be turned off, remapped or are active only on focus.',
+      understanding: 'Speech input users do not trigger shortcuts by accident.' },
+
+    // 2.2 Enough Time
+    { id: '2.2.1', title: 'Timing Adjustable', level: 'A', since: '2.0', slug: 'timing-adjustable', automation: 'manual', checks: [],
+      description: 'Time limits can be turned off, adjusted or extended.',
+      understanding: 'People who need more time can complete tasks.' },
+    { id: '2.2.2', title: 'Pause, Stop, Hide', level: 'A', since: '2.0', slug: 'pause-stop-hide', automation: 'manual', checks: [],
+      description: 'Moving, blinking, scrolling or auto-updating information can be paused, stopped or hidden.',
+      understanding: 'Users who are distracted by movement can focus on the rest of the page.' },
+    { id: '2.2.3', title: 'No Timing', level: 'AAA', since: '2.0', slug: 'no-timing', automation: 'manual', checks: [],
+      description: 'Timing is not an essential part of the activity, except for real-time events.',
+      understanding: 'Users can complete tasks without any time pressure.' },
+    { id: '2.2.4', title: 'Interruptions', level: 'AAA', since: '2.0', slug: 'interruptions', automation: 'manual', checks: [],
+      description: 'Interruptions can be postponed or suppressed, except in emergencies.',
+      understanding: 'Users can keep their focus without unexpected updates.' },
+    { id: '2.2.5', title: 'Re-authenticating', level: 'AAA', since: '2.0', slug: 're-authenticating', automation: 'manual', checks: [],
+      description: 'Data is kept when an authenticated session expires and the user re-authenticates.',
+      understanding: 'Users who need more time do not lose their work when a session times out.' },
+    { id: '2.2.6', title: 'Timeouts', level: 'AAA', since: '2.1', slug: 'timeouts', automation: 'manual', checks: [],
+      description: 'Users are warned about inactivity timeouts that could cause data loss.',
+      understanding: 'Users know how long they can pause before losing their progress.' },
+
+    // 2.3 Seizures and Physical Reactions
+    { id: '2.3.1', title: 'Three Flashes or Below Threshold', level: 'A', since: '2.0', slug: 'three-flashes-or-below-threshold', automation: 'manual', checks: [],
+      description: 'Nothing flashes more than three times in one second, or flashes stay below thresholds.',
+      understanding: 'People with photosensitive seizure disorders are not put at risk.' },
+    { id: '2.3.2', title: 'Three Flashes', level: 'AAA', since: '2.0', slug: 'three-flashes', automation: 'manual', checks: [],
+      description: 'Nothing flashes more than three times in any one second period.',
+      understanding: 'Flashing content is avoided regardless of its size or brightness.' },
+    { id: '2.3.3', title: 'Animation from Interactions', level: 'AAA', since: '2.1', slug: 'animation-from-interactions', automation: 'manual', checks: [],
+      description: 'Motion animation triggered by interaction can be disabled unless essential.',
+      understanding: 'People with vestibular disorders can avoid motion that makes them ill.' },
+
+    // 2.4 Navigable
+    { id: '2.4.1', title: 'Bypass Blocks', level: 'A', since: '2.0', slug: 'bypass-blocks', automation: 'partial', checks: ['landmarks'],
+      description: 'A mechanism is available to bypass blocks of content repeated on multiple pages.',
+      understanding: 'Keyboard and screen reader users can skip straight to the main content.' },
+    { id: '2.4.2', title: 'Page Titled', level: 'A', since: '2.0', slug: 'page-titled', automation: 'manual', checks: [],
+      description: 'Web pages have titles that describe topic or purpose.',
+      understanding: 'Users can identify pages and tell tabs apart without reading their content.' },
+    { id: '2.4.3', title: 'Focus Order', level: 'A', since: '2.0', slug: 'focus-order', automation: 'partial', checks: ['focus-order'],
+      description: 'Focusable components receive focus in an order that preserves meaning and operability.',
+      understanding: 'Keyboard users move through content in a logical order.' },
+    { id: '2.4.4', title: 'Link Purpose (In Context)', level: 'A', since: '2.0', slug: 'link-purpose-in-context', automation: 'partial', checks: ['link-purpose'],
+      description: 'The purpose of each link can be determined from its text or its programmatic context.',
+      understanding: 'Users can decide which links to follow without visiting them.' },
+    { id: '2.4.5', title: 'Multiple Ways', level: 'AA', since: '2.0', slug: 'multiple-ways', automation: 'manual', checks: [],
+      description: 'More than one way is available to locate a page within a set of pages.',
+      understanding: 'Users can find content by the method that suits them, such as search or a site map.' },
+    { id: '2.4.6', title: 'Headings and Labels', level: 'AA', since: '2.0', slug: 'headings-and-labels', automation: 'manual', checks: [],
+      description: 'Headings and labels describe topic or purpose.',
+      understanding: 'Users can find information and understand its relationships quickly.' },
+    { id: '2.4.7', title: 'Focus Visible', level: 'AA', since: '2.0', slug: 'focus-visible', automation: 'partial', checks: ['focus-visible'],
+      description: 'Keyboard focus indicators are visible.',
+      understanding: 'Keyboard users can always see which element has focus.' },
+    { id: '2.4.8', title: 'Location', level: 'AAA', since: '2.0', slug: 'location', automation: 'manual', checks: [],
+      description: "Information about the user's location within a set of pages is available.",
+      understanding: 'Users know where they are within a site, for example through breadcrumbs.' },
+    { id: '2.4.9', title: 'Link Purpose (Link Only)', level: 'AAA', since: '2.0', slug: 'link-purpose-link-only', automation: 'manual', checks: [],
+      description: 'The purpose of each link can be identified from the link text alone.',
+      understanding: 'Link lists read out of context still make sense.' },
+    { id: '2.4.10', title: 'Section Headings', level: 'AAA', since: '2.0', slug: 'section-headings', automation: 'manual', checks: [],
+      description: 'Section headings are used to organize the content.',
+      understanding: 'Users can navigate long content section by section.' },
+    { id: '2.4.11', title: 'Focus Not Obscured (Minimum)', level: 'AA', since: '2.2', slug: 'focus-not-obscured-minimum', automation: 'manual', checks: [],
+      description: 'A focused component is not entirely hidden by author-created content.',
+      understanding: 'Sticky headers, banners and dialogs do not hide the focused element.' },
+    { id: '2.4.12', title: 'Focus Not Obscured (Enhanced)', level: 'AAA', since: '2.2', slug: 'focus-not-obscured-enhanced', automation: 'manual', checks: [],
+      description: 'No part of a focused component is hidden by author-created content.',
+      understanding: 'The whole focused element stays in view.' },
+    { id: '2.4.13', title: 'Focus Appearance', level: 'AAA', since: '2.2', slug: 'focus-appearance', automation: 'manual', checks: [],
+      description: 'Focus indicators are at least as large as a 2 CSS pixel perimeter and have 3:1 contrast.',
+      understanding: 'Focus indicators are large and clear enough for people with low vision.' },
+
+    // 2.5 Input Modalities
+    { id: '2.5.1', title: 'Pointer Gestures', level: 'A', since: '2.1', slug: 'pointer-gestures', automation: 'manual', checks: [],
+      description: 'Multipoint or path-based gestures have a single-pointer alternative.',
+      understanding: 'People who cannot perform complex gestures can still operate the content.' },
+    { id: '2.5.2', title: 'Pointer Cancellation', level: 'A', since: '2.1', slug: 'pointer-cancellation', automation: 'manual', checks: [],
+      description: 'Single-pointer functions can be aborted or undone and do not fire on the down-event.',
+      understanding: 'Accidental touches and clicks can be cancelled.' },
+    { id: '2.5.3', title: 'Label in Name', level: 'A', since: '2.1', slug: 'label-in-name', automation: 'manual', checks: [],
+      description: 'The accessible name of a labelled component contains its visible label text.',
+      understanding: 'Speech input users can activate controls by saying what they see.' },
+    { id: '2.5.4', title: 'Motion Actuation', level: 'A', since: '2.1', slug: 'motion-actuation', automation: 'manual', checks: [],
+      description: 'Functions triggered by device motion can be operated by UI components and disabled.',
+      understanding: 'Users with mounted devices or tremors are not forced to shake or tilt.' },
+    { id: '2.5.5', title: 'Target Size (Enhanced)', level: 'AAA', since: '2.1', slug: 'target-size-enhanced', automation: 'manual', checks: [],
+      description: 'Pointer targets are at least 44 by 44 CSS pixels.',
+      understanding: 'People with limited dexterity can hit targets easily.' },
+    { id: '2.5.6', title: 'Concurrent Input Mechanisms', level: 'AAA', since: '2.1', slug: 'concurrent-input-mechanisms', automation: 'manual', checks: [],
+      description: 'Content does not restrict use of the input modalities available on a platform.',
+      understanding: 'Users can switch between keyboard, mouse, touch and speech at any time.' },
+    { id: '2.5.7', title: 'Dragging Movements', level: 'AA', since: '2.2', slug: 'dragging-movements', automation: 'manual', checks: [],
+      description: 'Functions that use dragging can be achieved with a single pointer without dragging.',
+      understanding: 'People who cannot hold a pointer down while moving can still complete drag actions.' },
+    { id: '2.5.8', title: 'Target Size (Minimum)', level: 'AA', since: '2.2', slug: 'target-size-minimum', automation: 'manual', checks: [],
+      description: 'Pointer targets are at least 24 by 24 CSS pixels or have sufficient spacing.',
+      understanding: 'Small targets close together do not cause accidental activation.' },
+
+    // 3.1 Readable
+    { id: '3.1.1', title: 'Language of Page', level: 'A', since: '2.0', slug: 'language-of-page', automation: 'manual', checks: [],
+      description: 'The default human language of each page can be programmatically determined.',
+      understanding: 'Screen readers pronounce the text with the correct language rules.' },
+    { id: '3.1.2', title: 'Language of Parts', level: 'AA', since: '2.0', slug: 'language-of-parts', automation: 'manual', checks: [],
+      description: 'The language of each passage or phrase can be programmatically determined.',
+      understanding: 'Passages in other languages are pronounced correctly.' },
+    { id: '3.1.3', title: 'Unusual Words', level: 'AAA', since: '2.0', slug: 'unusual-words', automation: 'manual', checks: [],
+      description: 'A mechanism identifies definitions of unusual words and jargon.',
+      understanding: 'Readers can look up idioms and specialized terms.' },
+    { id: '3.1.4', title: 'Abbreviations', level: 'AAA', since: '2.0', slug: 'abbreviations', automation: 'manual', checks: [],
+      description: 'A mechanism identifies the expanded form of abbreviations.',
+      understanding: 'Readers understand abbreviations they do not know.' },
+    { id: '3.1.5', title: 'Reading Level', level: 'AAA', since: '2.0', slug: 'reading-level', automation: 'manual', checks: [],
+      description: 'Supplemental content is available when text requires more than lower secondary education reading ability.',
+      understanding: 'People with reading difficulties can understand the content.' },
+    { id: '3.1.6', title: 'Pronunciation', level: 'AAA', since: '2.0', slug: 'pronunciation', automation: 'manual', checks: [],
+      description: 'A mechanism identifies pronunciation where meaning is ambiguous without it.',
+      understanding: 'Readers can tell apart words that are spelled alike.' },
+
+    // 3.2 Predictable
+    { id: '3.2.1', title: 'On Focus', level: 'A', since: '2.0', slug: 'on-focus', automation: 'manual', checks: [],
+      description: 'Receiving focus does not initiate a change of context.',
+      understanding: 'Keyboard users are not surprised by navigation or popups when tabbing.' },
+    { id: '3.2.2', title: 'On Input', level: 'A', since: '2.0', slug: 'on-input', automation: 'manual', checks: [],
+      description: 'Changing a setting does not cause an unannounced change of context.',
+      understanding: 'Users are not disoriented by forms that submit or navigate on change.' },
+    { id: '3.2.3', title: 'Consistent Navigation', level: 'AA', since: '2.0', slug: 'consistent-navigation', automation: 'manual', checks: [],
+      description: 'Repeated navigation occurs in the same relative order across pages.',
+      understanding: 'Users can rely on finding navigation in the same place.' },
+    { id: '3.2.4', title: 'Consistent Identification', level: 'AA', since: '2.0', slug: 'consistent-identification', automation: 'manual', checks: [],
+      description: 'Components with the same function are identified consistently.',
+      understanding: 'Users recognize the same function across pages.' },
+    { id: '3.2.5', title: 'Change on Request', level: 'AAA', since: '2.0', slug: 'change-on-request', automation: 'manual', checks: [],
+      description: 'Changes of context are initiated only by user request or can be turned off.',
+      understanding: 'Users stay in control of what happens on the page.' },
+    { id: '3.2.6', title: 'Consistent Help', level: 'A', since: '2.2', slug: 'consistent-help', automation: 'manual', checks: [],
+      description: 'Help mechanisms repeated across pages appear in the same relative order.',
+      understanding: 'Users who need help can find it in the same place on every page.' },
+
+    // 3.3 Input Assistance
+    { id: '3.3.1', title: 'Error Identification', level: 'A', since: '2.0', slug: 'error-identification', automation: 'partial', checks: ['form-validation'],
+      description: 'Input errors are identified and described to the user in text.',
+      understanding: 'Users know that an error occurred and what it is.' },
+    { id: '3.3.2', title: 'Labels or Instructions', level: 'A', since: '2.0', slug: 'labels-or-instructions', automation: 'partial', checks: ['form-label', 'form-validation'],
+      description: 'Labels or instructions are provided when content requires user input.',
+      understanding: 'Users know what input is expected.' },
+    { id: '3.3.3', title: 'Error Suggestion', level: 'AA', since: '2.0', slug: 'error-suggestion', automation: 'manual', checks: [],
+      description: 'Suggestions for correcting detected input errors are provided.',
+      understanding: 'Users can fix their mistakes.' },
+    { id: '3.3.4', title: 'Error Prevention (Legal, Financial, Data)', level: 'AA', since: '2.0', slug: 'error-prevention-legal-financial-data', automation: 'manual', checks: [],
+      description: 'Legal, financial and data submissions are reversible, checked or confirmed.',
+      understanding: 'Users can avoid serious consequences of a mistake.' },
+    { id: '3.3.5', title: 'Help', level: 'AAA', since: '2.0', slug: 'help', automation: 'manual', checks: [],
+      description: 'Context-sensitive help is available.',
+      understanding: 'Users get help where they need it.' },
+    { id: '3.3.6', title: 'Error Prevention (All)', level: 'AAA', since: '2.0', slug: 'error-prevention-all', automation: 'manual', checks: [],
+      description: 'All submissions are reversible, checked or confirmed.',
+      understanding: 'Users can avoid the consequences of any mistake.' },
+    { id: '3.3.7', title: 'Redundant Entry', level: 'A', since: '2.2', slug: 'redundant-entry', automation: 'manual', checks: [],
+      description: 'Information entered previously in the same process is auto-populated or selectable.',
+      understanding: 'Users do not have to remember and re-enter information.' },
+    { id: '3.3.8', title: 'Accessible Authentication (Minimum)', level: 'AA', since: '2.2', slug: 'accessible-authentication-minimum', automation: 'manual', checks: [],
+      description: 'Authentication does not require a cognitive function test unless an alternative or assistance is provided.',
+      understanding: 'People with cognitive disabilities can log in, for example with password managers.' },
+    { id: '3.3.9', title: 'Accessible Authentication (Enhanced)', level: 'AAA', since: '2.2', slug: 'accessible-authentication-enhanced', automation: 'manual', checks: [],
+      description: 'Authentication does not require a cognitive function test, including object or content recognition.',
+      understanding: 'Login never depends on recognizing images or remembering information.' },
+
+    // 4.1 Compatible
+    { id: '4.1.2', title: 'Name, Role, Value', level: 'A', since: '2.0', slug: 'name-role-value', automation: 'partial', checks: ['aria-valid', 'widget-structure'],
+      description: 'Name and role of all UI components can be programmatically determined; states and values can be set.',
+      understanding: 'Assistive technologies can report and operate custom controls.' },
+    { id: '4.1.3', title: 'Status Messages', level: 'AA', since: '2.1', slug: 'status-messages', automation: 'manual', checks: [],
+      description: 'Status messages can be presented by assistive technologies without receiving focus.',
+      understanding: 'Screen reader users hear results, progress and errors without losing their place.' }
+  ];
+
+  private entries: Map<string, WCAGCatalogEntry>;
+  private checkCriteria: Map<WCAGCheckId, string[]>;
+
+  /**
+   * Get singleton instance of WCAGCatalog
+   */
+  static getInstance(): WCAGCatalog {
+    if (!WCAGCatalog.instance) {
+      WCAGCatalog.instance = new WCAGCatalog();
+    }
+    return WCAGCatalog.instance;
+  }
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    console.log('[WCAGCatalog] Initializing WCAG 2.2 Catalog...');
+    this.entries = new Map(this.SOURCE.map(source => [source.id, this.createEntry(source)]));
+    this.checkCriteria = this.buildCheckIndex();
+  }
+
+  /**
+   * Get a success criterion by id
+   *
+   * @param id - Success criterion id, e.g. '1.4.3'
+   * @returns WCAGCatalogEntry | undefined - undefined for unknown or obsolete criteria
+   */
+  getCriterion(id: string): WCAGCatalogEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Get every success criterion required for a conformance level
+   *
+   * @param level - Target level; lower levels are included
+   * @returns WCAGCatalogEntry[] - Criteria in success criterion order
+   */
+  getCriteria(level: WCAGCriteria['level'] = 'AAA'): WCAGCatalogEntry[] {
+    return [...this.entries.values()].filter(entry => this.LEVEL_ORDER[entry.level] <= this.LEVEL_ORDER[level]);
+  }
+
+  /**
+   * Get the criteria an automated check tests
+   *
+   * @param check - Check id
+   * @returns string[] - Success criterion ids, used as an issue's `wcagCriteria`
+   */
+  getCriteriaForCheck(check: WCAGCheckId): string[] {
+    return [...(this.checkCriteria.get(check) ?? [])];
+  }
+
+  /**
+   * Get the criteria for an issue type when the analyzer has no finer check
+   *
+   * @param type - Issue type
+   * @returns string[] - Success criterion ids
+   */
+  getCriteriaForIssueType(type: AccessibilityIssueType): string[] {
+    return this.getCriteriaForCheck(this.ISSUE_TYPE_CHECKS[type]);
+  }
+
+  /**
+   * Summarize automated coverage for a conformance level
+   *
+   * @param level - Target level
+   * @param issues - Detected issues; partial criteria with failures already need fixing, not review
+   * @returns WCAGCoverage - Criteria grouped by how far automation decides them
+   */
+  getCoverage(level: WCAGCriteria['level'], issues: readonly AccessibilityIssue[] = []): WCAGCoverage {
+    const criteria = this.getCriteria(level);
+    const failing = new Set(issues.flatMap(issue => issue.wcagCriteria));
+    const byAutomation = (automation: WCAGAutomation) => criteria.filter(entry => entry.automation === automation);
+
+    return {
+      level,
+      automated: byAutomation('automated'),
+      partial: byAutomation('partial'),
+      manual: byAutomation('manual'),
+      needsManualReview: criteria.filter(entry =>
+        entry.automation === 'manual' || (entry.automation === 'partial' && !failing.has(entry.id))
+      )
+    };
+  }
+
+  /**
+   * Link to the W3C Understanding document of a criterion
+   */
+  getUnderstandingUrl(id: string): string {
+    return this.entries.get(id)?.understandingUrl ?? this.UNDERSTANDING_BASE_URL;
+  }
+
+  // Catalog Construction
+
+  private createEntry(source: CatalogSource): WCAGCatalogEntry {
+    const guidelineId = source.id.split('.').slice(0, 2).join('.');
+
+    return {
+      id: source.id,
+      level: source.level,
+      principle: this.PRINCIPLES[source.id.charAt(0)] ?? 'robust',
+      guideline: `${guidelineId} ${this.GUIDELINES[guidelineId] ?? ''}`.trim(),
+      description: source.description,
+      successCriteria: source.title,
+      since: source.since,
+      understanding: source.understanding,
+      understandingUrl: `${this.UNDERSTANDING_BASE_URL}${source.slug}.html`,
+      automation: source.automation,
+      checks: source.checks
+    };
+  }
+
+  private buildCheckIndex(): Map<WCAGCheckId, string[]> {
+    const index = new Map<WCAGCheckId, string[]>();
+
+    for (const entry of this.entries.values()) {
+      for (const check of entry.checks) {
+        const criteria = index.get(check) ?? [];
+        criteria.push(entry.id);
+        index.set(check, criteria);
+      }
+    }
+
+    return index;
+  }
+}
+
+// Export singleton instance
+export const wcagCatalog = WCAGCatalog.getInstance();
@@ -0,0 +1,287 @@
+import { CommunicationAgent } from '../../src/agents/CommunicationAgent';
+import type {
+  AgentMessage,
+  AgentResponse,
+  CommunicationAction,
+  PerceptionResult,
+  ReaderDocument,
+  ReaderHighlight,
+  ReaderState
+} from '../../src/types/index';
+
+const TAB_ID = 7;
+
+const READER_DOCUMENT: ReaderDocument = {
+  pageUrl: 'https://example.com/article',
+  title: 'Article',
+  lang: 'en',
+  paragraphs: [
+    { kind: 'heading', label: 'Heading level 1', sentences: ['Welcome home.'] },
+    { kind: 'paragraph', label: '', sentences: ['First sentence here.', 'Second one.'] },
+    { kind: 'paragraph', label: '', sentences: ['Last paragraph.'] }
+  ]
+};
+
+interface Utterance {
+  readonly text: string;
+  readonly onEvent: (event: chrome.tts.TtsEvent) => void;
+}
+
+let utterances: Utterance[];
+let tabMessages: Array<{ type: string; [key: string]: unknown }>;
+let settings: Record<string, unknown> | undefined;
+
+function installChrome(): void {
+  const listeners = () => ({ addListener: jest.fn(), removeListener: jest.fn() });
+
+  Object.assign(globalThis, {
+    chrome: {
+      tts: {
+        speak: jest.fn((text: string, options: chrome.tts.SpeakOptions) => {
+          utterances.push({ text, onEvent: options.onEvent! });
+        }),
+        stop: jest.fn(),
+        getVoices: jest.fn(async () => [])
+      },
+      tabs: {
+        sendMessage: jest.fn(async (_tabId: number, message: { type: string }) => {
+          if (message.type === 'READER_PREPARE') {
+            return { success: true, data: READER_DOCUMENT };
+          }
+          tabMessages.push(message);
+          return undefined;
+        }),
+        query: jest.fn(async () => [{ id: TAB_ID }]),
+        onRemoved: listeners(),
+        onUpdated: listeners()
+      },
+      storage: {
+        local: { get: jest.fn(async () => ({ accessiaiSettings: settings })) },
+        onChanged: listeners()
+      }
+    }
+  });
+}
+
+let messageCount = 0;
+
+function command(action: CommunicationAction, data?: Record<string, unknown>): AgentMessage {
+  return {
+    id: `test-message-${++messageCount}`,
+    type: 'command',
+    source: 'test',
+    target: 'communication-agent',
+    payload: { action, ...(data ? { data } : {}) },
+    timestamp: Date.now(),
+    priority: 'normal'
+  };
+}
+
+async function send<T>(agent: CommunicationAgent, action: CommunicationAction, data?: Record<string, unknown>): Promise<T> {
+  const response: AgentResponse = await agent.processMessage(command(action, data));
+  if (!response.success) {
+    throw new Error(response.error?.message ?? `${action} failed`);
+  }
+  return response.data as T;
+}
+
+function lastUtterance(): Utterance {
+  const utterance = utterances[utterances.length - 1];
+  if (!utterance) {
+    throw new Error('Nothing was spoken');
+  }
+  return utterance;
+}
+
+function highlights(): ReaderHighlight[] {
+  return tabMessages
+    .filter(message => message.type === 'READER_HIGHLIGHT')
+    .map(message => message['highlight'] as ReaderHighlight);
+}
+
+describe('CommunicationAgent', () => {
+  let agent: CommunicationAgent;
+
+  async function restartWithSpeech(speech: Record<string, unknown>): Promise<void> {
+    await agent.shutdown();
+    settings = { accessibility: { speech } };
+    agent = new CommunicationAgent();
+    await agent.initialize();
+  }
+
+  beforeEach(async () => {
+    utterances = [];
+    tabMessages = [];
+    settings = undefined;
+    installChrome();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    agent = new CommunicationAgent();
+    await agent.initialize();
+  });
+
+  afterEach(async () => {
+    await agent.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  describe('page reader', () => {
+    it('speaks the first sentence after the paragraph label', async () => {
+      const state = await send<ReaderState>(agent, 'read-page', { tabId: TAB_ID });
+
+      expect(state).toMatchObject({ tabId: TAB_ID, status: 'playing', paragraph: 0, sentence: 0, totalParagraphs: 3 });
+      expect(lastUtterance().text).toBe('Heading level 1. Welcome home.');
+    });
+
+    it('skips sentences across paragraphs and stops at the ends of the page', async () => {
+      await send(agent, 'read-page', { tabId: TAB_ID });
+
+      const positions: Array<[number, number]> = [];
+      for (let i = 0; i < 4; i++) {
+        const state = await send<ReaderState>(agent, 'skip', { unit: 'sentence', direction: 'next' });
+        positions.push([state.paragraph, state.sentence]);
+      }
+      expect(positions).toEqual([[1, 0], [1, 1], [2, 0], [2, 0]]);
+
+      const back = await send<ReaderState>(agent, 'skip', { unit: 'sentence', direction: 'previous' });
+      expect([back.paragraph, back.sentence]).toEqual([1, 1]);
+      expect(lastUtterance().text).toBe('Second one.');
+    });
+
+    it('skips whole paragraphs to their first sentence', async () => {
+      await send(agent, 'read-page', { tabId: TAB_ID });
+      await send(agent, 'skip', { unit: 'sentence' });
+      await send(agent, 'skip', { unit: 'sentence' });
+
+      const previous = await send<ReaderState>(agent, 'skip', { unit: 'paragraph', direction: 'previous' });
+      expect([previous.paragraph, previous.sentence]).toEqual([0, 0]);
+
+      await send(agent, 'skip', { unit: 'paragraph' });
+      await send(agent, 'skip', { unit: 'paragraph' });
+      const last = await send<ReaderState>(agent, 'skip', { unit: 'paragraph' });
+      expect([last.paragraph, last.sentence]).toEqual([2, 0]);
+      expect(lastUtterance().text).toBe('Last paragraph.');
+    });
+
+    it('continues with the next sentence and stops after the last one', async () => {
+      await send(agent, 'read-page', { tabId: TAB_ID });
+      await send(agent, 'skip', { unit: 'paragraph' });
+      await send(agent, 'skip', { unit: 'sentence' });
+
+      lastUtterance().onEvent({ type: 'end' });
+      expect(lastUtterance().text).toBe('Last paragraph.');
+
+      lastUtterance().onEvent({ type: 'end' });
+      expect(await send<ReaderState>(agent, 'get-reader-state')).toMatchObject({ status: 'idle', tabId: null });
+    });
+
+    it('pauses without advancing and resumes at the start of the sentence', async () => {
+      await send(agent, 'read-page', { tabId: TAB_ID });
+      await send(agent, 'skip', { unit: 'sentence' });
+      const interrupted = lastUtterance();
+
+      const paused = await send<ReaderState>(agent, 'pause');
+      expect(paused.status).toBe('paused');
+      expect(chrome.tts.stop).toHaveBeenCalled();
+
+      // The stopped utterance still reports its end; the reader must stay put
+      interrupted.onEvent({ type: 'end' });
+      expect(utterances).toHaveLength(2);
+
+      const resumed = await send<ReaderState>(agent, 'resume');
+      expect(resumed).toMatchObject({ status: 'playing', paragraph: 1, sentence: 0 });
+      expect(utterances).toHaveLength(3);
+      expect(lastUtterance().text).toBe('First sentence here.');
+    });
+
+    it('rejects reader commands when nothing is being read', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const response = await agent.processMessage(command('pause'));
+
+      expect(response.success).toBe(false);
+      expect(response.error?.message).toBe('The page reader is not running');
+    });
+  });
+
+  describe('word highlighting', () => {
+    it('reports word positions within the sentence, not the spoken label', async () => {
+      await send(agent, 'read-page', { tabId: TAB_ID });
+      tabMessages = [];
+      const offset = 'Heading level 1. '.length;
+
+      lastUtterance().onEvent({ type: 'word', charIndex: 3 });
+      lastUtterance().onEvent({ type: 'word', charIndex: offset });
+      lastUtterance().onEvent({ type: 'word', charIndex: offset + 8, length: 5 });
+
+      expect(highlights()).toEqual([
+        { paragraph: 0, sentence: 0, charIndex: 0, length: 7 },
+        { paragraph: 0, sentence: 0, charIndex: 8, length: 5 }
+      ]);
+    });
+
+    it('uses the word length found in the sentence when the engine gives none', async () => {
+      await send(agent, 'read-page', { tabId: TAB_ID });
+      await send(agent, 'skip', { unit: 'sentence' });
+      tabMessages = [];
+
+      lastUtterance().onEvent({ type: 'word', charIndex: 6 });
+
+      expect(highlights()).toEqual([{ paragraph: 1, sentence: 0, charIndex: 6, length: 8 }]);
+    });
+
+    it('sends no word highlights when they are turned off', async () => {
+      await restartWithSpeech({ highlightWords: false });
+      await send(agent, 'read-page', { tabId: TAB_ID });
+      tabMessages = [];
+
+      lastUtterance().onEvent({ type: 'word', charIndex: 20 });
+
+      expect(highlights()).toEqual([]);
+    });
+  });
+
+  describe('scan announcements', () => {
+    const scan = {
+      tabId: TAB_ID,
+      url: READER_DOCUMENT.pageUrl,
+      title: READER_DOCUMENT.title,
+      scope: 'page',
+      complianceScore: 71.6,
+      totalIssues: 3,
+      criticalIssues: 1,
+      highPriorityIssues: 1,
+      issues: [],
+      analysisTime: 12,
+      analyzedAt: 0
+    } satisfies PerceptionResult;
+
+    it('stays silent unless scan results are to be announced', async () => {
+      const result = await send(agent, 'announce-scan', { scan });
+
+      expect(result).toEqual({ announced: false });
+      expect(utterances).toHaveLength(0);
+    });
+
+    it('speaks a summary when scan results are to be announced', async () => {
+      await restartWithSpeech({ announceScanResults: true });
+
+      const result = await send(agent, 'announce-scan', { scan });
+
+      const text = 'Accessibility scan complete. 3 issues found. 1 critical. Compliance score 72.';
+      expect(result).toEqual({ announced: true, text });
+      expect(lastUtterance().text).toBe(text);
+    });
+
+    it('pauses the reader for the announcement and resumes it afterwards', async () => {
+      await restartWithSpeech({ announceScanResults: true });
+      await send(agent, 'read-page', { tabId: TAB_ID });
+
+      await send(agent, 'announce-scan', { scan });
+      expect((await send<ReaderState>(agent, 'get-reader-state')).status).toBe('paused');
+
+      lastUtterance().onEvent({ type: 'end' });
+      expect((await send<ReaderState>(agent, 'get-reader-state')).status).toBe('playing');
+      expect(lastUtterance().text).toBe('Heading level 1. Welcome home.');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { AccessibilityPanel } from '../../src/ui/AccessibilityPanel';
+import type { AccessibilityIssue } from '../../src/types/index';
+
+// Keyboard probe issues quote accessible names, ids and classes straight from the page
+const PAGE_MARKUP = '<img src=x onerror="window.injected = true">';
+
+const PROBE_ISSUE: AccessibilityIssue = {
+  id: 'issue-probe-1',
+  type: 'focus-management',
+  severity: 'high',
+  element: {
+    tagName: 'button',
+    id: `menu"><img src=x onerror="window.injected = true">`,
+    className: `toggle ${PAGE_MARKUP}`,
+    xpath: `//*[@id="menu"]/${PAGE_MARKUP}`,
+    attributes: {},
+    boundingRect: document.createElement('button').getBoundingClientRect()
+  },
+  description: `Focus is trapped in button "${PAGE_MARKUP}"`,
+  wcagCriteria: ['2.1.2'],
+  suggestedFix: `Let Tab leave ${PAGE_MARKUP}`,
+  detectedAt: 0,
+  confidence: 0.8,
+  source: 'keyboard',
+  reproductionSteps: ['Press Tab']
+};
+
+describe('AccessibilityPanel', () => {
+  const panel = AccessibilityPanel.getInstance();
+
+  beforeAll(async () => {
+    Object.assign(globalThis, {
+      chrome: {
+        storage: {
+          local: {
+            get: jest.fn(async () => ({})),
+            set: jest.fn(async () => undefined)
+          }
+        }
+      }
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await panel.show();
+    await panel.updateIssues([PROBE_ISSUE]);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows page text in the issue list as text', () => {
+    const description = document.querySelector('.accessiai-issue-description');
+    const element = document.querySelector('.accessiai-issue-element code');
+
+    expect(description?.textContent?.trim()).toBe(PROBE_ISSUE.description);
+    expect(element?.textContent).toContain(PROBE_ISSUE.element.id);
+    expect(document.querySelector('.accessiai-issue-item img')).toBeNull();
+  });
+
+  it('shows page text in the issue details as text', async () => {
+    await panel.showIssueDetails(PROBE_ISSUE);
+
+    const modal = document.querySelector('.accessiai-modal')!;
+    expect(modal.textContent).toContain(PROBE_ISSUE.description);
+    expect(modal.textContent).toContain(PROBE_ISSUE.suggestedFix);
+    expect(modal.textContent).toContain(PROBE_ISSUE.element.xpath);
+    expect(modal.querySelector('img')).toBeNull();
+  });
+
+  it('never copies page ids into the panel', () => {
+    expect(document.querySelectorAll('[id^="menu"]')).toHaveLength(0);
+    expect((window as unknown as { injected?: boolean }).injected).toBeUndefined();
+  });
+});
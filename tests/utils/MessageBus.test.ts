@@ -0,0 +1,59 @@
+import { messageBus } from '../../src/utils/MessageBus';
+import type { AgentMessage } from '../../src/types/index';
+
+let messageCount = 0;
+
+function query(target: string, ttl?: number): AgentMessage {
+  return {
+    id: `test-request-${++messageCount}`,
+    type: 'query',
+    source: 'test',
+    target,
+    payload: { action: 'ping' },
+    timestamp: Date.now(),
+    priority: 'normal',
+    ...(ttl !== undefined ? { ttl } : {})
+  };
+}
+
+describe('MessageBus.request', () => {
+  const subscriptions: string[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await Promise.all(subscriptions.splice(0).map(id => messageBus.unsubscribe(id)));
+    jest.restoreAllMocks();
+  });
+
+  it('resolves with the response correlated to the request', async () => {
+    subscriptions.push(await messageBus.subscribe('echo-agent', async message => {
+      await messageBus.route({
+        ...query('test'),
+        type: 'response',
+        source: 'echo-agent',
+        correlationId: message.id,
+        payload: { action: 'pong' }
+      });
+    }));
+
+    const response = await messageBus.request(query('echo-agent'));
+
+    expect(response.payload.action).toBe('pong');
+  });
+
+  it('rejects at once when no agent is subscribed to the target', async () => {
+    const startedAt = Date.now();
+
+    await expect(messageBus.request(query('missing-agent'))).rejects.toThrow('No agent subscribed');
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('still waits for a subscribed agent until the TTL runs out', async () => {
+    subscriptions.push(await messageBus.subscribe('silent-agent', async () => undefined));
+
+    await expect(messageBus.request(query('silent-agent', 50))).rejects.toThrow('No response from silent-agent within 50ms');
+  });
+});
@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { siteCrawler } from '../../src/utils/SiteCrawler';
+import type { CrawlPageSnapshot, CrawlState } from '../../src/types/index';
+
+// Serves tests/fixtures/crawl-site, whose README lists the pages crawled at each depth
+const ORIGIN = 'http://localhost:8000';
+const FIXTURE_ROOT = join(__dirname, '..', 'fixtures', 'crawl-site');
+const CRAWL_TAB_ID = 42;
+
+function readFixture(url: string): string {
+  const { pathname } = new URL(url);
+  const file = pathname.endsWith('/') ? `${pathname}index.html` : pathname;
+  return readFileSync(join(FIXTURE_ROOT, file), 'utf8');
+}
+
+/**
+ * What the content script answers to CRAWL_ANALYZE_PAGE for a fixture page
+ */
+function snapshotPage(url: string): CrawlPageSnapshot {
+  const page = new DOMParser().parseFromString(readFixture(url), 'text/html');
+
+  return {
+    url,
+    title: page.title,
+    complianceScore: 100,
+    totalIssues: 0,
+    criticalIssues: 0,
+    highPriorityIssues: 0,
+    issueTypeCounts: {},
+    links: Array.from(page.querySelectorAll('a[href]'), link => new URL(link.getAttribute('href')!, url).href)
+  };
+}
+
+let tabUrl: string;
+let loadedUrls: string[];
+let analyzedInCrawlTab: boolean[];
+
+function installChrome(): void {
+  const updateListeners: Array<(tabId: number, changeInfo: { status?: string }, tab: { url: string }) => void> = [];
+  const stored: Record<string, unknown> = {};
+
+  Object.assign(globalThis, {
+    chrome: {
+      tabs: {
+        create: jest.fn(async () => ({ id: CRAWL_TAB_ID, url: 'about:blank' })),
+        update: jest.fn(async (tabId: number, { url }: { url: string }) => {
+          tabUrl = url;
+          loadedUrls.push(url);
+          setTimeout(() => updateListeners.forEach(listener => listener(tabId, { status: 'complete' }, { url })), 0);
+          return { id: tabId, url };
+        }),
+        get: jest.fn(async (tabId: number) => ({ id: tabId, url: tabUrl })),
+        remove: jest.fn(async () => undefined),
+        sendMessage: jest.fn(async (_tabId: number, message: { type: string }) => {
+          if (message.type !== 'CRAWL_ANALYZE_PAGE') {
+            throw new Error(`Unexpected message ${message.type}`);
+          }
+          analyzedInCrawlTab.push(siteCrawler.isCrawlTab(_tabId));
+          return { success: true, data: snapshotPage(tabUrl) };
+        }),
+        onUpdated: {
+          addListener: jest.fn(listener => updateListeners.push(listener)),
+          removeListener: jest.fn(listener => updateListeners.splice(updateListeners.indexOf(listener), 1))
+        }
+      },
+      storage: {
+        local: {
+          get: jest.fn(async (keys: string[]) => Object.fromEntries(keys.map(key => [key, stored[key]]))),
+          set: jest.fn(async (items: Record<string, unknown>) => Object.assign(stored, items))
+        }
+      }
+    }
+  });
+}
+
+async function crawl(maxDepth: number, maxPages: number = 50, startPath: string = '/'): Promise<CrawlState> {
+  await siteCrawler.start({ startUrl: `${ORIGIN}${startPath}`, maxDepth, maxPages });
+
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const state = await siteCrawler.getState();
+    if (state && state.status !== 'running') {
+      return state;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error('The crawl did not finish');
+}
+
+function crawledPaths(state: CrawlState): string[] {
+  return state.pages.map(page => new URL(page.url).pathname);
+}
+
+describe('SiteCrawler', () => {
+  beforeEach(() => {
+    tabUrl = 'about:blank';
+    loadedUrls = [];
+    analyzedInCrawlTab = [];
+    installChrome();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('depth limit', () => {
+    it('analyzes only the start page at depth 0', async () => {
+      const state = await crawl(0);
+
+      expect(state.status).toBe('completed');
+      expect(crawledPaths(state)).toEqual(['/']);
+    });
+
+    it('adds the pages linked from the start page at depth 1', async () => {
+      const state = await crawl(1);
+
+      expect(crawledPaths(state)).toEqual(['/', '/about.html', '/products/', '/contact.html']);
+      expect(state.pages.map(page => page.depth)).toEqual([0, 1, 1, 1]);
+    });
+
+    it('crawls breadth-first down to the requested depth', async () => {
+      const depth2 = await crawl(2);
+      expect(crawledPaths(depth2)).toEqual([
+        '/', '/about.html', '/products/', '/contact.html',
+        '/products/widget.html'
+      ]);
+
+      const depth3 = await crawl(3);
+      expect(crawledPaths(depth3)).toEqual([
+        '/', '/about.html', '/products/', '/contact.html',
+        '/products/widget.html',
+        '/products/specs.html'
+      ]);
+      expect(depth3.pages.every(page => page.status === 'analyzed')).toBe(true);
+    });
+  });
+
+  describe('crawl tab', () => {
+    it('is recognized while the crawl runs and forgotten afterwards', async () => {
+      await crawl(1);
+
+      expect(analyzedInCrawlTab).toEqual([true, true, true, true]);
+      expect(siteCrawler.isCrawlTab(CRAWL_TAB_ID)).toBe(false);
+    });
+  });
+
+  describe('page limit', () => {
+    it('stops after the page limit in crawl order', async () => {
+      const state = await crawl(3, 3);
+
+      expect(state.status).toBe('completed');
+      expect(crawledPaths(state)).toEqual(['/', '/about.html', '/products/']);
+      expect(loadedUrls).toHaveLength(3);
+    });
+  });
+
+  describe('link filtering', () => {
+    it('never loads other origins, downloads, mail links or fragments', async () => {
+      await crawl(3);
+
+      expect(loadedUrls.every(url => new URL(url).origin === ORIGIN)).toBe(true);
+      expect(loadedUrls.some(url => url.includes('#'))).toBe(false);
+      expect(loadedUrls).not.toContain(`${ORIGIN}/brochure.pdf`);
+      expect(new Set(loadedUrls).size).toBe(loadedUrls.length);
+    });
+
+    it('crawls index pages once, under their directory URL', async () => {
+      const state = await crawl(3, 50, '/index.html');
+
+      expect(crawledPaths(state)[0]).toBe('/');
+      expect(loadedUrls.some(url => url.endsWith('index.html'))).toBe(false);
+    });
+
+    it('follows a fragment link to its page only once', async () => {
+      const state = await crawl(2);
+
+      expect(crawledPaths(state).filter(path => path === '/products/widget.html')).toHaveLength(1);
+    });
+  });
+});